@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Loader2, Download } from 'lucide-react';
 import { Button } from '@/app/ui/shadcn/components/ui/button';
 import {
@@ -26,12 +26,37 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/app/ui/shadcn/components/ui/select';
-// Switch import removed (AI accompaniment toggle removed)
-import { GenerationSettings } from '@/app/lib/types';
+import { Switch } from '@/app/ui/shadcn/components/ui/switch';
+import {
+  CadenceType,
+  ChordProgressionEntry,
+  FormType,
+  GeneratedPieceData,
+  GenerationSettings,
+  ModulationTarget,
+  MusicXMLOptions,
+  ProgressionPreset,
+  SATBVoicer,
+} from '@/app/lib/types';
 import { generateChordProgression } from '@/app/lib/progression';
-import { generateVoices } from '@/app/lib';
-import generateMA from '@/app/lib/generateMA';
-import { scoreToMusicXML } from '@/app/lib/toMusicXml';
+import { CADENCE_LABELS } from '@/app/lib/cadence';
+import { FORM_PHRASE_COUNTS, generateForm } from '@/app/lib/form';
+import { getMeasureMeters, parseMeter } from '@/app/lib/generationUtils';
+import { getProgressionPreset } from '@/app/lib/markov';
+import { solveProgressionPattern } from '@/app/lib/progressionPattern';
+import {
+  createMidiFile,
+  createMusicXMLString,
+  generateMusicalData,
+} from '@/app/lib';
+import { resolveRandomSource } from '@/app/lib/random';
+import ScorePreview from '@/app/ui/score-preview';
+import PlaybackControls from '@/app/ui/playback-controls';
+import VoiceLeadingPanel from '@/app/ui/voice-leading-panel';
+import ProgressionEditor, {
+  isValidChord,
+  ProgressionChip,
+} from '@/app/ui/progression-editor';
 
 // --- Helper Data ---
 const commonKeys = [
@@ -71,6 +96,86 @@ const commonMeters = ['4/4', '3/4', '2/4', '2/2', '6/8', '9/8', '12/8'];
 // Define the possible generation styles
 type GenerationStyle = 'SATB' | 'MelodyAccompaniment';
 const generationStyles: GenerationStyle[] = ['SATB', 'MelodyAccompaniment'];
+const satbVoicerLabels: Record<SATBVoicer, string> = {
+  greedy: 'Greedy (chord by chord)',
+  viterbi: 'Optimal (whole progression)',
+};
+
+const modulationLabels: Record<string, string> = {
+  none: 'None',
+  dominant: 'To the dominant',
+  relative: 'To the relative major/minor',
+};
+
+/** Maps the modulation select value to a modulation target ('none' for no modulation). */
+const toModulationTarget = (value: string): ModulationTarget | undefined =>
+  value === 'none'
+    ? undefined
+    : value === 'dominant' || value === 'relative'
+      ? value
+      : { key: value };
+
+const harmonicRhythmLabels: Record<string, string> = {
+  '0.5': 'Every two measures',
+  '1': 'Every measure',
+  '2': 'Twice per measure',
+  '4': 'Every beat',
+};
+
+const finalCadenceLabels: Record<string, string> = {
+  default: 'Default',
+  PAC: 'Perfect authentic',
+  IAC: 'Imperfect authentic',
+  half: 'Half',
+  plagal: 'Plagal',
+  deceptive: 'Deceptive',
+  phrygianHalf: 'Phrygian half',
+};
+
+const progressionStyleLabels: Record<string, string> = {
+  builtIn: 'Built-in (functional tendencies)',
+  bachChorale: 'Bach chorale',
+  pop: 'Pop',
+  jazz: 'Jazz',
+};
+
+const formLabels: Record<string, string> = {
+  none: 'None (free progression)',
+  period: 'Period (antecedent + consequent)',
+  sentence: 'Sentence (presentation + continuation)',
+  AABA: 'AABA song form',
+};
+
+/**
+ * Pairs each chord of a progression with the (0-based) measure and beat it starts on, counting
+ * beats in the meter of each measure (the last meter of a list continues to the end).
+ */
+const getChordMeasures = (
+  progression: ChordProgressionEntry[],
+  meter: string,
+): ProgressionChip[] => {
+  const meterBeats = getMeasureMeters(meter).map((m) => parseMeter(m).beats);
+  const getMeasureBeats = (measureIndex: number) =>
+    meterBeats[Math.min(measureIndex, meterBeats.length - 1)];
+  let measureIndex = 0;
+  let beat = 0;
+  return progression.map((entry) => {
+    const chip = {
+      roman: typeof entry === 'string' ? entry : entry.roman,
+      measureIndex,
+      beat,
+    };
+    beat +=
+      typeof entry === 'string'
+        ? getMeasureBeats(measureIndex)
+        : entry.durationBeats;
+    while (beat >= getMeasureBeats(measureIndex)) {
+      beat -= getMeasureBeats(measureIndex);
+      measureIndex += 1;
+    }
+    return chip;
+  });
+};
 
 export default function Page() {
   // --- State Variables ---
@@ -80,25 +185,101 @@ export default function Page() {
   const [harmonicComplexity, setHarmonicComplexity] = useState<number>(5); // Slider value 0-10
   const [melodicSmoothness, setMelodicSmoothness] = useState<number>(7); // Slider value 0-10
   const [dissonanceStrictness, setDissonanceStrictness] = useState<number>(5); // Slider value 0-10
+  const [mixturePercent, setMixturePercent] = useState<number>(0); // Slider value 0-100
+  const [modulation, setModulation] = useState<string>('none'); // 'none', 'dominant', 'relative' or a key
+  const [harmonicRhythm, setHarmonicRhythm] = useState<string>('1'); // Chord changes per measure
+  const [finalCadence, setFinalCadence] = useState<string>('default'); // 'default' or a CadenceType
+  const [form, setForm] = useState<string>('none'); // 'none' or a FormType (SATB only)
+  const [progressionStyle, setProgressionStyle] = useState<string>('builtIn'); // 'builtIn' or a ProgressionPreset
+  const [progressionPattern, setProgressionPattern] = useState<string>(''); // Empty = generate freely
   const [generationStyle, setGenerationStyle] =
     useState<GenerationStyle>('SATB');
+  const [satbVoicer, setSatbVoicer] = useState<SATBVoicer>('greedy');
+  const [seedInput, setSeedInput] = useState<string>(''); // Empty = random seed
+  const [usedSeed, setUsedSeed] = useState<number | null>(null);
 
   const [generatedProgression, setGeneratedProgression] = useState<
-    string[] | null
+    ProgressionChip[] | null
   >(null);
+  // Measures (0-based) kept when the others are regenerated
+  const [lockedMeasures, setLockedMeasures] = useState<number[]>([]);
+  // Inputs of the last generation, reused to regenerate its unlocked measures
+  const [lastRun, setLastRun] = useState<{
+    progression: ChordProgressionEntry[];
+    keySignature: string;
+    meter: string;
+    numMeasures: number;
+    settings: GenerationSettings;
+  } | null>(null);
   const [generatedMusicXml, setGeneratedMusicXml] = useState<string | null>(
     null,
   );
+  // Annotations written with the notes; changing them rewrites the current score
+  const [musicXmlOptions, setMusicXmlOptions] = useState<MusicXMLOptions>({
+    chordSymbols: true,
+    romanNumerals: false,
+  });
+  // Writes the current piece as MusicXML with the given annotations
+  const writeMusicXmlRef = useRef<
+    ((options: MusicXMLOptions) => string) | null
+  >(null);
+  // Intermediate piece data, used for MIDI export and audio playback
+  const [generatedPieceData, setGeneratedPieceData] =
+    useState<GeneratedPieceData | null>(null);
+  // Measure (0-based) highlighted in the score preview
+  const [highlightedMeasure, setHighlightedMeasure] = useState<number | null>(
+    null,
+  );
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  const hasPattern = progressionPattern.trim() !== '';
+
+  /** The cadence whose final chord starts at the given measure and beat, if any. */
+  const getCadenceAt = (
+    measureIndex: number,
+    beat: number,
+  ): CadenceType | undefined => {
+    if (!generatedPieceData) return undefined;
+    const { divisions, meter: pieceMeter } = generatedPieceData.metadata;
+    const measure = generatedPieceData.measures[measureIndex];
+    // Beats are counted in the measure's own meter, which may differ from the first one
+    const { beatType } = parseMeter(measure?.meter ?? pieceMeter);
+    const ticksPerBeat = (divisions * 4) / beatType;
+    const cadence = measure?.cadence;
+    return cadence && cadence.tick === beat * ticksPerBeat
+      ? cadence.type
+      : undefined;
+  };
+
   // --- Event Handlers ---
 
+  /** Shows a newly generated score, keeping its writer to redo it when the annotations change. */
+  const showMusicXml = (write: (options: MusicXMLOptions) => string) => {
+    writeMusicXmlRef.current = write;
+    setGeneratedMusicXml(write(musicXmlOptions));
+  };
+
+  const handleMusicXmlOptionChange = (
+    option: keyof MusicXMLOptions,
+    checked: boolean,
+  ) => {
+    const options = { ...musicXmlOptions, [option]: checked };
+    setMusicXmlOptions(options);
+    if (writeMusicXmlRef.current && generatedMusicXml)
+      setGeneratedMusicXml(writeMusicXmlRef.current(options));
+  };
+
   const handleUnifiedGenerate = () => {
     setIsLoading(true);
     setError(null);
     setGeneratedProgression(null);
     setGeneratedMusicXml(null);
+    setGeneratedPieceData(null);
+    setHighlightedMeasure(null);
+    setUsedSeed(null);
+    setLockedMeasures([]);
+    setLastRun(null);
 
     // Basic validation
     if (numMeasures <= 0) {
@@ -106,53 +287,142 @@ export default function Page() {
       setIsLoading(false);
       return;
     }
+    const trimmedSeed = seedInput.trim();
+    // A pattern fixes the number of chords and replaces the modulation, form and cadence controls
+    const pattern = progressionPattern.trim();
+    if (trimmedSeed !== '' && !/^\d+$/.test(trimmedSeed)) {
+      setError('Seed must be a non-negative whole number.');
+      setIsLoading(false);
+      return;
+    }
 
     // Use setTimeout to allow UI to update before potentially blocking generation
-    setTimeout(async () => {
+    setTimeout(() => {
       try {
+        // One seed drives the whole run so the same seed reproduces the same piece
+        const { seed, rng } = resolveRandomSource(
+          trimmedSeed === '' ? undefined : Number(trimmedSeed),
+        );
         const settings: GenerationSettings = {
           melodicSmoothness,
           dissonanceStrictness,
           harmonicComplexity,
           generationStyle,
+          seed,
+          satbVoicer,
+          mixtureProbability: mixturePercent / 100,
+          modulation:
+            pattern === '' ? toModulationTarget(modulation) : undefined,
+          harmonicRhythm:
+            generationStyle === 'SATB' && pattern === ''
+              ? Number(harmonicRhythm)
+              : undefined,
+          cadences:
+            finalCadence === 'default' || pattern !== ''
+              ? undefined
+              : [{ chordIndex: -1, type: finalCadence as CadenceType }],
         };
 
         // 1. Generate Progression
-        const progression = generateChordProgression(
-          keySignature,
-          numMeasures,
-          harmonicComplexity,
-        );
-        setGeneratedProgression(progression);
+        const progressionOptions = {
+          mixtureProbability: settings.mixtureProbability,
+          modulation: settings.modulation,
+          cadences: settings.cadences,
+          model:
+            progressionStyle === 'builtIn'
+              ? undefined
+              : getProgressionPreset(progressionStyle as ProgressionPreset),
+        };
+        setUsedSeed(seed);
 
-        if (generationStyle === 'SATB') {
-          // 2. Generate Voices (MusicXML)
-          const musicXml = generateVoices(
+        if (generationStyle === 'SATB' && pattern === '' && form !== 'none') {
+          // The form decides the phrases, cadences and repeats; the measures are split into
+          // phrases of at least four measures
+          const formType = form as FormType;
+          const plan = generateForm(
+            keySignature,
+            formType,
+            Math.max(4, Math.floor(numMeasures / FORM_PHRASE_COUNTS[formType])),
+            harmonicComplexity,
+            rng,
+            {
+              mixtureProbability: settings.mixtureProbability,
+              model: progressionOptions.model,
+            },
+          );
+          setGeneratedProgression(getChordMeasures(plan.progression, meter));
+          const formSettings: GenerationSettings = {
+            ...settings,
+            cadences: plan.cadences,
+            phrases: plan.phrases,
+            measureRepeats: plan.measureRepeats,
+          };
+          const musicalData = generateMusicalData(
+            plan.progression,
+            keySignature,
+            meter,
+            plan.progression.length,
+            formSettings,
+          );
+          setLastRun({
+            progression: plan.progression,
+            keySignature,
+            meter,
+            numMeasures: plan.progression.length,
+            settings: formSettings,
+          });
+          showMusicXml((options) => createMusicXMLString(musicalData, options));
+          setGeneratedPieceData(musicalData);
+        } else {
+          // Both styles are voiced by the same engine, so either can be edited and regenerated
+          const progression =
+            pattern !== ''
+              ? solveProgressionPattern(
+                  pattern,
+                  keySignature,
+                  harmonicComplexity,
+                  rng,
+                  progressionOptions,
+                )
+              : settings.harmonicRhythm !== undefined
+                ? generateChordProgression(
+                    keySignature,
+                    numMeasures,
+                    harmonicComplexity,
+                    rng,
+                    {
+                      ...progressionOptions,
+                      harmonicRhythm: settings.harmonicRhythm,
+                      meter,
+                    },
+                  )
+                : generateChordProgression(
+                    keySignature,
+                    numMeasures,
+                    harmonicComplexity,
+                    rng,
+                    progressionOptions,
+                  );
+          setGeneratedProgression(getChordMeasures(progression, meter));
+          // 2. Generate Voices, then export as MusicXML
+          const pieceMeasures =
+            pattern !== '' ? progression.length : numMeasures;
+          const musicalData = generateMusicalData(
             progression,
             keySignature,
             meter,
-            numMeasures,
+            pieceMeasures,
             settings,
           );
-          setGeneratedMusicXml(musicXml);
-        } else if (generationStyle === 'MelodyAccompaniment') {
-          const { melody, accompaniment } = await generateMA(
-            progression, // chord progression array (first arg)
+          setLastRun({
+            progression,
             keySignature,
             meter,
-            {
-              melody: { min: 'F3', max: 'F6' },
-              accompaniment: { min: 'B1', max: 'G4' },
-            },
-          );
-          setGeneratedMusicXml(
-            scoreToMusicXML(
-              { melody, accompaniment },
-              keySignature,
-              meter,
-              'Generated Melody & Accompaniment',
-            ),
-          );
+            numMeasures: pieceMeasures,
+            settings,
+          });
+          showMusicXml((options) => createMusicXMLString(musicalData, options));
+          setGeneratedPieceData(musicalData);
         }
       } catch (err) {
         console.error('Generation failed:', err);
@@ -162,30 +432,114 @@ export default function Page() {
             : 'An unknown error occurred during generation.',
         );
         setGeneratedProgression(null);
+        setGeneratedMusicXml(null);
+        setGeneratedPieceData(null);
+        setUsedSeed(null);
       } finally {
         setIsLoading(false);
       }
     }, 10); // Short delay
   };
 
-  const handleDownload = () => {
-    if (!generatedMusicXml) return;
+  /** Replaces a chord of the progression; an edited measure is no longer locked. */
+  const handleChordChange = (chipIndex: number, roman: string) => {
+    if (!generatedProgression) return;
+    const chip = generatedProgression[chipIndex];
+    setGeneratedProgression(
+      generatedProgression.map((c, i) =>
+        i === chipIndex ? { ...c, roman } : c,
+      ),
+    );
+    setLockedMeasures(lockedMeasures.filter((m) => m !== chip.measureIndex));
+  };
+
+  const handleToggleLock = (measureIndex: number) =>
+    setLockedMeasures(
+      lockedMeasures.includes(measureIndex)
+        ? lockedMeasures.filter((m) => m !== measureIndex)
+        : [...lockedMeasures, measureIndex],
+    );
 
-    const blob = new Blob([generatedMusicXml], {
-      type: 'application/vnd.musicxml+xml',
-    });
+  /** Regenerates the measures that are not locked with the (edited) progression and a new seed. */
+  const handleRegenerateUnlocked = () => {
+    if (!lastRun || !generatedProgression || !generatedPieceData) return;
+    if (
+      generatedProgression.some(
+        ({ roman }) => !isValidChord(roman, lastRun.keySignature),
+      )
+    ) {
+      setError('Fix the chords marked in red before regenerating.');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        const progression = lastRun.progression.map((entry, i) =>
+          typeof entry === 'string'
+            ? generatedProgression[i].roman
+            : { ...entry, roman: generatedProgression[i].roman },
+        );
+        const { seed } = resolveRandomSource();
+        const settings = { ...lastRun.settings, seed };
+        const musicalData = generateMusicalData(
+          progression,
+          lastRun.keySignature,
+          lastRun.meter,
+          lastRun.numMeasures,
+          {
+            ...settings,
+            lockedMeasures: generatedPieceData.measures.filter((measure) =>
+              lockedMeasures.includes(measure.measureNumber - 1),
+            ),
+          },
+        );
+        setLastRun({ ...lastRun, progression, settings });
+        setUsedSeed(seed);
+        showMusicXml((options) => createMusicXMLString(musicalData, options));
+        setGeneratedPieceData(musicalData);
+      } catch (err) {
+        console.error('Regeneration failed:', err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : 'An unknown error occurred during regeneration.',
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    }, 10);
+  };
+
+  const downloadFile = (blob: Blob, extension: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
     // Sanitize key signature for filename
     const safeKey = keySignature.replace(/#/g, 's').replace(/b/g, 'f');
-    a.download = `generated-${generationStyle.toLowerCase()}-${safeKey}-${Date.now()}.musicxml`; // Include style in filename
+    a.download = `generated-${generationStyle.toLowerCase()}-${safeKey}-${Date.now()}.${extension}`; // Include style in filename
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const handleDownload = () => {
+    if (!generatedMusicXml) return;
+    downloadFile(
+      new Blob([generatedMusicXml], { type: 'application/vnd.musicxml+xml' }),
+      'musicxml',
+    );
+  };
+
+  const handleDownloadMidi = () => {
+    if (!generatedPieceData) return;
+    downloadFile(
+      new Blob([createMidiFile(generatedPieceData)], { type: 'audio/midi' }),
+      'mid',
+    );
+  };
+
   // --- Render ---
   return (
     <div className="container mx-auto p-4 md:p-8">
@@ -263,8 +617,8 @@ export default function Page() {
 
           {/* AI accompaniment switch removed */}
 
-          {/* Number of Measures  */}
-          <div className="grid grid-cols-1 gap-4 pt-4">
+          {/* Number of Measures & Seed */}
+          <div className="grid grid-cols-1 gap-4 pt-4 md:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="num-measures">Number of Measures</Label>
               <Input
@@ -279,6 +633,180 @@ export default function Page() {
                 }
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="seed-input">Seed (optional)</Label>
+              <Input
+                id="seed-input"
+                inputMode="numeric"
+                placeholder="Random"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="progression-pattern">
+              Progression Pattern (optional)
+            </Label>
+            <Input
+              id="progression-pattern"
+              placeholder="e.g., I ? ? V | ? ? V7 I"
+              value={progressionPattern}
+              onChange={(e) => setProgressionPattern(e.target.value)}
+            />
+            <p className="text-muted-foreground text-xs">
+              One chord per measure, in place of the number of measures: Roman
+              numerals are kept, ? is any chord and T, S or D any tonic,
+              predominant or dominant chord.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="progression-style-select">Progression Style</Label>
+            <Select
+              value={progressionStyle}
+              onValueChange={setProgressionStyle}
+            >
+              <SelectTrigger id="progression-style-select">
+                <SelectValue placeholder="Select style..." />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(progressionStyleLabels).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {progressionStyleLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!hasPattern && (
+            <div className="space-y-2">
+              <Label htmlFor="modulation-select">Modulation</Label>
+              <Select value={modulation} onValueChange={setModulation}>
+                <SelectTrigger id="modulation-select">
+                  <SelectValue placeholder="Select modulation..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(modulationLabels).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {modulationLabels[value]}
+                    </SelectItem>
+                  ))}
+                  {commonKeys
+                    .filter((key) => key !== keySignature)
+                    .map((key) => (
+                      <SelectItem key={key} value={key}>
+                        To {key}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {generationStyle === 'SATB' && !hasPattern && (
+            <div className="space-y-2">
+              <Label htmlFor="form-select">Form</Label>
+              <Select value={form} onValueChange={setForm}>
+                <SelectTrigger id="form-select">
+                  <SelectValue placeholder="Select form..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(formLabels).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {formLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {!hasPattern && (generationStyle !== 'SATB' || form === 'none') && (
+            <div className="space-y-2">
+              <Label htmlFor="cadence-select">Final Cadence</Label>
+              <Select value={finalCadence} onValueChange={setFinalCadence}>
+                <SelectTrigger id="cadence-select">
+                  <SelectValue placeholder="Select cadence..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(finalCadenceLabels).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {finalCadenceLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {generationStyle === 'SATB' && !hasPattern && form === 'none' && (
+            <div className="space-y-2">
+              <Label htmlFor="harmonic-rhythm-select">Chord Changes</Label>
+              <Select value={harmonicRhythm} onValueChange={setHarmonicRhythm}>
+                <SelectTrigger id="harmonic-rhythm-select">
+                  <SelectValue placeholder="Select harmonic rhythm..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(harmonicRhythmLabels).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {harmonicRhythmLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {generationStyle === 'SATB' && (
+            <div className="space-y-2">
+              <Label htmlFor="voicer-select">SATB Voicing</Label>
+              <Select
+                value={satbVoicer}
+                onValueChange={(value: SATBVoicer) => setSatbVoicer(value)}
+              >
+                <SelectTrigger id="voicer-select">
+                  <SelectValue placeholder="Select voicing..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(satbVoicerLabels) as SATBVoicer[]).map(
+                    (voicer) => (
+                      <SelectItem key={voicer} value={voicer}>
+                        {satbVoicerLabels[voicer]}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* --- Score Annotations --- */}
+          <div className="flex flex-wrap gap-6 pt-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="chord-symbols-switch"
+                checked={musicXmlOptions.chordSymbols}
+                onCheckedChange={(checked) =>
+                  handleMusicXmlOptionChange('chordSymbols', checked)
+                }
+              />
+              <Label htmlFor="chord-symbols-switch">Chord symbols</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="roman-numerals-switch"
+                checked={musicXmlOptions.romanNumerals}
+                onCheckedChange={(checked) =>
+                  handleMusicXmlOptionChange('romanNumerals', checked)
+                }
+              />
+              <Label htmlFor="roman-numerals-switch">
+                Roman numerals (below the bass)
+              </Label>
+            </div>
           </div>
 
           {/* --- Sliders --- */}
@@ -298,6 +826,21 @@ export default function Page() {
               />
             </div>
 
+            {/* Modal Mixture */}
+            <div className="space-y-2">
+              <Label htmlFor="mixture-slider">
+                Modal Mixture ({mixturePercent}%)
+              </Label>
+              <Slider
+                id="mixture-slider"
+                min={0}
+                max={100}
+                step={5}
+                value={[mixturePercent]}
+                onValueChange={(value) => setMixturePercent(value[0])}
+              />
+            </div>
+
             {/* Melodic Smoothness */}
             <div className="space-y-2">
               <Label htmlFor="smoothness-slider">
@@ -341,11 +884,81 @@ export default function Page() {
           {generatedProgression && (
             <div className="space-y-2 pt-4">
               <Label>Generated Progression:</Label>
-              <p className="bg-muted rounded p-2 font-mono text-sm">
-                {generatedProgression.join(' - ')}
-              </p>
+              <ProgressionEditor
+                chips={generatedProgression}
+                numMeasures={
+                  generatedPieceData?.measures.length ??
+                  generatedProgression.length
+                }
+                keySignature={lastRun?.keySignature ?? keySignature}
+                lockedMeasures={lockedMeasures}
+                highlightedMeasure={highlightedMeasure}
+                getCadenceLabel={({ measureIndex, beat }) => {
+                  const cadence = getCadenceAt(measureIndex, beat);
+                  return cadence && CADENCE_LABELS[cadence];
+                }}
+                readOnly={!lastRun}
+                onChangeChord={handleChordChange}
+                onToggleLock={handleToggleLock}
+                onSelectMeasure={(measureIndex) =>
+                  setHighlightedMeasure(
+                    highlightedMeasure === measureIndex ? null : measureIndex,
+                  )
+                }
+              />
+              {lastRun && (
+                <Button
+                  onClick={handleRegenerateUnlocked}
+                  disabled={
+                    isLoading || lockedMeasures.length === lastRun.numMeasures
+                  }
+                  variant="secondary"
+                  size="sm"
+                >
+                  Regenerate Unlocked Measures
+                </Button>
+              )}
+              {usedSeed !== null && (
+                <p className="text-muted-foreground text-xs">
+                  Seed: <span className="font-mono">{usedSeed}</span>{' '}
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => setSeedInput(String(usedSeed))}
+                  >
+                    Reuse
+                  </button>
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* --- Score Preview --- */}
+          {generatedMusicXml && !isLoading && (
+            <div className="space-y-2">
+              <Label>Score Preview:</Label>
+              <ScorePreview
+                musicXml={generatedMusicXml}
+                highlightedMeasure={highlightedMeasure}
+              />
             </div>
           )}
+
+          {/* --- Voice-leading Report --- */}
+          {generatedPieceData?.voiceLeadingReport && !isLoading && (
+            <VoiceLeadingPanel
+              report={generatedPieceData.voiceLeadingReport}
+              onSelectMeasure={setHighlightedMeasure}
+            />
+          )}
+
+          {/* --- Playback --- */}
+          {generatedPieceData && !isLoading && (
+            <PlaybackControls
+              pieceData={generatedPieceData}
+              onMeasureChange={setHighlightedMeasure}
+            />
+          )}
         </CardContent>
         <CardFooter className="flex flex-col items-start space-y-4">
           {/* --- Unified Action Button --- */}
@@ -364,7 +977,7 @@ export default function Page() {
             )}
           </Button>
 
-          {/* --- Download Button --- */}
+          {/* --- Download Buttons --- */}
           {generatedMusicXml && !isLoading && (
             <Button
               onClick={handleDownload}
@@ -375,6 +988,16 @@ export default function Page() {
               Download MusicXML
             </Button>
           )}
+          {generatedPieceData && !isLoading && (
+            <Button
+              onClick={handleDownloadMidi}
+              variant="outline"
+              className="w-full md:w-auto"
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download MIDI
+            </Button>
+          )}
         </CardFooter>
       </Card>
     </div>
@@ -0,0 +1,187 @@
+import {
+  classifyCadence,
+  getCadenceChords,
+  getCadenceSopranoPcs,
+  resolveCadenceRequests,
+} from '../cadence';
+import { generateMusicalData } from '../generationEngine';
+import { CadenceType, GenerationSettings, SATBVoicer } from '../types';
+
+describe('getCadenceChords', () => {
+  it('returns the penultimate and final chords of each cadence type', () => {
+    expect(getCadenceChords('PAC', true)).toEqual(['V', 'I']);
+    expect(getCadenceChords('IAC', false, true)).toEqual(['V7', 'i']);
+    expect(getCadenceChords('half', true)).toEqual(['IV', 'V']);
+    expect(getCadenceChords('plagal', false)).toEqual(['iv', 'i']);
+    expect(getCadenceChords('deceptive', true, true)).toEqual(['V7', 'vi']);
+    expect(getCadenceChords('deceptive', false)).toEqual(['V', 'VI']);
+    expect(getCadenceChords('phrygianHalf', false)).toEqual(['iv6', 'V']);
+  });
+});
+
+describe('resolveCadenceRequests', () => {
+  it('counts negative indices from the end and drops requests outside the progression', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const cadences = resolveCadenceRequests(
+      [
+        { chordIndex: 3, type: 'half' },
+        { chordIndex: -1, type: 'PAC' },
+        { chordIndex: 8, type: 'plagal' },
+      ],
+      8,
+    );
+    expect(Array.from(cadences.entries())).toEqual([
+      [3, 'half'],
+      [7, 'PAC'],
+    ]);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+});
+
+describe('getCadenceSopranoPcs', () => {
+  it('puts the tonic in the soprano for a PAC and avoids it for an IAC', () => {
+    expect(getCadenceSopranoPcs('PAC', [0, 4, 7], 'C')).toEqual([0]);
+    expect(getCadenceSopranoPcs('IAC', [9, 0, 4], 'Am')).toEqual([0, 4]);
+    expect(getCadenceSopranoPcs('half', [7, 11, 2], 'C')).toBeNull();
+  });
+});
+
+describe('classifyCadence', () => {
+  it('tells perfect from imperfect authentic cadences', () => {
+    expect(classifyCadence('V7', 'I', 'C', 72)).toBe('PAC');
+    expect(classifyCadence('V', 'I', 'C', 76)).toBe('IAC');
+    expect(classifyCadence('V65', 'I', 'C', 72)).toBe('IAC');
+    expect(classifyCadence('V', 'i', 'Am', 69)).toBe('PAC');
+  });
+
+  it('names the other cadence types', () => {
+    expect(classifyCadence('ii6', 'V', 'C')).toBe('half');
+    expect(classifyCadence('iv6', 'V', 'Am')).toBe('phrygianHalf');
+    expect(classifyCadence('IV', 'I', 'C')).toBe('plagal');
+    expect(classifyCadence('V7', 'vi', 'C')).toBe('deceptive');
+    expect(classifyCadence('I', 'vi', 'C')).toBeNull();
+  });
+
+  it('analyses key-prefixed chords in their own key', () => {
+    expect(classifyCadence('G:V7', 'G:I', 'C', 67)).toBe('PAC');
+    expect(classifyCadence('I', 'G:V7', 'C')).toBeNull();
+  });
+});
+
+describe('cadences in generated piece data', () => {
+  const progression = ['I', 'vi', 'IV', 'V', 'I', 'ii', 'V7', 'I'];
+  const settings = (
+    satbVoicer: SATBVoicer,
+    type: CadenceType,
+  ): GenerationSettings => ({
+    generationStyle: 'SATB',
+    melodicSmoothness: 5,
+    harmonicComplexity: 5,
+    dissonanceStrictness: 3,
+    rhythmicComplexity: 0,
+    satbVoicer,
+    seed: 11,
+    cadences: [
+      { chordIndex: 3, type: 'half' },
+      { chordIndex: -1, type },
+    ],
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  (['greedy', 'viterbi'] as SATBVoicer[]).forEach((voicer) => {
+    it(`places the soprano for a PAC or IAC (${voicer} voicer)`, () => {
+      const perfect = generateMusicalData(
+        progression,
+        'C',
+        '4/4',
+        8,
+        settings(voicer, 'PAC'),
+      );
+      expect(perfect.measures[7].cadence).toEqual({ type: 'PAC', tick: 0 });
+      expect(perfect.measures[7].events[0].midi! % 12).toBe(0);
+
+      const imperfect = generateMusicalData(
+        progression,
+        'C',
+        '4/4',
+        8,
+        settings(voicer, 'IAC'),
+      );
+      expect(imperfect.measures[7].cadence).toEqual({ type: 'IAC', tick: 0 });
+      expect(imperfect.measures[7].events[0].midi! % 12).not.toBe(0);
+    });
+  });
+
+  it('places the melody for a PAC or IAC in the melody style', () => {
+    [1, 2, 3, 4, 5].forEach((seed) => {
+      const melodySettings = (type: CadenceType): GenerationSettings => ({
+        ...settings('greedy', type),
+        generationStyle: 'MelodyAccompaniment',
+        seed,
+      });
+      const perfect = generateMusicalData(
+        progression,
+        'C',
+        '4/4',
+        8,
+        melodySettings('PAC'),
+      );
+      expect(perfect.measures[7].cadence).toEqual({ type: 'PAC', tick: 0 });
+      expect(perfect.measures[7].events[0].midi! % 12).toBe(0);
+
+      const imperfect = generateMusicalData(
+        progression,
+        'C',
+        '4/4',
+        8,
+        melodySettings('IAC'),
+      );
+      expect(imperfect.measures[7].cadence).toEqual({ type: 'IAC', tick: 0 });
+      expect(imperfect.measures[7].events[0].midi! % 12).not.toBe(0);
+    });
+  });
+
+  it('labels requested cadences and the final cadence', () => {
+    const data = generateMusicalData(
+      progression,
+      'C',
+      '4/4',
+      8,
+      settings('greedy', 'PAC'),
+    );
+    expect(data.measures[3].cadence).toEqual({ type: 'half', tick: 0 });
+    expect(data.measures.filter((measure) => measure.cadence)).toHaveLength(2);
+
+    const unrequested = generateMusicalData(progression, 'C', '4/4', 8, {
+      ...settings('greedy', 'PAC'),
+      cadences: undefined,
+    });
+    expect(['PAC', 'IAC']).toContain(unrequested.measures[7].cadence?.type);
+  });
+
+  it('places the label where a mid-measure cadence arrives', () => {
+    const data = generateMusicalData(
+      [
+        { roman: 'I', durationBeats: 2 },
+        { roman: 'V', durationBeats: 2 },
+        { roman: 'IV', durationBeats: 2 },
+        { roman: 'I', durationBeats: 2 },
+      ],
+      'C',
+      '4/4',
+      2,
+      {
+        ...settings('greedy', 'PAC'),
+        cadences: [{ chordIndex: 1, type: 'half' }],
+      },
+    );
+    expect(data.measures[0].cadence).toEqual({ type: 'half', tick: 8 });
+    expect(data.measures[1].cadence).toEqual({ type: 'plagal', tick: 8 });
+  });
+});
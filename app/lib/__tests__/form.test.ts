@@ -0,0 +1,136 @@
+import { InvalidInputError } from '../errors';
+import { generateForm } from '../form';
+import { generateMusicalData } from '../generationEngine';
+import { createSeededRandom } from '../random';
+import { GenerationSettings } from '../types';
+
+describe('generateForm', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('builds a period whose consequent restates the antecedent', () => {
+    const plan = generateForm('C', 'period', 4, 3, createSeededRandom(1));
+    expect(plan.progression).toHaveLength(8);
+    expect(plan.phrases).toEqual([
+      { label: 'Antecedent', startMeasure: 0, numMeasures: 4, cadence: 'half' },
+      { label: 'Consequent', startMeasure: 4, numMeasures: 4, cadence: 'PAC' },
+    ]);
+    expect(plan.progression.slice(4, 6)).toEqual(plan.progression.slice(0, 2));
+    expect(plan.progression[3]).toBe('V');
+    expect(plan.progression[7]).toBe('I');
+    expect(plan.cadences).toEqual([
+      { chordIndex: 3, type: 'half' },
+      { chordIndex: 7, type: 'PAC' },
+    ]);
+    expect(plan.measureRepeats).toEqual([
+      { measure: 4, sourceMeasure: 0 },
+      { measure: 5, sourceMeasure: 1 },
+    ]);
+  });
+
+  it('builds a sentence that repeats its basic idea', () => {
+    const plan = generateForm('Am', 'sentence', 4, 5, createSeededRandom(2));
+    expect(plan.phrases.map((p) => p.label)).toEqual([
+      'Presentation',
+      'Continuation',
+    ]);
+    expect(plan.phrases[0].cadence).toBeUndefined();
+    expect(plan.progression.slice(2, 4)).toEqual(plan.progression.slice(0, 2));
+    expect(plan.cadences).toEqual([{ chordIndex: 7, type: 'PAC' }]);
+  });
+
+  it('builds an AABA form with a contrasting bridge', () => {
+    const plan = generateForm('G', 'AABA', 4, 5, createSeededRandom(3));
+    expect(plan.phrases.map((p) => `${p.label}:${p.cadence}`)).toEqual([
+      'A:IAC',
+      'A:PAC',
+      'B:half',
+      'A:PAC',
+    ]);
+    const [a1, a2, b, a3] = [0, 4, 8, 12].map((start) =>
+      plan.progression.slice(start, start + 4),
+    );
+    expect(a2.slice(0, 2)).toEqual(a1.slice(0, 2));
+    expect(a3.slice(0, 2)).toEqual(a1.slice(0, 2));
+    expect(b[0]).toBe('IV');
+    expect(b[3]).toBe('V');
+  });
+
+  it('rejects unknown forms and short phrases', () => {
+    expect(() => generateForm('C', 'rondo' as any, 4, 5)).toThrow(
+      InvalidInputError,
+    );
+    expect(() => generateForm('C', 'period', 3, 5)).toThrow(InvalidInputError);
+    expect(() => generateForm('X', 'period', 4, 5)).toThrow(InvalidInputError);
+  });
+});
+
+describe('forms in generated piece data', () => {
+  const settings: GenerationSettings = {
+    generationStyle: 'SATB',
+    melodicSmoothness: 5,
+    harmonicComplexity: 5,
+    dissonanceStrictness: 3,
+    rhythmicComplexity: 6,
+    seed: 4,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('marks phrases and repeats the restated measures note for note', () => {
+    const plan = generateForm('C', 'period', 4, 3, createSeededRandom(5));
+    const data = generateMusicalData(plan.progression, 'C', '4/4', 8, {
+      ...settings,
+      cadences: plan.cadences,
+      phrases: plan.phrases,
+      measureRepeats: plan.measureRepeats,
+    });
+    expect(data.measures[0].phraseLabel).toBe('Antecedent');
+    expect(data.measures[4].phraseLabel).toBe('Consequent');
+    expect(
+      data.measures.filter((m) => m.phraseEnd).map((m) => m.measureNumber),
+    ).toEqual([4, 8]);
+    expect(data.measures[4].events).toEqual(data.measures[0].events);
+    expect(data.measures[5].events).toEqual(data.measures[1].events);
+    expect(data.measures[3].cadence?.type).toBe('half');
+  });
+
+  it('repeats measures with the Viterbi voicer too', () => {
+    const data = generateMusicalData(
+      ['I', 'IV', 'I', 'IV', 'V', 'I'],
+      'C',
+      '3/4',
+      6,
+      {
+        ...settings,
+        satbVoicer: 'viterbi',
+        measureRepeats: [
+          { measure: 2, sourceMeasure: 0 },
+          { measure: 3, sourceMeasure: 1 },
+        ],
+      },
+    );
+    expect(data.measures[2].events).toEqual(data.measures[0].events);
+    expect(data.measures[3].events).toEqual(data.measures[1].events);
+  });
+
+  it('ignores repeats of measures with other chords', () => {
+    const data = generateMusicalData(['I', 'IV', 'V', 'I'], 'C', '4/4', 4, {
+      ...settings,
+      measureRepeats: [{ measure: 2, sourceMeasure: 0 }],
+    });
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Measure 3 does not have the chords of measure 1',
+      ),
+    );
+    expect(data.measures[2].romanNumeral).toBe('V');
+  });
+});
@@ -225,6 +225,90 @@ describe('generateMusicalData', () => {
     }
   });
 
+  test('should record the key of each measure after a modulation', () => {
+    (getChordInfoFromRoman as jest.Mock).mockReturnValue({
+      notes: [62, 66, 69, 72], // D F# A C
+      noteNames: ['D4', 'F#4', 'A4', 'C5'],
+      requiredBassPc: null,
+    });
+    const pieceData = generateMusicalData(
+      ['I', 'vi', 'G:V7', 'G:I'],
+      'C',
+      '4/4',
+      4,
+      { ...defaultGenerationSettings },
+    );
+
+    expect(pieceData.metadata.keySignature).toBe('C');
+    expect(pieceData.measures.map((m) => m.keySignature)).toEqual([
+      'C',
+      'C',
+      'G',
+      'G',
+    ]);
+    expect(pieceData.measures[2].romanNumeral).toBe('G:V7');
+  });
+
+  test('should fill measures past the progression with the tonic of the key', () => {
+    (getChordInfoFromRoman as jest.Mock).mockReturnValue({
+      notes: [57, 60, 64], // A C E
+      noteNames: ['A3', 'C4', 'E4'],
+      requiredBassPc: null,
+    });
+    const minor = generateMusicalData(['i', 'V'], 'Am', '4/4', 3, {
+      ...defaultGenerationSettings,
+    });
+    expect(minor.measures[2].romanNumeral).toBe('i');
+    expect(getChordInfoFromRoman).toHaveBeenCalledWith('i', 'Am');
+    expect(getChordInfoFromRoman).not.toHaveBeenCalledWith('I', 'Am');
+
+    const major = generateMusicalData(['I', 'V'], 'C', '4/4', 3, {
+      ...defaultGenerationSettings,
+    });
+    expect(major.measures[2].romanNumeral).toBe('I');
+  });
+
+  test('should change chords mid-measure and sustain chords across barlines', () => {
+    (getChordInfoFromRoman as jest.Mock).mockReturnValue({
+      notes: [60, 64, 67],
+      noteNames: ['C4', 'E4', 'G4'],
+      requiredBassPc: null,
+    });
+    const pieceData = generateMusicalData(
+      [
+        { roman: 'I', durationBeats: 2 },
+        { roman: 'IV', durationBeats: 4 },
+        { roman: 'V', durationBeats: 2 },
+      ],
+      'C',
+      '4/4',
+      2,
+      { ...defaultGenerationSettings, rhythmicComplexity: 0 },
+    );
+
+    const [first, second] = pieceData.measures;
+    expect(first.romanNumeral).toBe('I');
+    expect(first.chords).toEqual([
+      { romanNumeral: 'I', startTick: 0, durationTicks: 8, continued: false },
+      { romanNumeral: 'IV', startTick: 8, durationTicks: 8, continued: false },
+    ]);
+    expect(second.romanNumeral).toBe('IV');
+    expect(second.chords).toEqual([
+      { romanNumeral: 'IV', startTick: 0, durationTicks: 8, continued: true },
+      { romanNumeral: 'V', startTick: 8, durationTicks: 8, continued: false },
+    ]);
+    // No note sounds across a chord change
+    pieceData.measures.forEach((measure) => {
+      let tick = 0;
+      measure.events
+        .filter((e) => e.voiceNumber === '1' && !e.isChordElement)
+        .forEach((e) => {
+          expect(tick < 8 && tick + e.durationTicks > 8).toBe(false);
+          tick += e.durationTicks;
+        });
+    });
+  });
+
   // Test for MelodyAccompaniment style
   test('should generate piece data for MelodyAccompaniment style', () => {
     (getChordInfoFromRoman as jest.Mock).mockReturnValue({
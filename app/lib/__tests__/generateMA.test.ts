@@ -183,7 +183,126 @@ describe('generateMA', () => {
 
   });
 
-  // TODO: Add tests for AI Accompaniment specific logic if generateMA handles that
-  // For example, test what happens if the Gemini API call fails or returns malformed data.
-  // AI accompaniment tests removed.
+  describe('accompaniment', () => {
+    const progression = ['I', 'IV', 'V', 'I'];
+    const key = 'C';
+    const meter = '4/4';
+    const rangeConstraints = {
+      melody: { min: 'C4', max: 'C6' },
+      accompaniment: { min: 'C2', max: 'C4' },
+    };
+    const chordPcs: Record<string, number[]> = {
+      I: [0, 4, 7],
+      IV: [5, 9, 0],
+      V: [7, 11, 2],
+    };
+
+    beforeEach(() => {
+      (require('../theory/harmony').getChordInfoFromRoman as jest.Mock).mockImplementation((roman) => {
+        if (roman === 'V') return { notes: [67, 71, 74], noteNames: ['G4', 'B4', 'D5'], requiredBassPc: null };
+        if (roman === 'IV') return { notes: [65, 69, 72], noteNames: ['F4', 'A4', 'C5'], requiredBassPc: null };
+        return { notes: [60, 64, 67], noteNames: ['C4', 'E4', 'G4'], requiredBassPc: null };
+      });
+    });
+
+    test('should follow the melody rhythm note for note, sounding under its rests', async () => {
+      // A quarter note and a quarter rest in every measure
+      const generateRhythm = require('../rhythm').generateRhythm as jest.Mock;
+      progression.forEach(() => generateRhythm.mockReturnValueOnce([4, -4]));
+      const { melody, accompaniment } = await generateMA(progression, key, meter, rangeConstraints, { seed: 5 });
+      expect(melody.some((note) => note.rhythm < 0)).toBe(true);
+      expect(accompaniment).toHaveLength(melody.length);
+      accompaniment.forEach((item, i) => expect(item.rhythm).toBe(Math.abs(melody[i].rhythm)));
+    });
+
+    test('should sound the seventh of inverted seventh chords', async () => {
+      (require('../theory/harmony').getChordInfoFromRoman as jest.Mock).mockImplementation((roman) =>
+        roman === 'V65'
+          ? { notes: [67, 71, 74, 77], noteNames: ['G4', 'B4', 'D5', 'F5'], requiredBassPc: 11 }
+          : { notes: [60, 64, 67], noteNames: ['C4', 'E4', 'G4'], requiredBassPc: null });
+      const generateRhythm = require('../rhythm').generateRhythm as jest.Mock;
+      generateRhythm.mockReturnValueOnce([4, 4]).mockReturnValueOnce([8, 8, 8, 8, 8, 8]);
+      const { accompaniment } = await generateMA(['I', 'V65'], key, meter, rangeConstraints, { seed: 5 });
+      const dominant = accompaniment.slice(2).map((item) => Note.chroma(item.note));
+      expect(dominant[0]).toBe(11);
+      expect(dominant).toContain(5);
+    });
+
+    test('should sound the augmented sixth of It+6, Fr43 and Ger65', async () => {
+      const harmony = jest.requireActual('../theory/harmony');
+      (require('../theory/harmony').getChordInfoFromRoman as jest.Mock).mockImplementation(harmony.getChordInfoFromRoman);
+      const generateRhythm = require('../rhythm').generateRhythm as jest.Mock;
+      ['It+6', 'Fr43', 'Ger65'].forEach(() => generateRhythm.mockReturnValueOnce([8, 8, 8, 8, 8, 8]));
+      const { accompaniment } = await generateMA(['It+6', 'Fr43', 'Ger65'], key, meter, rangeConstraints, { seed: 5 });
+      [0, 1, 2].forEach((m) => {
+        const measure = accompaniment.slice(m * 6, m * 6 + 6).map((item) => Note.chroma(item.note));
+        // Ab in the bass and F# above it
+        expect(measure[0]).toBe(8);
+        expect(measure).toContain(6);
+      });
+    });
+
+    test('should use chord tones within the accompaniment range, starting each measure on the bass', async () => {
+      const { accompaniment } = await generateMA(progression, key, meter, rangeConstraints, { seed: 5 });
+      // Mocked rhythm gives two notes per measure
+      progression.forEach((roman, m) => {
+        const [bassNote, upperNote] = accompaniment.slice(m * 2, m * 2 + 2);
+        expect(Note.chroma(bassNote.note)).toBe(chordPcs[roman][0]);
+        expect(chordPcs[roman]).toContain(Note.chroma(upperNote.note));
+      });
+      accompaniment.forEach(item => {
+        const midi = Note.midi(item.note) as number;
+        expect(midi).toBeGreaterThanOrEqual(Note.midi('C2') as number);
+        expect(midi).toBeLessThanOrEqual(Note.midi('C4') as number);
+      });
+    });
+
+    test('should fall back to the default range when the accompaniment range is inverted', async () => {
+      const originalConsoleWarn = console.warn;
+      console.warn = jest.fn();
+      const { accompaniment } = await generateMA(progression, key, meter, {
+        ...rangeConstraints,
+        accompaniment: { min: 'C4', max: 'C2' },
+      });
+      expect(accompaniment.length).toBeGreaterThan(0);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid accompaniment range'));
+      console.warn = originalConsoleWarn;
+    });
+  });
+
+  describe('rhythmic complexity', () => {
+    const progression = ['I', 'IV', 'V', 'I', 'I', 'IV', 'V', 'I'];
+    const rangeConstraints = {
+      melody: { min: 'C4', max: 'C6' },
+      accompaniment: { min: 'C2', max: 'C4' },
+    };
+
+    test('should pass the complexity to the rhythm generator', async () => {
+      await generateMA(progression, 'C', '4/4', rangeConstraints, { seed: 1, rhythmicComplexity: 7 });
+      expect(require('../rhythm').generateRhythm).toHaveBeenCalledWith('4/4', 7, expect.any(Function));
+    });
+
+    test('should tie repeated notes across beats at high complexity only', async () => {
+      const tiedMelodies = [];
+      for (let seed = 1; seed <= 10; seed++) {
+        const { melody } = await generateMA(progression, 'C', '4/4', rangeConstraints, { seed, rhythmicComplexity: 10 });
+        melody.forEach((item, i) => {
+          if (item.tie) expect(melody[i + 1].note).toBe(item.note);
+        });
+        if (melody.some((item) => item.tie)) tiedMelodies.push(melody);
+        const { melody: simple } = await generateMA(progression, 'C', '4/4', rangeConstraints, { seed });
+        expect(simple.some((item) => item.tie)).toBe(false);
+      }
+      expect(tiedMelodies.length).toBeGreaterThan(0);
+    });
+
+    test('should mark tuplet notes in the melody and the accompaniment', async () => {
+      const generateRhythm = require('../rhythm').generateRhythm as jest.Mock;
+      generateRhythm.mockReturnValueOnce([12, 12, 12, 4, 2]).mockReturnValueOnce([4, 4, 2]);
+      const { melody, accompaniment } = await generateMA(['I', 'V'], 'C', '4/4', rangeConstraints, { seed: 1 });
+      const triplet = { actualNotes: 3, normalNotes: 2 };
+      expect(melody.map((item) => item.tuplet)).toEqual([triplet, triplet, triplet, undefined, undefined, undefined, undefined, undefined]);
+      expect(accompaniment.map((item) => item.tuplet)).toEqual(melody.map((item) => item.tuplet));
+    });
+  });
 });
@@ -1,5 +1,5 @@
 // app/lib/__tests__/generationUtils.test.ts
-import { parseMeter, InvalidMeterError, ParsedMeter, isInRange, putInRange, InvalidRangeError } from '../generationUtils';
+import { parseMeter, getMeasureMeters, InvalidMeterError, ParsedMeter, isInRange, putInRange, InvalidRangeError } from '../generationUtils';
 import * as Tonal from 'tonal';
 
 describe('parseMeter', () => {
@@ -15,6 +15,8 @@ describe('parseMeter', () => {
     ['7/8', { beats: 7, beatType: 8 }],
     [' 4 / 4 ', { beats: 4, beatType: 4 }], // Test with spaces
     ['04/04', { beats: 4, beatType: 4 }], // Test with leading zeros
+    ['3+2+2/8', { beats: 7, beatType: 8, groups: [3, 2, 2] }], // Additive meter
+    ['2 + 3/4', { beats: 5, beatType: 4, groups: [2, 3] }],
   ];
 
   validCases.forEach(([input, expected]) => {
@@ -45,6 +47,9 @@ describe('parseMeter', () => {
     ['1 / two', 'Beat type is not a number.'],
     ['4 /  ', 'Beat type is not a valid integer string.'],
     ['  / 4', 'Beats is not a valid integer string.'],
+    ['3+0/8', 'Beats and beat type must be positive integers.'],
+    ['3+/8', 'Beats is not a valid integer string.'],
+    ['3+2/6', 'Invalid beat type. Must be a power of 2 (e.g., 2, 4, 8).'],
   ];
 
   invalidCases.forEach(([input, expectedErrorMessage]) => {
@@ -64,6 +69,23 @@ describe('parseMeter', () => {
   });
 });
 
+describe('getMeasureMeters', () => {
+  it('gives every measure the single meter of the piece', () => {
+    expect(getMeasureMeters('3/4', 3)).toEqual(['3/4', '3/4', '3/4']);
+  });
+
+  it('reads one meter per measure, continuing the last one', () => {
+    expect(getMeasureMeters('4/4 3/4 | 4/4, 3+2+2/8', 6)).toEqual(['4/4', '3/4', '4/4', '3+2+2/8', '3+2+2/8', '3+2+2/8']);
+    expect(getMeasureMeters(' 4 / 4  5/8 ', 1)).toEqual(['4/4']);
+    expect(getMeasureMeters('4/4 5/8')).toEqual(['4/4', '5/8']);
+  });
+
+  it('rejects an empty list or an invalid meter', () => {
+    expect(() => getMeasureMeters(' | ', 2)).toThrow('Meter string cannot be empty.');
+    expect(() => getMeasureMeters('4/4 3/5', 2)).toThrow('Invalid beat type. Must be a power of 2 (e.g., 2, 4, 8).');
+  });
+});
+
 describe('isInRange', () => {
   const C4 = Tonal.Note.midi('C4') as number; // 60
   const D4 = Tonal.Note.midi('D4') as number; // 62
@@ -0,0 +1,119 @@
+import { getChordInfoFromRoman, getRomanNumeralKey } from '../theory/harmony';
+import { MusicTheoryError } from '../errors';
+
+const pcs = (notes: number[]) => notes.map((midi) => midi % 12);
+
+describe('getChordInfoFromRoman', () => {
+  describe('applied chords', () => {
+    it('builds secondary dominants of any major or minor degree', () => {
+      expect(pcs(getChordInfoFromRoman('V/V', 'C').notes)).toEqual([2, 6, 9]);
+      expect(pcs(getChordInfoFromRoman('V7/V', 'C').notes)).toEqual([
+        2, 6, 9, 0,
+      ]);
+      expect(pcs(getChordInfoFromRoman('V7/ii', 'C').notes)).toEqual([
+        9, 1, 4, 7,
+      ]);
+      expect(pcs(getChordInfoFromRoman('V/ii', 'F').notes)).toEqual([2, 6, 9]);
+    });
+
+    it('builds applied leading-tone chords', () => {
+      const result = getChordInfoFromRoman('vii°7/V', 'G');
+      // C# E G Bb
+      expect(pcs(result.notes)).toEqual([1, 4, 7, 10]);
+      expect(result.requiredBassPc).toBeNull();
+    });
+
+    it('spells leading-tone chords from the leading tone of their key', () => {
+      const names = (roman: string, key: string) =>
+        getChordInfoFromRoman(roman, key).noteNames.map((name) =>
+          name.slice(0, -1),
+        );
+      expect(names('vii°7/V', 'C')).toEqual(['F#', 'A', 'C', 'Eb']);
+      expect(names('vii°/ii', 'C')).toEqual(['C#', 'E', 'G']);
+      expect(names('viio7', 'Am')).toEqual(['G#', 'B', 'D', 'F']);
+    });
+
+    it('places the inversion of the applied chord in the bass', () => {
+      // C7 over E
+      const v65OfIV = getChordInfoFromRoman('V65/IV', 'C');
+      expect(pcs(v65OfIV.notes)).toEqual([0, 4, 7, 10]);
+      expect(v65OfIV.requiredBassPc).toBe(4);
+      // A7 over G
+      expect(getChordInfoFromRoman('V42/V', 'G').requiredBassPc).toBe(7);
+      // D major over F#
+      expect(getChordInfoFromRoman('V6/V', 'C').requiredBassPc).toBe(6);
+    });
+
+    it('rejects targets that cannot be tonicized', () => {
+      expect(() => getChordInfoFromRoman('V/vii', 'C')).toThrow(
+        MusicTheoryError,
+      );
+      expect(() => getChordInfoFromRoman('V7/VIII', 'C')).toThrow(
+        MusicTheoryError,
+      );
+    });
+  });
+
+  describe('chromatic predominants', () => {
+    it('builds the Neapolitan sixth over the fourth degree', () => {
+      const result = getChordInfoFromRoman('N6', 'C');
+      expect(result.noteNames.map((name) => name.slice(0, -1))).toEqual([
+        'Db',
+        'F',
+        'Ab',
+      ]);
+      expect(result.requiredBassPc).toBe(5);
+      expect(result.doublingPcs![0]).toBe(5);
+      expect(getChordInfoFromRoman('bII6', 'C')).toEqual(result);
+    });
+
+    it('spells augmented sixths over the lowered sixth degree', () => {
+      const names = (roman: string) =>
+        getChordInfoFromRoman(roman, 'C').noteNames.map((name) =>
+          name.slice(0, -1),
+        );
+      expect(names('It+6')).toEqual(['Ab', 'C', 'F#']);
+      expect(names('Fr43')).toEqual(['Ab', 'C', 'D', 'F#']);
+      expect(names('Ger65')).toEqual(['Ab', 'C', 'Eb', 'F#']);
+      const italian = getChordInfoFromRoman('It+6', 'G');
+      expect(italian.requiredBassPc).toBe(3);
+      expect(italian.doublingPcs).toEqual([7]);
+    });
+  });
+
+  describe('modal mixture', () => {
+    const names = (roman: string, key: string) =>
+      getChordInfoFromRoman(roman, key).noteNames.map((name) =>
+        name.slice(0, -1),
+      );
+
+    it('borrows chords from the parallel minor in major keys', () => {
+      expect(names('iv', 'C')).toEqual(['F', 'Ab', 'C']);
+      expect(names('bVI', 'C')).toEqual(['Ab', 'C', 'Eb']);
+      expect(names('bVII', 'C')).toEqual(['Bb', 'D', 'F']);
+      expect(names('bIII', 'C')).toEqual(['Eb', 'G', 'Bb']);
+      expect(names('ii°', 'C')).toEqual(['D', 'F', 'Ab']);
+      expect(names('iiø7', 'C')).toEqual(['D', 'F', 'Ab', 'C']);
+      expect(getChordInfoFromRoman('iv6', 'C').requiredBassPc).toBe(8);
+    });
+
+    it('builds a Picardy third in minor keys', () => {
+      expect(names('I', 'Am')).toEqual(['A', 'C#', 'E']);
+      expect(names('i', 'Am').slice(0, 3)).toEqual(['A', 'C', 'E']);
+    });
+  });
+
+  it('analyses key-prefixed numerals in their own key', () => {
+    expect(pcs(getChordInfoFromRoman('G:V7', 'C').notes)).toEqual([2, 6, 9, 0]);
+    expect(getChordInfoFromRoman('Em:iv6', 'C').requiredBassPc).toBe(0);
+    expect(getRomanNumeralKey('Em:iv6', 'C')).toBe('Em');
+    expect(getRomanNumeralKey('V7/V', 'C')).toBe('C');
+  });
+
+  it('resolves figured-bass inversions to the chord member in the bass', () => {
+    expect(getChordInfoFromRoman('ii6', 'C').requiredBassPc).toBe(5);
+    expect(getChordInfoFromRoman('I64', 'G').requiredBassPc).toBe(2);
+    expect(getChordInfoFromRoman('V/3', 'D').requiredBassPc).toBe(1);
+    expect(getChordInfoFromRoman('IV', 'C').requiredBassPc).toBeNull();
+  });
+});
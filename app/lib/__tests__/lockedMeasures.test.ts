@@ -0,0 +1,133 @@
+import { generateMusicalData } from '../generationEngine';
+import { GenerationSettings, TimedChord } from '../types';
+
+describe('locked measures', () => {
+  const progression = ['I', 'vi', 'IV', 'V', 'I', 'ii', 'V7', 'I'];
+  const settings: GenerationSettings = {
+    generationStyle: 'SATB',
+    melodicSmoothness: 5,
+    harmonicComplexity: 5,
+    dissonanceStrictness: 5,
+    rhythmicComplexity: 6,
+    seed: 1,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  const regenerate = (
+    chords: (string | TimedChord)[],
+    overrides: Partial<GenerationSettings>,
+    locked: number[],
+  ) => {
+    const first = generateMusicalData(chords, 'C', '4/4', 8, {
+      ...settings,
+      ...overrides,
+    });
+    const second = generateMusicalData(chords, 'C', '4/4', 8, {
+      ...settings,
+      ...overrides,
+      seed: 2,
+      lockedMeasures: first.measures.filter((m) =>
+        locked.includes(m.measureNumber - 1),
+      ),
+    });
+    return { first, second };
+  };
+
+  it('keeps the notes of locked measures and regenerates the others', () => {
+    const { first, second } = regenerate(progression, {}, [1, 2, 5]);
+    [1, 2, 5].forEach((m) =>
+      expect(second.measures[m].events).toEqual(first.measures[m].events),
+    );
+    const unlocked = [0, 3, 4, 6, 7];
+    expect(
+      unlocked.some(
+        (m) =>
+          JSON.stringify(second.measures[m].events) !==
+          JSON.stringify(first.measures[m].events),
+      ),
+    ).toBe(true);
+  });
+
+  it('keeps locked measures with the Viterbi voicer and the melody style', () => {
+    const viterbi = regenerate(progression, { satbVoicer: 'viterbi' }, [3, 4]);
+    expect(viterbi.second.measures[3].events).toEqual(
+      viterbi.first.measures[3].events,
+    );
+    expect(viterbi.second.measures[4].events).toEqual(
+      viterbi.first.measures[4].events,
+    );
+    const melody = regenerate(
+      progression,
+      { generationStyle: 'MelodyAccompaniment', rhythmicComplexity: 8 },
+      [2],
+    );
+    expect(melody.second.measures[2].events).toEqual(
+      melody.first.measures[2].events,
+    );
+  });
+
+  it('keeps locked measures of the melody style in compound meter', () => {
+    const melody = {
+      ...settings,
+      generationStyle: 'MelodyAccompaniment' as const,
+    };
+    const first = generateMusicalData(progression, 'C', '6/8', 8, melody);
+    const second = generateMusicalData(progression, 'C', '6/8', 8, {
+      ...melody,
+      seed: 2,
+      lockedMeasures: first.measures,
+    });
+    first.measures.forEach((measure, m) =>
+      expect(second.measures[m].events).toEqual(measure.events),
+    );
+  });
+
+  it('keeps locked measures whose chords change mid-measure or continue', () => {
+    const timed: TimedChord[] = [
+      { roman: 'I', durationBeats: 6 },
+      { roman: 'IV', durationBeats: 2 },
+      { roman: 'V', durationBeats: 4 },
+      { roman: 'I', durationBeats: 4 },
+    ];
+    const first = generateMusicalData(timed, 'C', '4/4', 4, settings);
+    const second = generateMusicalData(timed, 'C', '4/4', 4, {
+      ...settings,
+      seed: 5,
+      lockedMeasures: [first.measures[1]],
+    });
+    expect(second.measures[1].events).toEqual(first.measures[1].events);
+  });
+
+  it('leads into a locked measure under enforced voice leading', () => {
+    const { second } = regenerate(
+      progression,
+      { enforceVoiceLeading: true, dissonanceStrictness: 10 },
+      [4],
+    );
+    const report = second.voiceLeadingReport!;
+    report.violations
+      .filter((v) => v.measure === 5 && v.beat === 1)
+      .forEach((v) => expect(report.unresolvedMeasures).toContain(4));
+  });
+
+  it('generates a locked measure anew if its chords changed', () => {
+    const first = generateMusicalData(progression, 'C', '4/4', 8, settings);
+    const edited = progression.slice();
+    edited[2] = 'ii';
+    const second = generateMusicalData(edited, 'C', '4/4', 8, {
+      ...settings,
+      lockedMeasures: [first.measures[2]],
+    });
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Measure 3 no longer has the chords it was locked with',
+      ),
+    );
+    expect(second.measures[2].romanNumeral).toBe('ii');
+  });
+});
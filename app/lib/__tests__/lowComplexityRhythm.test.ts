@@ -1,5 +1,6 @@
 import { generateLowComplexityRhythm } from '../rhythm';
 import Fraction from 'fraction.js';
+import { createSeededRandom } from '../random';
 
 describe('generateLowComplexityRhythm (low complexity simple meters)', () => {
   // Helper to sum denominators into a Fraction (duration in whole notes)
@@ -44,6 +45,29 @@ describe('generateLowComplexityRhythm (low complexity simple meters)', () => {
     }
   });
 
+  it('lets off-beat notes cross the beat (syncopation) at complexity 4', () => {
+    const rng = createSeededRandom(4);
+    // A note starting off the beat that ends after the next beat
+    const crossesBeat = (r: number[]) => {
+      let pos = new Fraction(0);
+      return r.some((d) => {
+        const startUnits = pos.mul(4).valueOf();
+        pos = pos.add(new Fraction(1, d));
+        return (
+          !Number.isInteger(startUnits) &&
+          pos.mul(4).valueOf() > Math.ceil(startUnits)
+        );
+      });
+    };
+    let syncopated = false;
+    for (let i = 0; i < 50 && !syncopated; i++) {
+      syncopated = crossesBeat(
+        generateLowComplexityRhythm(4, 4, 4, '4/4', rng),
+      );
+    }
+    expect(syncopated).toBe(true);
+  });
+
   it('fills full measure for 3/4', () => {
     const r = generateLowComplexityRhythm(3, 4, 2, '3/4');
     expect(sumDur(r).equals(new Fraction(3, 4))).toBe(true);
@@ -0,0 +1,84 @@
+import { InvalidInputError } from '../errors';
+import {
+  createMarkovModel,
+  getProgressionPreset,
+  parseMarkovTable,
+  PROGRESSION_PRESET_TABLES,
+} from '../markov';
+import { MarkovTable } from '../types';
+
+describe('parseMarkovTable', () => {
+  it('accepts tables as objects or JSON text', () => {
+    const table = { order: 1, transitions: { I: { IV: 2, V: 1 } } };
+    expect(parseMarkovTable(table)).toEqual(table);
+    expect(parseMarkovTable(JSON.stringify(table))).toEqual(table);
+  });
+
+  it('rejects malformed tables', () => {
+    [
+      '{ not json',
+      [],
+      { order: 3, transitions: {} },
+      { order: 1, transitions: [] },
+      { order: 1, name: 7, transitions: {} },
+      { order: 1, transitions: { I: 'V' } },
+      { order: 2, transitions: { I: { V: -1 } } },
+    ].forEach((json) =>
+      expect(() => parseMarkovTable(json)).toThrow(InvalidInputError),
+    );
+  });
+});
+
+describe('createMarkovModel', () => {
+  const table: MarkovTable = {
+    order: 2,
+    transitions: {
+      ii: { V: 3, 'vii°': 1 },
+      'IV ii': { V7: 1 },
+    },
+  };
+
+  it('looks up the last two chords, then the last chord alone', () => {
+    const model = createMarkovModel(table);
+    expect(model.getNextChordWeights(['IV', 'ii'])).toEqual({ V7: 1 });
+    expect(model.getNextChordWeights(['vi', 'ii'])).toEqual({
+      V: 3,
+      'vii°': 1,
+    });
+    expect(model.getNextChordWeights(['ii'])).toEqual({ V: 3, 'vii°': 1 });
+    expect(model.getNextChordWeights(['ii65'])).toEqual({ V: 3, 'vii°': 1 });
+    expect(model.getNextChordWeights(['I'])).toBeNull();
+    expect(model.getNextChordWeights([])).toBeNull();
+  });
+
+  it('ignores second-order contexts in first-order tables', () => {
+    const model = createMarkovModel({ ...table, order: 1 });
+    expect(model.getNextChordWeights(['IV', 'ii'])).toEqual({
+      V: 3,
+      'vii°': 1,
+    });
+  });
+});
+
+describe('progression presets', () => {
+  it('ships valid second-order tables for each style', () => {
+    expect(Object.keys(PROGRESSION_PRESET_TABLES).sort()).toEqual([
+      'bachChorale',
+      'jazz',
+      'pop',
+    ]);
+    expect(PROGRESSION_PRESET_TABLES.bachChorale.name).toBe('Bach chorale');
+    Object.values(PROGRESSION_PRESET_TABLES).forEach((table) =>
+      expect(table.order).toBe(2),
+    );
+    expect(getProgressionPreset('jazz').getNextChordWeights(['ii7'])).toEqual(
+      expect.objectContaining({ V7: expect.any(Number) }),
+    );
+  });
+
+  it('rejects unknown presets', () => {
+    expect(() => getProgressionPreset('polka' as any)).toThrow(
+      InvalidInputError,
+    );
+  });
+});
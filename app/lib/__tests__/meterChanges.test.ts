@@ -0,0 +1,145 @@
+import { generateMusicalData } from '../generationEngine';
+import { createMusicXMLString } from '../musicXmlWriter';
+import { createMidiFile } from '../midiWriter';
+import { scoreToMusicXML } from '../toMusicXml';
+import { getMeasureDurationTicks, getMeasureStartTicks } from '../timeline';
+import { GenerationSettings, MeasureData } from '../types';
+
+describe('meter changes', () => {
+  const progression = ['I', 'IV', 'V', 'I', 'vi', 'ii', 'V', 'I'];
+  const settings: GenerationSettings = {
+    generationStyle: 'SATB',
+    melodicSmoothness: 5,
+    harmonicComplexity: 5,
+    dissonanceStrictness: 5,
+    rhythmicComplexity: 6,
+    seed: 1,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  /** Total ticks of each voice in a measure. */
+  const getVoiceTotals = (events: MeasureData['events']) =>
+    events
+      .filter((e) => !e.isChordElement)
+      .reduce<Record<string, number>>((totals, e) => {
+        const voice = `${e.staffNumber}-${e.voiceNumber}`;
+        totals[voice] = (totals[voice] ?? 0) + e.durationTicks;
+        return totals;
+      }, {});
+
+  it('fills every measure with its own meter, continuing the last one', () => {
+    const data = generateMusicalData(
+      progression,
+      'C',
+      '4/4 3/4 4/4 5/8',
+      8,
+      settings,
+    );
+    expect(data.metadata.meter).toBe('4/4');
+    expect(data.measures.map((m) => m.meter)).toEqual([
+      '4/4',
+      '3/4',
+      '4/4',
+      '5/8',
+      '5/8',
+      '5/8',
+      '5/8',
+      '5/8',
+    ]);
+    data.measures.forEach((measure) => {
+      const measureTicks = getMeasureDurationTicks(measure.meter!, 4);
+      Object.values(getVoiceTotals(measure.events)).forEach((total) =>
+        expect(total).toBe(measureTicks),
+      );
+    });
+    expect(getMeasureStartTicks(data).slice(0, 6)).toEqual([
+      0, 16, 28, 44, 54, 64,
+    ]);
+  });
+
+  it('fills additive measures in the melody style', () => {
+    const data = generateMusicalData(
+      progression.slice(0, 4),
+      'C',
+      '3+2+2/8',
+      4,
+      { ...settings, generationStyle: 'MelodyAccompaniment' },
+    );
+    expect(getMeasureDurationTicks('3+2+2/8', 4)).toBe(14);
+    data.measures.forEach((measure) =>
+      Object.values(getVoiceTotals(measure.events)).forEach((total) =>
+        expect(total).toBe(14),
+      ),
+    );
+  });
+
+  it('writes a time signature only where the meter changes', () => {
+    const data = generateMusicalData(
+      progression.slice(0, 4),
+      'C',
+      '4/4 4/4 3+2+2/8',
+      4,
+      settings,
+    );
+    const xml = createMusicXMLString(data);
+    const times = Array.from(
+      xml.matchAll(/<measure number="(\d+)"[\s\S]*?<\/measure>/g),
+    )
+      .filter((m) => m[0].includes('<time>'))
+      .map((m) => [m[1], m[0].match(/<beats>(.*?)<\/beats>/)![1]]);
+    expect(times).toEqual([
+      ['1', '4'],
+      ['3', '3+2+2'],
+    ]);
+  });
+
+  it('writes a time signature change in the MIDI conductor track', () => {
+    const data = generateMusicalData(
+      progression.slice(0, 3),
+      'C',
+      '4/4 3/4',
+      3,
+      settings,
+    );
+    const bytes = createMidiFile(data);
+    // Time signature meta events: FF 58 04 nn dd cc bb
+    const signatures: number[][] = [];
+    for (let i = 0; i < bytes.length - 4; i++) {
+      if (bytes[i] === 0xff && bytes[i + 1] === 0x58)
+        signatures.push([bytes[i + 3], bytes[i + 4]]);
+    }
+    expect(signatures).toEqual([
+      [4, 2],
+      [3, 2],
+    ]);
+  });
+
+  it('splits a score into measures of each meter', () => {
+    const xml = scoreToMusicXML(
+      {
+        melody: [
+          { note: 'C4', rhythm: 2 },
+          { note: 'D4', rhythm: 4 },
+          { note: 'E4', rhythm: 2 },
+        ],
+        accompaniment: [
+          { note: 'C3', rhythm: 2 },
+          { note: 'G2', rhythm: 4 },
+          { note: 'C3', rhythm: 2 },
+        ],
+      },
+      'C',
+      '3/4 2/4',
+    );
+    // Both parts have a 3/4 measure and a 2/4 measure
+    expect(xml.match(/<measure number=/g)).toHaveLength(4);
+    expect(
+      Array.from(xml.matchAll(/<beats>(.*?)<\/beats>/g), (m) => m[1]),
+    ).toEqual(['3', '2', '3', '2']);
+  });
+});
@@ -0,0 +1,257 @@
+import { createMidiFile } from '../midiWriter';
+import { scoreDataToPieceData } from '../toMusicXml';
+import { generateMusicalData } from '../generationEngine';
+import { GenerationError } from '../errors';
+import { GeneratedPieceData, GenerationSettings } from '../types';
+
+/** Minimal SMF reader: returns the header fields and the raw bytes of each track. */
+function readChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) =>
+    String.fromCharCode(...Array.from(bytes.slice(offset, offset + 4)));
+  const header = {
+    tag: tag(0),
+    length: view.getUint32(4),
+    format: view.getUint16(8),
+    numTracks: view.getUint16(10),
+    ppq: view.getUint16(12),
+  };
+  const tracks: Uint8Array[] = [];
+  let offset = 14;
+  while (offset < bytes.length) {
+    expect(tag(offset)).toBe('MTrk');
+    const length = view.getUint32(offset + 4);
+    tracks.push(bytes.slice(offset + 8, offset + 8 + length));
+    offset += 8 + length;
+  }
+  return { header, tracks };
+}
+
+/** Decodes a track into `{ tick, status, data }` entries (running status is not used by the writer). */
+function readEvents(track: Uint8Array) {
+  const events: { tick: number; status: number; data: number[] }[] = [];
+  let i = 0;
+  let tick = 0;
+  const readVlq = () => {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = track[i++];
+      value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  };
+  while (i < track.length) {
+    tick += readVlq();
+    const status = track[i++];
+    if (status === 0xff) {
+      const type = track[i++];
+      const length = readVlq();
+      events.push({
+        tick,
+        status,
+        data: [type, ...Array.from(track.slice(i, i + length))],
+      });
+      i += length;
+    } else {
+      const dataLength = (status & 0xf0) === 0xc0 ? 1 : 2;
+      events.push({
+        tick,
+        status,
+        data: Array.from(track.slice(i, i + dataLength)),
+      });
+      i += dataLength;
+    }
+  }
+  return events;
+}
+
+describe('createMidiFile', () => {
+  const baseMetadata: GeneratedPieceData['metadata'] = {
+    title: 'Test Piece',
+    software: 'Test',
+    encodingDate: '2024-01-01',
+    partName: 'Choir',
+    keySignature: 'G',
+    meter: '3/4',
+    numMeasures: 1,
+    generationStyle: 'SATB',
+    divisions: 4,
+  };
+
+  const chordPiece: GeneratedPieceData = {
+    metadata: baseMetadata,
+    measures: [
+      {
+        measureNumber: 1,
+        romanNumeral: 'I',
+        events: [
+          {
+            type: 'note',
+            midi: 67,
+            durationTicks: 12,
+            staffNumber: '1',
+            voiceNumber: '1',
+            noteType: 'half',
+          },
+          {
+            type: 'note',
+            midi: 62,
+            durationTicks: 12,
+            staffNumber: '1',
+            voiceNumber: '1',
+            noteType: 'half',
+            isChordElement: true,
+          },
+          {
+            type: 'note',
+            midi: 43,
+            durationTicks: 8,
+            staffNumber: '2',
+            voiceNumber: '1',
+            noteType: 'half',
+          },
+          {
+            type: 'rest',
+            midi: null,
+            durationTicks: 4,
+            staffNumber: '2',
+            voiceNumber: '1',
+            noteType: 'quarter',
+          },
+        ],
+      },
+    ],
+  };
+
+  it('writes a Type 1 header with a conductor track and one track per staff/voice', () => {
+    const { header, tracks } = readChunks(createMidiFile(chordPiece));
+    expect(header).toEqual({
+      tag: 'MThd',
+      length: 6,
+      format: 1,
+      numTracks: 3,
+      ppq: 480,
+    });
+    expect(tracks).toHaveLength(3);
+  });
+
+  it('writes tempo, time signature and key signature meta events in the conductor track', () => {
+    const { tracks } = readChunks(
+      createMidiFile(chordPiece, { tempoBpm: 120 }),
+    );
+    const metas = readEvents(tracks[0]).filter((e) => e.status === 0xff);
+    expect(metas.find((e) => e.data[0] === 0x51)!.data).toEqual([
+      0x51, 0x07, 0xa1, 0x20,
+    ]); // 500000 us
+    expect(metas.find((e) => e.data[0] === 0x58)!.data.slice(0, 3)).toEqual([
+      0x58, 3, 2,
+    ]);
+    expect(metas.find((e) => e.data[0] === 0x59)!.data).toEqual([0x59, 1, 0]); // G major: 1 sharp
+  });
+
+  it('starts chord elements together and rescales durations to 480 PPQ', () => {
+    const { tracks } = readChunks(createMidiFile(chordPiece));
+    const upper = readEvents(tracks[1]);
+    const noteOns = upper.filter((e) => (e.status & 0xf0) === 0x90);
+    const noteOffs = upper.filter((e) => (e.status & 0xf0) === 0x80);
+    expect(noteOns.map((e) => [e.tick, e.data[0]])).toEqual([
+      [0, 67],
+      [0, 62],
+    ]);
+    expect(noteOffs.map((e) => e.tick)).toEqual([1440, 1440]);
+
+    const lower = readEvents(tracks[2]);
+    expect(lower.filter((e) => (e.status & 0xf0) === 0x90)).toHaveLength(1);
+    expect(lower.find((e) => (e.status & 0xf0) === 0x80)!.tick).toBe(960);
+  });
+
+  it('uses separate channels and applies program overrides', () => {
+    const { tracks } = readChunks(
+      createMidiFile(chordPiece, { programs: { '2-1': 32 } }),
+    );
+    const programs = tracks
+      .slice(1)
+      .map((t) => readEvents(t).find((e) => (e.status & 0xf0) === 0xc0)!);
+    expect(programs.map((e) => e.status & 0x0f)).toEqual([0, 1]);
+    expect(programs.map((e) => e.data[0])).toEqual([52, 32]);
+  });
+
+  it('throws GenerationError for invalid metadata', () => {
+    expect(() =>
+      createMidiFile({
+        ...chordPiece,
+        metadata: { ...baseMetadata, meter: 'x' },
+      }),
+    ).toThrow(GenerationError);
+    expect(() => createMidiFile(chordPiece, { tempoBpm: 0 })).toThrow(
+      GenerationError,
+    );
+  });
+
+  it('exports a generated SATB piece with matching note-on and note-off counts', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    const settings: GenerationSettings = {
+      generationStyle: 'SATB',
+      melodicSmoothness: 7,
+      harmonicComplexity: 3,
+      dissonanceStrictness: 5,
+      seed: 42,
+    };
+    const data = generateMusicalData(
+      ['I', 'IV', 'V', 'I'],
+      'C',
+      '4/4',
+      4,
+      settings,
+    );
+    const { header, tracks } = readChunks(createMidiFile(data));
+    expect(header.numTracks).toBe(3); // conductor + one track per staff (SATB pairs voices as chords)
+    tracks.slice(1).forEach((track) => {
+      const events = readEvents(track);
+      const ons = events.filter((e) => (e.status & 0xf0) === 0x90).length;
+      const offs = events.filter((e) => (e.status & 0xf0) === 0x80).length;
+      expect(ons).toBeGreaterThan(0);
+      expect(ons).toBe(offs);
+    });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('scoreDataToPieceData', () => {
+  it('places melody and accompaniment on separate staves and splits them into measures', () => {
+    const data = scoreDataToPieceData(
+      {
+        melody: [
+          { note: 'C4', rhythm: 2 },
+          { note: 'E4', rhythm: 2 },
+          { note: 'G4', rhythm: 1 },
+        ],
+        accompaniment: [
+          { note: 'C3', rhythm: 1 },
+          { note: 'rest', rhythm: -1 },
+        ],
+      },
+      'C',
+      '4/4',
+      { progression: ['I', 'V'] },
+    );
+    expect(data.metadata.generationStyle).toBe('MelodyAccompaniment');
+    expect(data.measures.map((m) => m.romanNumeral)).toEqual(['I', 'V']);
+    expect(data.measures[0].events.map((e) => [e.staffNumber, e.midi])).toEqual(
+      [
+        ['1', 60],
+        ['1', 64],
+        ['2', 48],
+      ],
+    );
+    expect(data.measures[1].events.map((e) => e.type)).toEqual([
+      'note',
+      'rest',
+    ]);
+    expect(data.measures[1].events[0].durationTicks).toBe(
+      data.metadata.divisions * 4,
+    );
+  });
+});
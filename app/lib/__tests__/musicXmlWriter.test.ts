@@ -44,7 +44,8 @@ describe('createMusicXMLString', () => {
     expect(xmlString).toContain('<sign>F</sign>');
     expect(xmlString).toContain('<line>4</line>');
     expect(xmlString).toContain('<harmony>');
-    expect(xmlString).toContain('<kind text="I">other</kind>');
+    expect(xmlString).toContain('<root-step>C</root-step>');
+    expect(xmlString).toMatch(/<\/root>\s*<kind>[a-z-]+<\/kind>/);
     // Check for notes
     expect(xmlString).toContain('<step>C</step>');
     expect(xmlString).toContain('<octave>4</octave>'); // MIDI 60
@@ -116,6 +117,66 @@ describe('createMusicXMLString', () => {
     expect(xmlAMinor).toContain('<mode>minor</mode>');
   });
 
+  test('should write the key signature of minor keys', () => {
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, keySignature: 'Em', numMeasures: 1 },
+      measures: [{ measureNumber: 1, romanNumeral: 'i', events: [] }],
+    });
+    expect(xml).toContain('<fifths>1</fifths>'); // E minor: 1 sharp
+    expect(xml).toContain('<mode>minor</mode>');
+  });
+
+  test('should write key changes and courtesy accidentals after a modulation', () => {
+    const note = (midi: number): MusicalEvent => ({ type: 'note', midi, durationTicks: 16, staffNumber: '1', voiceNumber: '1', noteType: 'whole', isChordElement: false, stemDirection: 'up' });
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, numMeasures: 3 },
+      measures: [
+        { measureNumber: 1, romanNumeral: 'I', keySignature: 'C', events: [note(65)] },
+        { measureNumber: 2, romanNumeral: 'G:V7', keySignature: 'G', events: [note(66)] },
+        { measureNumber: 3, romanNumeral: 'G:I', keySignature: 'G', events: [note(66)] },
+      ],
+    });
+    const measureXml = (number: number) => xml.split(`<measure number="${number}">`)[1].split('</measure>')[0];
+    expect(measureXml(2)).toMatch(/<key>\s*<fifths>1<\/fifths>\s*<mode>major<\/mode>\s*<\/key>/);
+    // F# is spelled with a sharp in G major and gets a cautionary accidental once
+    expect(measureXml(2)).toMatch(/<step>F<\/step>\s*<alter>1<\/alter>/);
+    expect(measureXml(2)).toContain('<accidental cautionary="yes">sharp</accidental>');
+    expect(measureXml(3)).not.toContain('<key>');
+    expect(measureXml(3)).not.toContain('<accidental');
+  });
+
+  test('should not mark accidentals outside the new key as cautionary', () => {
+    const note = (midi: number): MusicalEvent => ({ type: 'note', midi, durationTicks: 8, staffNumber: '1', voiceNumber: '1', noteType: 'half', isChordElement: false, stemDirection: 'up' });
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, numMeasures: 2 },
+      measures: [
+        { measureNumber: 1, romanNumeral: 'I', keySignature: 'C', events: [note(65), note(65)] },
+        // F natural right after the move to G major needs its accidental
+        { measureNumber: 2, romanNumeral: 'G:IV', keySignature: 'G', events: [note(65), note(67)] },
+      ],
+    });
+    const measureXml = xml.split('<measure number="2">')[1].split('</measure>')[0];
+    expect(measureXml).toMatch(/<step>F<\/step>\s*<octave>4<\/octave>/);
+    expect(measureXml).not.toContain('cautionary');
+  });
+
+  test('should spell notes in keys with many accidentals from the chord and the key', () => {
+    const note = (midi: number): MusicalEvent => ({ type: 'note', midi, durationTicks: 4, staffNumber: '1', voiceNumber: '1', noteType: 'quarter', isChordElement: false, stemDirection: 'up' });
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, keySignature: 'F#', numMeasures: 2 },
+      measures: [
+        { measureNumber: 1, romanNumeral: 'V7', keySignature: 'F#', events: [note(65), note(68), note(71), note(73)] },
+        // A modulation to Gb major, where B is written as Cb
+        { measureNumber: 2, romanNumeral: 'IV', keySignature: 'Gb', events: [note(71), note(63), note(66), note(71)] },
+      ],
+    });
+    const measureXml = (number: number) => xml.split(`<measure number="${number}">`)[1].split('</measure>')[0];
+    expect(measureXml(1)).toMatch(/<step>E<\/step>\s*<alter>1<\/alter>\s*<octave>4<\/octave>/);
+    expect(measureXml(1)).not.toContain('<step>F</step>');
+    expect(measureXml(2)).toMatch(/<step>C<\/step>\s*<alter>-1<\/alter>\s*<octave>5<\/octave>/);
+    expect(xml).not.toContain('natural</accidental>');
+  });
+
   test('should correctly represent different time signatures', () => {
     const threeFourData: GeneratedPieceData = {
       metadata: { ...basicMetadata, meter: '3/4', numMeasures: 1 },
@@ -134,14 +195,180 @@ describe('createMusicXMLString', () => {
     expect(xmlSixEight).toContain('<beat-type>8</beat-type>');
   });
   
-  test('should include harmony elements with Roman numerals', () => {
+  test('should include harmony elements with the root, kind and bass of each chord', () => {
     const pieceData: GeneratedPieceData = {
       metadata: basicMetadata,
-      measures: [{ measureNumber: 1, romanNumeral: 'V7/IV', events: [] }],
+      measures: [
+        { measureNumber: 1, romanNumeral: 'V7/IV', events: [] },
+        { measureNumber: 2, romanNumeral: 'V65', events: [] },
+      ],
     };
     const xmlString = createMusicXMLString(pieceData);
-    expect(xmlString).toContain('<harmony>');
-    expect(xmlString).toContain('<kind text="V7/IV">other</kind>');
+    expect(xmlString).toMatch(/<root-step>C<\/root-step>\s*<\/root>\s*<kind>dominant<\/kind>/);
+    expect(xmlString).toMatch(/<root-step>G<\/root-step>\s*<\/root>\s*<kind>dominant<\/kind>\s*<bass>\s*<bass-step>B<\/bass-step>/);
+    // Roman numerals are only written when asked for
+    expect(xmlString).not.toContain('<words>V65</words>');
+  });
+
+  test('should write Roman numerals below the bass staff and leave out chord symbols on request', () => {
+    const xml = createMusicXMLString(
+      {
+        metadata: basicMetadata,
+        measures: [{ measureNumber: 1, romanNumeral: 'ii°7', events: [] }],
+      },
+      { chordSymbols: false, romanNumerals: true },
+    );
+    expect(xml).not.toContain('<harmony>');
+    expect(xml).toMatch(/<direction placement="below">\s*<direction-type>\s*<words>ii°7<\/words>\s*<\/direction-type>\s*<staff>2<\/staff>/);
+  });
+
+  test('should write one harmony per chord change with its offset', () => {
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, numMeasures: 1 },
+      measures: [{
+        measureNumber: 1,
+        romanNumeral: 'V',
+        chords: [
+          { romanNumeral: 'V', startTick: 0, durationTicks: 8, continued: true },
+          { romanNumeral: 'I', startTick: 8, durationTicks: 8, continued: false },
+        ],
+        events: [],
+      }],
+    });
+    // The sustained V is not repeated; the I starts half way through the measure
+    expect(xml).not.toContain('<root-step>G</root-step>');
+    expect(xml).toMatch(/<root-step>C<\/root-step>[^]*<offset>8<\/offset>/);
+  });
+
+  test('should write dotted durations with dots and tie notes across barlines and into split durations', () => {
+    const note = (midi: number, durationTicks: number, extra: Partial<MusicalEvent> = {}): MusicalEvent => ({
+      type: 'note', midi, durationTicks, staffNumber: '1', voiceNumber: '1', noteType: 'quarter', ...extra,
+    });
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, meter: '6/8', numMeasures: 2 },
+      measures: [
+        // A dotted quarter, then a dotted quarter tied over the barline
+        { measureNumber: 1, romanNumeral: 'V', events: [note(67, 6), note(72, 6, { tieStart: true })] },
+        // The tied note ends on a 5-eighth note (a half tied to an eighth) with its chord tone
+        { measureNumber: 2, romanNumeral: 'V', events: [note(72, 2, { tieStop: true }), note(71, 10), note(74, 10, { isChordElement: true })] },
+      ],
+    });
+    expect(xml).toMatch(/<type>quarter<\/type>\s*<dot\/>/);
+    expect(xml).toMatch(/<octave>5<\/octave>[^]*?<duration>6<\/duration>\s*<tie type="start"\/>[^]*?<tied type="start"\/>/);
+    expect(xml).toMatch(/<duration>2<\/duration>\s*<tie type="stop"\/>\s*<voice>1<\/voice>\s*<type>eighth<\/type>/);
+    // Both notes of the chord are split into a tied half and eighth
+    expect(xml.match(/<duration>8<\/duration>\s*<tie type="start"\/>/g)).toHaveLength(2);
+    expect(xml.match(/<duration>2<\/duration>\s*<tie type="stop"\/>/g)).toHaveLength(3);
+  });
+
+  test('should beam eighths and sixteenths by the beat groups of the meter', () => {
+    const note = (midi: number, durationTicks: number, extra: Partial<MusicalEvent> = {}): MusicalEvent => ({
+      type: 'note', midi, durationTicks, staffNumber: '1', voiceNumber: '1', noteType: 'eighth', ...extra,
+    });
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, meter: '6/8' },
+      measures: [
+        {
+          measureNumber: 1,
+          romanNumeral: 'I',
+          // Three eighths (the first a chord), then two sixteenths and two eighths
+          events: [note(72, 2), note(76, 2, { isChordElement: true }), note(74, 2), note(72, 2),
+            note(71, 1), note(72, 1), note(74, 2), note(76, 2)],
+        },
+      ],
+    });
+    const beams = (xml.match(/<beam number="\d">[^<]*<\/beam>/g) ?? []).join(' ');
+    expect(beams).toBe([
+      '<beam number="1">begin</beam>', '<beam number="1">continue</beam>', '<beam number="1">end</beam>',
+      '<beam number="1">begin</beam>', '<beam number="2">begin</beam>',
+      '<beam number="1">continue</beam>', '<beam number="2">end</beam>',
+      '<beam number="1">continue</beam>', '<beam number="1">end</beam>',
+    ].join(' '));
+    // The beams follow the staff, on the first note of the chord only
+    expect(xml).toMatch(/<staff>1<\/staff>\s*<beam number="1">begin<\/beam>\s*<\/note>\s*<note>\s*<chord\/>[^]*?<staff>1<\/staff>\s*<\/note>/);
+  });
+
+  test('should write triplets with time modifications and tuplet brackets', () => {
+    const event = (midi: number | null, durationTicks: number, extra: Partial<MusicalEvent> = {}): MusicalEvent => ({
+      type: midi === null ? 'rest' : 'note', midi, durationTicks, staffNumber: '1', voiceNumber: '1', noteType: 'eighth',
+      tuplet: { actualNotes: 3, normalNotes: 2 }, ...extra,
+    });
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, meter: '2/4', divisions: 12 },
+      measures: [
+        {
+          measureNumber: 1,
+          romanNumeral: 'I',
+          // A triplet of eighths, then one starting with a rest
+          events: [event(72, 4), event(74, 4), event(76, 4), event(null, 4), event(74, 4), event(72, 4)],
+        },
+      ],
+    });
+    expect(xml.match(/<duration>4<\/duration>\s*<voice>1<\/voice>\s*(<type>eighth<\/type>\s*)?<time-modification>\s*<actual-notes>3<\/actual-notes>\s*<normal-notes>2<\/normal-notes>\s*<\/time-modification>/g)).toHaveLength(6);
+    expect(xml.match(/<type>eighth<\/type>/g)).toHaveLength(5);
+    expect(xml.match(/<tuplet type="start"\/>/g)).toHaveLength(2);
+    expect(xml.match(/<tuplet type="stop"\/>/g)).toHaveLength(2);
+    expect(xml).toMatch(/<rest\/>[^]*?<tuplet type="start"\/>/);
+    // The tuplet notes are written whole, not split into tied notes
+    expect(xml).not.toContain('<tie ');
+  });
+
+  test('should write the elements of each note in the order of the MusicXML schema', () => {
+    const order = ['chord', 'pitch', 'rest', 'duration', 'tie', 'voice', 'type', 'dot', 'accidental', 'time-modification', 'stem', 'staff', 'beam', 'notations'];
+    const note = (midi: number, durationTicks: number, extra: Partial<MusicalEvent> = {}): MusicalEvent => ({
+      type: 'note', midi, durationTicks, staffNumber: '1', voiceNumber: '1', noteType: 'eighth', stemDirection: 'up', ...extra,
+    });
+    const triplet = { tuplet: { actualNotes: 3, normalNotes: 2 } };
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, meter: '2/4', numMeasures: 2, divisions: 12 },
+      measures: [
+        // Triplet eighths, then a dotted eighth chord tied over the barline and a sixteenth
+        { measureNumber: 1, romanNumeral: 'I', keySignature: 'C', events: [note(72, 4, triplet), note(74, 4, triplet), note(76, 4, triplet),
+          note(67, 9, { tieStart: true }), note(72, 9, { isChordElement: true, tieStart: true }), note(65, 3)] },
+        // The courtesy accidental of F# after the key change
+        { measureNumber: 2, romanNumeral: 'G:V7', keySignature: 'G', events: [note(67, 12, { tieStop: true }), note(72, 12, { isChordElement: true, tieStop: true }),
+          note(66, 6), { type: 'rest', midi: null, durationTicks: 6, staffNumber: '1', voiceNumber: '1', noteType: 'eighth' }] },
+      ],
+    });
+    const notes = xml.match(/<note>[^]*?<\/note>/g) ?? [];
+    expect(notes.length).toBeGreaterThan(0);
+    notes.forEach((noteXml) => {
+      const children = Array.from(
+        noteXml.replace(/<(pitch|time-modification|notations)>[^]*?<\/\1>/g, '<$1/>').matchAll(/<([a-z-]+)[ />]/g),
+        (m) => m[1],
+      ).slice(1);
+      const positions = children.map((name) => order.indexOf(name));
+      expect(positions).not.toContain(-1);
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+    ['<dot/>', '<tie type="start"/>', '<accidental cautionary="yes">', '<time-modification>', '<stem>', '<beam number="1">', '<chord/>'].forEach((element) =>
+      expect(xml).toContain(element),
+    );
+  });
+
+  test('should mark phrases with rehearsal marks and double barlines', () => {
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, numMeasures: 2 },
+      measures: [
+        { measureNumber: 1, romanNumeral: 'V', phraseLabel: 'Antecedent', phraseEnd: true, events: [] },
+        { measureNumber: 2, romanNumeral: 'I', phraseLabel: 'Consequent', phraseEnd: true, events: [] },
+      ],
+    });
+    expect(xml).toMatch(/<direction placement="above">\s*<direction-type>\s*<rehearsal>Antecedent<\/rehearsal>/);
+    expect(xml).toMatch(/<barline location="right">\s*<bar-style>light-light<\/bar-style>\s*<\/barline>\s*<\/measure>\s*<measure number="2">/);
+    expect(xml).toMatch(/<bar-style>light-heavy<\/bar-style>\s*<\/barline>\s*<\/measure>\s*<\/part>/);
+  });
+
+  test('should label cadences below the bass staff', () => {
+    const xml = createMusicXMLString({
+      metadata: { ...basicMetadata, numMeasures: 2 },
+      measures: [
+        { measureNumber: 1, romanNumeral: 'V', cadence: { type: 'half', tick: 8 }, events: [] },
+        { measureNumber: 2, romanNumeral: 'I', cadence: { type: 'PAC', tick: 0 }, events: [] },
+      ],
+    });
+    expect(xml).toMatch(/<direction placement="below">\s*<direction-type>\s*<words>HC<\/words>\s*<\/direction-type>\s*<offset>8<\/offset>\s*<staff>2<\/staff>/);
+    expect(xml).toMatch(/<words>PAC<\/words>\s*<\/direction-type>\s*<staff>2<\/staff>/);
   });
 
   test('should correctly handle multi-staff setup and clefs', () => {
@@ -1,4 +1,4 @@
-import { midiToMusicXMLPitch, getMusicXMLDurationType, getNoteTypeFromDuration } from '../musicxmlUtils';
+import { midiToMusicXMLPitch, getMusicXMLDurationType, getNoteTypeFromDuration, getChordSymbol, getNotatedDuration, getSpellingPitchClasses, splitIntoNotatedDurations, getBeamGroupTicks, getBeams, getTupletBrackets, getWrittenDurationTicks } from '../musicxmlUtils';
 
 describe('midiToMusicXMLPitch', () => {
   test('should convert MIDI for natural notes', () => {
@@ -54,6 +54,19 @@ describe('midiToMusicXMLPitch', () => {
     expect(midiToMusicXMLPitch(68)).toEqual({ step: 'G', alter: 1, octave: 4 }); // G#4, from Abb4's MIDI value
   });
 
+  test('should spell notes from the chord and the key in keys with many accidentals', () => {
+    // E# in F# major and B# in C# major, on the leading tone
+    expect(midiToMusicXMLPitch(65, 6, getSpellingPitchClasses('I', 'F#'))).toEqual({ step: 'E', alter: 1, octave: 4 });
+    expect(midiToMusicXMLPitch(60, 7, getSpellingPitchClasses('V7', 'C#'))).toEqual({ step: 'B', alter: 1, octave: 3 });
+    // Cb in Gb major and Fb in Cb major, in the octave of the sounding note
+    expect(midiToMusicXMLPitch(71, -6, getSpellingPitchClasses('IV', 'Gb'))).toEqual({ step: 'C', alter: -1, octave: 5 });
+    expect(midiToMusicXMLPitch(64, -7, getSpellingPitchClasses('I', 'Cb'))).toEqual({ step: 'F', alter: -1, octave: 4 });
+    // Chord tones come first: the leading tone of the tonicized key in V7/V
+    expect(midiToMusicXMLPitch(66, 0, getSpellingPitchClasses('V7/V', 'C'))).toEqual({ step: 'F', alter: 1, octave: 4 });
+    // Notes outside the chord and the key fall back to the key signature
+    expect(midiToMusicXMLPitch(63, 1, getSpellingPitchClasses('I', 'G'))).toEqual({ step: 'D', alter: 1, octave: 4 });
+  });
+
   test('should handle edge MIDI values', () => {
     expect(midiToMusicXMLPitch(21)).toEqual({ step: 'A', alter: undefined, octave: 0 }); // A0
     expect(midiToMusicXMLPitch(108)).toEqual({ step: 'C', alter: undefined, octave: 8 }); // C8
@@ -158,6 +171,11 @@ describe('getNoteTypeFromDuration', () => {
     // Larger than whole
     expect(getNoteTypeFromDuration(20, divisions)).toBe('whole');   // ratio 5. >= 4 (whole)
   });
+
+  test('should return "breve" for two whole notes or more (e.g., in 4/2 or 3/1)', () => {
+    expect(getNoteTypeFromDuration(divisions * 8, divisions)).toBe('breve');  // 32 ticks, ratio 8
+    expect(getNoteTypeFromDuration(divisions * 12, divisions)).toBe('breve'); // A 3/1 measure
+  });
   
   test('should default to "quarter" for very short durations smaller than 32nd and log warning', () => {
     // divisions = 4. 32nd is 0.125 ratio (0.5 ticks).
@@ -199,6 +217,175 @@ describe('getNoteTypeFromDuration', () => {
   });
 });
 
+describe('getNotatedDuration', () => {
+  const divisions = 4;
+  test('should find plain, dotted and double-dotted notes', () => {
+    expect(getNotatedDuration(8, divisions)).toEqual({ noteType: 'half', dots: 0 });
+    expect(getNotatedDuration(6, divisions)).toEqual({ noteType: 'quarter', dots: 1 }); // 3/8
+    expect(getNotatedDuration(7, divisions)).toEqual({ noteType: 'quarter', dots: 2 });
+    expect(getNotatedDuration(12, divisions)).toEqual({ noteType: 'half', dots: 1 });
+    expect(getNotatedDuration(48, divisions)).toEqual({ noteType: 'breve', dots: 1 }); // 3/1
+  });
+
+  test('should return null for durations no single note can write', () => {
+    expect(getNotatedDuration(5, divisions)).toBeNull();
+    expect(getNotatedDuration(7, divisions, 1)).toBeNull();
+  });
+});
+
+describe('splitIntoNotatedDurations', () => {
+  test('should split into the longest plain or dotted notes', () => {
+    expect(splitIntoNotatedDurations(10, 4)).toEqual([8, 2]);
+    expect(splitIntoNotatedDurations(5, 4)).toEqual([4, 1]);
+    expect(splitIntoNotatedDurations(20, 4)).toEqual([16, 4]);
+    expect(splitIntoNotatedDurations(6, 4)).toEqual([6]);
+  });
+});
+
+describe('getBeamGroupTicks', () => {
+  test('should group simple meters by beat and compound and additive meters by their beat groups', () => {
+    expect(getBeamGroupTicks('4/4', 4)).toEqual([4, 4, 4, 4]);
+    expect(getBeamGroupTicks('6/8', 4)).toEqual([6, 6]);
+    expect(getBeamGroupTicks('7/8', 4)).toEqual([4, 4, 6]);
+    expect(getBeamGroupTicks('2/2', 4)).toEqual([8, 8]);
+    expect(getBeamGroupTicks('4', 4)).toEqual([]);
+  });
+});
+
+describe('getBeams', () => {
+  const divisions = 4;
+  const notes = (durations: number[]) => {
+    let startTicks = 0;
+    return durations.map((duration) => {
+      const note = { startTicks, durationTicks: Math.abs(duration), isRest: duration < 0 };
+      startTicks += Math.abs(duration);
+      return note;
+    });
+  };
+
+  test('should beam eighths and sixteenths within each beat group', () => {
+    // 6/8: three eighths, then two sixteenths and two eighths
+    expect(getBeams(notes([2, 2, 2, 1, 1, 2, 2]), [6, 6], divisions)).toEqual([
+      ['begin'], ['continue'], ['end'],
+      ['begin', 'begin'], ['continue', 'end'], ['continue'], ['end'],
+    ]);
+  });
+
+  test('should break beams at beat groups, rests and longer notes', () => {
+    // 4/4: eighths across beats 1 and 2, a rest, a lone eighth and a quarter
+    expect(getBeams(notes([2, 2, 2, 2, -2, 2, 4]), [4, 4, 4, 4], divisions)).toEqual([
+      ['begin'], ['end'], ['begin'], ['end'], [], [], [],
+    ]);
+    // An eighth crossing the beat is not beamed
+    expect(getBeams(notes([2, 4, 2]), [4, 4], divisions)).toEqual([[], [], []]);
+  });
+
+  test('should beam tuplet notes by their written type', () => {
+    // 4/4 at 12 divisions: triplet eighths, then an eighth and triplet sixteenths
+    const triplet = { actualNotes: 3, normalNotes: 2 };
+    const tripletNotes = [4, 4, 4, 6, 2, 2, 2].map((durationTicks, i, all) => ({
+      startTicks: all.slice(0, i).reduce((sum, d) => sum + d, 0),
+      durationTicks,
+      isRest: false,
+      tuplet: i === 3 ? undefined : triplet,
+    }));
+    expect(getBeams(tripletNotes, [12, 12], 12)).toEqual([
+      ['begin'], ['continue'], ['end'],
+      ['begin'], ['continue', 'begin'], ['continue', 'continue'], ['end', 'end'],
+    ]);
+  });
+
+  test('should hook the sixteenth of a dotted-eighth pair', () => {
+    expect(getBeams(notes([3, 1, 1, 3]), [4, 4], divisions)).toEqual([
+      ['begin'], ['end', 'backward hook'], ['begin', 'forward hook'], ['end'],
+    ]);
+  });
+});
+
+describe('getWrittenDurationTicks', () => {
+  test('should give the duration of the plain note a tuplet note stands for', () => {
+    expect(getWrittenDurationTicks(4, { actualNotes: 3, normalNotes: 2 })).toBe(6);
+    expect(getWrittenDurationTicks(3, { actualNotes: 2, normalNotes: 3 })).toBe(2);
+    expect(getWrittenDurationTicks(4)).toBe(4);
+  });
+});
+
+describe('getTupletBrackets', () => {
+  const triplet = { actualNotes: 3, normalNotes: 2 };
+  const quintuplet = { actualNotes: 5, normalNotes: 4 };
+
+  test('should bracket each complete tuplet', () => {
+    // Two triplets of eighths (at 12 divisions), a quarter, then a triplet quarter and eighth
+    const notes = [
+      ...[4, 4, 4, 4, 4, 4].map((durationTicks) => ({ durationTicks, tuplet: triplet })),
+      { durationTicks: 12 },
+      { durationTicks: 8, tuplet: triplet },
+      { durationTicks: 4, tuplet: triplet },
+    ];
+    expect(getTupletBrackets(notes).map(({ start, stop }) => `${start ? '[' : ''}${stop ? ']' : ''}`)).toEqual([
+      '[', '', ']', '[', '', ']', '', '[', ']',
+    ]);
+  });
+
+  test('should close a bracket when the tuplet changes or the notes end', () => {
+    const notes = [
+      { durationTicks: 4, tuplet: triplet },
+      { durationTicks: 4, tuplet: triplet },
+      ...[3, 3].map((durationTicks) => ({ durationTicks, tuplet: quintuplet })),
+    ];
+    expect(getTupletBrackets(notes)).toEqual([
+      { start: true, stop: false },
+      { start: false, stop: true },
+      { start: true, stop: false },
+      { start: false, stop: true },
+    ]);
+  });
+});
+
 // Tests for addNotesToStaffXML were removed as the function itself was removed
 // from musicxmlUtils.ts and its logic integrated into musicXmlWriter.ts.
 // The functionality is now implicitly tested via createMusicXMLString tests.
+
+describe('getChordSymbol', () => {
+  test('should give the root and kind of diatonic and applied chords', () => {
+    expect(getChordSymbol('viio', 'C')).toEqual({ root: { step: 'B', alter: 0 }, kind: 'diminished', bass: undefined });
+    expect(getChordSymbol('III+', 'Am')).toMatchObject({ root: { step: 'C', alter: 0 }, kind: 'augmented' });
+    expect(getChordSymbol('V7/V', 'C')).toMatchObject({ root: { step: 'D', alter: 0 }, kind: 'dominant' });
+    expect(getChordSymbol('ii°7', 'Am')).toMatchObject({ root: { step: 'B', alter: 0 }, kind: 'half-diminished' });
+    expect(getChordSymbol('vii°7', 'Am')).toMatchObject({ root: { step: 'G', alter: 1 }, kind: 'diminished-seventh' });
+  });
+
+  test('should give triads a triad kind unless the figure asks for a seventh', () => {
+    expect(getChordSymbol('I', 'C')).toEqual({ root: { step: 'C', alter: 0 }, kind: 'major', bass: undefined });
+    expect(getChordSymbol('IV', 'C')).toEqual({ root: { step: 'F', alter: 0 }, kind: 'major', bass: undefined });
+    expect(getChordSymbol('V', 'C')).toEqual({ root: { step: 'G', alter: 0 }, kind: 'major', bass: undefined });
+    expect(getChordSymbol('vii°', 'C')).toEqual({ root: { step: 'B', alter: 0 }, kind: 'diminished', bass: undefined });
+    expect(getChordSymbol('ii6', 'C')).toEqual({ root: { step: 'D', alter: 0 }, kind: 'minor', bass: { step: 'F', alter: 0 } });
+    expect(getChordSymbol('G:V', 'C')?.kind).toBe('major');
+    expect(getChordSymbol('V7', 'C')?.kind).toBe('dominant');
+    expect(getChordSymbol('IV7', 'C')?.kind).toBe('major-seventh');
+  });
+
+  test('should give the bass of inversions', () => {
+    expect(getChordSymbol('V65', 'Bb')).toEqual({
+      root: { step: 'F', alter: 0 },
+      kind: 'dominant',
+      bass: { step: 'A', alter: 0 },
+    });
+    expect(getChordSymbol('IV64', 'C')?.bass).toEqual({ step: 'C', alter: 0 });
+  });
+
+  test('should name the Neapolitan and the augmented sixths', () => {
+    expect(getChordSymbol('N6', 'C')).toEqual({
+      root: { step: 'D', alter: -1 },
+      kind: 'Neapolitan',
+      bass: { step: 'F', alter: 0 },
+    });
+    expect(getChordSymbol('Ger65', 'C')).toMatchObject({ root: { step: 'A', alter: -1 }, kind: 'German', bass: undefined });
+    expect(getChordSymbol('It6', 'Am')?.kind).toBe('Italian');
+  });
+
+  test('should return null for chords that cannot be parsed', () => {
+    expect(getChordSymbol('X7', 'C')).toBeNull();
+  });
+});
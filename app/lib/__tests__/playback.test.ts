@@ -0,0 +1,186 @@
+import { getPlaybackParts, isPartAudible, midiToFrequency } from '../playback';
+import { getMeasureDurationTicks, getTimedNotes } from '../timeline';
+import { GenerationError } from '../errors';
+import { GeneratedPieceData } from '../types';
+
+describe('playback helpers', () => {
+  const piece: GeneratedPieceData = {
+    metadata: {
+      title: 'Test',
+      software: 'Test',
+      encodingDate: '2024-01-01',
+      partName: 'Melody + Accompaniment',
+      keySignature: 'C',
+      meter: '2/4',
+      numMeasures: 2,
+      generationStyle: 'MelodyAccompaniment',
+      divisions: 4,
+    },
+    measures: [
+      {
+        measureNumber: 1,
+        romanNumeral: 'I',
+        events: [
+          {
+            type: 'rest',
+            midi: null,
+            durationTicks: 4,
+            staffNumber: '1',
+            voiceNumber: '1',
+            noteType: 'quarter',
+          },
+          {
+            type: 'note',
+            midi: 64,
+            durationTicks: 4,
+            staffNumber: '1',
+            voiceNumber: '1',
+            noteType: 'quarter',
+          },
+          {
+            type: 'note',
+            midi: 48,
+            durationTicks: 8,
+            staffNumber: '2',
+            voiceNumber: '2',
+            noteType: 'half',
+          },
+          {
+            type: 'note',
+            midi: 55,
+            durationTicks: 8,
+            staffNumber: '2',
+            voiceNumber: '2',
+            noteType: 'half',
+            isChordElement: true,
+          },
+        ],
+      },
+      {
+        measureNumber: 2,
+        romanNumeral: 'V',
+        events: [
+          {
+            type: 'note',
+            midi: 62,
+            durationTicks: 8,
+            staffNumber: '1',
+            voiceNumber: '1',
+            noteType: 'half',
+          },
+        ],
+      },
+    ],
+  };
+
+  describe('getTimedNotes', () => {
+    it('places notes by measure, voice position and chord membership', () => {
+      const notes = getTimedNotes(piece);
+      expect(
+        notes.map((n) => [
+          n.midi,
+          n.startTicks,
+          n.durationTicks,
+          n.measureIndex,
+        ]),
+      ).toEqual([
+        [48, 0, 8, 0],
+        [55, 0, 8, 0],
+        [64, 4, 4, 0],
+        [62, 8, 8, 1],
+      ]);
+    });
+
+    it('joins tied notes into one note', () => {
+      const tied: GeneratedPieceData = {
+        ...piece,
+        measures: [
+          {
+            ...piece.measures[0],
+            events: [
+              {
+                type: 'note',
+                midi: 67,
+                durationTicks: 8,
+                staffNumber: '1',
+                voiceNumber: '1',
+                noteType: 'half',
+                tieStart: true,
+              },
+            ],
+          },
+          {
+            ...piece.measures[1],
+            events: [
+              {
+                type: 'note',
+                midi: 67,
+                durationTicks: 4,
+                staffNumber: '1',
+                voiceNumber: '1',
+                noteType: 'quarter',
+                tieStop: true,
+              },
+              {
+                type: 'note',
+                midi: 67,
+                durationTicks: 4,
+                staffNumber: '1',
+                voiceNumber: '1',
+                noteType: 'quarter',
+              },
+            ],
+          },
+        ],
+      };
+      expect(
+        getTimedNotes(tied).map((n) => [n.midi, n.startTicks, n.durationTicks]),
+      ).toEqual([
+        [67, 0, 12],
+        [67, 12, 4],
+      ]);
+    });
+
+    it('throws GenerationError for an invalid meter', () => {
+      expect(() => getMeasureDurationTicks('waltz', 4)).toThrow(
+        GenerationError,
+      );
+      expect(getMeasureDurationTicks('6/8', 4)).toBe(12);
+    });
+  });
+
+  describe('getPlaybackParts', () => {
+    it('returns one named part per staff', () => {
+      expect(getPlaybackParts(piece)).toEqual([
+        { key: '1', name: 'Melody' },
+        { key: '2', name: 'Accompaniment' },
+      ]);
+    });
+  });
+
+  describe('isPartAudible', () => {
+    it('plays every part that is not muted when nothing is soloed', () => {
+      const states = {
+        '1': { muted: true, solo: false },
+        '2': { muted: false, solo: false },
+      };
+      expect(isPartAudible('1', states)).toBe(false);
+      expect(isPartAudible('2', states)).toBe(true);
+      expect(isPartAudible('3', states)).toBe(true);
+    });
+
+    it('plays only soloed parts when any part is soloed', () => {
+      const states = {
+        '1': { muted: false, solo: false },
+        '2': { muted: true, solo: true },
+      };
+      expect(isPartAudible('1', states)).toBe(false);
+      expect(isPartAudible('2', states)).toBe(true);
+    });
+  });
+
+  it('converts MIDI numbers to frequencies', () => {
+    expect(midiToFrequency(69)).toBeCloseTo(440);
+    expect(midiToFrequency(60)).toBeCloseTo(261.63, 1);
+  });
+});
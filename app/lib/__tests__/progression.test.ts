@@ -1,5 +1,8 @@
-import { generateChordProgression } from '../progression';
+import { generateChordProgression, getModulationKey } from '../progression';
 import { InvalidInputError } from '../errors';
+import { createMarkovModel, getProgressionPreset } from '../markov';
+import { createSeededRandom } from '../random';
+import { getChordInfoFromRoman } from '../theory/harmony';
 // import * as Tonal from 'tonal'; // Not strictly needed for these tests but can be useful for debugging
 
 describe('generateChordProgression', () => {
@@ -155,6 +158,264 @@ describe('generateChordProgression', () => {
     });
   });
 
+  describe('Applied Chords', () => {
+    beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('are not used below complexity 7', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const prog = generateChordProgression('C', 8, 6, createSeededRandom(seed));
+        prog.forEach(chord => expect(chord).not.toContain('/'));
+      }
+    });
+
+    test('resolve to their target chord at high complexity', () => {
+      let appliedCount = 0;
+      for (let seed = 1; seed <= 20; seed++) {
+        const prog = generateChordProgression('C', 8, 10, createSeededRandom(seed));
+        expect(prog[0]).toBe('I');
+        expect(prog[prog.length - 1]).toBe('I');
+        prog.forEach((chord, i) => {
+          if (!chord.includes('/')) return;
+          appliedCount++;
+          const [applied, target] = chord.split('/');
+          expect(['V', 'V7', 'vii°7']).toContain(applied);
+          expect(prog[i + 1].replace(/7$/, '')).toBe(target);
+          expect(() => getChordInfoFromRoman(chord, 'C')).not.toThrow();
+        });
+      }
+      expect(appliedCount).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Chromatic Predominants', () => {
+    const chromaticPredominants = ['N6', 'It+6', 'Fr43', 'Ger65'];
+    beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('are not used below complexity 8', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const prog = generateChordProgression('C', 8, 7, createSeededRandom(seed));
+        prog.forEach(chord => expect(chromaticPredominants).not.toContain(chord));
+      }
+    });
+
+    test('precede the dominant at high complexity', () => {
+      let chromaticCount = 0;
+      for (let seed = 1; seed <= 20; seed++) {
+        const prog = generateChordProgression('C', 8, 10, createSeededRandom(seed));
+        prog.forEach((chord, i) => {
+          if (!chromaticPredominants.includes(chord)) return;
+          chromaticCount++;
+          expect(['V', 'V7']).toContain(prog[i + 1]);
+        });
+      }
+      expect(chromaticCount).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Modal Mixture', () => {
+    const borrowedChords = ['iv', 'ii°', 'bIII', 'bVI', 'bVII'];
+    beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('is off by default', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const prog = generateChordProgression('C', 8, 6, createSeededRandom(seed));
+        prog.forEach(chord => expect(borrowedChords).not.toContain(chord));
+      }
+    });
+
+    test('borrows chords from the parallel minor in major keys', () => {
+      const used = new Set<string>();
+      for (let seed = 1; seed <= 20; seed++) {
+        const prog = generateChordProgression('C', 8, 6, createSeededRandom(seed), { mixtureProbability: 1 });
+        expect(prog[0]).toBe('I');
+        expect(prog[prog.length - 1]).toBe('I');
+        prog.forEach(chord => expect(['IV', 'ii', 'iii', 'vi', 'vii°']).not.toContain(chord));
+        prog.filter(chord => borrowedChords.includes(chord)).forEach(chord => used.add(chord));
+      }
+      expect(used.size).toBeGreaterThan(1);
+    });
+
+    test('ends minor-key progressions on a Picardy third', () => {
+      const prog = generateChordProgression('Am', 6, 5, createSeededRandom(1), { mixtureProbability: 1 });
+      expect(prog[0]).toBe('i');
+      expect(prog[prog.length - 1]).toBe('I');
+      expect(getChordInfoFromRoman('I', 'Am').notes.map(n => n % 12)).toContain(1);
+    });
+  });
+
+  describe('Modulation', () => {
+    beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('names the target key', () => {
+      expect(getModulationKey('C', 'dominant')).toBe('G');
+      expect(getModulationKey('Am', 'dominant')).toBe('Em');
+      expect(getModulationKey('C', 'relative')).toBe('Am');
+      expect(getModulationKey('Am', 'relative')).toBe('C');
+      expect(getModulationKey('C', { key: 'Eb' })).toBe('Eb');
+      expect(() => getModulationKey('C', { key: 'Xyz' })).toThrow(InvalidInputError);
+    });
+
+    test('moves to the dominant through a pivot chord and ends in the new key', () => {
+      for (let seed = 1; seed <= 10; seed++) {
+        const prog = generateChordProgression('C', 8, 5, createSeededRandom(seed), { modulation: 'dominant' });
+        expect(prog).toHaveLength(8);
+        expect(prog[0]).toBe('I');
+        // Pivot chords of C and G: vi = ii, I = IV, iii = vi
+        expect(['vi', 'I', 'iii']).toContain(prog[2]);
+        expect(prog[3]).toBe('G:V7');
+        prog.slice(4).forEach(chord => expect(chord.startsWith('G:')).toBe(true));
+        expect(prog[prog.length - 1]).toBe('G:I');
+      }
+    });
+
+    test('modulates from minor to the relative major', () => {
+      const prog = generateChordProgression('Am', 12, 5, createSeededRandom(3), { modulation: 'relative' });
+      expect(prog).toHaveLength(12);
+      expect(prog[0]).toBe('i');
+      // Pivot chords of A minor and C major: VI = IV, iv = ii, i = vi
+      expect(['VI', 'iv', 'i']).toContain(prog[4]);
+      expect(prog[5]).toBe('C:V7');
+      expect(prog[prog.length - 1]).toBe('C:I');
+      expect(prog.slice(0, 5).some(chord => chord.includes(':'))).toBe(false);
+    });
+
+    test('modulates directly when the keys share no pivot chord', () => {
+      const prog = generateChordProgression('C', 8, 5, createSeededRandom(1), { modulation: { key: 'F#' } });
+      expect(prog[3]).toBe('F#:V7');
+      expect(prog[prog.length - 1]).toBe('F#:I');
+    });
+
+    test('stays in the key when the progression is too short', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const prog = generateChordProgression('C', 5, 5, createSeededRandom(1), { modulation: 'dominant' });
+      expect(prog.some(chord => chord.includes(':'))).toBe(false);
+      expect(warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('Harmonic Rhythm', () => {
+    beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+    const totalBeats = (prog: { durationBeats: number }[]) => prog.reduce((sum, c) => sum + c.durationBeats, 0);
+
+    test('changes chords twice per measure and ends on a full measure of tonic', () => {
+      const prog = generateChordProgression('C', 4, 5, createSeededRandom(1), { harmonicRhythm: 2 });
+      expect(prog.map(c => c.durationBeats)).toEqual([2, 2, 2, 2, 2, 2, 4]);
+      expect(prog[0].roman).toBe('I');
+      expect(prog[prog.length - 1].roman).toBe('I');
+      expect(['V', 'V7']).toContain(prog[prog.length - 2].roman);
+    });
+
+    test('splits measures of odd meters into whole beats', () => {
+      const prog = generateChordProgression('C', 3, 5, createSeededRandom(1), { harmonicRhythm: 2, meter: '3/4' });
+      expect(prog.map(c => c.durationBeats)).toEqual([2, 1, 2, 1, 3]);
+    });
+
+    test('lets chords last several measures', () => {
+      const prog = generateChordProgression('G', 8, 5, createSeededRandom(2), { harmonicRhythm: 0.5 });
+      expect(prog.map(c => c.durationBeats)).toEqual([8, 8, 8, 4, 4]);
+      expect(totalBeats(prog)).toBe(32);
+    });
+
+    test('keeps the same chords as the plain progression at one chord per measure', () => {
+      const plain = generateChordProgression('C', 8, 6, createSeededRandom(5));
+      const timed = generateChordProgression('C', 8, 6, createSeededRandom(5), { harmonicRhythm: 1 });
+      expect(timed.map(c => c.roman)).toEqual(plain);
+      timed.forEach(c => expect(c.durationBeats).toBe(4));
+    });
+
+    test('starts a modulation on a barline', () => {
+      [1, 2, 3, 4, 5].forEach(seed => {
+        const prog = generateChordProgression('C', 8, 5, createSeededRandom(seed), { harmonicRhythm: 3, modulation: 'dominant' });
+        const modulationIndex = prog.findIndex(c => c.roman.startsWith('G:'));
+        expect(prog[modulationIndex].roman).toBe('G:V7');
+        expect(totalBeats(prog.slice(0, modulationIndex)) % 4).toBe(0);
+      });
+    });
+
+    test('rejects invalid meters', () => {
+      expect(() => generateChordProgression('C', 4, 5, undefined, { harmonicRhythm: 2, meter: 'x' })).toThrow(InvalidInputError);
+    });
+  });
+
+  describe('Cadences', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'info').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    test('writes requested cadences at phrase endings', () => {
+      const prog = generateChordProgression('C', 8, 3, createSeededRandom(3), {
+        cadences: [{ chordIndex: 3, type: 'half' }, { chordIndex: -1, type: 'deceptive' }],
+      });
+      expect(prog.slice(2, 4)).toEqual(['IV', 'V']);
+      expect(prog.slice(6)).toEqual(['V', 'vi']);
+    });
+
+    test('uses minor-key forms, V7 from complexity 4 and the Phrygian iv6', () => {
+      expect(generateChordProgression('Am', 4, 3, createSeededRandom(1), { cadences: [{ chordIndex: -1, type: 'plagal' }] }).slice(2))
+        .toEqual(['iv', 'i']);
+      expect(generateChordProgression('Am', 4, 5, createSeededRandom(1), { cadences: [{ chordIndex: -1, type: 'deceptive' }] }).slice(2))
+        .toEqual(['V7', 'VI']);
+      expect(generateChordProgression('Am', 4, 5, createSeededRandom(1), { cadences: [{ chordIndex: -1, type: 'phrygianHalf' }] }).slice(2))
+        .toEqual(['iv6', 'V']);
+    });
+
+    test('keeps cadences out of the chromatic passes', () => {
+      for (let seed = 1; seed <= 10; seed++) {
+        const prog = generateChordProgression('C', 8, 10, createSeededRandom(seed), {
+          mixtureProbability: 1,
+          cadences: [{ chordIndex: 3, type: 'plagal' }],
+        });
+        expect(prog.slice(2, 4)).toEqual(['IV', 'I']);
+      }
+    });
+
+    test('writes cadences in the new key after a modulation', () => {
+      const prog = generateChordProgression('C', 8, 3, createSeededRandom(4), {
+        modulation: 'dominant',
+        cadences: [{ chordIndex: -1, type: 'half' }],
+      });
+      expect(prog.slice(6)).toEqual(['G:IV', 'G:V']);
+    });
+
+    test('ignores cadences outside the progression or on the first chord', () => {
+      const plain = generateChordProgression('C', 4, 3, createSeededRandom(2));
+      const prog = generateChordProgression('C', 4, 3, createSeededRandom(2), {
+        cadences: [{ chordIndex: 0, type: 'PAC' }, { chordIndex: 9, type: 'half' }],
+      });
+      expect(prog).toEqual(plain);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Progression Models', () => {
+    beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    test('choose the chords between the opening tonic and the cadence', () => {
+      const model = createMarkovModel({ order: 1, transitions: { I: { vi: 1 }, vi: { ii6: 1 }, ii6: { IV: 1 }, IV: { I: 1 } } });
+      const prog = generateChordProgression('C', 8, 3, createSeededRandom(1), { model });
+      expect(prog).toEqual(['I', 'vi', 'ii6', 'IV', 'I', 'vi', 'V', 'I']);
+    });
+
+    test('fall back to the built-in tendencies for chords not allowed at the complexity', () => {
+      const model = createMarkovModel({ order: 1, transitions: { I: { iii7: 5 } } });
+      const plain = generateChordProgression('C', 6, 3, createSeededRandom(2));
+      expect(generateChordProgression('C', 6, 3, createSeededRandom(2), { model })).toEqual(plain);
+    });
+
+    test('presets give their style to the progression', () => {
+      const prog = generateChordProgression('F', 8, 6, createSeededRandom(3), { model: getProgressionPreset('jazz') });
+      prog.slice(1, 6).forEach(roman => expect(roman).toMatch(/7$/));
+    });
+  });
+
   describe('Input Validation', () => {
     test('should throw InvalidInputError for invalid key', () => {
       expect(() => generateChordProgression('Xyz', 4, 5)).toThrow(InvalidInputError);
@@ -0,0 +1,120 @@
+import { InvalidInputError } from '../errors';
+import { getProgressionPreset } from '../markov';
+import {
+  getHarmonicFunction,
+  parseProgressionPattern,
+  solveProgressionPattern,
+} from '../progressionPattern';
+import { createSeededRandom } from '../random';
+
+describe('parseProgressionPattern', () => {
+  it('reads fixed chords, wildcards and function placeholders, ignoring bar lines', () => {
+    expect(parseProgressionPattern('I ? S | D V7/V  vi|')).toEqual([
+      { kind: 'fixed', roman: 'I' },
+      { kind: 'any' },
+      { kind: 'function', function: 'S' },
+      { kind: 'function', function: 'D' },
+      { kind: 'fixed', roman: 'V7/V' },
+      { kind: 'fixed', roman: 'vi' },
+    ]);
+  });
+
+  it('rejects an empty pattern', () => {
+    expect(() => parseProgressionPattern(' | ')).toThrow(InvalidInputError);
+  });
+});
+
+describe('getHarmonicFunction', () => {
+  it('classifies diatonic and chromatic chords', () => {
+    expect(getHarmonicFunction('vi')).toBe('T');
+    expect(getHarmonicFunction('III')).toBe('T');
+    expect(getHarmonicFunction('ii6')).toBe('S');
+    expect(getHarmonicFunction('N6')).toBe('S');
+    expect(getHarmonicFunction('Ger65')).toBe('S');
+    expect(getHarmonicFunction('vii°7')).toBe('D');
+    expect(getHarmonicFunction('V7/V')).toBeNull();
+    expect(getHarmonicFunction('G:V7')).toBeNull();
+  });
+});
+
+describe('solveProgressionPattern', () => {
+  it('keeps fixed chords and fills the other slots with functional chords', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const progression = solveProgressionPattern(
+        'I ? ? V | ? ? V7 I',
+        'C',
+        7,
+        createSeededRandom(seed),
+      );
+      expect(progression).toHaveLength(8);
+      expect(progression[0]).toBe('I');
+      expect(progression[3]).toBe('V');
+      expect(progression[6]).toBe('V7');
+      expect(progression[7]).toBe('I');
+      progression.slice(1).forEach((chord, i) => {
+        const from = getHarmonicFunction(progression[i]);
+        expect(from === 'D' && getHarmonicFunction(chord) === 'S').toBe(false);
+      });
+    }
+  });
+
+  it('fills placeholders with chords of their function allowed at the complexity', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const [tonic, predominant, dominant] = solveProgressionPattern(
+        'T S D i',
+        'Am',
+        8,
+        createSeededRandom(seed),
+      );
+      expect(['i', 'III', 'VI']).toContain(tonic);
+      expect(['iv', 'ii°']).toContain(predominant);
+      expect(['V7', 'vii°7']).toContain(dominant);
+    }
+    // Only the primary triads at low complexity
+    expect(
+      solveProgressionPattern('T S D T', 'C', 0, createSeededRandom(1)),
+    ).toEqual(['I', 'IV', 'V', 'I']);
+  });
+
+  it('is reproducible with a seed', () => {
+    const solve = () =>
+      solveProgressionPattern('? ? ? ? ? ? ? I', 'F', 6, createSeededRandom(3));
+    expect(solve()).toEqual(solve());
+  });
+
+  it('uses a progression model to weight the filled chords', () => {
+    const model = getProgressionPreset('jazz');
+    const progression = solveProgressionPattern(
+      'I ? ? I',
+      'C',
+      5,
+      createSeededRandom(2),
+      { model },
+    );
+    expect(progression).toHaveLength(4);
+  });
+
+  it('keeps moves between fixed chords as written', () => {
+    expect(solveProgressionPattern('I V IV I', 'C', 3)).toEqual([
+      'I',
+      'V',
+      'IV',
+      'I',
+    ]);
+  });
+
+  it('reports unsatisfiable constraints and unknown chords', () => {
+    expect(() => solveProgressionPattern('I D IV I', 'C', 5)).toThrow(
+      /slot 2 \("D"\) can move to slot 3 \("IV"\)/,
+    );
+    expect(() => solveProgressionPattern('V S', 'C', 5)).toThrow(
+      InvalidInputError,
+    );
+    expect(() => solveProgressionPattern('I X I', 'C', 5)).toThrow(
+      /Slot 2 \("X"\) is not a Roman numeral/,
+    );
+    expect(() => solveProgressionPattern('I ? I', 'H', 5)).toThrow(
+      InvalidInputError,
+    );
+  });
+});
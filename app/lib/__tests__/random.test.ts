@@ -0,0 +1,159 @@
+import {
+  createSeededRandom,
+  resolveRandomSource,
+  normalizeSeed,
+} from '../random';
+import { generateMusicalData, generateScore } from '../generationEngine';
+import { createMusicXMLString } from '../musicXmlWriter';
+import { generateChordProgression } from '../progression';
+import { generateRhythm } from '../rhythm';
+import generateMA from '../generateMA';
+import { scoreToMusicXML } from '../toMusicXml';
+import { GenerationSettings } from '../types';
+
+const baseSettings: GenerationSettings = {
+  generationStyle: 'SATB',
+  melodicSmoothness: 6,
+  harmonicComplexity: 5,
+  dissonanceStrictness: 0, // Silence voice-leading warnings
+  rhythmicComplexity: 5,
+};
+
+describe('createSeededRandom', () => {
+  test('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(1234);
+    const b = createSeededRandom(1234);
+    for (let i = 0; i < 50; i++) expect(a()).toBe(b());
+  });
+
+  test('produces different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    const seqA = Array.from({ length: 10 }, () => a());
+    const seqB = Array.from({ length: 10 }, () => b());
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  test('returns values in [0, 1)', () => {
+    const rng = createSeededRandom(42);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  test('normalizes seeds to unsigned 32-bit integers', () => {
+    expect(normalizeSeed(-1)).toBe(0xffffffff);
+    expect(normalizeSeed(3.9)).toBe(3);
+    expect(normalizeSeed(NaN)).toBe(0);
+  });
+
+  test('resolveRandomSource generates a seed when none is given', () => {
+    const { seed } = resolveRandomSource();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('seeded generation pipeline', () => {
+  let warnSpy: jest.SpyInstance;
+  let infoSpy: jest.SpyInstance;
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    infoSpy = jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    warnSpy.mockRestore();
+    infoSpy.mockRestore();
+  });
+
+  test('generateChordProgression is reproducible with a seeded source', () => {
+    const p1 = generateChordProgression('G', 12, 8, createSeededRandom(99));
+    const p2 = generateChordProgression('G', 12, 8, createSeededRandom(99));
+    expect(p1).toEqual(p2);
+  });
+
+  test('generateRhythm is reproducible with a seeded source', () => {
+    const r1 = generateRhythm('6/8', 5, createSeededRandom(5));
+    const r2 = generateRhythm('6/8', 5, createSeededRandom(5));
+    expect(r1).toEqual(r2);
+  });
+
+  test.each(['SATB', 'MelodyAccompaniment'] as const)(
+    'generateMusicalData is identical for the same seed (%s)',
+    (style) => {
+      const settings = { ...baseSettings, generationStyle: style, seed: 2024 };
+      const progression = ['I', 'vi', 'ii', 'V7', 'I'];
+      const d1 = generateMusicalData(progression, 'C', '4/4', 5, settings);
+      const d2 = generateMusicalData(progression, 'C', '4/4', 5, settings);
+      expect(d1).toEqual(d2);
+      expect(d1.metadata.seed).toBe(2024);
+    },
+  );
+
+  test('generateScore output is byte-identical for the same seed and records it', () => {
+    const options = {
+      chordProgression: ['I', 'IV', 'V', 'I'],
+      keySignature: 'D',
+      meter: '3/4',
+      numMeasures: 4,
+      style: 'SATB' as const,
+      difficulty: 6,
+      seed: 77,
+    };
+    const xml1 = generateScore(options);
+    const xml2 = generateScore(options);
+    expect(xml1).toBe(xml2);
+    expect(xml1).toContain(
+      '<miscellaneous-field name="seed">77</miscellaneous-field>',
+    );
+  });
+
+  test('records an encoding date only when one is given, so output does not depend on the day', () => {
+    const progression = ['I', 'V', 'I'];
+    const settings = { ...baseSettings, seed: 5 };
+    const plain = generateMusicalData(progression, 'C', '4/4', 3, settings);
+    expect(plain.metadata.encodingDate).toBeUndefined();
+    expect(createMusicXMLString(plain)).not.toContain('<encoding-date>');
+    const dated = generateMusicalData(progression, 'C', '4/4', 3, {
+      ...settings,
+      encodingDate: '2024-05-01',
+    });
+    expect(createMusicXMLString(dated)).toContain(
+      '<encoding-date>2024-05-01</encoding-date>',
+    );
+    const melody = [{ note: 'C4', rhythm: 1 }];
+    expect(
+      scoreToMusicXML({ melody, accompaniment: melody }, 'C', '4/4', 'T', 5),
+    ).not.toContain('<encoding-date>');
+  });
+
+  test('records a generated seed when none is provided, and that seed reproduces the piece', () => {
+    const progression = ['I', 'V', 'I'];
+    const first = generateMusicalData(progression, 'F', '4/4', 3, baseSettings);
+    expect(first.metadata.seed).toBeDefined();
+    const replay = generateMusicalData(progression, 'F', '4/4', 3, {
+      ...baseSettings,
+      seed: first.metadata.seed,
+    });
+    expect(createMusicXMLString(replay)).toBe(createMusicXMLString(first));
+  });
+
+  test('generateMA is reproducible for the same seed', async () => {
+    const ranges = {
+      melody: { min: 'C4', max: 'C6' },
+      accompaniment: { min: 'C2', max: 'C4' },
+    };
+    const debugSpy = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    const a = await generateMA(['I', 'IV', 'V', 'I'], 'C', '4/4', ranges, {
+      seed: 11,
+    });
+    const b = await generateMA(['I', 'IV', 'V', 'I'], 'C', '4/4', ranges, {
+      seed: 11,
+    });
+    debugSpy.mockRestore();
+    expect(a).toEqual(b);
+    expect(a.seed).toBe(11);
+  });
+});
@@ -1,4 +1,5 @@
-import { generateRhythm } from '../rhythm';
+import { generateBeatFactorPattern, generateRhythm, getGroupingPlan, getTuplet } from '../rhythm';
+import { createSeededRandom } from '../random';
 import { InvalidInputError } from '../errors';
 import Fraction from 'fraction.js';
 
@@ -15,6 +16,19 @@ const calculateRhythmDuration = (rhythm: number[]): Fraction => {
     8: new Fraction(1, 8),    // Eighth Note (1/8)
     16: new Fraction(1, 16),  // Sixteenth Note (1/16)
     32: new Fraction(1, 32),  // Thirty-Second Note (1/32)
+    12: new Fraction(1, 12),  // Triplet Eighth (3 in the time of 2)
+    24: new Fraction(1, 24),  // Triplet Sixteenth
+    20: new Fraction(1, 20),  // Quintuplet Sixteenth (5 in the time of 4)
+    [16 / 3]: new Fraction(3, 16), // Duplet Eighth (2 in the time of 3)
+    0.5: new Fraction(2, 1),  // Breve (x/2 and x/1 meters)
+    3: new Fraction(1, 3),    // Triplet Half
+    6: new Fraction(1, 6),    // Triplet Quarter
+    5: new Fraction(1, 5),    // Quintuplet Quarter
+    10: new Fraction(1, 10),  // Quintuplet Eighth
+    40: new Fraction(1, 40),  // Quintuplet Thirty-Second
+    48: new Fraction(1, 48),  // Triplet Thirty-Second
+    [32 / 3]: new Fraction(3, 32), // Duplet Sixteenth
+    [64 / 3]: new Fraction(3, 64), // Duplet Thirty-Second
   };
   rhythm.forEach(noteVal => {
     if (noteValues[noteVal]) {
@@ -89,14 +103,164 @@ describe('generateRhythm', () => {
     // For now, this qualitative check is mostly ensuring the function runs and produces output.
     // A more robust check could be:
     if (rhythmComplex.length > rhythmSimple.length) {
-        expect(rhythmComplex.some(note => [8, 16, 32].includes(note))).toBe(true);
+        expect(rhythmComplex.some(note => [8, 12, 16, 20, 24, 32].includes(note))).toBe(true);
     } else if (simpleHasOnlyLonger && rhythmComplex.length >= rhythmSimple.length) {
         // If simple only has long notes, complex should ideally have some shorter ones or more notes.
-        expect(rhythmComplex.some(note => [8, 16, 32].includes(note)) || rhythmComplex.length > rhythmSimple.length).toBe(true);
+        expect(rhythmComplex.some(note => [8, 12, 16, 20, 24, 32].includes(note)) || rhythmComplex.length > rhythmSimple.length).toBe(true);
     }
     // This is still not perfect, but better than nothing.
   });
 
+  describe('Tuplets', () => {
+    test('should recognize triplet, quintuplet and duplet values', () => {
+      expect(getTuplet(12)).toEqual({ actualNotes: 3, normalNotes: 2 });
+      expect(getTuplet(-24)).toEqual({ actualNotes: 3, normalNotes: 2 });
+      expect(getTuplet(20)).toEqual({ actualNotes: 5, normalNotes: 4 });
+      expect(getTuplet(16 / 3)).toEqual({ actualNotes: 2, normalNotes: 3 });
+      expect(getTuplet(8)).toBeNull();
+      expect(getTuplet(-4)).toBeNull();
+    });
+
+    test('should write triplets at high complexity in simple meters and duplets in compound meters, each filling its beat', () => {
+      const rhythms = (meter: string, complexity: number) =>
+        Array.from({ length: 30 }, (_, seed) => generateRhythm(meter, complexity, createSeededRandom(seed + 1)));
+      const simple = rhythms('4/4', 10);
+      const compound = rhythms('6/8', 5);
+      expect(simple.some((rhythm) => rhythm.includes(12))).toBe(true);
+      expect(compound.some((rhythm) => rhythm.includes(16 / 3))).toBe(true);
+      expect(rhythms('4/4', 5).every((rhythm) => rhythm.every((d) => getTuplet(d) === null))).toBe(true);
+
+      // Every run of tuplet notes lasts whole eighths and ends on a beat (of a quarter or dotted quarter)
+      [
+        ...simple.map((rhythm) => ({ rhythm, beat: new Fraction(1, 4), measure: new Fraction(4, 4) })),
+        ...compound.map((rhythm) => ({ rhythm, beat: new Fraction(3, 8), measure: new Fraction(6, 8) })),
+      ].forEach(({ rhythm, beat, measure }) => {
+        let position = new Fraction(0);
+        let runStart: Fraction | null = null;
+        [...rhythm, 0].forEach((d) => {
+          const isTuplet = d !== 0 && getTuplet(d) !== null;
+          if (isTuplet && runStart === null) runStart = position;
+          if (!isTuplet && runStart !== null) {
+            expect(position.sub(runStart).mod(new Fraction(1, 8)).equals(0)).toBe(true);
+            expect(position.mod(beat).equals(0)).toBe(true);
+            runStart = null;
+          }
+          if (d !== 0) position = position.add(calculateRhythmDuration([Math.abs(d)]));
+        });
+        expect(position.equals(measure)).toBe(true);
+      });
+    });
+
+    test('should fill compound meters up to complexity 10, with duplets in every beat', () => {
+      [
+        ['6/8', new Fraction(6, 8)],
+        ['9/8', new Fraction(9, 8)],
+        ['12/8', new Fraction(12, 8)],
+      ].forEach(([meter, measureLength]) => {
+        for (let complexity = 6; complexity <= 10; complexity++) {
+          const rhythms = Array.from({ length: 20 }, (_, seed) =>
+            generateRhythm(meter as string, complexity, createSeededRandom(seed + 1)),
+          );
+          rhythms.forEach((rhythm) =>
+            expect(calculateRhythmDuration(rhythm.map(Math.abs)).equals(measureLength as Fraction)).toBe(true),
+          );
+          expect(rhythms.some((rhythm) => rhythm.includes(16 / 3))).toBe(true);
+        }
+      });
+      const duplets = Array.from({ length: 30 }, (_, seed) => generateRhythm('6/8', 10, createSeededRandom(seed + 1)));
+      expect(duplets.some((rhythm) => rhythm.includes(32 / 3))).toBe(true);
+    });
+  });
+
+  describe('Additive meters', () => {
+    test('should group additive meters as written', () => {
+      expect(getGroupingPlan(7, 8, [3, 2, 2]).groups).toEqual([3, 2, 2]);
+      expect(getGroupingPlan(7, 8).groups).toEqual([2, 2, 3]);
+    });
+
+    test('should fill each beat group of an additive meter', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const rhythm = generateRhythm('3+2+2/8', 5, createSeededRandom(seed));
+        expect(calculateRhythmDuration(rhythm.map(Math.abs)).equals(new Fraction(7, 8))).toBe(true);
+        // Notes start on both group boundaries (3/8 and 5/8)
+        const onsets: Fraction[] = [];
+        rhythm.reduce((position, d) => {
+          onsets.push(position);
+          return position.add(calculateRhythmDuration([Math.abs(d)]));
+        }, new Fraction(0));
+        expect(onsets.some((onset) => onset.equals(new Fraction(3, 8)))).toBe(true);
+        expect(onsets.some((onset) => onset.equals(new Fraction(5, 8)))).toBe(true);
+      }
+    });
+
+    test('should give the beat factor pattern one note per group or per beat', () => {
+      const timing = {
+        meterBeats: 7,
+        beatValue: 8,
+        divisions: 4,
+        beatDurationTicks: 2,
+        measureDurationTicks: 14,
+        defaultNoteType: 'eighth',
+        beatGroups: [3, 2, 2],
+      };
+      for (let seed = 1; seed <= 20; seed++) {
+        const factors = generateBeatFactorPattern(timing, 5, createSeededRandom(seed));
+        expect(factors.reduce((sum, f) => sum + f, 0)).toBe(7);
+        const onsets = factors.map((_, i) => factors.slice(0, i).reduce((sum, f) => sum + f, 0));
+        expect(onsets).toEqual(expect.arrayContaining([0, 3, 5]));
+        expect(factors.every((f) => Number.isInteger(f))).toBe(true);
+      }
+    });
+
+    test('should reject additive meters with unsupported groups or denominators', () => {
+      expect(() => generateRhythm('3+1/8', 5)).toThrow(InvalidInputError);
+      expect(() => generateRhythm('3+4/8', 5)).toThrow(InvalidInputError);
+      expect(() => generateRhythm('3+2/16', 5)).toThrow(InvalidInputError);
+      expect(() => generateRhythm('3+/8', 5)).toThrow(InvalidInputError);
+    });
+  });
+
+  describe('Half-, whole- and sixteenth-note meters', () => {
+    test('should group them by their written beats', () => {
+      expect(getGroupingPlan(3, 2)).toEqual({ groups: [1, 1, 1], baseUnit: new Fraction(1, 2), beatType: 'simple' });
+      expect(getGroupingPlan(4, 2).groups).toEqual([1, 1, 1, 1]);
+      expect(getGroupingPlan(3, 1)).toEqual({ groups: [1, 1, 1], baseUnit: new Fraction(1), beatType: 'simple' });
+      expect(getGroupingPlan(3, 16)).toEqual({ groups: [3], baseUnit: new Fraction(1, 16), beatType: 'simple' });
+      expect(getGroupingPlan(6, 16)).toEqual({ groups: [3, 3], baseUnit: new Fraction(1, 16), beatType: 'compound' });
+    });
+
+    const cases: [string, Fraction][] = [
+      ['3/2', new Fraction(3, 2)],
+      ['4/2', new Fraction(2)],
+      ['3/1', new Fraction(3)],
+      ['3/16', new Fraction(3, 16)],
+      ['6/16', new Fraction(3, 8)],
+    ];
+    cases.forEach(([meter, measureLength]) => {
+      test(`should fill a ${meter} measure with plain or tuplet note values`, () => {
+        for (let complexity = 1; complexity <= 10; complexity++) {
+          for (let seed = 1; seed <= 5; seed++) {
+            const rhythm = generateRhythm(meter, complexity, createSeededRandom(seed));
+            expect(calculateRhythmDuration(rhythm.map(Math.abs)).equals(measureLength)).toBe(true);
+            rhythm.forEach((d) =>
+              expect(getTuplet(d) !== null || Number.isInteger(Math.log2(Math.abs(d)))).toBe(true),
+            );
+          }
+        }
+      });
+    });
+
+    test('should scale the rhythm of the x/4 or x/8 meter with the same beats', () => {
+      const scaled = (meter: string, complexity: number, scale: number) =>
+        generateRhythm(meter, complexity, createSeededRandom(7)).map((d) => d * scale);
+      expect(generateRhythm('3/2', 6, createSeededRandom(7))).toEqual(scaled('3/4', 6, 0.5));
+      expect(generateRhythm('4/2', 2, createSeededRandom(7))).toEqual(scaled('4/4', 2, 0.5));
+      expect(generateRhythm('3/1', 9, createSeededRandom(7))).toEqual(scaled('3/4', 9, 0.25));
+      expect(generateRhythm('3/16', 8, createSeededRandom(7))).toEqual(scaled('3/8', 8, 2));
+      expect(generateRhythm('6/16', 4, createSeededRandom(7))).toEqual(scaled('6/8', 4, 2));
+    });
+  });
+
   describe('Input Validation', () => {
     test('should throw InvalidInputError for invalid meter strings', () => {
       expect(() => generateRhythm("4", 5)).toThrow(InvalidInputError);
@@ -110,6 +274,9 @@ describe('generateRhythm', () => {
       expect(() => generateRhythm("3/0", 5)).toThrow(InvalidInputError);
       expect(() => generateRhythm("13/8", 5)).toThrow(InvalidInputError); // Numerator too large for compound
       expect(() => generateRhythm("8/4", 5)).toThrow(InvalidInputError); // Numerator too large for simple
+      expect(() => generateRhythm("5/2", 5)).toThrow(InvalidInputError); // Uncommon half-note meter
+      expect(() => generateRhythm("5/16", 5)).toThrow(InvalidInputError);
+      expect(() => generateRhythm("3/32", 5)).toThrow(InvalidInputError); // No 32nd-note meters
     });
 
     test('should throw InvalidInputError for invalid complexity values', () => {
@@ -0,0 +1,384 @@
+import * as Tonal from 'tonal';
+import { checkVoiceLeadingRules, createVoiceLeadingReport } from '../rules';
+import { generateMusicalData } from '../generationEngine';
+import { getDominantLeadingTonePc } from '../theory/harmony';
+import { GenerationSettings, PreviousNotesSATB } from '../types';
+
+describe('checkVoiceLeadingRules', () => {
+  const satb = (
+    soprano: number,
+    alto: number,
+    tenor: number,
+    bass: number,
+  ): PreviousNotesSATB => ({ soprano, alto, tenor, bass });
+
+  it('returns no violations for good voice leading', () => {
+    // C major (C5 E4 G3 C3) to F major (C5 F4 A3 F2)
+    const violations = checkVoiceLeadingRules(
+      satb(72, 64, 55, 48),
+      satb(72, 65, 57, 41),
+      'SATB',
+      0,
+      2,
+      10,
+    );
+    expect(violations).toEqual([]);
+  });
+
+  it('reports parallel fifths with voices, pitches and location', () => {
+    // Tenor/bass C3-F2 (P5) moving to D3-G2 (P5)
+    const violations = checkVoiceLeadingRules(
+      satb(74, 67, 50, 43),
+      satb(72, 65, 48, 41),
+      'SATB',
+      2,
+      3,
+      10,
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'parallel-fifths',
+        severity: 'error',
+        measure: 3,
+        beat: 3,
+        voices: ['tenor', 'bass'],
+        pitches: [50, 43],
+        previousPitches: [48, 41],
+      }),
+    );
+  });
+
+  it('reports crossing and spacing violations', () => {
+    const violations = checkVoiceLeadingRules(
+      satb(84, 60, 62, 40),
+      satb(84, 60, 55, 40),
+      'SATB',
+      0,
+      1,
+      10,
+    );
+    const ruleIds = violations.map((v) => v.ruleId);
+    expect(ruleIds).toContain('voice-crossing');
+    expect(ruleIds).toContain('spacing');
+    const crossing = violations.find((v) => v.ruleId === 'voice-crossing')!;
+    expect(crossing.voices).toEqual(['tenor', 'alto']);
+    expect(crossing.severity).toBe('error');
+    expect(violations.find((v) => v.ruleId === 'spacing')!.severity).toBe(
+      'warning',
+    );
+  });
+
+  it('skips checks at low strictness or without a previous event', () => {
+    const crossed = satb(60, 72, 55, 40);
+    expect(
+      checkVoiceLeadingRules(crossed, satb(60, 64, 55, 40), 'SATB', 0, 1, 1),
+    ).toEqual([]);
+    expect(checkVoiceLeadingRules(crossed, null, 'SATB', 0, 1, 10)).toEqual([]);
+  });
+
+  const cMajor = Tonal.Key.majorKey('C');
+  const ruleIds = (violations: { ruleId: string }[]) =>
+    violations.map((v) => v.ruleId);
+
+  it('reports hidden octaves between the outer voices', () => {
+    // Soprano leaps E4-C5 while the bass rises G2-C3 into a double octave
+    const violations = checkVoiceLeadingRules(
+      satb(72, 64, 55, 48),
+      satb(64, 60, 55, 43),
+      'SATB',
+      0,
+      1,
+      10,
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'hidden-octaves',
+        voices: ['soprano', 'bass'],
+        severity: 'warning',
+      }),
+    );
+  });
+
+  it('checks leading-tone and seventh resolution when the chord changes', () => {
+    // V7 (G2 F3 B3 D4 ... ) to I with B leaping down and F rising
+    const context = {
+      keyDetails: cMajor,
+      previousChordPcs: [7, 11, 2, 5],
+      previousChordHasSeventh: true,
+      previousChordLeadingTonePc: 11,
+      chordPcs: [0, 4, 7],
+    };
+    const violations = checkVoiceLeadingRules(
+      satb(67, 60, 55, 48),
+      satb(71, 62, 53, 43),
+      'SATB',
+      0,
+      1,
+      10,
+      context,
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'unresolved-leading-tone',
+        voices: ['soprano'],
+      }),
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'unresolved-seventh',
+        voices: ['tenor'],
+        previousPitches: [53],
+      }),
+    );
+    // Within the same chord, tendency tones may move freely
+    const sameChord = checkVoiceLeadingRules(
+      satb(67, 62, 55, 43),
+      satb(71, 62, 53, 43),
+      'SATB',
+      0,
+      1,
+      10,
+      { ...context, chordPcs: context.previousChordPcs },
+    );
+    expect(ruleIds(sameChord)).not.toContain('unresolved-leading-tone');
+    expect(ruleIds(sameChord)).not.toContain('unresolved-seventh');
+  });
+
+  it('only checks the seventh when the previous numeral asks for one', () => {
+    // V (looked up as G7) to I: the F is a passing note, not a chordal seventh
+    const violations = checkVoiceLeadingRules(
+      satb(67, 60, 55, 48),
+      satb(71, 62, 53, 43),
+      'SATB',
+      0,
+      1,
+      10,
+      {
+        keyDetails: cMajor,
+        previousChordPcs: [7, 11, 2, 5],
+        previousChordLeadingTonePc: 11,
+        chordPcs: [0, 4, 7],
+      },
+    );
+    expect(ruleIds(violations)).toContain('unresolved-leading-tone');
+    expect(ruleIds(violations)).not.toContain('unresolved-seventh');
+  });
+
+  it('only checks the leading tone after a chord of dominant function', () => {
+    // iii (B4 in the soprano) to IV: the B may fall to A
+    const violations = checkVoiceLeadingRules(
+      satb(69, 65, 60, 53),
+      satb(71, 67, 59, 52),
+      'SATB',
+      0,
+      1,
+      10,
+      {
+        keyDetails: cMajor,
+        previousChordPcs: [4, 7, 11],
+        previousChordLeadingTonePc: getDominantLeadingTonePc('iii', 4),
+        chordPcs: [5, 9, 0],
+      },
+    );
+    expect(ruleIds(violations)).not.toContain('unresolved-leading-tone');
+    // V/vi leads G# to A, whatever the B of the home key does
+    expect(getDominantLeadingTonePc('V/vi', 4)).toBe(8);
+    expect(getDominantLeadingTonePc('vii°7', 11)).toBe(11);
+    expect(getDominantLeadingTonePc('VI', 9)).toBeNull();
+  });
+
+  it('reports melodic leaps, augmented intervals and unrecovered leaps', () => {
+    const violations = checkVoiceLeadingRules(
+      satb(79, 65, 57, 41),
+      satb(64, 59, 55, 43),
+      'SATB',
+      0,
+      1,
+      10,
+      { notesBeforePrevious: satb(64, 60, 48, 43) },
+    );
+    // Soprano E4-G5 leaps more than an octave, alto B3-F4 is a tritone,
+    // tenor C3-G3 leaps up and continues upward to A3
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'leap-over-octave',
+        voices: ['soprano'],
+      }),
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'augmented-interval',
+        voices: ['alto'],
+      }),
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'unrecovered-leap',
+        voices: ['tenor'],
+      }),
+    );
+  });
+
+  it('reports voice overlap and doubled leading tones', () => {
+    // Tenor F4 rises above the previous alto E4; B is in soprano and bass
+    const violations = checkVoiceLeadingRules(
+      satb(71, 67, 65, 47),
+      satb(72, 64, 55, 48),
+      'SATB',
+      0,
+      1,
+      10,
+      { keyDetails: cMajor },
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({
+        ruleId: 'voice-overlap',
+        voices: ['alto', 'tenor'],
+      }),
+    );
+    expect(ruleIds(violations)).toContain('doubled-leading-tone');
+  });
+
+  it('gates rules by strictness and lets each be switched off', () => {
+    const current = satb(79, 64, 55, 48);
+    const previous = satb(64, 60, 52, 48);
+    expect(
+      ruleIds(checkVoiceLeadingRules(current, previous, 'SATB', 0, 1, 3)),
+    ).toContain('leap-over-octave');
+    expect(
+      ruleIds(checkVoiceLeadingRules(current, previous, 'SATB', 0, 1, 2)),
+    ).not.toContain('leap-over-octave');
+    expect(
+      ruleIds(
+        checkVoiceLeadingRules(current, previous, 'SATB', 0, 1, 10, {
+          enabledRules: { 'leap-over-octave': false },
+        }),
+      ),
+    ).not.toContain('leap-over-octave');
+  });
+
+  it('checks melody/accompaniment crossing', () => {
+    const violations = checkVoiceLeadingRules(
+      { melody: 60, accompaniment: [48, 55, 64] },
+      { melody: 67, accompaniment: [48, 55, 60] },
+      'MelodyAccompaniment',
+      0,
+      1,
+      5,
+    );
+    expect(violations).toEqual([
+      expect.objectContaining({
+        ruleId: 'voice-crossing',
+        voices: ['accompaniment', 'melody'],
+        pitches: [64, 60],
+      }),
+    ]);
+  });
+});
+
+describe('createVoiceLeadingReport', () => {
+  it('counts violations per rule and severity', () => {
+    const base = { measure: 1, beat: 1, voices: [], pitches: [], message: '' };
+    const report = createVoiceLeadingReport([
+      { ...base, ruleId: 'parallel-fifths', severity: 'error' },
+      { ...base, ruleId: 'parallel-fifths', severity: 'error' },
+      { ...base, ruleId: 'spacing', severity: 'warning' },
+    ]);
+    expect(report.countsByRule).toEqual({ 'parallel-fifths': 2, spacing: 1 });
+    expect(report.countsBySeverity).toEqual({ error: 2, warning: 1 });
+    expect(report.violations).toHaveLength(3);
+    expect(report.unresolvedMeasures).toEqual([]);
+  });
+
+  it('is attached to generated piece data', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    const settings: GenerationSettings = {
+      generationStyle: 'SATB',
+      melodicSmoothness: 5,
+      harmonicComplexity: 3,
+      dissonanceStrictness: 10,
+      seed: 7,
+    };
+    const data = generateMusicalData(
+      ['I', 'IV', 'V', 'I', 'vi', 'ii', 'V', 'I'],
+      'C',
+      '4/4',
+      8,
+      settings,
+    );
+    const report = data.voiceLeadingReport!;
+    expect(report).toBeDefined();
+    const total =
+      report.countsBySeverity.error + report.countsBySeverity.warning;
+    expect(total).toBe(report.violations.length);
+    report.violations.forEach((v) => {
+      expect(v.measure).toBeGreaterThanOrEqual(1);
+      expect(v.measure).toBeLessThanOrEqual(8);
+      expect(v.beat).toBeGreaterThanOrEqual(1);
+      expect(v.pitches).toHaveLength(v.voices.length);
+    });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('enforced voice leading', () => {
+  const progression = ['I', 'IV', 'V', 'I', 'vi', 'ii', 'V', 'I'];
+  const settings = (enforceVoiceLeading?: boolean): GenerationSettings => ({
+    generationStyle: 'SATB',
+    melodicSmoothness: 5,
+    harmonicComplexity: 3,
+    dissonanceStrictness: 10,
+    rhythmicComplexity: 6,
+    seed: 1,
+    enforceVoiceLeading,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it('backtracks to voicings that avoid violations of the active rules', () => {
+    const free = generateMusicalData(
+      progression,
+      'C',
+      '4/4',
+      8,
+      settings(false),
+    );
+    expect(free.voiceLeadingReport!.violations.length).toBeGreaterThan(0);
+
+    const enforced = generateMusicalData(
+      progression,
+      'C',
+      '4/4',
+      8,
+      settings(),
+    );
+    const report = enforced.voiceLeadingReport!;
+    expect(report.violations.length).toBeLessThan(
+      free.voiceLeadingReport!.violations.length,
+    );
+    // Whatever remains lies in measures the search reported as unresolved
+    report.violations.forEach((v) =>
+      expect(report.unresolvedMeasures).toContain(v.measure),
+    );
+  });
+
+  it('reports measures left unresolved when the search budget is exhausted', () => {
+    const data = generateMusicalData(progression, 'C', '4/4', 8, {
+      ...settings(true),
+      voiceLeadingSearchBudget: 1,
+    });
+    const report = data.voiceLeadingReport!;
+    const violatingMeasures = Array.from(
+      new Set(report.violations.map((v) => v.measure)),
+    );
+    violatingMeasures.forEach((measure) =>
+      expect(report.unresolvedMeasures).toContain(measure),
+    );
+    expect(report.unresolvedMeasures.length).toBeGreaterThan(0);
+  });
+});
@@ -1,4 +1,4 @@
-import { scoreToMusicXML } from '../toMusicXml'; // Adjust path as necessary
+import { scoreDataToPieceData, scoreToMusicXML } from '../toMusicXml'; // Adjust path as necessary
 import { ScoreData } from '../toMusicXml'; // Import ScoreData interface
 
 describe('scoreToMusicXML', () => {
@@ -100,15 +100,15 @@ describe('scoreToMusicXML', () => {
     });
 
     test('Melody: should contain C4 quarter note', () => {
-      expect(xmlOutput).toMatch(/<pitch>\s*<step>C<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<type>quarter<\/type>/);
+      expect(xmlOutput).toMatch(/<pitch>\s*<step>C<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>/);
     });
 
     test('Melody: should contain G4 half note', () => {
-      expect(xmlOutput).toMatch(/<pitch>\s*<step>G<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>8<\/duration>\s*<type>half<\/type>/);
+      expect(xmlOutput).toMatch(/<pitch>\s*<step>G<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>8<\/duration>\s*<voice>1<\/voice>\s*<type>half<\/type>/);
     });
 
     test('Accompaniment: should contain C3 half note', () => {
-      expect(xmlOutput).toMatch(/<pitch>\s*<step>C<\/step>\s*<octave>3<\/octave>\s*<\/pitch>\s*<duration>8<\/duration>\s*<type>half<\/type>/);
+      expect(xmlOutput).toMatch(/<pitch>\s*<step>C<\/step>\s*<octave>3<\/octave>\s*<\/pitch>\s*<duration>8<\/duration>\s*<voice>1<\/voice>\s*<type>half<\/type>/);
     });
 
     test('Melody: should have one measure', () => {
@@ -149,15 +149,15 @@ describe('scoreToMusicXML', () => {
     });
 
     test('Melody: should contain B4 quarter note in measure 1', () => {
-      expect(xmlOutput).toMatch(/<part id="P1">[\s\S]*<measure number="1">[\s\S]*<pitch>\s*<step>B<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<type>quarter<\/type>[\s\S]*<\/measure>/);
+      expect(xmlOutput).toMatch(/<part id="P1">[\s\S]*<measure number="1">[\s\S]*<pitch>\s*<step>B<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>[\s\S]*<\/measure>/);
     });
 
     test('Melody: should contain A4 quarter note in measure 2', () => {
-      expect(xmlOutput).toMatch(/<part id="P1">[\s\S]*<measure number="2">[\s\S]*<pitch>\s*<step>A<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<type>quarter<\/type>/);
+      expect(xmlOutput).toMatch(/<part id="P1">[\s\S]*<measure number="2">[\s\S]*<pitch>\s*<step>A<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>/);
     });
 
     test('Melody: should contain G4 eighth note in measure 2', () => {
-      expect(xmlOutput).toMatch(/<part id="P1">[\s\S]*<measure number="2">[\s\S]*<pitch>\s*<step>G<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>2<\/duration>\s*<type>eighth<\/type>/);
+      expect(xmlOutput).toMatch(/<part id="P1">[\s\S]*<measure number="2">[\s\S]*<pitch>\s*<step>G<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>2<\/duration>\s*<voice>1<\/voice>\s*<type>eighth<\/type>/);
     });
 
     test('Accompaniment: should contain a rest for a quarter note in measure 1', () => {
@@ -168,7 +168,7 @@ describe('scoreToMusicXML', () => {
       const measure1Accomp = xmlOutput.match(/<part id="P2">[\s\S]*<measure number="1">([\s\S]*?)<\/measure>[\s\S]*<\/part>/);
       expect(measure1Accomp).not.toBeNull();
       if (measure1Accomp) {
-          const d3NoteRegex = /<note>\s*<pitch>\s*<step>D<\/step>\s*(<alter>0<\/alter>\s*)?<octave>3<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<type>quarter<\/type>[\s\S]*?<\/note>/;
+          const d3NoteRegex = /<note>\s*<pitch>\s*<step>D<\/step>\s*(<alter>0<\/alter>\s*)?<octave>3<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>[\s\S]*?<\/note>/;
           expect(measure1Accomp[1]).toMatch(d3NoteRegex);
           const d3NoteMatch = measure1Accomp[1].match(d3NoteRegex);
           expect(d3NoteMatch).not.toBeNull();
@@ -209,15 +209,234 @@ describe('scoreToMusicXML', () => {
     test('Melody: should contain G##4 with double-sharp accidental and alter=2', () => {
       // G##4, rhythm 4 (quarter) -> duration 4
       // Expect step G, alter 2, octave 4, accidental double-sharp
-      // Order: pitch, accidental, duration, type, voice, staff
-      expect(xmlOutput).toMatch(/<pitch>\s*<step>G<\/step>\s*<alter>2<\/alter>\s*<octave>4<\/octave>\s*<\/pitch>\s*<accidental>double-sharp<\/accidental>\s*<duration>4<\/duration>/);
+      // Order: pitch, duration, voice, type, accidental, staff
+      expect(xmlOutput).toMatch(/<pitch>\s*<step>G<\/step>\s*<alter>2<\/alter>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>\s*<accidental>double-sharp<\/accidental>/);
     });
 
     test('Melody: should contain Abb4 with flat-flat accidental and alter=-2', () => {
       // Abb4, rhythm 4 (quarter) -> duration 4
       // Expect step A, alter -2, octave 4, accidental flat-flat
-      // Order: pitch, accidental, duration, type, voice, staff
-      expect(xmlOutput).toMatch(/<pitch>\s*<step>A<\/step>\s*<alter>-2<\/alter>\s*<octave>4<\/octave>\s*<\/pitch>\s*<accidental>flat-flat<\/accidental>\s*<duration>4<\/duration>/);
+      // Order: pitch, duration, voice, type, accidental, staff
+      expect(xmlOutput).toMatch(/<pitch>\s*<step>A<\/step>\s*<alter>-2<\/alter>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>\s*<accidental>flat-flat<\/accidental>/);
+    });
+  });
+
+  describe('Chord annotations', () => {
+    test('should write a chord symbol per measure, and Roman numerals below the accompaniment on request', () => {
+      const progression = ['V'];
+      const plain = scoreToMusicXML(simpleScoreData, 'C', '4/4', 'Chords', undefined, { progression });
+      expect(plain).toMatch(/<harmony>\s*<root>\s*<root-step>G<\/root-step>\s*<\/root>\s*<kind>major<\/kind>/);
+      expect(plain).not.toContain('<words>V</words>');
+
+      const analysed = scoreToMusicXML(simpleScoreData, 'C', '4/4', 'Chords', undefined, {
+        progression,
+        chordSymbols: false,
+        romanNumerals: true,
+      });
+      expect(analysed).not.toContain('<harmony>');
+      expect(analysed).toMatch(/<part id="P2">[^]*<words>V<\/words>/);
+      expect(isWellFormedXML(analysed)).toBe(true);
+    });
+  });
+
+  describe('Ties and dotted notes', () => {
+    test('should tie a note over the barline and write dotted rhythms', () => {
+      const xml = scoreToMusicXML(
+        {
+          // 3/4: a dotted quarter (8/3), then a half crossing into measure 2, tied to a quarter
+          melody: [
+            { note: 'E4', rhythm: 8 / 3 },
+            { note: 'G4', rhythm: 8 },
+            { note: 'A4', rhythm: 2 },
+            { note: 'A4', rhythm: 4, tie: true },
+            { note: 'A4', rhythm: 4 },
+          ],
+          accompaniment: [
+            { note: 'C3', rhythm: 2 },
+            { note: 'C3', rhythm: 4 },
+          ],
+        },
+        'C',
+        '3/4',
+        'Ties',
+      );
+      expect(isWellFormedXML(xml)).toBe(true);
+      expect(xml).toMatch(
+        /<step>E<\/step>[^]*?<duration>6<\/duration>\s*<voice>1<\/voice>\s*<type>quarter<\/type>\s*<dot\/>/,
+      );
+      // The half is split at the barline: a tied quarter in each measure
+      expect(xml).toMatch(
+        /<step>A<\/step>[^]*?<duration>4<\/duration>\s*<tie type="start"\/>[^]*?<tied type="start"\/>[^]*?<\/measure>\s*<measure number="2">\s*<note>\s*<pitch>\s*<step>A<\/step>\s*<octave>4<\/octave>\s*<\/pitch>\s*<duration>4<\/duration>\s*<tie type="stop"\/>/,
+      );
+      // The continuation is tied on to the next quarter as requested
+      expect(xml.match(/<tie type="stop"\/>/g)).toHaveLength(2);
+      expect(xml).not.toContain('Skipping');
+    });
+  });
+
+  describe('Tuplets', () => {
+    test('should write triplets and duplets with time modifications at matching divisions', () => {
+      const triplet = { actualNotes: 3, normalNotes: 2 };
+      const duplet = { actualNotes: 2, normalNotes: 3 };
+      const xml = scoreToMusicXML(
+        {
+          // 6/8: duplet eighths in the first beat, then three eighths; a triplet of sixteenths in measure 2
+          melody: [
+            { note: 'C5', rhythm: 16 / 3, tuplet: duplet },
+            { note: 'D5', rhythm: 16 / 3, tuplet: duplet },
+            { note: 'E5', rhythm: 8 },
+            { note: 'F5', rhythm: 8 },
+            { note: 'G5', rhythm: 8 },
+            { note: 'A5', rhythm: 24, tuplet: triplet },
+            { note: 'G5', rhythm: 24, tuplet: triplet },
+            { note: 'F5', rhythm: 24, tuplet: triplet },
+            { note: 'E5', rhythm: 8 },
+            { note: 'D5', rhythm: 4 },
+          ],
+          accompaniment: [
+            { note: 'C3', rhythm: 8 / 3 },
+            { note: 'C3', rhythm: 8 / 3 },
+            { note: 'G2', rhythm: 8 / 3 },
+            { note: 'C3', rhythm: 8 / 3 },
+          ],
+        },
+        'C',
+        '6/8',
+        'Tuplets',
+      );
+      expect(isWellFormedXML(xml)).toBe(true);
+      // Triplet sixteenths need three times the usual 4 divisions
+      expect(xml).toContain('<divisions>12</divisions>');
+      expect(xml).toMatch(
+        /<step>C<\/step>[^]*?<duration>9<\/duration>\s*<voice>1<\/voice>\s*<type>eighth<\/type>\s*<time-modification>\s*<actual-notes>2<\/actual-notes>\s*<normal-notes>3<\/normal-notes>/,
+      );
+      expect(xml).toMatch(
+        /<step>A<\/step>[^]*?<duration>2<\/duration>\s*<voice>1<\/voice>\s*<type>16th<\/type>\s*<time-modification>\s*<actual-notes>3<\/actual-notes>/,
+      );
+      const melodyPart = xml.split('<part id="P2">')[0];
+      expect(melodyPart.match(/<tuplet type="start"\/>/g)).toHaveLength(2);
+      expect(melodyPart.match(/<tuplet type="stop"\/>/g)).toHaveLength(2);
+      expect(xml.split('<part id="P2">')[1]).not.toContain('<tuplet');
+    });
+
+    test('should keep tuplets in the piece data', () => {
+      const pieceData = scoreDataToPieceData(
+        {
+          melody: [
+            {
+              note: 'C5',
+              rhythm: 12,
+              tuplet: { actualNotes: 3, normalNotes: 2 },
+            },
+            {
+              note: 'D5',
+              rhythm: 12,
+              tuplet: { actualNotes: 3, normalNotes: 2 },
+            },
+            {
+              note: 'E5',
+              rhythm: 12,
+              tuplet: { actualNotes: 3, normalNotes: 2 },
+            },
+            { note: 'F5', rhythm: 4 },
+          ],
+          accompaniment: [{ note: 'C3', rhythm: 2 }],
+        },
+        'C',
+        '2/4',
+      );
+      expect(pieceData.metadata.divisions).toBe(24);
+      const [first, , , fourth] = pieceData.measures[0].events;
+      expect(first).toMatchObject({
+        durationTicks: 8,
+        noteType: 'eighth',
+        tuplet: { actualNotes: 3, normalNotes: 2 },
+      });
+      expect(fourth.tuplet).toBeUndefined();
+    });
+  });
+
+  describe('Element order', () => {
+    test('should write the elements of each note in the order of the MusicXML schema', () => {
+      const order = ['pitch', 'rest', 'duration', 'tie', 'voice', 'type', 'dot', 'accidental', 'time-modification', 'staff', 'beam', 'notations'];
+      const duplet = { actualNotes: 2, normalNotes: 3 };
+      const xml = scoreToMusicXML(
+        {
+          // 6/8: duplet eighths, then a quarter, a quarter tied over the barline, a dotted quarter and a rest
+          melody: [
+            { note: 'F#5', rhythm: 16 / 3, tuplet: duplet },
+            { note: 'D5', rhythm: 16 / 3, tuplet: duplet },
+            { note: 'Bb4', rhythm: 4 },
+            { note: 'C5', rhythm: 4 },
+            { note: 'E5', rhythm: 8 / 3 },
+            { note: 'rest', rhythm: -4 },
+          ],
+          accompaniment: [
+            { note: 'C3', rhythm: 8 / 3 },
+            { note: 'C3', rhythm: 8 / 3 },
+            { note: 'C3', rhythm: 8 / 3 },
+            { note: 'C3', rhythm: 8 / 3 },
+          ],
+        },
+        'C',
+        '6/8',
+        'Order',
+      );
+      const notes = xml.match(/<note>[^]*?<\/note>/g) ?? [];
+      expect(notes.length).toBeGreaterThan(0);
+      notes.forEach((noteXml) => {
+        const children = Array.from(
+          noteXml.replace(/<(pitch|time-modification|notations)>[^]*?<\/\1>/g, '<$1/>').matchAll(/<([a-z-]+)[ />]/g),
+          (m) => m[1],
+        ).slice(1);
+        const positions = children.map((name) => order.indexOf(name));
+        expect(positions).not.toContain(-1);
+        expect(positions).toEqual([...positions].sort((a, b) => a - b));
+      });
+      ['<dot/>', '<tie type="start"/>', '<accidental>sharp</accidental>', '<time-modification>', '<beam number="1">'].forEach((element) =>
+        expect(xml).toContain(element),
+      );
+    });
+  });
+
+  describe('Beams', () => {
+    test('should beam each beat group of the meter and leave rests and quarters unbeamed', () => {
+      const xml = scoreToMusicXML(
+        {
+          // 7/8 (2+2+3): two eighths, a rest and an eighth, then three eighths
+          melody: [
+            { note: 'C5', rhythm: 8 },
+            { note: 'D5', rhythm: 8 },
+            { note: 'rest', rhythm: -8 },
+            { note: 'E5', rhythm: 8 },
+            { note: 'F5', rhythm: 8 },
+            { note: 'G5', rhythm: 16 },
+            { note: 'F5', rhythm: 16 },
+            { note: 'E5', rhythm: 8 },
+          ],
+          accompaniment: [
+            { note: 'C3', rhythm: 4 },
+            { note: 'C3', rhythm: 4 },
+            { note: 'C3', rhythm: 8 / 3 },
+          ],
+        },
+        'C',
+        '7/8',
+        'Beams',
+      );
+      const melodyPart = xml.split('<part id="P2">')[0];
+      expect(melodyPart.match(/<beam number="\d">\w+<\/beam>/g)).toEqual([
+        '<beam number="1">begin</beam>',
+        '<beam number="1">end</beam>',
+        '<beam number="1">begin</beam>',
+        '<beam number="1">continue</beam>',
+        '<beam number="2">begin</beam>',
+        '<beam number="1">continue</beam>',
+        '<beam number="2">end</beam>',
+        '<beam number="1">end</beam>',
+      ]);
+      expect(xml.split('<part id="P2">')[1]).not.toContain('<beam');
     });
   });
 });
+
@@ -0,0 +1,77 @@
+import { searchCompliantVoicings } from '../voiceLeadingSearch';
+import { PreviousNotes, VoiceLeadingViolation } from '../types';
+
+describe('searchCompliantVoicings', () => {
+  const voicing = (melody: number): PreviousNotes => ({
+    melody,
+    accompaniment: [],
+  });
+  const melodyOf = (notes: PreviousNotes) =>
+    (notes as { melody: number | null }).melody;
+  const sourceOf = (melodies: number[]) => {
+    let next = 0;
+    return () => (next < melodies.length ? voicing(melodies[next++]) : null);
+  };
+  const violation: VoiceLeadingViolation = {
+    ruleId: 'parallel-fifths',
+    severity: 'error',
+    measure: 1,
+    beat: 1,
+    voices: [],
+    pitches: [],
+    message: '',
+  };
+  // Rejects any leap larger than a whole step
+  const stepwise = (
+    _: number,
+    current: PreviousNotes,
+    previous: PreviousNotes,
+  ) =>
+    Math.abs((melodyOf(current) ?? 0) - (melodyOf(previous) ?? 0)) > 2
+      ? [violation]
+      : [];
+
+  it('keeps the default candidates when they comply', () => {
+    const result = searchCompliantVoicings(
+      3,
+      voicing(60),
+      (_, previous) =>
+        sourceOf([melodyOf(previous)! + 1, melodyOf(previous)! + 2]),
+      stepwise,
+      100,
+    );
+    expect(result.compliant).toBe(true);
+    expect(result.voicings.map(melodyOf)).toEqual([61, 62, 63]);
+    expect(result.candidatesEvaluated).toBe(3);
+  });
+
+  it('backtracks to an earlier event when a later one has no compliant candidate', () => {
+    // From 62 the only continuation (66) leaps; from 61 the second event can reach 63
+    const result = searchCompliantVoicings(
+      2,
+      voicing(60),
+      (eventIndex, previous) =>
+        eventIndex === 0
+          ? sourceOf([62, 61])
+          : sourceOf(melodyOf(previous) === 62 ? [66] : [63]),
+      stepwise,
+      100,
+    );
+    expect(result.compliant).toBe(true);
+    expect(result.voicings.map(melodyOf)).toEqual([61, 63]);
+  });
+
+  it('falls back to the longest compliant prefix when the budget runs out', () => {
+    const result = searchCompliantVoicings(
+      3,
+      voicing(60),
+      (eventIndex) =>
+        eventIndex === 0 ? sourceOf([61]) : sourceOf([70, 71, 72]),
+      stepwise,
+      2,
+    );
+    expect(result.compliant).toBe(false);
+    expect(result.candidatesEvaluated).toBe(2);
+    expect(result.voicings.map(melodyOf)).toEqual([61, 70, 70]);
+  });
+});
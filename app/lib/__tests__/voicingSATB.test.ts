@@ -0,0 +1,39 @@
+import * as Tonal from 'tonal';
+import { assignInnerVoicesSATB } from '../voicingSATB';
+import {
+  getChordInfoFromRoman,
+  getExtendedChordNotePool,
+} from '../theory/harmony';
+
+describe('assignInnerVoicesSATB', () => {
+  const cMajor = Tonal.Key.majorKey('C');
+
+  beforeEach(() => jest.spyOn(console, 'info').mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  const innerPcs = (roman: string, soprano: number, bass: number) => {
+    const { notes, doublingPcs } = getChordInfoFromRoman(roman, 'C');
+    const { altoNoteMidi, tenorNoteMidi } = assignInnerVoicesSATB(
+      notes.map((n) => n % 12),
+      getExtendedChordNotePool(notes),
+      null,
+      null,
+      soprano,
+      bass,
+      5,
+      cMajor,
+      doublingPcs,
+    );
+    return [altoNoteMidi! % 12, tenorNoteMidi! % 12].sort((a, b) => a - b);
+  };
+
+  it('doubles the tonic rather than an augmented-sixth pitch in It+6', () => {
+    // Soprano C5 and bass Ab2 leave F# and a doubling for the inner voices
+    expect(innerPcs('It+6', 72, 44)).toEqual([0, 6]);
+  });
+
+  it('doubles the bass of the Neapolitan sixth', () => {
+    // Soprano Db5 over bass F3: the inner voices take Ab and F
+    expect(innerPcs('N6', 73, 53)).toEqual([5, 8]);
+  });
+});
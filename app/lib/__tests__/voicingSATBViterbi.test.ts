@@ -0,0 +1,133 @@
+import * as Tonal from 'tonal';
+import {
+  enumerateSATBVoicings,
+  findOptimalSATBVoicings,
+  getSATBTransitionCost,
+  DEFAULT_SATB_VOICING_COST_WEIGHTS,
+} from '../voicingSATBViterbi';
+import { generateMusicalData } from '../generationEngine';
+import { getLeadingTonePc } from '../theory/harmony';
+import { checkVoiceLeadingRules } from '../rules';
+import { VOICE_RANGES, VOICE_SPACING_LIMIT_SATB } from '../constants';
+import { GenerationSettings } from '../types';
+
+describe('SATB Viterbi voicer', () => {
+  const cMajor = Tonal.Key.majorKey('C');
+  const I = { chordPcs: [0, 4, 7], requiredBassPc: null };
+  const IV = { chordPcs: [5, 9, 0], requiredBassPc: null };
+  const V = { chordPcs: [7, 11, 2], requiredBassPc: null };
+  const I6 = { chordPcs: [0, 4, 7], requiredBassPc: 4 };
+
+  describe('enumerateSATBVoicings', () => {
+    it('returns only voicings within range, order, spacing and doubling rules', () => {
+      const voicings = enumerateSATBVoicings(V, getLeadingTonePc(cMajor));
+      expect(voicings.length).toBeGreaterThan(0);
+      voicings.forEach(({ soprano, alto, tenor, bass }) => {
+        expect(soprano).toBeLessThanOrEqual(VOICE_RANGES.soprano[1]);
+        expect(bass).toBeGreaterThanOrEqual(VOICE_RANGES.bass[0]);
+        expect(bass % 12).toBe(7);
+        expect(bass < tenor && tenor < alto && alto < soprano).toBe(true);
+        expect(soprano - alto).toBeLessThanOrEqual(
+          VOICE_SPACING_LIMIT_SATB.soprano_alto,
+        );
+        expect(alto - tenor).toBeLessThanOrEqual(
+          VOICE_SPACING_LIMIT_SATB.alto_tenor,
+        );
+        const pcs = [soprano, alto, tenor, bass].map((n) => n % 12);
+        expect(pcs).toContain(11);
+        // The leading tone (B) is never doubled
+        expect(pcs.filter((pc) => pc === 11)).toHaveLength(1);
+      });
+    });
+
+    it('doubles only the allowed pitch classes when given', () => {
+      // It+6 in C: Ab C F#, doubling only the tonic
+      const voicings = enumerateSATBVoicings(
+        { chordPcs: [8, 0, 6], requiredBassPc: 8, doublingPcs: [0] },
+        11,
+      );
+      expect(voicings.length).toBeGreaterThan(0);
+      voicings.forEach((v) => {
+        const pcs = [v.soprano, v.alto, v.tenor, v.bass].map((n) => n % 12);
+        expect(pcs.filter((pc) => pc === 0)).toHaveLength(2);
+        expect(v.bass % 12).toBe(8);
+      });
+    });
+
+    it('puts the required inversion note in the bass', () => {
+      const voicings = enumerateSATBVoicings(I6, getLeadingTonePc(cMajor));
+      expect(voicings.every((v) => v.bass % 12 === 4)).toBe(true);
+    });
+  });
+
+  it('charges the parallels weight for parallel fifths', () => {
+    // Tenor/bass C3-F2 (P5) moving to D3-G2 (P5); soprano and alto do not move in parallel
+    const previous = { soprano: 72, alto: 65, tenor: 48, bass: 41 };
+    const current = { soprano: 71, alto: 65, tenor: 50, bass: 43 };
+    const weights = { ...DEFAULT_SATB_VOICING_COST_WEIGHTS };
+    const withParallels = getSATBTransitionCost(previous, current, weights);
+    const withoutParallels = getSATBTransitionCost(previous, current, {
+      ...weights,
+      parallels: 0,
+    });
+    expect(withParallels - withoutParallels).toBe(weights.parallels);
+  });
+
+  it('voices a progression without parallels and with small upper-voice motion', () => {
+    const voicings = findOptimalSATBVoicings([I, IV, V, I], cMajor);
+    expect(voicings).toHaveLength(4);
+    for (let i = 1; i < voicings.length; i++) {
+      const parallels = checkVoiceLeadingRules(
+        voicings[i],
+        voicings[i - 1],
+        'SATB',
+        0,
+        1,
+        10,
+      ).filter((v) => v.ruleId.startsWith('parallel'));
+      expect(parallels).toEqual([]);
+      (['soprano', 'alto', 'tenor'] as const).forEach((voice) =>
+        expect(
+          Math.abs(voicings[i][voice]! - voicings[i - 1][voice]!),
+        ).toBeLessThanOrEqual(4),
+      );
+    }
+  });
+
+  it('keeps a chord given a fixed voicing and leads into it', () => {
+    const fixed = { soprano: 79, alto: 71, tenor: 62, bass: 43 };
+    const voicings = findOptimalSATBVoicings(
+      [I, IV, { ...V, voicing: fixed }, I],
+      cMajor,
+    );
+    expect(voicings[2]).toEqual(fixed);
+    expect(Math.abs(voicings[1].soprano! - fixed.soprano)).toBeLessThanOrEqual(
+      4,
+    );
+  });
+
+  it('is selected with the satbVoicer setting', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    const settings: GenerationSettings = {
+      generationStyle: 'SATB',
+      melodicSmoothness: 5,
+      harmonicComplexity: 3,
+      dissonanceStrictness: 7,
+      seed: 3,
+      satbVoicer: 'viterbi',
+    };
+    const data = generateMusicalData(
+      ['I', 'IV', 'V', 'I', 'vi', 'ii', 'V', 'I'],
+      'C',
+      '4/4',
+      8,
+      settings,
+    );
+    expect(data.measures).toHaveLength(8);
+    const report = data.voiceLeadingReport!;
+    expect(report.countsByRule['parallel-fifths'] ?? 0).toBe(0);
+    expect(report.countsByRule['parallel-octaves'] ?? 0).toBe(0);
+    jest.restoreAllMocks();
+  });
+});
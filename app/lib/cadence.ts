@@ -0,0 +1,136 @@
+// src/cadence.ts
+import * as Tonal from 'tonal';
+import { getKeyDetails } from './theory/harmony';
+import { CadenceRequest, CadenceType } from './types';
+
+/** Short analysis labels of the cadence types, as written under the score. */
+export const CADENCE_LABELS: Record<CadenceType, string> = {
+  PAC: 'PAC',
+  IAC: 'IAC',
+  half: 'HC',
+  plagal: 'PC',
+  deceptive: 'DC',
+  phrygianHalf: 'PHC',
+};
+
+// A Roman numeral split into key prefix, numeral and figures, e.g. "G:V65" or "iv6"
+const CADENCE_ROMAN_REGEX = /^(?:([A-G][#b]*m?):)?([iv]+|[IV]+)([°ø+]?)(\d*)$/;
+
+/**
+ * Returns the two chords of a cadence, penultimate first, in a major or minor key.
+ * Authentic and deceptive cadences use V7 when `useSeventh` is set.
+ *
+ * @param {CadenceType} type - The cadence type.
+ * @param {boolean} isMajor - Whether the key is major.
+ * @param {boolean} [useSeventh=false] - Whether the dominant carries a seventh.
+ * @returns {[string, string]} The Roman numerals of the penultimate and final chords.
+ */
+export function getCadenceChords(
+  type: CadenceType,
+  isMajor: boolean,
+  useSeventh: boolean = false,
+): [string, string] {
+  const dominant = useSeventh ? 'V7' : 'V';
+  const tonic = isMajor ? 'I' : 'i';
+  switch (type) {
+    case 'PAC':
+    case 'IAC':
+      return [dominant, tonic];
+    case 'half':
+      return [isMajor ? 'IV' : 'iv', 'V'];
+    case 'plagal':
+      return [isMajor ? 'IV' : 'iv', tonic];
+    case 'deceptive':
+      return [dominant, isMajor ? 'vi' : 'VI'];
+    case 'phrygianHalf':
+      return ['iv6', 'V'];
+  }
+}
+
+/**
+ * Resolves the chord indices of cadence requests against a progression of `numChords` chords
+ * (negative indices count from the end). Requests outside the progression are dropped.
+ *
+ * @returns {Map<number, CadenceType>} The requested cadence type by final chord index.
+ */
+export function resolveCadenceRequests(
+  requests: CadenceRequest[] | undefined,
+  numChords: number,
+): Map<number, CadenceType> {
+  const cadences = new Map<number, CadenceType>();
+  (requests ?? []).forEach(({ chordIndex, type }) => {
+    const index = chordIndex < 0 ? numChords + chordIndex : chordIndex;
+    if (index >= 0 && index < numChords) cadences.set(index, type);
+    else
+      console.warn(
+        `[WARN] Ignoring ${type} cadence at chord ${chordIndex}: the progression has ${numChords} chords.`,
+      );
+  });
+  return cadences;
+}
+
+/**
+ * Soprano pitch classes allowed on the final chord of an authentic cadence: the tonic for a
+ * PAC, the other chord tones for an IAC. Returns `null` for other cadence types.
+ *
+ * @param {CadenceType} type - The cadence type.
+ * @param {number[]} chordPcs - Pitch classes of the final chord.
+ * @param {string} keyName - The key of the cadence.
+ */
+export function getCadenceSopranoPcs(
+  type: CadenceType,
+  chordPcs: number[],
+  keyName: string,
+): number[] | null {
+  if (type !== 'PAC' && type !== 'IAC') return null;
+  const tonicPc = Tonal.Note.chroma(getKeyDetails(keyName).tonic);
+  return type === 'PAC' ? [tonicPc] : chordPcs.filter((pc) => pc !== tonicPc);
+}
+
+/**
+ * Names the cadence formed by two chords, or returns `null` if they do not form one.
+ * Authentic cadences are perfect only with both chords in root position and the tonic
+ * in the soprano of the final chord.
+ *
+ * @param {string} penultimateRoman - Roman numeral of the penultimate chord.
+ * @param {string} finalRoman - Roman numeral of the final chord.
+ * @param {string} keyName - The key both chords are analysed in.
+ * @param {number | null} [sopranoMidi=null] - Soprano (or melody) note of the final chord.
+ */
+export function classifyCadence(
+  penultimateRoman: string,
+  finalRoman: string,
+  keyName: string,
+  sopranoMidi: number | null = null,
+): CadenceType | null {
+  const penultimate = penultimateRoman.match(CADENCE_ROMAN_REGEX);
+  const final = finalRoman.match(CADENCE_ROMAN_REGEX);
+  if (!penultimate || !final) return null;
+  // Both chords must be in the same key (a cadence does not straddle a modulation)
+  if ((penultimate[1] ?? keyName) !== (final[1] ?? keyName)) return null;
+  const [, , penultimateNumeral, , penultimateFigures] = penultimate;
+  const [, prefixKey, finalNumeral, , finalFigures] = final;
+  const isRootPosition = (figures: string) => figures === '' || figures === '7';
+  const isDominant = penultimateNumeral === 'V';
+  const isSubdominant = penultimateNumeral.toUpperCase() === 'IV';
+
+  if (finalNumeral === 'V')
+    return penultimateNumeral === 'iv' && penultimateFigures === '6'
+      ? 'phrygianHalf'
+      : 'half';
+  if (finalNumeral.toUpperCase() === 'I') {
+    if (isSubdominant) return 'plagal';
+    if (!isDominant) return null;
+    const tonicPc = Tonal.Note.chroma(
+      getKeyDetails(prefixKey ?? keyName).tonic,
+    );
+    return isRootPosition(penultimateFigures) &&
+      isRootPosition(finalFigures) &&
+      sopranoMidi !== null &&
+      sopranoMidi % 12 === tonicPc
+      ? 'PAC'
+      : 'IAC';
+  }
+  if (finalNumeral.toUpperCase() === 'VI' && isDominant) return 'deceptive';
+  return null;
+}
@@ -72,4 +72,17 @@ export const MELODY_ACCOMPANIMENT_SPACING_LIMIT: number = 24; // Two Octaves
  * Octave 4 is typically considered the middle octave on a piano.
  * @readonly
  */
-export const DEFAULT_OCTAVE: number = 4;
\ No newline at end of file
+export const DEFAULT_OCTAVE: number = 4;
+
+/**
+ * `dissonanceStrictness` from which voice-leading rules are enforced by backtracking
+ * (rather than only reported) unless `enforceVoiceLeading` is set explicitly.
+ * @readonly
+ */
+export const ENFORCE_VOICE_LEADING_MIN_STRICTNESS: number = 8;
+
+/**
+ * Default number of candidate voicings checked per measure when voice leading is enforced.
+ * @readonly
+ */
+export const DEFAULT_VOICE_LEADING_SEARCH_BUDGET: number = 500;
@@ -0,0 +1,142 @@
+// src/form.ts
+import { InvalidInputError } from './errors';
+import { generateChordProgression } from './progression';
+import { getKeyDetails } from './theory/harmony';
+import {
+  CadenceType,
+  ChordProgressionOptions,
+  FormPlan,
+  FormType,
+  MeasureRepeat,
+  Phrase,
+  RandomSource,
+} from './types';
+
+/** Number of phrases (of `phraseLength` measures each) in each form. */
+export const FORM_PHRASE_COUNTS: Record<FormType, number> = {
+  period: 2,
+  sentence: 2,
+  AABA: 4,
+};
+
+/**
+ * Builds the phrases and chords of a form on top of `generateChordProgression`. Each phrase is
+ * generated with its cadence, and later phrases restate the opening of earlier ones:
+ * - `period`: an antecedent ending on a half cadence and a consequent that restates the first
+ *   half of the antecedent before closing with a PAC.
+ * - `sentence`: a presentation stating a basic idea (half a phrase) twice, then a continuation
+ *   closing with a PAC.
+ * - `AABA`: an A phrase closing with an IAC, its restatement closing with a PAC, a contrasting
+ *   B phrase opening on the subdominant and ending on a half cadence, and a final A with a PAC.
+ *
+ * Pass `progression`, `cadences`, `phrases` and `measureRepeats` of the result to
+ * `generateMusicalData` so the restated measures also repeat their notes.
+ *
+ * @param {string} key - The key of the piece (e.g., "C", "Am").
+ * @param {FormType} form - The form to build.
+ * @param {number} phraseLength - Measures per phrase (at least 4).
+ * @param {number} harmonicComplexity - Harmonic complexity 0-10 (see `generateChordProgression`).
+ * @param {RandomSource} [rng=Math.random] - Random source for chord selection.
+ * @param {Pick<ChordProgressionOptions, 'mixtureProbability' | 'model'>} [options={}] - Further progression controls.
+ * @returns {FormPlan} The phrases, one Roman numeral per measure and the cadences and repeats.
+ * @throws {InvalidInputError} If the form, phrase length or key is not valid.
+ */
+export function generateForm(
+  key: string,
+  form: FormType,
+  phraseLength: number,
+  harmonicComplexity: number,
+  rng: RandomSource = Math.random,
+  options: Pick<ChordProgressionOptions, 'mixtureProbability' | 'model'> = {},
+): FormPlan {
+  if (!Object.keys(FORM_PHRASE_COUNTS).includes(form))
+    throw new InvalidInputError(`generateForm: Unknown form "${form}".`);
+  if (!Number.isInteger(phraseLength) || phraseLength < 4)
+    throw new InvalidInputError(
+      `generateForm: Phrase length must be a whole number of at least 4 measures (got ${phraseLength}).`,
+    );
+  const isMajor = getKeyDetails(key).type === 'major'; // Throws InvalidInputError for unknown keys
+
+  const phrases: Phrase[] = [];
+  const progression: string[] = [];
+  const measureRepeats: MeasureRepeat[] = [];
+  const generatePhrase = (cadence: CadenceType) =>
+    generateChordProgression(key, phraseLength, harmonicComplexity, rng, {
+      ...options,
+      cadences: [{ chordIndex: -1, type: cadence }],
+    });
+  const addPhrase = (
+    label: string,
+    chords: string[],
+    cadence?: CadenceType,
+  ) => {
+    phrases.push({
+      label,
+      startMeasure: progression.length,
+      numMeasures: chords.length,
+      cadence,
+    });
+    progression.push(...chords);
+  };
+  // Copies the first `numMeasures` measures of the piece over the start of the next phrase
+  const restate = (chords: string[], numMeasures: number) => {
+    for (let k = 0; k < numMeasures; k++) {
+      chords[k] = progression[k];
+      measureRepeats.push({
+        measure: progression.length + k,
+        sourceMeasure: k,
+      });
+    }
+    return chords;
+  };
+  const basicIdeaLength = Math.floor(phraseLength / 2);
+
+  if (form === 'period') {
+    addPhrase('Antecedent', generatePhrase('half'), 'half');
+    addPhrase(
+      'Consequent',
+      restate(generatePhrase('PAC'), basicIdeaLength),
+      'PAC',
+    );
+  } else if (form === 'sentence') {
+    // The basic idea is repeated right away; a measure left over keeps its generated chord
+    const presentation = generateChordProgression(
+      key,
+      phraseLength,
+      harmonicComplexity,
+      rng,
+      options,
+    );
+    for (let k = 0; k < basicIdeaLength; k++) {
+      presentation[basicIdeaLength + k] = presentation[k];
+      measureRepeats.push({ measure: basicIdeaLength + k, sourceMeasure: k });
+    }
+    addPhrase('Presentation', presentation);
+    addPhrase('Continuation', generatePhrase('PAC'), 'PAC');
+  } else {
+    // Every A phrase shares its chords up to the cadence; the B phrase contrasts with them
+    const restatedLength = phraseLength - 2;
+    addPhrase('A', generatePhrase('IAC'), 'IAC');
+    addPhrase('A', restate(generatePhrase('PAC'), restatedLength), 'PAC');
+    const bridge = generatePhrase('half');
+    bridge[0] = isMajor ? 'IV' : 'iv';
+    addPhrase('B', bridge, 'half');
+    addPhrase('A', restate(generatePhrase('PAC'), restatedLength), 'PAC');
+  }
+
+  const cadences = phrases
+    .filter((phrase) => phrase.cadence)
+    .map((phrase) => ({
+      chordIndex: phrase.startMeasure + phrase.numMeasures - 1,
+      type: phrase.cadence!,
+    }));
+  console.info(
+    `[INFO] Generated ${form} form (${key}): ${phrases
+      .map(
+        (phrase) =>
+          `${phrase.label} ${progression.slice(phrase.startMeasure, phrase.startMeasure + phrase.numMeasures).join(' ')}`,
+      )
+      .join(' || ')}`,
+  );
+  return { form, phrases, progression, cadences, measureRepeats };
+}
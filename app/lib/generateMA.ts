@@ -1,17 +1,39 @@
 import { GenerationError, InvalidInputError, MusicTheoryError } from './errors';
-import { getChordInfoFromRoman } from './theory/harmony';
+import {
+  getChordInfoFromRoman,
+  hasSeventhFigure,
+  isAugmentedSixth,
+} from './theory/harmony';
 import { Interval, Key, Note, Scale } from 'tonal';
 import { weightedRandomChoice } from './utils';
 import {
+  getMeasureMeters,
   isInRange as utilIsInRange,
   putInRange as utilPutInRange,
   InvalidRangeError,
 } from './generationUtils';
-import { generateRhythm } from './rhythm';
+import { generateRhythm, getTuplet } from './rhythm';
+import { resolveRandomSource } from './random';
+import { RandomSource, Tuplet } from './types';
+import { VOICE_RANGES } from './constants';
+import { findClosestNote } from './voicingUtils';
 
 // AI generation removed: no external API usage retained.
 
-// returns object with melody and accompaniment
+/**
+ * Options for {@link generateMA}.
+ */
+export interface GenerateMAOptions {
+  /** Seed for reproducible output. A new seed is generated when omitted. */
+  seed?: number;
+  /**
+   * Rhythmic complexity 1-10 of the melody (see `generateRhythm`). Defaults to 3. From 4 the melody
+   * may be syncopated, and from 5 it may hold a note over the barline (tied into the next measure).
+   */
+  rhythmicComplexity?: number;
+}
+
+// returns object with melody, accompaniment and the seed they were generated from
 export default async function generateMA(
   progression: string[],
   key: string,
@@ -20,7 +42,8 @@ export default async function generateMA(
     melody: { min: string; max: string };
     accompaniment: { min: string; max: string };
   },
-): Promise<{ melody: Melody; accompaniment: Melody }> {
+  options: GenerateMAOptions = {},
+): Promise<{ melody: Melody; accompaniment: Melody; seed: number }> {
   // Defensive argument validation to surface common misuse (passing key as first arg)
   if (
     !Array.isArray(progression) ||
@@ -41,24 +64,43 @@ export default async function generateMA(
       'generateMA: Missing rangeConstraints { melody: {min,max}, accompaniment: {min,max} }.',
     );
   }
-  const melody = generateMelody(
+  const { seed, rng } = resolveRandomSource(options.seed);
+  const { melody, measureNoteCounts } = generateMelody(
     progression,
     key,
     meter,
     rangeConstraints.melody.min,
     rangeConstraints.melody.max,
+    rng,
+    options.rhythmicComplexity ?? 3,
   );
 
-  // With AI removed, accompaniment is currently empty.
-  const accompaniment: Melody = [];
+  const accompaniment = generateAccompaniment(
+    progression,
+    key,
+    melody,
+    measureNoteCounts,
+    rangeConstraints.accompaniment.min,
+    rangeConstraints.accompaniment.max,
+  );
 
   return {
     melody,
     accompaniment,
+    seed,
   };
 }
 
-type Melody = { note: string; rhythm: number }[];
+/**
+ * Notes with their rhythm (see `NoteObject`); `tie` holds a note into the next, same-pitch note
+ * and `tuplet` marks the notes of triplets and other tuplets.
+ */
+type Melody = {
+  note: string;
+  rhythm: number;
+  tie?: boolean;
+  tuplet?: Tuplet;
+}[];
 
 function generateMelody(
   progression: string[],
@@ -66,7 +108,9 @@ function generateMelody(
   meter: string,
   minRange: string,
   maxRange: string,
-): Melody {
+  rng: RandomSource,
+  rhythmicComplexity: number,
+): { melody: Melody; measureNoteCounts: number[] } {
   // Added return type
   const keyDetails = Key.majorKey(keySignature) ?? Key.minorKey(keySignature);
   if (!keyDetails || !keyDetails.tonic) {
@@ -75,7 +119,19 @@ function generateMelody(
     );
   }
 
+  // One meter per chord (measure); a meter list such as "4/4 3/4" changes the meter
+  let measureMeters: string[];
+  try {
+    measureMeters = getMeasureMeters(meter, progression.length);
+  } catch (e) {
+    throw new InvalidInputError(
+      `Invalid meter "${meter}": ${(e as Error).message}`,
+    );
+  }
+
   const melody: Melody = [];
+  // Number of melody entries written for each chord, so the accompaniment can follow the same rhythm
+  const measureNoteCounts: number[] = [];
   // Ensure startingNote is valid, provide a fallback octave if needed
   const tonic = keyDetails.scale[0];
   const startingNoteOctave =
@@ -100,8 +156,9 @@ function generateMelody(
     }
 
     let rhythm;
+    const measureMeter = measureMeters[i];
     try {
-      rhythm = generateRhythm(meter, 3); // Using moderate complexity for melody rhythm
+      rhythm = generateRhythm(measureMeter, rhythmicComplexity, rng); // Moderate complexity (3) unless requested
       if (process.env.NODE_ENV !== 'production') {
         console.debug(
           '[generateMA] Generated rhythm for chord',
@@ -111,13 +168,14 @@ function generateMelody(
       }
     } catch (e) {
       console.error(
-        `generateMelody: Failed to generate rhythm for meter "${meter}". Error: ${(e as Error).message}`,
+        `generateMelody: Failed to generate rhythm for meter "${measureMeter}". Error: ${(e as Error).message}`,
       );
       throw new GenerationError(
-        `Failed to generate rhythm for meter "${meter}": ${(e as Error).message}`,
+        `Failed to generate rhythm for meter "${measureMeter}": ${(e as Error).message}`,
       );
     }
 
+    const notesBeforeMeasure = melody.length;
     if (i === 0) {
       const firstRhythm = rhythm.shift();
       if (!firstRhythm) {
@@ -128,6 +186,19 @@ function generateMelody(
       melody.push({ note: startingNote, rhythm: firstRhythm });
     }
 
+    // Hold the last note over the barline, more often at higher rhythmic complexity
+    const previousEntry = melody[melody.length - 1];
+    if (
+      i > 0 &&
+      rhythmicComplexity >= 5 &&
+      previousEntry.rhythm > 0 &&
+      rhythm[0] > 0 &&
+      rng() < (rhythmicComplexity - 4) * 0.08
+    ) {
+      previousEntry.tie = true;
+      melody.push({ note: previousEntry.note, rhythm: rhythm.shift()! });
+    }
+
     rhythm.forEach((noteLength) => {
       const lastMelodyNote = melody[melody.length - 1]?.note;
       if (!lastMelodyNote) {
@@ -187,6 +258,7 @@ function generateMelody(
 
       const possibleNotes = weightedRandomChoice(
         choices.filter((c) => c.item.length > 0),
+        rng,
       );
 
       // console.log(possibleNotes); // Debugging
@@ -194,7 +266,7 @@ function generateMelody(
       // Handle the case where possibleNotes might be null or empty
       let nextMelodyNote: string;
       if (possibleNotes && possibleNotes.length > 0) {
-        nextMelodyNote = getNextNote(melody, keySignature, possibleNotes);
+        nextMelodyNote = getNextNote(melody, keySignature, possibleNotes, rng);
       } else {
         // Fallback strategy if no possible notes were determined (e.g., all weights were zero, or items were empty)
         // Revert to the last note or a simple step from it, or tonic.
@@ -224,6 +296,12 @@ function generateMelody(
         rhythm: noteLength,
       });
     });
+    measureNoteCounts.push(melody.length - notesBeforeMeasure);
+  });
+
+  melody.forEach((entry) => {
+    const tuplet = getTuplet(entry.rhythm);
+    if (tuplet) entry.tuplet = tuplet;
   });
 
   // console.log('melody', melody); // Debugging
@@ -231,13 +309,175 @@ function generateMelody(
     // This might happen if the progression is empty and the initial note wasn't added.
     throw new GenerationError('Failed to generate any notes for the melody.');
   }
-  return melody;
+  return { melody, measureNoteCounts };
+}
+
+/**
+ * Generates a rule-based accompaniment line that follows the chord progression and the
+ * melody's rhythm, one accompaniment note under each melody note.
+ *
+ * Each measure uses a broken-chord (Alberti-style) figure: the chord's bass note on the
+ * first note of the measure, then alternating between the highest and the inner chord tones
+ * above it. The bass is led smoothly from measure to measure, upper tones are kept within
+ * an octave of the bass and below the sounding melody note, and every note stays inside
+ * the accompaniment range.
+ *
+ * @param {string[]} progression - Roman numerals, one per measure.
+ * @param {string} keySignature - The key of the piece.
+ * @param {Melody} melody - The generated melody.
+ * @param {number[]} measureNoteCounts - How many melody entries belong to each measure.
+ * @param {string} minRange - Lowest allowed accompaniment note (e.g. "C2").
+ * @param {string} maxRange - Highest allowed accompaniment note (e.g. "C4").
+ * @returns {Melody} The accompaniment, with the same rhythm values as the melody.
+ */
+function generateAccompaniment(
+  progression: string[],
+  keySignature: string,
+  melody: Melody,
+  measureNoteCounts: number[],
+  minRange: string,
+  maxRange: string,
+): Melody {
+  let [minMidi, maxMidi] = VOICE_RANGES.accompaniment;
+  const requestedMin = minRange ? Note.midi(minRange) : null;
+  const requestedMax = maxRange ? Note.midi(maxRange) : null;
+  if (
+    requestedMin !== null &&
+    requestedMax !== null &&
+    requestedMin > requestedMax
+  ) {
+    console.warn(
+      `[WARN] generateAccompaniment: Invalid accompaniment range ${minRange}-${maxRange}. Using default range.`,
+    );
+  } else {
+    minMidi = requestedMin ?? minMidi;
+    maxMidi = requestedMax ?? maxMidi;
+  }
+
+  const accompaniment: Melody = [];
+  let chordInfo: {
+    notes: number[];
+    noteNames: string[];
+    requiredBassPc: number | null;
+  } | null = null;
+  let previousBass: number | null = null;
+  let melodyIndex = 0;
+
+  measureNoteCounts.forEach((noteCount, i) => {
+    const chordSymbol = progression[i];
+    try {
+      chordInfo = getChordInfoFromRoman(chordSymbol, keySignature);
+    } catch (e) {
+      // Keep the previous chord so the accompaniment does not drop out
+      console.warn(
+        `generateAccompaniment: Error processing Roman numeral "${chordSymbol}". Error: ${(e as Error).message}. Repeating previous chord.`,
+      );
+    }
+    const measureNotes = melody.slice(melodyIndex, melodyIndex + noteCount);
+    melodyIndex += noteCount;
+    if (!chordInfo || chordInfo.notes.length === 0) {
+      throw new GenerationError(
+        `generateAccompaniment: No chord available for measure ${i + 1}.`,
+      );
+    }
+
+    // Spell pitches with the chord's own note names (e.g. Bb rather than A#)
+    const spellings = new Map<number, string>();
+    chordInfo.noteNames.forEach((name) => {
+      const chroma = Note.chroma(name);
+      if (chroma !== undefined) spellings.set(chroma, Note.pitchClass(name));
+    });
+
+    // Diatonic chord lookups can include a seventh; only sound it when the numeral's figure asks for one.
+    // Augmented sixths sound every note they are built with (Fr43 and Ger65 have four, It+6 three).
+    const toneCount = isAugmentedSixth(chordSymbol ?? '')
+      ? chordInfo.notes.length
+      : hasSeventhFigure(chordSymbol ?? '')
+        ? 4
+        : 3;
+    const chordPcs = Array.from(
+      new Set(chordInfo.notes.slice(0, toneCount).map((n) => n % 12)),
+    );
+    const bassPc = chordInfo.requiredBassPc ?? chordPcs[0];
+    const bassOptions: number[] = [];
+    for (let midi = minMidi; midi <= maxMidi; midi++) {
+      if (midi % 12 === bassPc) bassOptions.push(midi);
+    }
+    if (bassOptions.length === 0) {
+      throw new GenerationError(
+        `generateAccompaniment: Accompaniment range ${minRange}-${maxRange} cannot fit the bass of "${chordSymbol}".`,
+      );
+    }
+    const lowBassOptions = bassOptions.filter((n) => n < minMidi + 12);
+    const bass =
+      findClosestNote(
+        previousBass ?? lowBassOptions[0] ?? bassOptions[0],
+        lowBassOptions.length > 0 ? lowBassOptions : bassOptions,
+        previousBass,
+        7,
+        9, // Bass leap threshold
+      ) ?? bassOptions[0];
+    previousBass = bass;
+
+    // Upper chord tones: the nearest occurrence above the bass, within range
+    const upperTones = chordPcs
+      .filter((pc) => pc !== bassPc)
+      .map((pc) => {
+        let midi = bass + ((pc - bassPc + 12) % 12 || 12);
+        while (midi > maxMidi && midi - 12 > bass) midi -= 12;
+        return midi;
+      })
+      .filter((midi) => midi <= maxMidi)
+      .sort((a, b) => a - b);
+
+    measureNotes.forEach((melodyNote, k) => {
+      let midi = bass;
+      if (k > 0 && upperTones.length > 0) {
+        const inner = upperTones.slice(0, -1);
+        midi =
+          k % 2 === 1 || inner.length === 0
+            ? upperTones[upperTones.length - 1]
+            : inner[(k / 2 - 1) % inner.length];
+      }
+      // Keep the accompaniment below the note the melody is sounding
+      const melodyMidi =
+        melodyNote.rhythm > 0 ? Note.midi(melodyNote.note) : null;
+      while (melodyMidi !== null && midi >= melodyMidi && midi - 12 > bass) {
+        midi -= 12;
+      }
+      // The harmony keeps sounding where the melody rests, so a melody rest becomes a note here
+      accompaniment.push({
+        note: spellMidi(midi, spellings),
+        rhythm: Math.abs(melodyNote.rhythm),
+        ...(melodyNote.tuplet ? { tuplet: melodyNote.tuplet } : {}),
+      });
+    });
+  });
+
+  return accompaniment;
+}
+
+/**
+ * Names a MIDI note using the preferred pitch-class spelling when one is known,
+ * falling back to Tonal's default (sharp) spelling.
+ */
+function spellMidi(midi: number, spellings: Map<number, string>): string {
+  const pc = spellings.get(midi % 12);
+  if (pc) {
+    const octave = Math.floor(midi / 12) - 1;
+    // Enharmonics such as Cb/B# sit in the neighbouring octave
+    for (const oct of [octave, octave + 1, octave - 1]) {
+      if (Note.midi(pc + oct) === midi) return pc + oct;
+    }
+  }
+  return Note.fromMidi(midi);
 }
 
 function getNextNote(
   currentMelody: Melody,
   keySignature: string, // Renamed for clarity
   possibleNotes: string[], // Assumed to be non-empty and validated by caller
+  rng: RandomSource = Math.random,
 ): string {
   // Added return type
   if (possibleNotes.length === 0) {
@@ -284,7 +524,7 @@ function getNextNote(
   }
 
   // Default to random choice from the provided valid & ranged possible notes
-  const randomIndex = Math.floor(Math.random() * possibleNotes.length);
+  const randomIndex = Math.floor(rng() * possibleNotes.length);
   return possibleNotes[randomIndex];
 }
 
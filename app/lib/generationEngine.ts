@@ -2,13 +2,20 @@
 // Core music generation engine (migrated from generate.ts for clearer naming & organization)
 // Exports low-level generation plus a high-level wrapper `generateScore` supporting a difficulty slider.
 
-import * as Tonal from 'tonal';
-import { InvalidInputError } from './errors';
 import {
+  classifyCadence,
+  getCadenceSopranoPcs,
+  resolveCadenceRequests,
+} from './cadence';
+import { GenerationError, InvalidInputError } from './errors';
+import {
+  getMeasureMeters,
   parseMeter,
   InvalidMeterError as InvalidMeterUtilError,
 } from './generationUtils';
 import {
+  CadenceType,
+  ChordProgressionEntry,
   GenerationSettings,
   PreviousNotes,
   PreviousNotesSATB,
@@ -18,17 +25,39 @@ import {
   GeneratedPieceData,
   KeyDetails,
   TimingInfo,
+  RandomSource,
+  VoiceLeadingViolation,
 } from './types';
-import { getChordInfoFromRoman, getExtendedChordNotePool } from './theory/harmony';
+import {
+  getChordInfoFromRoman,
+  getDominantLeadingTonePc,
+  getExtendedChordNotePool,
+  getKeyDetails,
+  getLeadingTonePc,
+  getRomanNumeralKey,
+  hasSeventhFigure,
+  isAugmentedSixth,
+} from './theory/harmony';
 // Explicitly import from rhythm/index to avoid colliding with legacy rhythm.ts
 import { generateBeatFactorPattern } from './rhythm/index';
 import { assignSopranoOrMelodyNote } from './voicingUtils';
 import { assignBassNoteSATB, assignInnerVoicesSATB } from './voicingSATB';
 import { generateAccompanimentVoicing } from './voicingMelodyAccomp';
-import { checkVoiceLeadingRules } from './rules';
+import { checkVoiceLeadingRules, createVoiceLeadingReport } from './rules';
 import { getNoteTypeFromDuration } from './musicxmlUtils';
 import { createMusicXMLString } from './musicXmlWriter';
 import { mapDifficultyToSettings } from './difficulty';
+import { resolveRandomSource } from './random';
+import {
+  searchCompliantVoicings,
+  VoicingCandidateSource,
+} from './voiceLeadingSearch';
+import { findOptimalSATBVoicings, SATBVoicing } from './voicingSATBViterbi';
+import {
+  VOICE_RANGES,
+  ENFORCE_VOICE_LEADING_MIN_STRICTNESS,
+  DEFAULT_VOICE_LEADING_SEARCH_BUDGET,
+} from './constants';
 
 interface MelodicStateInternal {
   lastDirection: number;
@@ -37,6 +66,25 @@ interface MelodicStateInternal {
 interface ProcessMeasureResultInternal {
   measureEvents: MusicalEvent[];
   notesAtEndOfMeasure: PreviousNotes;
+  violations: VoiceLeadingViolation[];
+  /** `false` if enforced voice leading found no compliant voicing for the measure. */
+  resolved: boolean;
+  tail: MeasureTailInternal;
+  /** Top note (soprano or melody) where each chord arriving in the measure is first voiced. */
+  arrivals: { chordIndex: number; topNote: number | null }[];
+  /** The voicing of each voiced event, by index in the measure plan (sparse where there are rests). */
+  eventVoicings: PreviousNotes[];
+}
+/** What the rule checks of a measure need to know about the end of the previous one. */
+interface MeasureTailInternal {
+  /** Notes of the event before the last one. */
+  notesBeforeEnd: PreviousNotes | null;
+  /** Pitch classes of the measure's last chord (`null` for a measure of rests). */
+  chordPcs: number[] | null;
+  /** Whether that chord's numeral asks for a seventh. */
+  chordHasSeventh: boolean;
+  /** The leading tone that chord resolves (`null` unless it has dominant function). */
+  chordLeadingTonePc: number | null;
 }
 
 /**
@@ -44,13 +92,14 @@ interface ProcessMeasureResultInternal {
  * Provide musical context and (optionally) a difficulty slider or fine‑grained overrides.
  */
 export interface GenerateScoreOptions {
-  chordProgression: string[];
+  chordProgression: ChordProgressionEntry[];
   keySignature: string;
   meter: string;
   numMeasures: number;
   style?: GenerationSettings['generationStyle'];
   difficulty?: number; // 0-10
   overrides?: Partial<GenerationSettings>;
+  seed?: number; // Same seed + inputs => identical output
 }
 
 /**
@@ -66,6 +115,7 @@ export function generateScore(options: GenerateScoreOptions): string {
     style = 'MelodyAccompaniment',
     difficulty = 5,
     overrides = {},
+    seed,
   } = options;
   const base = mapDifficultyToSettings(difficulty, style);
   const settings: GenerationSettings = {
@@ -73,6 +123,7 @@ export function generateScore(options: GenerateScoreOptions): string {
     ...overrides,
     generationStyle: style,
   } as GenerationSettings;
+  if (seed !== undefined) settings.seed = seed;
   return generateVoices(
     chordProgression,
     keySignature,
@@ -83,7 +134,7 @@ export function generateScore(options: GenerateScoreOptions): string {
 }
 
 export function generateVoices(
-  chordProgression: string[],
+  chordProgression: ChordProgressionEntry[],
   keySignature: string,
   meter: string,
   numMeasures: number,
@@ -102,17 +153,14 @@ export function generateVoices(
 function initializeGenerationParameters(
   keySignature: string,
   meter: string,
-): { keyDetails: KeyDetails; timingInfo: TimingInfo } {
-  const keyDetails =
-    Tonal.Key.majorKey(keySignature) ?? Tonal.Key.minorKey(keySignature);
+  numMeasures: number,
+): { keyDetails: KeyDetails; measureTimings: MeasureTimingInternal[] } {
+  const keyDetails: KeyDetails = getKeyDetails(keySignature);
   if (!keyDetails || !keyDetails.tonic)
     throw new InvalidInputError('Invalid key signature: ' + keySignature);
-  let meterBeats: number;
-  let beatValue: number;
+  let meters: string[];
   try {
-    const parsed = parseMeter(meter);
-    meterBeats = parsed.beats;
-    beatValue = parsed.beatType;
+    meters = getMeasureMeters(meter, numMeasures);
   } catch (e) {
     if (e instanceof InvalidMeterUtilError)
       throw new InvalidInputError(e.message);
@@ -121,23 +169,43 @@ function initializeGenerationParameters(
     );
   }
   const divisions = 4;
-  const beatDurationTicks = divisions * (4 / beatValue);
-  const measureDurationTicks = meterBeats * beatDurationTicks;
-  const defaultNoteType = getNoteTypeFromDuration(
-    measureDurationTicks,
-    divisions,
-  );
-  return {
-    keyDetails,
-    timingInfo: {
+  let startTick = 0;
+  const measureTimings = meters.map((measureMeter) => {
+    const { beats: meterBeats, beatType: beatValue, groups } =
+      parseMeter(measureMeter);
+    const beatDurationTicks = divisions * (4 / beatValue);
+    const measureDurationTicks = meterBeats * beatDurationTicks;
+    const defaultNoteType = getNoteTypeFromDuration(
+      measureDurationTicks,
+      divisions,
+    );
+    const timing: MeasureTimingInternal = {
+      meter: measureMeter,
+      startTick,
       meterBeats,
       beatValue,
       divisions,
       beatDurationTicks,
       measureDurationTicks,
       defaultNoteType,
-    },
-  };
+      ...(groups ? { beatGroups: groups } : {}),
+    };
+    startTick += measureDurationTicks;
+    return timing;
+  });
+  return { keyDetails, measureTimings };
+}
+
+/** Index of the measure sounding at a tick of the piece (the last measure for ticks beyond it). */
+function getMeasureIndexAt(
+  measureTimings: MeasureTimingInternal[],
+  tick: number,
+): number {
+  const index = measureTimings.findIndex(
+    ({ startTick, measureDurationTicks }) =>
+      tick < startTick + measureDurationTicks,
+  );
+  return index < 0 ? measureTimings.length - 1 : index;
 }
 
 function initializePreviousNotes(
@@ -213,56 +281,239 @@ function generateRestEventsForDuration(
   ];
 }
 
-function generateNotesForEvent(
-  baseChordNotes: number[],
-  requiredBassPc: number | null,
+/** The timing of one measure in its own meter (the meter may change, see `generateMusicalData`). */
+interface MeasureTimingInternal extends TimingInfo {
+  /** The measure's meter (e.g., "3/4"). */
+  meter: string;
+  /** Start of the measure in ticks from the beginning of the piece. */
+  startTick: number;
+}
+
+/** Chord data shared by every event the chord sounds under. */
+interface MeasureChordInternal {
+  chordRootMidi: number;
+  chordPcs: number[];
+  /** `true` if the numeral asks for a chordal seventh (the fourth of `chordPcs`), e.g. "V7" but not "V" or "Ger65". */
+  hasSeventh: boolean;
+  /** The leading tone the chord resolves if it has dominant function (V or vii°, also applied), else `null`. */
+  leadingTonePc: number | null;
+  fullPool: number[];
+  requiredBassPc: number | null;
+  doublingPcs?: number[];
+  /** The key the chord is analysed in (differs from the piece's key after a modulation). */
+  keyDetails: KeyDetails;
+  /** Soprano pitch classes wanted where the chord arrives (the final chord of an authentic cadence). */
+  arrivalSopranoPcs?: number[];
+}
+
+function shouldEnforceVoiceLeading(generationSettings: GenerationSettings): boolean {
+  return (
+    generationSettings.enforceVoiceLeading ??
+    generationSettings.dissonanceStrictness >= ENFORCE_VOICE_LEADING_MIN_STRICTNESS
+  );
+}
+
+function toPrevNotesMelodyAccompaniment(
   previousNotes: PreviousNotes,
-  generationSettings: GenerationSettings,
+  numAccompanimentVoices: number,
+): PreviousNotesMelodyAccompaniment {
+  // Defensive: if previousNotes is not in expected shape (possible legacy caller), repair it.
+  if (!isPrevNotesMelodyAccompaniment(previousNotes)) {
+    return {
+      melody: null,
+      accompaniment: Array(numAccompanimentVoices).fill(null),
+    };
+  }
+  const prevMA = previousNotes;
+  if (!Array.isArray(prevMA.accompaniment)) {
+    prevMA.accompaniment = Array(numAccompanimentVoices).fill(null);
+  } else if (prevMA.accompaniment.length !== numAccompanimentVoices) {
+    // Resize preserving existing values
+    const resized = Array(numAccompanimentVoices).fill(null) as (number | null)[];
+    for (let i = 0; i < Math.min(prevMA.accompaniment.length, numAccompanimentVoices); i++) {
+      resized[i] = prevMA.accompaniment[i];
+    }
+    prevMA.accompaniment = resized;
+  }
+  return prevMA;
+}
+
+/**
+ * Wraps candidate factories (default first) into a source that skips duplicate voicings.
+ * A `GenerationError` from an alternative candidate only drops that candidate.
+ */
+function createCandidateSource(
+  candidates: Array<() => PreviousNotes>,
+): VoicingCandidateSource {
+  const seen = new Set<string>();
+  let next = 0;
+  return () => {
+    while (next < candidates.length) {
+      const index = next++;
+      let voicing: PreviousNotes;
+      try {
+        voicing = candidates[index]();
+      } catch (e) {
+        if (index === 0 || !(e instanceof GenerationError)) throw e;
+        continue;
+      }
+      const key = JSON.stringify(voicing);
+      if (!seen.has(key)) {
+        seen.add(key);
+        return voicing;
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Candidate SATB voicings for one event. The first is the default greedy voicing; the
+ * alternatives move the soprano and bass (keeping the bass pitch class) progressively
+ * further from their defaults and re-voice the inner parts around them.
+ * With `sopranoPcs`, only sopranos on those pitch classes are offered (if the range has any).
+ */
+function createSATBCandidateSource(
+  chord: MeasureChordInternal,
+  prevSATB: PreviousNotesSATB,
+  smoothness: number,
   keyDetails: KeyDetails,
+  sopranoPcs?: number[],
+): VoicingCandidateSource {
+  const bass = assignBassNoteSATB(
+    chord.requiredBassPc,
+    chord.chordRootMidi,
+    chord.fullPool,
+    prevSATB.bass,
+    smoothness,
+  );
+  const soprano = assignSopranoOrMelodyNote(
+    chord.fullPool,
+    prevSATB.soprano,
+    smoothness,
+    'SATB',
+    keyDetails.tonic,
+  );
+  const optionsNear = (
+    chosen: number | null,
+    [minRange, maxRange]: readonly [number, number],
+    samePitchClass: boolean,
+  ): (number | null)[] =>
+    chosen === null
+      ? [null]
+      : chord.fullPool
+          .filter(
+            (n) =>
+              n >= minRange &&
+              n <= maxRange &&
+              (!samePitchClass || n % 12 === chosen % 12),
+          )
+          .sort((a, b) => Math.abs(a - chosen) - Math.abs(b - chosen));
+  const sopranoRangeOptions = optionsNear(soprano, VOICE_RANGES.soprano, false);
+  const requiredSopranoOptions = sopranoPcs
+    ? sopranoRangeOptions.filter((n) => n !== null && sopranoPcs.includes(n % 12))
+    : [];
+  const sopranoOptions =
+    requiredSopranoOptions.length > 0 ? requiredSopranoOptions : sopranoRangeOptions;
+  const bassOptions = optionsNear(bass, VOICE_RANGES.bass, true);
+
+  const pairs: { soprano: number | null; bass: number | null; rank: number }[] = [];
+  sopranoOptions.forEach((s, sIndex) =>
+    bassOptions.forEach((b, bIndex) =>
+      pairs.push({ soprano: s, bass: b, rank: sIndex + bIndex }),
+    ),
+  );
+  pairs.sort((a, b) => a.rank - b.rank);
+
+  const candidates: Array<() => PreviousNotes> = [];
+  pairs.forEach((pair) => {
+    const voice = (pool: number[]): PreviousNotesSATB => {
+      const { tenorNoteMidi: tenor, altoNoteMidi: alto } = assignInnerVoicesSATB(
+        chord.chordPcs,
+        pool,
+        prevSATB.tenor,
+        prevSATB.alto,
+        pair.soprano,
+        pair.bass,
+        smoothness,
+        keyDetails,
+        chord.doublingPcs,
+      );
+      return { soprano: pair.soprano, alto, tenor, bass: pair.bass };
+    };
+    candidates.push(() => voice(chord.fullPool));
+    // Alternative inner voicings: withhold the note the alto or tenor chose by default
+    (['alto', 'tenor'] as const).forEach((part) =>
+      candidates.push(() => {
+        const excluded = voice(chord.fullPool)[part];
+        return voice(chord.fullPool.filter((n) => n !== excluded));
+      }),
+    );
+  });
+  return createCandidateSource(candidates);
+}
+
+/**
+ * Candidate accompaniment voicings under a fixed melody note. The first is the default
+ * voicing; each alternative withholds one of the default accompaniment notes. With
+ * `melodyPcs`, the melody first moves to the nearest note in its range on one of those
+ * pitch classes.
+ */
+function createMelodyAccompanimentCandidateSource(
+  chord: MeasureChordInternal,
+  chosenMelody: number | null,
+  prevMA: PreviousNotesMelodyAccompaniment,
+  smoothness: number,
+  numAccompanimentVoices: number,
+  melodyPcs?: number[],
+): VoicingCandidateSource {
+  const [minRange, maxRange] = VOICE_RANGES.melody;
+  const requiredMelodyOptions =
+    chosenMelody !== null && melodyPcs
+      ? chord.fullPool
+          .filter(
+            (n) => n >= minRange && n <= maxRange && melodyPcs.includes(n % 12),
+          )
+          .sort(
+            (a, b) => Math.abs(a - chosenMelody) - Math.abs(b - chosenMelody),
+          )
+      : [];
+  const melody = requiredMelodyOptions[0] ?? chosenMelody;
+  const voice = (pool: number[]): PreviousNotesMelodyAccompaniment => ({
+    melody,
+    accompaniment: generateAccompanimentVoicing(
+      melody,
+      chord.chordRootMidi,
+      chord.chordPcs,
+      pool,
+      prevMA.accompaniment,
+      smoothness,
+      numAccompanimentVoices,
+    ),
+  });
+  const candidates: Array<() => PreviousNotes> = [
+    () => voice(chord.fullPool),
+  ];
+  for (let i = 0; i < numAccompanimentVoices; i++) {
+    candidates.push(() => {
+      const excluded = voice(chord.fullPool).accompaniment[i];
+      return voice(chord.fullPool.filter((n) => n !== excluded));
+    });
+  }
+  return createCandidateSource(candidates);
+}
+
+function createEventNotes(
+  currentNotes: PreviousNotes,
+  generationSettings: GenerationSettings,
   timingInfo: TimingInfo,
   eventDurationTicks: number,
-  melodicState?: MelodicStateInternal,
-): { currentNotes: PreviousNotes; eventNotes: MusicalEvent[] } {
-  const {
-    melodicSmoothness,
-    generationStyle,
-    numAccompanimentVoices = 3,
-  } = generationSettings;
+): MusicalEvent[] {
   const { divisions, beatDurationTicks } = timingInfo;
-  const chordRootMidi = baseChordNotes[0];
-  const chordPcs = baseChordNotes.map((n) => n % 12);
-  const fullPool = getExtendedChordNotePool(baseChordNotes);
-  let currentNotes: PreviousNotes;
   const eventNotes: MusicalEvent[] = [];
   const eventNoteType = getNoteTypeFromDuration(eventDurationTicks, divisions);
-  if (generationStyle === 'SATB') {
-    const prevSATB = previousNotes as PreviousNotesSATB;
-    const bass = assignBassNoteSATB(
-      requiredBassPc,
-      chordRootMidi,
-      fullPool,
-      prevSATB.bass,
-      melodicSmoothness,
-    );
-    const soprano = assignSopranoOrMelodyNote(
-      fullPool,
-      prevSATB.soprano,
-      melodicSmoothness,
-      'SATB',
-      keyDetails.tonic,
-      melodicState as any,
-    );
-    const { tenorNoteMidi: tenor, altoNoteMidi: alto } = assignInnerVoicesSATB(
-      chordPcs,
-      fullPool,
-      prevSATB.tenor,
-      prevSATB.alto,
-      soprano,
-      bass,
-      melodicSmoothness,
-      keyDetails,
-    );
-    currentNotes = { soprano, alto, tenor, bass };
+  if (generationSettings.generationStyle === 'SATB') {
+    const { soprano, alto, tenor, bass } = currentNotes as PreviousNotesSATB;
     const staff1 = [soprano, alto].filter((n) => n !== null) as number[];
     const staff2 = [tenor, bass].filter((n) => n !== null) as number[];
     const stem1: 'up' | 'down' =
@@ -291,34 +542,8 @@ function generateNotesForEvent(
         ),
       );
   } else {
-    // Defensive: if previousNotes is not in expected shape (possible legacy caller), repair it.
-    let prevMA: PreviousNotesMelodyAccompaniment;
-    if (isPrevNotesMelodyAccompaniment(previousNotes)) {
-      prevMA = previousNotes;
-      if (!Array.isArray(prevMA.accompaniment)) {
-        prevMA.accompaniment = Array(numAccompanimentVoices).fill(null);
-      } else if (prevMA.accompaniment.length !== numAccompanimentVoices) {
-        // Resize preserving existing values
-        const resized = Array(numAccompanimentVoices).fill(null) as (number | null)[];
-        for (let i = 0; i < Math.min(prevMA.accompaniment.length, numAccompanimentVoices); i++) {
-          resized[i] = prevMA.accompaniment[i];
-        }
-        prevMA.accompaniment = resized;
-      }
-    } else {
-      prevMA = {
-        melody: null,
-        accompaniment: Array(numAccompanimentVoices).fill(null),
-      };
-    }
-    const melody = assignSopranoOrMelodyNote(
-      fullPool,
-      prevMA.melody,
-      melodicSmoothness,
-      'MelodyAccompaniment',
-      keyDetails.tonic,
-      melodicState as any,
-    );
+    const { melody, accompaniment: accompanimentVoicing } =
+      currentNotes as PreviousNotesMelodyAccompaniment;
     const melodyStem: 'up' | 'down' =
       melody !== null && melody >= 71 ? 'down' : 'up';
     if (melody !== null)
@@ -332,20 +557,14 @@ function generateNotesForEvent(
           eventNoteType,
         ),
       );
-    const accompanimentVoicing = generateAccompanimentVoicing(
-      melody,
-      chordRootMidi,
-      chordPcs,
-      fullPool,
-      prevMA.accompaniment,
-      melodicSmoothness,
-      numAccompanimentVoices,
-    );
     const validAccomp = accompanimentVoicing
       .filter((n): n is number => n !== null)
       .sort((a, b) => a - b);
+    // Arpeggiated only if every note gets a tick, so the staff never outlasts the event
     const shouldArp =
-      eventDurationTicks < beatDurationTicks && validAccomp.length > 1;
+      eventDurationTicks < beatDurationTicks &&
+      validAccomp.length > 1 &&
+      eventDurationTicks >= validAccomp.length;
     let accompStem: 'up' | 'down' = 'down';
     if (validAccomp.length && validAccomp[validAccomp.length - 1] <= 55)
       accompStem = 'up';
@@ -382,36 +601,476 @@ function generateNotesForEvent(
         ),
       );
     }
-    currentNotes = { melody, accompaniment: accompanimentVoicing };
   }
-  return { currentNotes, eventNotes };
+  return eventNotes;
 }
 
-function processMeasure(
+/** A chord of the progression placed on the timeline of the piece. */
+interface TimelineChordInternal {
+  roman: string;
+  /** Index of the entry in the progression, or `null` for a tonic filling the measures left over. */
+  progressionIndex: number | null;
+  /** The key the chord is analysed in (see `getRomanNumeralKey`). */
+  key: string;
+  /** Start of the chord in ticks from the beginning of the piece. */
+  startTick: number;
+  durationTicks: number;
+  /** `null` if the Roman numeral could not be parsed (its span is filled with rests). */
+  chord: MeasureChordInternal | null;
+}
+
+/** The part of a timeline chord that falls within one measure. */
+interface MeasureSegmentInternal {
+  /** Index of the chord in the timeline. */
+  chordIndex: number;
+  chord: MeasureChordInternal | null;
+  /** Start of the segment in ticks from the beginning of the measure. */
+  startTick: number;
+  durationTicks: number;
+  /** `true` if the chord began in an earlier measure. */
+  continued: boolean;
+}
+
+/** Chord and event layout of a measure, decided before any notes are voiced. */
+interface MeasurePlanInternal {
+  segments: MeasureSegmentInternal[];
+  /** Empty if none of the measure's chords could be parsed (the measure is filled with rests). */
+  eventTimes: { tick: number; duration: number; segment: number }[];
+}
+
+function parseChord(
   romanWithInv: string,
+  key: string,
+  keyDetails: KeyDetails,
+): MeasureChordInternal | null {
+  let chordInfoResult;
+  try {
+    chordInfoResult = getChordInfoFromRoman(romanWithInv, key);
+  } catch {
+    chordInfoResult = null;
+  }
+  if (!chordInfoResult) return null;
+  const { notes: baseChordNotes, requiredBassPc, doublingPcs } = chordInfoResult;
+  return {
+    chordRootMidi: baseChordNotes[0],
+    chordPcs: baseChordNotes.map((n) => n % 12),
+    hasSeventh:
+      hasSeventhFigure(romanWithInv) && !isAugmentedSixth(romanWithInv),
+    leadingTonePc: getDominantLeadingTonePc(
+      romanWithInv,
+      baseChordNotes[0] % 12,
+    ),
+    fullPool: getExtendedChordNotePool(baseChordNotes),
+    requiredBassPc,
+    doublingPcs,
+    keyDetails,
+  };
+}
+
+/**
+ * Places the chords of a progression one after another on the timeline of the piece.
+ * A plain Roman numeral lasts one measure and a `TimedChord` its `durationBeats`, counted in the
+ * meter of each measure it sounds in; chords beyond the last measure are dropped, and measures
+ * left without a chord get the tonic ("I", or "i" in a minor key, since "I" is a Picardy third there).
+ */
+function layOutProgression(
+  chordProgression: ChordProgressionEntry[],
   keySignature: string,
-  measurePreviousNotes: PreviousNotes,
+  keyDetails: KeyDetails,
+  measureTimings: MeasureTimingInternal[],
+): TimelineChordInternal[] {
+  const lastTiming = measureTimings[measureTimings.length - 1];
+  const totalTicks = lastTiming
+    ? lastTiming.startTick + lastTiming.measureDurationTicks
+    : 0;
+  /** Ticks from `tick` to the end of the measure it lies in. */
+  const getTicksToBarline = (tick: number) => {
+    const { startTick, measureDurationTicks } =
+      measureTimings[getMeasureIndexAt(measureTimings, tick)];
+    return startTick + measureDurationTicks - tick;
+  };
+  /** Ticks taken by `beats` beats from `tick`, each in the meter of the measure it falls in. */
+  const getBeatsDurationTicks = (beats: number) => {
+    let ticks = 0;
+    let remainingBeats = beats;
+    while (tick + ticks < totalTicks) {
+      const { beatDurationTicks } =
+        measureTimings[getMeasureIndexAt(measureTimings, tick + ticks)];
+      const measureBeats = getTicksToBarline(tick + ticks) / beatDurationTicks;
+      if (remainingBeats <= measureBeats)
+        return ticks + Math.round(remainingBeats * beatDurationTicks);
+      ticks += getTicksToBarline(tick + ticks);
+      remainingBeats -= measureBeats;
+    }
+    return ticks;
+  };
+  const timeline: TimelineChordInternal[] = [];
+  let tick = 0;
+  const place = (
+    roman: string,
+    durationTicks: number,
+    progressionIndex: number | null,
+  ) => {
+    const key = getRomanNumeralKey(roman, keySignature);
+    let chordKeyDetails: KeyDetails | null = keyDetails;
+    try {
+      if (key !== keySignature) chordKeyDetails = getKeyDetails(key);
+    } catch {
+      chordKeyDetails = null;
+    }
+    timeline.push({
+      roman,
+      progressionIndex,
+      key,
+      startTick: tick,
+      durationTicks: Math.min(durationTicks, totalTicks - tick),
+      chord: chordKeyDetails ? parseChord(roman, keySignature, chordKeyDetails) : null,
+    });
+    tick += durationTicks;
+  };
+  for (let i = 0; i < chordProgression.length && tick < totalTicks; i++) {
+    const entry = chordProgression[i];
+    const durationTicks =
+      typeof entry === 'string'
+        ? measureTimings[getMeasureIndexAt(measureTimings, tick)]
+            .measureDurationTicks
+        : getBeatsDurationTicks(entry.durationBeats);
+    if (durationTicks <= 0) {
+      console.warn(
+        `[WARN] Skipping chord ${i + 1} of the progression: its duration is not positive.`,
+      );
+      continue;
+    }
+    place(typeof entry === 'string' ? entry : entry.roman, durationTicks, i);
+  }
+  const tonicRoman = keyDetails.type === 'minor' ? 'i' : 'I';
+  while (tick < totalTicks) place(tonicRoman, getTicksToBarline(tick), null);
+  return timeline;
+}
+
+/** The parts of the timeline chords that fall within a measure. */
+function getMeasureSegments(
+  timeline: TimelineChordInternal[],
+  measureIndex: number,
+  measureTimings: MeasureTimingInternal[],
+): MeasureSegmentInternal[] {
+  const { startTick: measureStart, measureDurationTicks } =
+    measureTimings[measureIndex];
+  const measureEnd = measureStart + measureDurationTicks;
+  const segments: MeasureSegmentInternal[] = [];
+  timeline.forEach((timelineChord, chordIndex) => {
+    const start = Math.max(timelineChord.startTick, measureStart);
+    const end = Math.min(
+      timelineChord.startTick + timelineChord.durationTicks,
+      measureEnd,
+    );
+    if (end > start)
+      segments.push({
+        chordIndex,
+        chord: timelineChord.chord,
+        startTick: start - measureStart,
+        durationTicks: end - start,
+        continued: timelineChord.startTick < measureStart,
+      });
+  });
+  return segments;
+}
+
+/**
+ * Finds the earlier measure each measure restates (see `GenerationSettings.measureRepeats`).
+ * A repeat only applies if both measures have the same chords at the same times.
+ */
+function getRepeatSources(
+  timeline: TimelineChordInternal[],
+  measureRepeats: GenerationSettings['measureRepeats'],
+  measureTimings: MeasureTimingInternal[],
+): Map<number, number> {
+  const numMeasures = measureTimings.length;
+  const sources = new Map<number, number>();
+  const describe = (measureIndex: number) =>
+    JSON.stringify(
+      getMeasureSegments(timeline, measureIndex, measureTimings).map(
+        ({ chordIndex, startTick, durationTicks, continued }) => [
+          timeline[chordIndex].roman,
+          timeline[chordIndex].key,
+          startTick,
+          durationTicks,
+          continued,
+        ],
+      ),
+    );
+  (measureRepeats ?? []).forEach(({ measure, sourceMeasure }) => {
+    if (
+      sourceMeasure < 0 ||
+      sourceMeasure >= measure ||
+      measure >= numMeasures
+    )
+      return;
+    if (
+      measureTimings[measure].meter === measureTimings[sourceMeasure].meter &&
+      describe(measure) === describe(sourceMeasure)
+    )
+      sources.set(measure, sourceMeasure);
+    else
+      console.warn(
+        `[WARN] Measure ${measure + 1} does not have the chords of measure ${sourceMeasure + 1}; generating it anew.`,
+      );
+  });
+  return sources;
+}
+
+/** A measure kept from an earlier result (see `GenerationSettings.lockedMeasures`). */
+interface LockedMeasureInternal {
+  eventTimes: MeasurePlanInternal['eventTimes'];
+  /** The voicing of each voiced event, by index in `eventTimes`. */
+  eventVoicings: PreviousNotes[];
+}
+
+/**
+ * Reads the voicings of a generated measure back from its events. An event starts wherever the
+ * upper staff does; its notes are assigned from the highest down (soprano and alto, tenor and
+ * bass) or to the melody and the accompaniment, whose arpeggiated notes are gathered up to the
+ * next event. Events that are rests in both staves get `null`.
+ */
+function readMeasureVoicings(
+  events: MusicalEvent[],
+  generationStyle: GenerationSettings['generationStyle'],
+  numAccompanimentVoices: number = 3,
+): { tick: number; duration: number; voicing: PreviousNotes | null }[] {
+  const onsets: Record<string, { tick: number; midis: number[] }[]> = {
+    '1': [],
+    '2': [],
+  };
+  const staffTicks: Record<string, number> = { '1': 0, '2': 0 };
+  events.forEach((event) => {
+    const staffOnsets = onsets[event.staffNumber];
+    if (!staffOnsets) return;
+    if (!event.isChordElement || staffOnsets.length === 0) {
+      staffOnsets.push({ tick: staffTicks[event.staffNumber], midis: [] });
+      staffTicks[event.staffNumber] += event.durationTicks;
+    }
+    if (event.type === 'note' && typeof event.midi === 'number')
+      staffOnsets[staffOnsets.length - 1].midis.push(event.midi);
+  });
+  return onsets['1'].map((onset, i) => {
+    const end = i + 1 < onsets['1'].length ? onsets['1'][i + 1].tick : staffTicks['1'];
+    const upper = onset.midis.slice().sort((a, b) => b - a);
+    const lower = onsets['2']
+      .filter((o) => o.tick >= onset.tick && o.tick < end)
+      .reduce<number[]>((midis, o) => midis.concat(o.midis), [])
+      .sort((a, b) => b - a);
+    let voicing: PreviousNotes | null = null;
+    if (upper.length + lower.length > 0 && generationStyle === 'SATB')
+      voicing = {
+        soprano: upper[0] ?? null,
+        alto: upper[1] ?? null,
+        tenor: lower[0] ?? null,
+        bass: lower[1] ?? null,
+      };
+    else if (upper.length + lower.length > 0) {
+      const accompaniment = lower.reverse();
+      voicing = {
+        melody: upper[0] ?? null,
+        accompaniment: Array.from(
+          { length: numAccompanimentVoices },
+          (_, v) => accompaniment[v] ?? null,
+        ),
+      };
+    }
+    return { tick: onset.tick, duration: end - onset.tick, voicing };
+  });
+}
+
+/**
+ * Reads back the measures kept from an earlier result (see `GenerationSettings.lockedMeasures`).
+ * A locked measure only applies if it still has the same chords at the same times.
+ */
+function getLockedMeasures(
+  timeline: TimelineChordInternal[],
+  generationSettings: GenerationSettings,
+  measureTimings: MeasureTimingInternal[],
+): Map<number, LockedMeasureInternal> {
+  const locked = new Map<number, LockedMeasureInternal>();
+  (generationSettings.lockedMeasures ?? []).forEach((measure) => {
+    const measureIndex = measure.measureNumber - 1;
+    if (measureIndex < 0 || measureIndex >= measureTimings.length) return;
+    const segments = getMeasureSegments(timeline, measureIndex, measureTimings);
+    const chords = measure.chords ?? [
+      {
+        romanNumeral: measure.romanNumeral,
+        startTick: 0,
+        durationTicks: measureTimings[measureIndex].measureDurationTicks,
+        continued: false,
+      },
+    ];
+    const expected = segments.map((segment) => [
+      timeline[segment.chordIndex].roman,
+      segment.startTick,
+      segment.durationTicks,
+      segment.continued,
+    ]);
+    const actual = chords.map((chord) => [
+      chord.romanNumeral,
+      chord.startTick,
+      chord.durationTicks,
+      chord.continued,
+    ]);
+    if (
+      JSON.stringify(expected) !== JSON.stringify(actual) ||
+      (measure.meter !== undefined &&
+        measure.meter !== measureTimings[measureIndex].meter)
+    ) {
+      console.warn(
+        `[WARN] Measure ${measure.measureNumber} no longer has the chords it was locked with; generating it anew.`,
+      );
+      return;
+    }
+    // Events under a chord are voiced; rests only stand for chords that could not be parsed
+    const eventTimes: LockedMeasureInternal['eventTimes'] = [];
+    const eventVoicings: PreviousNotes[] = [];
+    readMeasureVoicings(
+      measure.events,
+      generationSettings.generationStyle,
+      generationSettings.numAccompanimentVoices,
+    ).forEach(({ tick, duration, voicing }) => {
+      const segment = segments.findIndex(
+        (s) => tick >= s.startTick && tick < s.startTick + s.durationTicks,
+      );
+      if (segment < 0 || (!voicing && segments[segment].chord)) return;
+      if (voicing) eventVoicings[eventTimes.length] = voicing;
+      eventTimes.push({ tick, duration, segment });
+    });
+    locked.set(measureIndex, { eventTimes, eventVoicings });
+  });
+  return locked;
+}
+
+function planMeasure(
+  timeline: TimelineChordInternal[],
+  measureIndex: number,
   generationSettings: GenerationSettings,
+  measureTimings: MeasureTimingInternal[],
+  rng: RandomSource,
+): MeasurePlanInternal {
+  const timingInfo = measureTimings[measureIndex];
+  const { measureDurationTicks } = timingInfo;
+  const segments = getMeasureSegments(timeline, measureIndex, measureTimings);
+  if (segments.every((segment) => !segment.chord))
+    return { segments, eventTimes: [] };
+  const rhythmFactors = generateBeatFactorPattern(
+    timingInfo,
+    generationSettings.rhythmicComplexity,
+    rng,
+  );
+  const eventTimes: { tick: number; duration: number; segment: number }[] = [];
+  let tick = 0;
+  for (let eventIndex = 0; eventIndex < rhythmFactors.length; eventIndex++) {
+    if (tick >= measureDurationTicks) break;
+    const factor = rhythmFactors[eventIndex];
+    let duration = Math.round(timingInfo.beatDurationTicks * factor);
+    if (tick + duration > measureDurationTicks)
+      duration = measureDurationTicks - tick;
+    if (duration <= 0) continue;
+    // An event that outlasts its chord is split where the next chord begins
+    const end = tick + duration;
+    while (tick < end) {
+      const segment = segments.findIndex(
+        (s) => tick >= s.startTick && tick < s.startTick + s.durationTicks,
+      );
+      const { startTick, durationTicks } = segments[segment];
+      const splitEnd = Math.min(end, startTick + durationTicks);
+      eventTimes.push({ tick, duration: splitEnd - tick, segment });
+      tick = splitEnd;
+    }
+  }
+  return { segments, eventTimes };
+}
+
+/**
+ * Voices the chords of the whole piece at once with the Viterbi voicer. Each chord gets
+ * one voicing, repeated for all of its events (also across barlines). Returns the voicings
+ * of each measure's events (empty for measures of rests).
+ */
+function voicePlansWithViterbi(
+  timeline: TimelineChordInternal[],
+  plans: MeasurePlanInternal[],
   keyDetails: KeyDetails,
+  lockedMeasures: Map<number, LockedMeasureInternal>,
+): PreviousNotesSATB[][] {
+  // A chord sounding in a locked measure keeps the voicing it has there first
+  const fixedVoicings = new Map<number, SATBVoicing>();
+  lockedMeasures.forEach(({ eventVoicings }, measureIndex) => {
+    plans[measureIndex].eventTimes.forEach((event, eventIndex) => {
+      const { chordIndex } = plans[measureIndex].segments[event.segment];
+      const voicing = eventVoicings[eventIndex] as PreviousNotesSATB | undefined;
+      if (
+        voicing &&
+        !fixedVoicings.has(chordIndex) &&
+        Object.values(voicing).every((midi) => midi !== null)
+      )
+        fixedVoicings.set(chordIndex, voicing as SATBVoicing);
+    });
+  });
+  const voicingsPerChord: PreviousNotesSATB[] = timeline.map(() => ({
+    soprano: null,
+    alto: null,
+    tenor: null,
+    bass: null,
+  }));
+  // Chords that cannot be parsed break the line, so each run between them is voiced separately
+  let run: number[] = [];
+  const voiceRun = () => {
+    const voicings = findOptimalSATBVoicings(
+      run.map((c) => ({
+        ...timeline[c].chord!,
+        leadingTonePc: getLeadingTonePc(timeline[c].chord!.keyDetails),
+        sopranoPcs: timeline[c].chord!.arrivalSopranoPcs,
+        voicing: fixedVoicings.get(c),
+      })),
+      keyDetails,
+    );
+    run.forEach((c, index) => {
+      voicingsPerChord[c] = voicings[index];
+    });
+    run = [];
+  };
+  timeline.forEach((timelineChord, c) => {
+    if (timelineChord.chord) run.push(c);
+    else voiceRun();
+  });
+  voiceRun();
+  return plans.map((plan) =>
+    plan.eventTimes.map(
+      (event) => voicingsPerChord[plan.segments[event.segment].chordIndex],
+    ),
+  );
+}
+
+function processMeasure(
+  plan: MeasurePlanInternal,
+  measurePreviousNotes: PreviousNotes,
+  previousTail: MeasureTailInternal,
+  generationSettings: GenerationSettings,
   timingInfo: TimingInfo,
   melodicState: MelodicStateInternal,
   measureIndex: number,
+  rng: RandomSource,
+  plannedVoicings?: PreviousNotes[],
+  nextLockedEvent?: { voicing: PreviousNotes; chord: MeasureChordInternal; beat: number },
 ): ProcessMeasureResultInternal {
   const {
     generationStyle,
-    numAccompanimentVoices,
-    rhythmicComplexity,
+    numAccompanimentVoices = 3,
     dissonanceStrictness,
+    melodicSmoothness,
+    voiceLeadingSearchBudget = DEFAULT_VOICE_LEADING_SEARCH_BUDGET,
+    voiceLeadingRules,
   } = generationSettings;
   const currentEvents: MusicalEvent[] = [];
+  const violations: VoiceLeadingViolation[] = [];
   let eventPrev = { ...measurePreviousNotes } as PreviousNotes;
-  let chordInfoResult;
-  try {
-    chordInfoResult = getChordInfoFromRoman(romanWithInv, keySignature);
-  } catch {
-    chordInfoResult = null;
-  }
-  if (!chordInfoResult) {
+  const { segments, eventTimes } = plan;
+  if (eventTimes.length === 0) {
     const restType = getNoteTypeFromDuration(
       timingInfo.measureDurationTicks,
       timingInfo.divisions,
@@ -436,40 +1095,212 @@ function processMeasure(
         generationStyle,
         numAccompanimentVoices,
       ),
+      violations,
+      resolved: true,
+      tail: {
+        notesBeforeEnd: null,
+        chordPcs: null,
+        chordHasSeventh: false,
+        chordLeadingTonePc: null,
+      },
+      arrivals: [],
+      eventVoicings: [],
     };
   }
-  const { notes: baseChordNotes, requiredBassPc } = chordInfoResult;
-  const rhythmFactors = generateBeatFactorPattern(timingInfo, rhythmicComplexity);
-  let tick = 0;
-  for (let eventIndex = 0; eventIndex < rhythmFactors.length; eventIndex++) {
-    if (tick >= timingInfo.measureDurationTicks) break;
-    const factor = rhythmFactors[eventIndex];
-    let duration = Math.round(timingInfo.beatDurationTicks * factor);
-    if (tick + duration > timingInfo.measureDurationTicks)
-      duration = timingInfo.measureDurationTicks - tick;
-    if (duration <= 0) continue;
-    const result = generateNotesForEvent(
-      baseChordNotes,
-      requiredBassPc,
-      eventPrev,
-      generationSettings,
-      keyDetails,
-      timingInfo,
-      duration,
-      melodicState,
-    );
-    currentEvents.push(...result.eventNotes);
-    checkVoiceLeadingRules(
-      result.currentNotes,
+  const lastEvent = eventTimes[eventTimes.length - 1];
+  const tick = lastEvent ? lastEvent.tick + lastEvent.duration : 0;
+  // Events under a chord that could not be parsed become rests; the others are voiced in order
+  const voicedEvents: {
+    tick: number;
+    eventIndex: number;
+    chord: MeasureChordInternal;
+    /** `true` for the event where the chord arrives. */
+    arrival: boolean;
+  }[] = [];
+  eventTimes.forEach((event, eventIndex) => {
+    const { chord, startTick, continued } = segments[event.segment];
+    if (chord)
+      voicedEvents.push({
+        tick: event.tick,
+        eventIndex,
+        chord,
+        arrival: !continued && event.tick === startTick,
+      });
+  });
+
+  // The melody only depends on its own previous note, so it is chosen up front
+  // and stays fixed while the accompaniment is voiced around it.
+  const melodies: (number | null)[] = [];
+  if (generationStyle !== 'SATB' && !plannedVoicings) {
+    let previousMelody = toPrevNotesMelodyAccompaniment(
       eventPrev,
+      numAccompanimentVoices,
+    ).melody;
+    voicedEvents.forEach(({ chord }) => {
+      previousMelody = assignSopranoOrMelodyNote(
+        chord.fullPool,
+        previousMelody,
+        melodicSmoothness,
+        'MelodyAccompaniment',
+        chord.keyDetails.tonic,
+        melodicState,
+        rng,
+      );
+      melodies.push(previousMelody);
+    });
+  }
+  const getCandidates = (voicedIndex: number, previous: PreviousNotes) => {
+    const { chord, arrival } = voicedEvents[voicedIndex];
+    return generationStyle === 'SATB'
+      ? createSATBCandidateSource(
+          chord,
+          previous as PreviousNotesSATB,
+          melodicSmoothness,
+          chord.keyDetails,
+          arrival ? chord.arrivalSopranoPcs : undefined,
+        )
+      : createMelodyAccompanimentCandidateSource(
+          chord,
+          melodies[voicedIndex],
+          toPrevNotesMelodyAccompaniment(previous, numAccompanimentVoices),
+          melodicSmoothness,
+          numAccompanimentVoices,
+          arrival ? chord.arrivalSopranoPcs : undefined,
+        );
+  };
+  const checkEvent = (
+    voicedIndex: number,
+    current: PreviousNotes,
+    previous: PreviousNotes,
+    beforePrevious: PreviousNotes | null,
+  ) => {
+    const { chord, tick: eventTick } = voicedEvents[voicedIndex];
+    return checkVoiceLeadingRules(
+      current,
+      previous,
       generationStyle,
       measureIndex,
-      eventIndex,
+      eventTick / timingInfo.beatDurationTicks + 1,
       dissonanceStrictness,
+      {
+        keyDetails: chord.keyDetails,
+        chordPcs: chord.chordPcs,
+        previousChordPcs:
+          voicedIndex === 0
+            ? previousTail.chordPcs
+            : voicedEvents[voicedIndex - 1].chord.chordPcs,
+        previousChordHasSeventh:
+          voicedIndex === 0
+            ? previousTail.chordHasSeventh
+            : voicedEvents[voicedIndex - 1].chord.hasSeventh,
+        previousChordLeadingTonePc:
+          voicedIndex === 0
+            ? previousTail.chordLeadingTonePc
+            : voicedEvents[voicedIndex - 1].chord.leadingTonePc,
+        notesBeforePrevious: beforePrevious,
+        enabledRules: voiceLeadingRules,
+      },
     );
-    eventPrev = result.currentNotes;
-    tick += duration;
+  };
+
+  let voicings: PreviousNotes[] = [];
+  let resolved = true;
+  if (plannedVoicings) {
+    voicings = voicedEvents.map(({ eventIndex }) => plannedVoicings[eventIndex]);
+  } else if (shouldEnforceVoiceLeading(generationSettings)) {
+    // The last event must also lead into the first event of a locked measure that follows
+    const checkEventAndLockedNext = (
+      voicedIndex: number,
+      current: PreviousNotes,
+      previous: PreviousNotes,
+      beforePrevious: PreviousNotes | null,
+    ) => {
+      const found = checkEvent(voicedIndex, current, previous, beforePrevious);
+      if (!nextLockedEvent || voicedIndex !== voicedEvents.length - 1)
+        return found;
+      const { voicing, chord, beat: nextBeat } = nextLockedEvent;
+      return found.concat(
+        checkVoiceLeadingRules(
+          voicing,
+          current,
+          generationStyle,
+          measureIndex + 1,
+          nextBeat,
+          dissonanceStrictness,
+          {
+            keyDetails: chord.keyDetails,
+            chordPcs: chord.chordPcs,
+            previousChordPcs: voicedEvents[voicedIndex].chord.chordPcs,
+            previousChordHasSeventh: voicedEvents[voicedIndex].chord.hasSeventh,
+            previousChordLeadingTonePc:
+              voicedEvents[voicedIndex].chord.leadingTonePc,
+            notesBeforePrevious: previous,
+            enabledRules: voiceLeadingRules,
+          },
+        ),
+      );
+    };
+    const search = searchCompliantVoicings(
+      voicedEvents.length,
+      eventPrev,
+      getCandidates,
+      checkEventAndLockedNext,
+      voiceLeadingSearchBudget,
+      previousTail.notesBeforeEnd,
+    );
+    voicings = search.voicings;
+    resolved = search.compliant;
+    if (!resolved)
+      console.warn(
+        `[WARN] Measure ${measureIndex + 1}: no voicing satisfies the active voice-leading rules within ${voiceLeadingSearchBudget} candidates.`,
+      );
+  } else {
+    let previous = eventPrev;
+    voicedEvents.forEach((_, voicedIndex) => {
+      previous = getCandidates(voicedIndex, previous)()!;
+      voicings.push(previous);
+    });
   }
+
+  let eventBeforePrev = previousTail.notesBeforeEnd;
+  let voicedIndex = 0;
+  const arrivals: { chordIndex: number; topNote: number | null }[] = [];
+  const eventVoicings: PreviousNotes[] = [];
+  eventTimes.forEach((event, eventIndex) => {
+    if (voicedEvents[voicedIndex]?.eventIndex !== eventIndex) {
+      const restType = getNoteTypeFromDuration(
+        event.duration,
+        timingInfo.divisions,
+      );
+      currentEvents.push(
+        ...generateRestEventsForDuration(event.duration, restType, '1', '1'),
+        ...generateRestEventsForDuration(event.duration, restType, '2', '2'),
+      );
+      return;
+    }
+    const voicing = voicings[voicedIndex];
+    eventVoicings[eventIndex] = voicing;
+    if (voicedEvents[voicedIndex].arrival)
+      arrivals.push({
+        chordIndex: segments[event.segment].chordIndex,
+        topNote:
+          'soprano' in voicing ? voicing.soprano : (voicing.melody ?? null),
+      });
+    currentEvents.push(
+      ...createEventNotes(
+        voicing,
+        generationSettings,
+        timingInfo,
+        event.duration,
+      ),
+    );
+    violations.push(
+      ...checkEvent(voicedIndex, voicing, eventPrev, eventBeforePrev),
+    );
+    eventBeforePrev = eventPrev;
+    eventPrev = voicing;
+    voicedIndex++;
+  });
   if (tick < timingInfo.measureDurationTicks) {
     const remaining = timingInfo.measureDurationTicks - tick;
     if (remaining > 0) {
@@ -480,68 +1311,238 @@ function processMeasure(
       );
     }
   }
-  return { measureEvents: currentEvents, notesAtEndOfMeasure: eventPrev };
+  const lastVoiced = voicedEvents[voicedEvents.length - 1];
+  return {
+    measureEvents: currentEvents,
+    notesAtEndOfMeasure: eventPrev,
+    violations,
+    resolved,
+    tail: {
+      notesBeforeEnd: eventBeforePrev,
+      chordPcs: lastVoiced ? lastVoiced.chord.chordPcs : previousTail.chordPcs,
+      chordHasSeventh: lastVoiced
+        ? lastVoiced.chord.hasSeventh
+        : previousTail.chordHasSeventh,
+      chordLeadingTonePc: lastVoiced
+        ? lastVoiced.chord.leadingTonePc
+        : previousTail.chordLeadingTonePc,
+    },
+    arrivals,
+    eventVoicings,
+  };
 }
 
+/**
+ * Generates the notes of a piece from its chord progression.
+ *
+ * @param {ChordProgressionEntry[]} chordProgression - The chords in order: Roman numerals lasting
+ *        one measure each, or `TimedChord` entries that may change mid-measure or continue across
+ *        barlines (see `generateChordProgression` with `harmonicRhythm`).
+ * @param {string} keySignature - The key of the piece (e.g., "C", "Am").
+ * @param {string} meter - The meter (e.g., "4/4", "6/8", "3+2+2/8"), or one meter per measure
+ *        separated by spaces (e.g., "4/4 3/4 4/4 5/8"), the last continuing to the end.
+ * @param {number} numMeasures - Number of measures to generate.
+ * @param {GenerationSettings} generationSettings - Style, voicing and voice-leading settings.
+ * @returns {GeneratedPieceData} The measures with their events, metadata and voice-leading report.
+ * @throws {InvalidInputError} If the key or meter is invalid.
+ */
 export function generateMusicalData(
-  chordProgression: string[],
+  chordProgression: ChordProgressionEntry[],
   keySignature: string,
   meter: string,
   numMeasures: number,
   generationSettings: GenerationSettings,
 ): GeneratedPieceData {
   const { generationStyle, numAccompanimentVoices } = generationSettings;
-  const { keyDetails, timingInfo } = initializeGenerationParameters(
+  const { keyDetails, measureTimings } = initializeGenerationParameters(
     keySignature,
     meter,
+    numMeasures,
   );
+  const { seed, rng } = resolveRandomSource(generationSettings.seed);
   let prevForNext = initializePreviousNotes(
     generationStyle,
     numAccompanimentVoices,
   );
   const measures: MeasureData[] = [];
+  const violations: VoiceLeadingViolation[] = [];
+  const unresolvedMeasures: number[] = [];
+  let previousTail: MeasureTailInternal = {
+    notesBeforeEnd: null,
+    chordPcs: null,
+    chordHasSeventh: false,
+    chordLeadingTonePc: null,
+  };
   const melodicState: MelodicStateInternal = {
     lastDirection: 0,
     directionStreak: 0,
   };
+  const timeline = layOutProgression(
+    chordProgression,
+    keySignature,
+    keyDetails,
+    measureTimings,
+  );
+  // Requested cadences by timeline index; authentic ones steer the soprano of their final chord
+  const requestedCadences = new Map<number, CadenceType>();
+  resolveCadenceRequests(
+    generationSettings.cadences,
+    chordProgression.length,
+  ).forEach((type, progressionIndex) => {
+    const c = timeline.findIndex((t) => t.progressionIndex === progressionIndex);
+    if (c < 0) return;
+    requestedCadences.set(c, type);
+    const { chord, key } = timeline[c];
+    const sopranoPcs = chord && getCadenceSopranoPcs(type, chord.chordPcs, key);
+    if (chord && sopranoPcs) chord.arrivalSopranoPcs = sopranoPcs;
+  });
+  const arrivalTopNotes = new Map<number, number | null>();
+  // The Viterbi voicer needs every event of the piece before voicing any of them
+  const useViterbi =
+    generationStyle === 'SATB' && generationSettings.satbVoicer === 'viterbi';
+  // A measure restating an earlier one keeps its rhythm and, below, its voicings
+  const repeatSources = getRepeatSources(
+    timeline,
+    generationSettings.measureRepeats,
+    measureTimings,
+  );
+  // A locked measure keeps its rhythm and voicings from the result it was taken from
+  const lockedMeasures = getLockedMeasures(
+    timeline,
+    generationSettings,
+    measureTimings,
+  );
+  const plans: MeasurePlanInternal[] = [];
+  const planNextMeasure = () => {
+    const i = plans.length;
+    const locked = lockedMeasures.get(i);
+    const source = repeatSources.get(i);
+    if (locked === undefined && source === undefined) {
+      plans.push(planMeasure(timeline, i, generationSettings, measureTimings, rng));
+      return;
+    }
+    plans.push({
+      segments: getMeasureSegments(timeline, i, measureTimings),
+      eventTimes: locked ? locked.eventTimes : plans[source!].eventTimes,
+    });
+  };
+  if (useViterbi) for (let i = 0; i < numMeasures; i++) planNextMeasure();
+  const plannedVoicings = useViterbi
+    ? voicePlansWithViterbi(timeline, plans, keyDetails, lockedMeasures)
+    : null;
+  /** The first voiced event of a locked measure, which the measure before must lead into. */
+  const getNextLockedEvent = (measureIndex: number) => {
+    const locked = lockedMeasures.get(measureIndex);
+    const eventIndex = locked?.eventVoicings.findIndex((v) => v !== undefined);
+    if (!locked || eventIndex === undefined || eventIndex < 0) return undefined;
+    const event = locked.eventTimes[eventIndex];
+    const chord = getMeasureSegments(timeline, measureIndex, measureTimings)[event.segment].chord;
+    return chord
+      ? {
+          voicing: locked.eventVoicings[eventIndex],
+          chord,
+          // Beats of the locked measure's own meter
+          beat: event.tick / measureTimings[measureIndex].beatDurationTicks + 1,
+        }
+      : undefined;
+  };
+  const results: ProcessMeasureResultInternal[] = [];
   for (let i = 0; i < numMeasures; i++) {
-    const roman = chordProgression[i] ?? 'I';
+    if (!useViterbi) planNextMeasure();
+    const plan = plans[i];
+    const locked = lockedMeasures.get(i);
+    const source = repeatSources.get(i);
     const res = processMeasure(
-      roman,
-      keySignature,
+      plan,
       // Defensive: ensure previous notes object shape stays consistent for style
       generationStyle === 'MelodyAccompaniment' && !('melody' in (prevForNext as any))
         ? initializePreviousNotes('MelodyAccompaniment', numAccompanimentVoices)
         : generationStyle === 'SATB' && !('soprano' in (prevForNext as any))
         ? initializePreviousNotes('SATB')
         : prevForNext,
+      previousTail,
       generationSettings,
-      keyDetails,
-      timingInfo,
+      measureTimings[i],
       melodicState,
       i,
+      rng,
+      locked
+        ? locked.eventVoicings
+        : source === undefined
+          ? plannedVoicings?.[i]
+          : results[source].eventVoicings,
+      getNextLockedEvent(i + 1),
     );
+    results.push(res);
+    const firstChord = timeline[plan.segments[0].chordIndex];
     measures.push({
       measureNumber: i + 1,
-      romanNumeral: roman,
+      romanNumeral: firstChord.roman,
+      keySignature: firstChord.key,
+      meter: measureTimings[i].meter,
+      chords: plan.segments.map((segment) => ({
+        romanNumeral: timeline[segment.chordIndex].roman,
+        startTick: segment.startTick,
+        durationTicks: segment.durationTicks,
+        continued: segment.continued,
+      })),
       events: res.measureEvents,
     });
+    violations.push(...res.violations);
+    if (!res.resolved) unresolvedMeasures.push(i + 1);
+    res.arrivals.forEach(({ chordIndex, topNote }) =>
+      arrivalTopNotes.set(chordIndex, topNote),
+    );
     prevForNext = res.notesAtEndOfMeasure;
+    previousTail = res.tail;
   }
+  (generationSettings.phrases ?? []).forEach((phrase) => {
+    const first = measures[phrase.startMeasure];
+    const last = measures[phrase.startMeasure + phrase.numMeasures - 1];
+    if (first) first.phraseLabel = phrase.label;
+    if (last) last.phraseEnd = true;
+  });
+  // Label the requested cadences and the final one with the cadence they actually form
+  const cadenceEnds = Array.from(requestedCadences.keys());
+  if (!requestedCadences.has(timeline.length - 1))
+    cadenceEnds.push(timeline.length - 1);
+  cadenceEnds.forEach((c) => {
+    if (c < 1) return;
+    const { startTick } = timeline[c];
+    const measureIndex = getMeasureIndexAt(measureTimings, startTick);
+    const type = classifyCadence(
+      timeline[c - 1].roman,
+      timeline[c].roman,
+      keySignature,
+      arrivalTopNotes.get(c) ?? null,
+    );
+    const requested = requestedCadences.get(c);
+    if (requested && requested !== type)
+      console.warn(
+        `[WARN] Measure ${measureIndex + 1}: the requested ${requested} cadence came out as ${type ?? 'no cadence'}.`,
+      );
+    if (type)
+      measures[measureIndex].cadence = {
+        type,
+        tick: startTick - measureTimings[measureIndex].startTick,
+      };
+  });
   return {
     metadata: {
       title: `Generated Music (${generationStyle} Style)`,
       software: 'Music Generator',
-      encodingDate: new Date().toISOString().split('T')[0],
+      encodingDate: generationSettings.encodingDate,
       partName:
         generationStyle === 'SATB' ? 'Choral SATB' : 'Melody + Accompaniment',
       keySignature,
-      meter,
+      meter: measureTimings[0]?.meter ?? meter,
       numMeasures,
       generationStyle,
-      divisions: timingInfo.divisions,
+      divisions: measureTimings[0]?.divisions ?? 4,
+      seed,
     },
     measures,
+    voiceLeadingReport: createVoiceLeadingReport(violations, unresolvedMeasures),
   };
 }
 
@@ -569,5 +1570,6 @@ export function generateScoreFromString(
     style: opts.style,
     difficulty: opts.difficulty,
     overrides: opts.overrides,
+    seed: opts.seed,
   });
 }
@@ -17,12 +17,15 @@ export class InvalidRangeError extends Error {
 export interface ParsedMeter {
   beats: number;
   beatType: number;
+  /** The beats of each beat group of an additive meter (e.g., [3, 2, 2] for "3+2+2/8"). */
+  groups?: number[];
 }
 
 /**
- * Parses a meter string (e.g., "4/4", "3/4") into its constituent parts.
+ * Parses a meter string (e.g., "4/4", "3/4") into its constituent parts. The beats may be
+ * written as a sum of beat groups (e.g., "3+2+2/8"), in which case they are their total.
  * @param meterString The meter string to parse.
- * @returns An object containing the number of beats and the beat type.
+ * @returns An object containing the number of beats, the beat type and any additive groups.
  * @throws InvalidMeterError if the meter string is invalid.
  */
 export function parseMeter(meterString: string): ParsedMeter {
@@ -46,6 +49,13 @@ export function parseMeter(meterString: string): ParsedMeter {
   const beatsStr = parts[0].trim(); // Trim individual parts too
   const beatTypeStr = parts[1].trim();
 
+  // Additive beats ("3+2+2") are parsed group by group
+  if (beatsStr.includes('+')) {
+    const groups = beatsStr.split('+').map((group) => parseMeter(`${group}/${beatTypeStr}`).beats);
+    const beatType = parseMeter(`1/${beatTypeStr}`).beatType;
+    return { beats: groups.reduce((sum, group) => sum + group, 0), beatType, groups };
+  }
+
   // Check for non-integer strings like "3.0" before parsing to number
   if (beatsStr.includes('.') || beatsStr.includes(',')) {
     throw new InvalidMeterError('Beats and beat type must be integers.');
@@ -93,6 +103,31 @@ export function parseMeter(meterString: string): ParsedMeter {
   return { beats, beatType };
 }
 
+/**
+ * Reads the meter of each measure from a meter string holding one meter (e.g., "4/4") or a
+ * list of meters separated by spaces, commas or bar lines (e.g., "4/4 3/4 4/4 5/8"). The i-th
+ * meter applies to measure i + 1 and the last one continues to the end of the piece.
+ * @param meterString The meter or meter list.
+ * @param numMeasures The number of measures in the piece. If omitted, the meters are returned as listed.
+ * @returns The meter of each measure, written without spaces (e.g., "3+2+2/8").
+ * @throws InvalidMeterError if the string holds no meter or any meter is invalid.
+ */
+export function getMeasureMeters(meterString: string, numMeasures?: number): string[] {
+  if (meterString === null || meterString === undefined) {
+    throw new InvalidMeterError('Meter string cannot be null or undefined.');
+  }
+  const meters = meterString
+    .replace(/\s*([/+])\s*/g, '$1')
+    .split(/[\s,|]+/)
+    .filter((meter) => meter !== '');
+  if (meters.length === 0) {
+    throw new InvalidMeterError('Meter string cannot be empty.');
+  }
+  meters.forEach((meter) => parseMeter(meter));
+  if (numMeasures === undefined) return meters;
+  return Array.from({ length: numMeasures }, (_, i) => meters[Math.min(i, meters.length - 1)]);
+}
+
 
 /**
  * Checks if a given MIDI note number is within a specified range (inclusive).
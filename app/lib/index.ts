@@ -3,6 +3,19 @@
 
 export { generateScore, generateVoices, generateMusicalData, generateScoreFromString } from './generationEngine';
 export { mapDifficultyToSettings } from './difficulty';
-export { getChordInfoFromRoman, getExtendedChordNotePool, midiToNoteName } from './theory/harmony';
+export { getChordInfoFromRoman, getExtendedChordNotePool, getRomanNumeralKey, midiToNoteName } from './theory/harmony';
 export { generateBeatFactorPattern, generateNoteValueSequence, factorsToDurations } from './rhythm/index';
-export type { GenerationSettings, GeneratedPieceData, MusicalEvent, MeasureData } from './types';
+export { CADENCE_LABELS, classifyCadence, getCadenceChords } from './cadence';
+export { FORM_PHRASE_COUNTS, generateForm } from './form';
+export { createMarkovModel, getProgressionPreset, parseMarkovTable, PROGRESSION_PRESET_TABLES } from './markov';
+export { getHarmonicFunction, parseProgressionPattern, solveProgressionPattern } from './progressionPattern';
+export { createMusicXMLString } from './musicXmlWriter';
+export { getChordSymbol } from './musicxmlUtils';
+export { createMidiFile } from './midiWriter';
+export type { MidiExportOptions } from './midiWriter';
+export { checkVoiceLeadingRules, createVoiceLeadingReport } from './rules';
+export { searchCompliantVoicings } from './voiceLeadingSearch';
+export { enumerateSATBVoicings, findOptimalSATBVoicings } from './voicingSATBViterbi';
+export type { SATBVoicingCostWeights } from './voicingSATBViterbi';
+export { createSeededRandom, resolveRandomSource } from './random';
+export type { CadenceRequest, CadenceType, ChordSymbol, FormPlan, FormType, GenerationSettings, GeneratedPieceData, HarmonicFunction, MarkovTable, MusicalEvent, MeasureData, MeasureRepeat, ModulationTarget, MusicXMLOptions, Phrase, ProgressionModel, ProgressionPreset, ProgressionSlot, RandomSource, SATBVoicer, Tuplet, VoiceLeadingReport, VoiceLeadingViolation } from './types';
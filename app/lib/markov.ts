@@ -0,0 +1,125 @@
+// src/markov.ts
+import { InvalidInputError } from './errors';
+import bachChorale from './progressionModels/bach-chorale.json';
+import jazz from './progressionModels/jazz.json';
+import pop from './progressionModels/pop.json';
+import { MarkovTable, ProgressionModel, ProgressionPreset } from './types';
+
+/**
+ * Checks that parsed JSON is a valid `MarkovTable`.
+ *
+ * @param {unknown} json - A parsed transition table, or its JSON text.
+ * @returns {MarkovTable} The table.
+ * @throws {InvalidInputError} If the JSON cannot be parsed, the order is not 1 or 2, or a weight
+ *         is not a non-negative number.
+ */
+export function parseMarkovTable(json: unknown): MarkovTable {
+  let table = json;
+  if (typeof json === 'string') {
+    try {
+      table = JSON.parse(json);
+    } catch (e) {
+      throw new InvalidInputError(
+        `parseMarkovTable: Invalid JSON: ${(e as Error).message}`,
+      );
+    }
+  }
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  if (!isObject(table))
+    throw new InvalidInputError('parseMarkovTable: Expected an object.');
+  const { name, order, transitions } = table;
+  if (order !== 1 && order !== 2)
+    throw new InvalidInputError(
+      `parseMarkovTable: Order must be 1 or 2 (got ${String(order)}).`,
+    );
+  if (name !== undefined && typeof name !== 'string')
+    throw new InvalidInputError('parseMarkovTable: Name must be a string.');
+  if (!isObject(transitions))
+    throw new InvalidInputError(
+      'parseMarkovTable: Expected "transitions" to be an object.',
+    );
+  Object.keys(transitions).forEach((context) => {
+    const weights = transitions[context];
+    if (!isObject(weights))
+      throw new InvalidInputError(
+        `parseMarkovTable: Transitions from "${context}" must be an object.`,
+      );
+    Object.keys(weights).forEach((chord) => {
+      const weight = weights[chord];
+      if (typeof weight !== 'number' || !isFinite(weight) || weight < 0)
+        throw new InvalidInputError(
+          `parseMarkovTable: Weight of "${context}" -> "${chord}" must be a non-negative number.`,
+        );
+    });
+  });
+  return table as unknown as MarkovTable;
+}
+
+/**
+ * Creates a progression model from a Markov transition table. A second-order table looks up
+ * the last two chords first; then the last chord alone, and finally the chords with the same
+ * Roman numeral whatever their figures (e.g., the transitions from "I7" for a history ending on "I").
+ *
+ * @param {MarkovTable} table - The transition table (see `parseMarkovTable`).
+ * @returns {ProgressionModel} The model, for `ChordProgressionOptions.model`.
+ */
+export function createMarkovModel(table: MarkovTable): ProgressionModel {
+  const stripFigures = (roman: string) => roman.replace(/\d+$/, '');
+  const transitionsByNumeral: Record<string, Record<string, number>> = {};
+  Object.keys(table.transitions)
+    .filter((context) => !context.includes(' '))
+    .forEach((context) => {
+      const numeral = stripFigures(context);
+      const merged = (transitionsByNumeral[numeral] =
+        transitionsByNumeral[numeral] ?? {});
+      const weights = table.transitions[context];
+      Object.keys(weights).forEach((chord) => {
+        merged[chord] = (merged[chord] ?? 0) + weights[chord];
+      });
+    });
+  return {
+    getNextChordWeights(history) {
+      const n = history.length;
+      if (n === 0) return null;
+      const last = history[n - 1];
+      const secondOrder =
+        table.order === 2 && n >= 2
+          ? table.transitions[`${history[n - 2]} ${last}`]
+          : undefined;
+      return (
+        secondOrder ??
+        table.transitions[last] ??
+        transitionsByNumeral[stripFigures(last)] ??
+        null
+      );
+    },
+  };
+}
+
+/**
+ * Transition tables of the style presets, built from the corpora in scripts/progression-corpus
+ * by `npm run build:progression-models`.
+ */
+export const PROGRESSION_PRESET_TABLES: Record<ProgressionPreset, MarkovTable> =
+  {
+    bachChorale: parseMarkovTable(bachChorale),
+    pop: parseMarkovTable(pop),
+    jazz: parseMarkovTable(jazz),
+  };
+
+/**
+ * Returns the progression model of a style preset.
+ *
+ * @throws {InvalidInputError} If the preset is unknown.
+ */
+export function getProgressionPreset(
+  preset: ProgressionPreset,
+): ProgressionModel {
+  const table = PROGRESSION_PRESET_TABLES[preset];
+  if (!table)
+    throw new InvalidInputError(
+      `getProgressionPreset: Unknown preset "${preset}".`,
+    );
+  return createMarkovModel(table);
+}
@@ -0,0 +1,300 @@
+// app/lib/midiWriter.ts
+import * as Tonal from 'tonal';
+import { GeneratedPieceData, GenerationStyle } from './types';
+import { GenerationError } from './errors';
+import { getMeasureStartTicks, getTimedNotes } from './timeline';
+
+/** Ticks per quarter note written to the SMF header. */
+const MIDI_PPQ = 480;
+/** Default tempo (quarter notes per minute) when none is requested. */
+export const DEFAULT_MIDI_TEMPO_BPM = 100;
+/** Note-on velocity for every generated note. */
+const DEFAULT_VELOCITY = 80;
+/** General MIDI channel reserved for percussion; never used for pitched parts. */
+const PERCUSSION_CHANNEL = 9;
+
+/**
+ * General MIDI programs (0-based) used for each part when the caller does not override them.
+ * - SATB: Choir Aahs for both staves.
+ * - MelodyAccompaniment: Acoustic Grand Piano for both staves.
+ */
+const DEFAULT_PROGRAMS: Readonly<Record<GenerationStyle, number>> = {
+  SATB: 52,
+  MelodyAccompaniment: 0,
+};
+
+/**
+ * Options controlling MIDI export.
+ */
+export interface MidiExportOptions {
+  /** Tempo in quarter notes per minute. Defaults to {@link DEFAULT_MIDI_TEMPO_BPM}. */
+  tempoBpm?: number;
+  /**
+   * General MIDI program (0-127) per track key (`"<staff>-<voice>"`, e.g. `"1-1"`).
+   * Tracks without an entry use the style default.
+   */
+  programs?: Record<string, number>;
+}
+
+/** One timed MIDI message inside a track, before delta-time encoding. */
+interface TimedMidiMessage {
+  tick: number;
+  /** Sort priority at the same tick: lower runs first (meta < program < note-off < note-on). */
+  priority: number;
+  bytes: number[];
+}
+
+/**
+ * Encodes a non-negative integer as a MIDI variable-length quantity.
+ *
+ * @param {number} value - The value to encode (0 to 0x0FFFFFFF).
+ * @returns {number[]} The encoded bytes, most significant group first.
+ */
+function encodeVariableLength(value: number): number[] {
+  let buffer = value & 0x7f;
+  const bytes: number[] = [];
+  let remaining = value >>> 7;
+  while (remaining > 0) {
+    buffer <<= 8;
+    buffer |= (remaining & 0x7f) | 0x80;
+    remaining >>>= 7;
+  }
+  for (;;) {
+    bytes.push(buffer & 0xff);
+    if (buffer & 0x80) buffer >>>= 8;
+    else break;
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function uint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+function textMeta(type: number, text: string): number[] {
+  const encoded = Array.from(text, (ch) => ch.charCodeAt(0) & 0x7f);
+  return [0xff, type, ...encodeVariableLength(encoded.length), ...encoded];
+}
+
+/**
+ * Serializes timed messages into an `MTrk` chunk, appending the End of Track meta event.
+ */
+function buildTrackChunk(messages: TimedMidiMessage[]): number[] {
+  const sorted = [...messages].sort(
+    (a, b) => a.tick - b.tick || a.priority - b.priority,
+  );
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach((msg) => {
+    body.push(...encodeVariableLength(msg.tick - lastTick), ...msg.bytes);
+    lastTick = msg.tick;
+  });
+  body.push(0x00, 0xff, 0x2f, 0x00);
+  return [0x4d, 0x54, 0x72, 0x6b, ...uint32(body.length), ...body];
+}
+
+/**
+ * Returns the key signature as `{ fifths, isMinor }` for the MIDI key signature meta event.
+ */
+function getKeySignatureInfo(keySignature: string): {
+  fifths: number;
+  isMinor: boolean;
+} {
+  const major = Tonal.Key.majorKey(keySignature);
+  if (major && major.tonic) return { fifths: major.alteration, isMinor: false };
+  const minor = Tonal.Key.minorKey(keySignature);
+  if (minor && minor.tonic) return { fifths: minor.alteration, isMinor: true };
+  throw new GenerationError(
+    `createMidiFile: Invalid key signature in metadata: ${keySignature}`,
+  );
+}
+
+/**
+ * Human-readable track name for a staff/voice combination.
+ */
+export function getTrackName(
+  style: GenerationStyle,
+  staffNumber: string,
+  voiceNumber: string,
+): string {
+  if (style === 'SATB')
+    return staffNumber === '1' ? 'Soprano/Alto' : 'Tenor/Bass';
+  if (staffNumber === '1') return 'Melody';
+  if (staffNumber === '2') return 'Accompaniment';
+  return `Staff ${staffNumber} Voice ${voiceNumber}`;
+}
+
+/**
+ * Converts the intermediate `GeneratedPieceData` structure into a Standard MIDI File (Type 1).
+ *
+ * Layout:
+ * - Track 0 (conductor): track name, tempo, time signature and key signature meta events, and a
+ *   time signature event wherever a measure's meter (`MeasureData.meter`) changes.
+ * - One track per distinct staff/voice pair found in the measures, in staff then voice order,
+ *   each on its own channel (skipping the GM percussion channel) with a program change at tick 0.
+ *
+ * Event timing follows the measure structure (see `getTimedNotes`). Durations are rescaled
+ * from `metadata.divisions` to 480 PPQ.
+ *
+ * @param {GeneratedPieceData} data - The generated piece.
+ * @param {MidiExportOptions} [options] - Tempo and program overrides.
+ * @returns {Uint8Array} The bytes of the `.mid` file.
+ * @throws {GenerationError} If the metadata contains an invalid key or meter.
+ */
+export function createMidiFile(
+  data: GeneratedPieceData,
+  options: MidiExportOptions = {},
+): Uint8Array {
+  const { metadata, measures } = data;
+  const tempoBpm = options.tempoBpm ?? DEFAULT_MIDI_TEMPO_BPM;
+  if (!(tempoBpm > 0)) {
+    throw new GenerationError(
+      `createMidiFile: Tempo must be positive. Got ${tempoBpm}.`,
+    );
+  }
+
+  const getTimeSignatureBytes = (meter: string) => {
+    const meterMatch = meter.match(/^(\d+(?:\+\d+)*)\/(\d+)$/);
+    if (!meterMatch) {
+      throw new GenerationError(
+        'createMidiFile: Invalid meter format in metadata: ' + meter,
+      );
+    }
+    const meterBeats = meterMatch[1]
+      .split('+')
+      .reduce((sum, beats) => sum + parseInt(beats, 10), 0);
+    const beatValue = parseInt(meterMatch[2], 10);
+    return [0xff, 0x58, 0x04, meterBeats, Math.log2(beatValue), 24, 8];
+  };
+  const timeSignatureBytes = getTimeSignatureBytes(metadata.meter);
+  const { fifths, isMinor } = getKeySignatureInfo(metadata.keySignature);
+
+  const tickScale = MIDI_PPQ / metadata.divisions;
+
+  // --- Conductor track ---
+  const microsecondsPerQuarter = Math.round(60000000 / tempoBpm);
+  const conductor: TimedMidiMessage[] = [
+    { tick: 0, priority: 0, bytes: textMeta(0x03, metadata.title) },
+    {
+      tick: 0,
+      priority: 0,
+      bytes: [
+        0xff,
+        0x51,
+        0x03,
+        (microsecondsPerQuarter >>> 16) & 0xff,
+        (microsecondsPerQuarter >>> 8) & 0xff,
+        microsecondsPerQuarter & 0xff,
+      ],
+    },
+    {
+      tick: 0,
+      priority: 0,
+      bytes: timeSignatureBytes,
+    },
+    {
+      tick: 0,
+      priority: 0,
+      bytes: [0xff, 0x59, 0x02, fifths & 0xff, isMinor ? 1 : 0],
+    },
+  ];
+  const measureStarts = getMeasureStartTicks(data);
+  measures.forEach((measure, measureIndex) => {
+    const meter = measure.meter ?? metadata.meter;
+    const previousMeter =
+      measureIndex > 0
+        ? (measures[measureIndex - 1].meter ?? metadata.meter)
+        : metadata.meter;
+    if (meter !== previousMeter)
+      conductor.push({
+        tick: Math.round(measureStarts[measureIndex] * tickScale),
+        priority: 0,
+        bytes: getTimeSignatureBytes(meter),
+      });
+  });
+
+  // --- Group notes by staff/voice ---
+  const voiceKeys = Array.from(
+    new Set(
+      measures.flatMap((measure) =>
+        measure.events.map((e) => `${e.staffNumber}-${e.voiceNumber}`),
+      ),
+    ),
+  );
+  const timedNotes = getTimedNotes(data);
+  voiceKeys.sort((a, b) => {
+    const [sa, va] = a.split('-').map(Number);
+    const [sb, vb] = b.split('-').map(Number);
+    return sa - sb || va - vb;
+  });
+
+  // --- Part tracks ---
+  const chunks: number[][] = [buildTrackChunk(conductor)];
+  let nextChannel = 0;
+  voiceKeys.forEach((key) => {
+    if (nextChannel === PERCUSSION_CHANNEL) nextChannel++;
+    const channel = nextChannel % 16;
+    nextChannel++;
+    const [staffNumber, voiceNumber] = key.split('-');
+    const program =
+      options.programs?.[key] ??
+      DEFAULT_PROGRAMS[metadata.generationStyle] ??
+      0;
+    const messages: TimedMidiMessage[] = [
+      {
+        tick: 0,
+        priority: 0,
+        bytes: textMeta(
+          0x03,
+          getTrackName(metadata.generationStyle, staffNumber, voiceNumber),
+        ),
+      },
+      { tick: 0, priority: 1, bytes: [0xc0 | channel, program & 0x7f] },
+    ];
+
+    timedNotes
+      .filter(
+        (note) =>
+          note.staffNumber === staffNumber && note.voiceNumber === voiceNumber,
+      )
+      .forEach((note) => {
+        const start = Math.round(note.startTicks * tickScale);
+        const end = Math.round(
+          (note.startTicks + note.durationTicks) * tickScale,
+        );
+        const pitch = note.midi & 0x7f;
+        messages.push({
+          tick: start,
+          priority: 3,
+          bytes: [0x90 | channel, pitch, DEFAULT_VELOCITY],
+        });
+        messages.push({
+          tick: end,
+          priority: 2,
+          bytes: [0x80 | channel, pitch, 0],
+        });
+      });
+    chunks.push(buildTrackChunk(messages));
+  });
+
+  const header = [
+    0x4d,
+    0x54,
+    0x68,
+    0x64, // "MThd"
+    ...uint32(6),
+    ...uint16(1), // Format 1: multiple simultaneous tracks
+    ...uint16(chunks.length),
+    ...uint16(MIDI_PPQ),
+  ];
+  return Uint8Array.from(header.concat(...chunks));
+}
@@ -1,43 +1,70 @@
 // app/lib/musicXmlWriter.ts
-import * as Tonal from 'tonal';
 import { create } from 'xmlbuilder2';
 import { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
-import { GeneratedPieceData, MusicalEvent } from './types'; // MeasureData is part of GeneratedPieceData
-import { midiToMusicXMLPitch, getNoteTypeFromDuration } from './musicxmlUtils';
+import { BeamValue, GeneratedPieceData, MusicalEvent, MusicXMLOptions } from './types'; // MeasureData is part of GeneratedPieceData
+import {
+  midiToMusicXMLPitch,
+  getNoteTypeFromDuration,
+  getNotatedDuration,
+  splitIntoNotatedDurations,
+  getBeamGroupTicks,
+  getBeams,
+  getTimeSignature,
+  getTupletBrackets,
+  getWrittenDurationTicks,
+  getChordSymbol,
+  getSpellingPitchClasses,
+  addChordSymbolToXML,
+  addRomanNumeralToXML,
+} from './musicxmlUtils';
 import { GenerationError } from './errors';
+import { getKeyDetails } from './theory/harmony';
+import { CADENCE_LABELS } from './cadence';
 
 /**
- * Calculates the number of sharps or flats (fifths) for a given key signature's tonic,
+ * Calculates the number of sharps or flats (fifths) and the mode of a key,
  * as required by the MusicXML `<key>` element.
  * It handles both major and minor keys.
  *
- * @param {string} tonic - The tonic note of the key (e.g., "C", "F#", "Bb", "gm", "c#m").
- *                         Tonal.js can often infer mode from case or explicit "m".
- * @returns {number} The number of fifths, where positive values are sharps (e.g., G major = 1 sharp)
- *                   and negative values are flats (e.g., F major = -1 flat). Returns 0 for C major/A minor.
- *                   Logs a warning and returns 0 if the tonic is unsupported.
+ * @param {string} keyName - The key name (e.g., "C", "F#", "Bb" for major, "Gm", "C#m" for minor).
+ * @returns {{ fifths: number; mode: 'major' | 'minor' }} The number of fifths, where positive values are
+ *          sharps (e.g., G major = 1 sharp) and negative values are flats (e.g., D minor = -1 flat),
+ *          and the mode. Logs a warning and returns C major if the key is unsupported.
  */
-function getFifths(tonic: string): number {
-  const normalizedTonic = tonic.trim();
-
-  // Tonal.Key.majorKey and minorKey return an object with an 'alteration' property,
-  // which is the number of fifths.
-  const majorKeyDetails = Tonal.Key.majorKey(normalizedTonic);
-  if (majorKeyDetails && typeof majorKeyDetails.alteration === 'number') {
-    return majorKeyDetails.alteration;
+function getKeySignature(keyName: string): { fifths: number; mode: 'major' | 'minor' } {
+  try {
+    // Tonal major and minor keys have an 'alteration' property, which is the number of fifths.
+    const keyDetails = getKeyDetails(keyName.trim());
+    return {
+      fifths: keyDetails.alteration,
+      mode: keyDetails.type === 'minor' ? 'minor' : 'major',
+    };
+  } catch {
+    console.warn(
+      `[WARN] Unsupported key for key signature: ${keyName}. Defaulting to 0 fifths.`,
+    );
+    return { fifths: 0, mode: 'major' };
   }
+}
 
-  const minorKeyDetails = Tonal.Key.minorKey(normalizedTonic);
-  if (minorKeyDetails && typeof minorKeyDetails.alteration === 'number') {
-    return minorKeyDetails.alteration;
-  }
+/** Order in which sharps are added to key signatures (flats are added in the reverse order). */
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
 
-  console.warn(
-    `[WARN] Unsupported tonic for key signature: ${tonic}. Defaulting to 0 fifths.`,
-  );
-  return 0;
+/** Returns the alteration (-1, 0 or 1) a key signature of `fifths` gives to a step (A-G). */
+function getKeySignatureAlteration(step: string, fifths: number): number {
+  const position = SHARP_ORDER.indexOf(step);
+  if (fifths > 0) return position < fifths ? 1 : 0;
+  return SHARP_ORDER.length - 1 - position < -fifths ? -1 : 0;
 }
 
+const ACCIDENTAL_NAMES: Record<string, string> = {
+  '-2': 'flat-flat',
+  '-1': 'flat',
+  '0': 'natural',
+  '1': 'sharp',
+  '2': 'double-sharp',
+};
+
 /**
  * Adds a sequence of `MusicalEvent` objects (notes or rests) for a single voice
  * to a given measure in the MusicXML structure.
@@ -63,25 +90,64 @@ function getFifths(tonic: string): number {
  * - `event.voiceNumber`: Populates the `<voice>` element, specifying the voice on the staff.
  * - `event.stemDirection` (only for `type: 'note'`): Populates the `<stem>` element (e.g., "up", "down").
  * - `event.noteType`: Populates the `<type>` element (e.g., "quarter", "eighth", "half", "whole").
- *   This defines the graphical appearance of the note/rest.
+ *   This defines the graphical appearance of the note/rest. Durations of dotted notes (see `getNotatedDuration`)
+ *   get the dotted type and `<dot/>` elements instead.
+ * - `event.tieStart` / `event.tieStop`: Add `<tie>` and `<tied>` elements to tie the note to the next or previous
+ *   note of its voice (e.g., across a barline). A note whose duration no single (dotted) note can write is split
+ *   into tied notes (see `splitIntoNotatedDurations`), together with the notes sounding with it.
+ * - Beams: eighths and shorter notes are beamed within the measure's beat groups (`beamGroupTicks`, see
+ *   `getBeams`) with `<beam>` elements on the first note of each chord.
+ * - `event.tuplet`: Adds `<time-modification>` (e.g., 3 actual in the time of 2 normal notes) and writes the
+ *   type of the note the tuplet note stands for. Tuplet brackets (see `getTupletBrackets`) get `<tuplet>`
+ *   start and stop notations; tuplet notes are never split into tied notes.
  * - `event.isChordElement` (only for `type: 'note'`):
  *   - If `true`, a `<chord/>` empty element is added to the `<note>` element. This indicates that
  *     this note sounds simultaneously with the preceding non-chord note in the same voice,
  *     forming part of a chord.
  *
+ * - Spelling: notes are spelled from the chord sounding where they start, then the key's scale (e.g., E#, not F,
+ *   in F# major), and otherwise from the key signature (see `midiToMusicXMLPitch`).
+ * - Courtesy accidentals: in the first measure after a key change (`previousKeyFifths` given), the first
+ *   note of each step and octave whose key-signature alteration changed gets an `<accidental cautionary="yes">`
+ *   if it follows the new signature (e.g., F# in the first measure of G major after C major, but not F natural,
+ *   whose accidental is required rather than cautionary).
+ *
  * If an event has `type: 'note'` but `event.midi` is null/undefined, or if the `event.type` itself
  * is unrecognized, a warning is logged, and the event is skipped (the malformed `<note>` element is removed).
  *
  * @param {XMLBuilder} measureBuilder - The `xmlbuilder2` XMLBuilder instance for the current `<measure>` element.
  * @param {MusicalEvent[]} events - An array of `MusicalEvent` objects to be added to this measure for a single voice.
+ * @param {number} divisions - Divisions per quarter note, used to find dotted and tied durations.
+ * @param {number} [keyFifths=0] - The key signature of the measure, used to spell black keys.
+ * @param {number | null} [previousKeyFifths=null] - The key signature before a key change at this measure, if any.
+ * @param {number[]} [beamGroupTicks=[]] - Lengths of the measure's beat groups in divisions (see `getBeamGroupTicks`);
+ *        notes are not beamed without them.
+ * @param {{ startTick: number; spellings: string[] }[]} [chordSpellings=[]] - The pitch classes to spell notes with
+ *        under each chord of the measure, in order (see `getSpellingPitchClasses`); without them black keys are
+ *        spelled from the key signature alone.
  */
 function addMusicalEventsToXML(
   measureBuilder: XMLBuilder,
   events: MusicalEvent[],
+  divisions: number,
+  keyFifths: number = 0,
+  previousKeyFifths: number | null = null,
+  beamGroupTicks: number[] = [],
+  chordSpellings: { startTick: number; spellings: string[] }[] = [],
 ): void {
-  events.forEach((event) => {
+  const cautionedPitches = new Set<string>();
+  const addEvent = (
+    event: MusicalEvent,
+    durationTicks: number,
+    tieStop: boolean,
+    tieStart: boolean,
+    beams: BeamValue[],
+    tupletBracket: { start: boolean; stop: boolean },
+    spellings: string[],
+  ) => {
     // console.log("addMusicalEventsToXML: Adding event:", event); // Verbose, enable for deep XML debugging
     const noteEl = measureBuilder.ele('note');
+    let cautionaryAccidental: string | undefined;
 
     if (event.type === 'rest') {
       noteEl.ele('rest').up();
@@ -96,7 +162,7 @@ function addMusicalEventsToXML(
       noteEl.ele('chord').up(); // Indicates it sounds with the previous non-chord note in the same voice
       }
 
-      const pitch = midiToMusicXMLPitch(event.midi);
+      const pitch = midiToMusicXMLPitch(event.midi, keyFifths, spellings);
       if (pitch) {
         const pitchEl = noteEl.ele('pitch');
         pitchEl.ele('step').txt(pitch.step).up();
@@ -111,12 +177,17 @@ function addMusicalEventsToXML(
       noteEl.ele('rest').up(); // Add a rest as a fallback to maintain rhythm
       }
 
-      if (event.stemDirection) {
-        noteEl.ele('stem').txt(event.stemDirection).up();
+      if (
+        pitch &&
+        previousKeyFifths !== null &&
+        getKeySignatureAlteration(pitch.step, previousKeyFifths) !==
+          getKeySignatureAlteration(pitch.step, keyFifths) &&
+        (pitch.alter ?? 0) === getKeySignatureAlteration(pitch.step, keyFifths) &&
+        !cautionedPitches.has(`${pitch.step}${pitch.octave}`)
+      ) {
+        cautionedPitches.add(`${pitch.step}${pitch.octave}`);
+        cautionaryAccidental = ACCIDENTAL_NAMES[`${pitch.alter ?? 0}`];
       }
-    // MusicXML type (e.g., quarter, eighth) is crucial for visual representation.
-      noteEl.ele('type').txt(event.noteType).up();
-    // TODO: Add dot (<dot/>) element here if the note is dotted, based on event.isDotted or similar.
     
     } else {
     // Invalid event type or missing MIDI for a note event.
@@ -125,16 +196,91 @@ function addMusicalEventsToXML(
     return; // Skip this event entirely.
     }
 
-  // These elements are common to both notes and rests.
-  noteEl.ele('duration').txt(`${event.durationTicks}`).up(); // Duration in divisions.
+  // These elements are common to both notes and rests, in the order the MusicXML schema requires.
+  noteEl.ele('duration').txt(`${durationTicks}`).up(); // Duration in divisions.
+    if (tieStop) noteEl.ele('tie', { type: 'stop' }).up();
+    if (tieStart) noteEl.ele('tie', { type: 'start' }).up();
     noteEl.ele('voice').txt(event.voiceNumber).up();
+    if (event.type === 'note') {
+    // MusicXML type (e.g., quarter, eighth) is crucial for visual representation; dotted durations
+    // (e.g., 3/8 of a whole note) get a dotted type
+      const notated = getNotatedDuration(getWrittenDurationTicks(durationTicks, event.tuplet), divisions);
+      noteEl.ele('type').txt(notated ? notated.noteType : event.noteType).up();
+      for (let dot = 0; dot < (notated?.dots ?? 0); dot++) noteEl.ele('dot').up();
+    }
+    if (cautionaryAccidental) {
+      noteEl.ele('accidental', { cautionary: 'yes' }).txt(cautionaryAccidental).up();
+    }
+    if (event.tuplet) {
+      noteEl.ele('time-modification')
+        .ele('actual-notes').txt(`${event.tuplet.actualNotes}`).up()
+        .ele('normal-notes').txt(`${event.tuplet.normalNotes}`).up()
+      .up();
+    }
+    if (event.type === 'note' && event.stemDirection) {
+      noteEl.ele('stem').txt(event.stemDirection).up();
+    }
     noteEl.ele('staff').txt(event.staffNumber).up();
+    beams.forEach((beam, i) => noteEl.ele('beam', { number: `${i + 1}` }).txt(beam).up());
+    // <tie> sets the sound, <tied> draws the tie
+    if (tieStop || tieStart || tupletBracket.start || tupletBracket.stop) {
+      const notations = noteEl.ele('notations');
+      if (tieStop) notations.ele('tied', { type: 'stop' }).up();
+      if (tieStart) notations.ele('tied', { type: 'start' }).up();
+      if (tupletBracket.start) notations.ele('tuplet', { type: 'start' }).up();
+      if (tupletBracket.stop) notations.ele('tuplet', { type: 'stop' }).up();
+      notations.up();
+    }
 
-  // TODO: Future enhancements: notations (ties, slurs, accents, etc.), lyrics.
-  // if (event.tieStart) noteEl.ele('notations').ele('tied', {type: 'start'}).up().up();
-  // if (event.tieStop) noteEl.ele('notations').ele('tied', {type: 'stop'}).up().up();
+  // TODO: Future enhancements: notations (slurs, accents, etc.), lyrics.
 
   noteEl.up(); // End note element
+  };
+
+  // Group each note with the notes sounding with it (`isChordElement`) so that notes too long for
+  // a single (dotted) note are split into tied notes chord by chord; rests and tuplets are written whole
+  const groups: MusicalEvent[][] = [];
+  events.forEach((event) => {
+    if (event.isChordElement && groups.length > 0) groups[groups.length - 1].push(event);
+    else groups.push([event]);
+  });
+  const writtenNotes: { group: MusicalEvent[]; partTicks: number; partIndex: number; partCount: number }[] = [];
+  groups.forEach((group) => {
+    const parts =
+      group[0].type === 'note' && !group[0].tuplet
+        ? splitIntoNotatedDurations(group[0].durationTicks, divisions)
+        : [group[0].durationTicks];
+    parts.forEach((partTicks, partIndex) =>
+      writtenNotes.push({ group, partTicks, partIndex, partCount: parts.length }),
+    );
+  });
+
+  // Beam and bracket the written notes, which follow each other from the start of the measure
+  let startTicks = 0;
+  const notes = writtenNotes.map(({ group, partTicks }) => {
+    const note = { startTicks, durationTicks: partTicks, isRest: group[0].type !== 'note', tuplet: group[0].tuplet };
+    startTicks += partTicks;
+    return note;
+  });
+  const beams = getBeams(notes, beamGroupTicks, divisions);
+  const tupletBrackets = getTupletBrackets(notes);
+  writtenNotes.forEach(({ group, partTicks, partIndex, partCount }, noteIndex) => {
+    // The parts of a split note keep the spelling of the chord where the note starts
+    const groupStartTicks = notes[noteIndex - partIndex].startTicks;
+    const spellings =
+      chordSpellings.filter((chord) => chord.startTick <= groupStartTicks).pop()?.spellings ?? [];
+    group.forEach((event, eventIndex) => {
+      const isNote = event.type === 'note';
+      addEvent(
+        event,
+        partTicks,
+        isNote && (partIndex > 0 || !!event.tieStop),
+        isNote && (partIndex < partCount - 1 || !!event.tieStart),
+        eventIndex === 0 ? beams[noteIndex] : [],
+        eventIndex === 0 ? tupletBrackets[noteIndex] : { start: false, stop: false },
+        spellings,
+      );
+    });
   });
 }
 
@@ -142,34 +288,44 @@ function addMusicalEventsToXML(
  * Creates a MusicXML string from the intermediate musical data structure.
  * Converts the intermediate `GeneratedPieceData` structure into a complete MusicXML string.
  * This function handles the setup of the score, parts, measures, attributes (key, time, clef),
- * harmony annotations (Roman numerals), and the placement of notes and rests onto staves.
+ * chord symbols and Roman numeral analysis, cadence labels, phrase marks and barlines, and the placement of notes and rests onto staves.
  *
  * Key MusicXML features handled:
  * - Score partwise structure.
  * - Work metadata (title).
- * - Identification (encoding software, date).
+ * - Identification (encoding software, date, and the generation seed when present).
  * - Part list with part names.
  * - Two-staff system (typically treble for staff 1, bass for staff 2).
  * - Measure attributes: divisions, key signature, time signature, clefs.
- * - Harmony elements for Roman numeral display.
- * - Note elements with pitch (step, alter, octave), duration, type, voice, staff, and stem.
+ * - Key changes where a measure's key (`MeasureData.keySignature`) differs from the previous one,
+ *   with courtesy accidentals on the notes whose key-signature alteration changed.
+ * - Time signature changes where a measure's meter (`MeasureData.meter`) differs from the previous
+ *   one; additive meters are written with their groups (e.g., 3+2+2/8).
+ * - Harmony elements with the root, kind and bass of every chord change (see `getChordSymbol`),
+ *   with offsets for chord changes within a measure, and optionally the Roman numerals as text below the bass staff.
+ * - Note elements with pitch (step, alter, octave), duration, type (with dots), voice, staff, stem and beams (by the meter's beat groups).
+ * - Ties for notes tied across barlines and for durations written as tied notes.
  * - Chord elements for notes sounding simultaneously in the same voice.
  * - Rest elements with duration, voice, and staff.
  * - Backup elements for multi-voice writing on a single staff (though current implementation uses one voice per staff primarily).
  *
  * @param {GeneratedPieceData} data - The complete musical data object, typically generated by `generateMusicalData`.
+ * @param {MusicXMLOptions} [options={}] - Whether to write chord symbols (default) and Roman numerals.
  * @returns {string} A string containing the fully formatted MusicXML representation of the score.
  * @throws {GenerationError} If crucial metadata like key or meter is found to be invalid during XML construction,
  *                           indicating an internal inconsistency from earlier generation stages.
  */
-export function createMusicXMLString(data: GeneratedPieceData): string {
+export function createMusicXMLString(
+  data: GeneratedPieceData,
+  options: MusicXMLOptions = {},
+): string {
   const { metadata, measures } = data;
+  const { chordSymbols = true, romanNumerals = false } = options;
 
-  // Calculate key signature details
-  const keyDetails =
-    Tonal.Key.majorKey(metadata.keySignature) ??
-    Tonal.Key.minorKey(metadata.keySignature);
-  if (!keyDetails || !keyDetails.tonic) { // Added !keyDetails.tonic
+  // Validate the key signature
+  try {
+    getKeyDetails(metadata.keySignature);
+  } catch {
     // This should ideally not happen if inputs were validated earlier.
     // Throwing a GenerationError as this points to an internal inconsistency.
     throw new GenerationError(
@@ -177,19 +333,20 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
         metadata.keySignature,
     );
   }
-  const keyFifths = getFifths(keyDetails.tonic); // Assumes getFifths handles unknown tonics gracefully or throws
-  const keyMode = keyDetails.type === 'major' ? 'major' : 'minor';
 
-  // Parse and validate time signature from metadata
-  const meterMatch = metadata.meter.match(/^(\d+)\/(\d+)$/);
-  if (!meterMatch) {
-    throw new GenerationError( // Should be caught by initializeGenerationParameters, but good to have a check
-      'createMusicXMLString: Invalid meter format in metadata: ' + metadata.meter,
-    );
-  }
-  const [, beatsStr, beatValueStr] = meterMatch;
-  const meterBeats = parseInt(beatsStr, 10);
-  const beatValue = parseInt(beatValueStr, 10);
+  // Parse and validate the time signature of the piece and of each measure (if it changes)
+  const parseTimeSignature = (meter: string) => {
+    const timeSignature = getTimeSignature(meter, metadata.divisions);
+    if (!timeSignature) {
+      throw new GenerationError( // Should be caught by initializeGenerationParameters, but good to have a check
+        'createMusicXMLString: Invalid meter format in metadata: ' + meter,
+      );
+    }
+    return timeSignature;
+  };
+  parseTimeSignature(metadata.meter);
+  const measureMeters = measures.map((measureData) => measureData.meter ?? metadata.meter);
+  const timeSignatures = measureMeters.map(parseTimeSignature);
 
   // Set up XML document with MusicXML 4.0 DTD
   const root = create({ version: '1.0', encoding: 'UTF-8' })
@@ -204,12 +361,19 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
     .ele('work-title').txt(metadata.title).up()
   .up();
   
-  root.ele('identification')
-    .ele('encoding')
-      .ele('software').txt(metadata.software).up()
-      .ele('encoding-date').txt(metadata.encodingDate).up()
-    .up()
-  .up();
+  const identification = root.ele('identification');
+  const encoding = identification.ele('encoding');
+  encoding.ele('software').txt(metadata.software).up();
+  if (metadata.encodingDate)
+    encoding.ele('encoding-date').txt(metadata.encodingDate).up();
+  encoding.up();
+  // Record the generation seed so the piece can be reproduced from the file alone
+  if (metadata.seed !== undefined) {
+    identification.ele('miscellaneous')
+      .ele('miscellaneous-field', { name: 'seed' }).txt(`${metadata.seed}`).up()
+    .up();
+  }
+  identification.up();
 
   // Define score parts (single part with two staves)
   root.ele('part-list')
@@ -222,10 +386,21 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
   const partBuilder = root.ele('part', { id: 'P1' });
 
   // Process each measure
+  let previousKey: { fifths: number; mode: 'major' | 'minor' } | null = null;
   measures.forEach((measureData, measureIndex) => {
     const measureBuilder = partBuilder.ele('measure', {
       number: `${measureData.measureNumber}`,
     });
+    const key = getKeySignature(measureData.keySignature ?? metadata.keySignature);
+    const { fifths: keyFifths, mode: keyMode } = key;
+    const keyChanged =
+      previousKey !== null &&
+      (previousKey.fifths !== keyFifths || previousKey.mode !== keyMode);
+    const previousKeyFifths = keyChanged ? previousKey!.fifths : null;
+    previousKey = key;
+    const { beats: meterBeats, beatType: beatValue, measureDurationTicks } = timeSignatures[measureIndex];
+    const meterChanged = measureIndex > 0 && measureMeters[measureIndex] !== measureMeters[measureIndex - 1];
+    const beamGroupTicks = getBeamGroupTicks(measureMeters[measureIndex], metadata.divisions);
 
     // First measure needs complete attribute set
     if (measureIndex === 0) {
@@ -256,18 +431,66 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
         .ele('line').txt('4').up()
       .up();
       attributes.up();
+    } else if (keyChanged || meterChanged) {
+      const attributes = measureBuilder.ele('attributes');
+      // Mid-piece key change (modulation)
+      if (keyChanged) {
+        attributes.ele('key')
+          .ele('fifths').txt(`${keyFifths}`).up()
+          .ele('mode').txt(keyMode).up()
+        .up();
+      }
+      // Mid-piece meter change
+      if (meterChanged) {
+        attributes.ele('time')
+          .ele('beats').txt(`${meterBeats}`).up()
+          .ele('beat-type').txt(`${beatValue}`).up()
+        .up();
+      }
+      attributes.up();
     }
 
-    // Add roman numeral analysis
-    measureBuilder.ele('harmony')
-      .ele('root')
-        .ele('root-step').up()
-      .up()
-      .ele('kind')
-        .txt('other')
-        .att('text', measureData.romanNumeral)
-      .up()
-    .up();
+    // Mark the start of a phrase with a rehearsal mark above the treble staff
+    if (measureData.phraseLabel) {
+      measureBuilder.ele('direction').att('placement', 'above')
+        .ele('direction-type')
+          .ele('rehearsal').txt(measureData.phraseLabel).up()
+        .up()
+        .ele('staff').txt('1').up()
+      .up();
+    }
+
+    // Add a chord symbol (and, if requested, the Roman numeral below the bass staff) at each chord
+    // change (offset in divisions from the start of the measure); chords sustained from the
+    // previous measure are not repeated
+    const measureChords = measureData.chords ?? [
+      { romanNumeral: measureData.romanNumeral, startTick: 0, continued: false },
+    ];
+    const measureKeyName = measureData.keySignature ?? metadata.keySignature;
+    const chordSpellings = measureChords.map((chord) => ({
+      startTick: chord.startTick,
+      spellings: getSpellingPitchClasses(chord.romanNumeral, measureKeyName),
+    }));
+    measureChords
+      .filter((chord) => !chord.continued)
+      .forEach((chord) => {
+        if (chordSymbols) {
+          const symbol = getChordSymbol(chord.romanNumeral, measureKeyName);
+          if (symbol) addChordSymbolToXML(measureBuilder, symbol, chord.startTick);
+          else console.warn(`[WARN] createMusicXMLString: No chord symbol for "${chord.romanNumeral}" in measure ${measureData.measureNumber}.`);
+        }
+        if (romanNumerals) addRomanNumeralToXML(measureBuilder, chord.romanNumeral, chord.startTick, '2');
+      });
+
+    // Label the cadence arriving in this measure below the bass staff
+    if (measureData.cadence) {
+      const direction = measureBuilder.ele('direction').att('placement', 'below')
+        .ele('direction-type')
+          .ele('words').txt(CADENCE_LABELS[measureData.cadence.type]).up()
+        .up();
+      if (measureData.cadence.tick > 0) direction.ele('offset').txt(`${measureData.cadence.tick}`).up();
+      direction.ele('staff').txt('2').up().up();
+    }
 
     // Sort events by voice/staff
     const voice1Events = measureData.events.filter(
@@ -279,10 +502,9 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
 
     // Process voice 1 (upper staff)
     if (voice1Events.length > 0) {
-      addMusicalEventsToXML(measureBuilder, voice1Events);
+      addMusicalEventsToXML(measureBuilder, voice1Events, metadata.divisions, keyFifths, previousKeyFifths, beamGroupTicks, chordSpellings);
     } else {
       // Add fallback full measure rest
-      const measureDurationTicks = meterBeats * metadata.divisions * (4 / beatValue); // Use metadata.divisions
       const restType = getNoteTypeFromDuration(measureDurationTicks, metadata.divisions); // Use metadata.divisions
       addMusicalEventsToXML(measureBuilder, [{
         type: 'rest',
@@ -290,7 +512,7 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
         staffNumber: '1',
         voiceNumber: '1',
         noteType: restType,
-      }]);
+      }], metadata.divisions);
     }
 
     // Process voice 2 (lower staff)
@@ -304,10 +526,9 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
       measureBuilder.ele('backup')
         .ele('duration').txt(`${totalVoice1Duration}`).up()
       .up();
-      addMusicalEventsToXML(measureBuilder, voice2Events);
+      addMusicalEventsToXML(measureBuilder, voice2Events, metadata.divisions, keyFifths, previousKeyFifths, beamGroupTicks, chordSpellings);
     } else {
       // Add fallback full measure rest
-      const measureDurationTicks = meterBeats * metadata.divisions * (4 / beatValue); // Use metadata.divisions
       const restType = getNoteTypeFromDuration(measureDurationTicks, metadata.divisions); // Use metadata.divisions
       measureBuilder.ele('backup')
         .ele('duration').txt(`${totalVoice1Duration}`).up()
@@ -318,7 +539,14 @@ export function createMusicXMLString(data: GeneratedPieceData): string {
         staffNumber: '2',
         voiceNumber: '2',
         noteType: restType,
-      }]);
+      }], metadata.divisions);
+    }
+
+    // Close each phrase with a double barline (a final barline at the end of the piece)
+    if (measureData.phraseEnd) {
+      measureBuilder.ele('barline').att('location', 'right')
+        .ele('bar-style').txt(measureIndex === measures.length - 1 ? 'light-heavy' : 'light-light').up()
+      .up();
     }
 
     measureBuilder.up();
@@ -1,8 +1,9 @@
 // src/musicxmlUtils.ts
 import * as Tonal from 'tonal';
-// XMLBuilder is not used in this file after addNotesToStaffXML was moved.
-import { MusicXMLPitch } from './types';
-import { midiToNoteName } from './theory/harmony';
+import { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
+import { BeamValue, ChordSymbol, MusicXMLPitch, Tuplet } from './types';
+import { getGroupingPlan } from './rhythm';
+import { getChordInfoFromRoman, getKeyDetails, getRomanNumeralKey, hasSeventhFigure, midiToNoteName } from './theory/harmony';
 import { MusicTheoryError } from './errors'; // Added import
 
 /**
@@ -10,12 +11,23 @@ import { MusicTheoryError } from './errors'; // Added import
  * the note's step, alteration (sharps/flats), and octave for MusicXML.
  *
  * @param {number} midi - The MIDI note number (e.g., 60 for C4).
+ * @param {number} [keyFifths=0] - The key signature in fifths. Black keys are spelled with sharps
+ *                                 in sharp keys (F# in G major) and with flats otherwise.
+ * @param {string[]} [spellings=[]] - Pitch classes to spell the note with, in order of preference
+ *                                    (see `getSpellingPitchClasses`), e.g., E# rather than F in F# major.
+ *                                    Notes none of them matches are spelled from `keyFifths`.
  * @returns {MusicXMLPitch | null} A `MusicXMLPitch` object containing the step (A-G),
  *          optional alteration value (-2 to 2), and octave number. Returns `null`
  *          if the MIDI number cannot be converted or results in invalid note details.
  */
-export function midiToMusicXMLPitch(midi: number): MusicXMLPitch | null {
-    const noteName = midiToNoteName(midi); // Converts MIDI to a scientific pitch name like "C#4"
+export function midiToMusicXMLPitch(midi: number, keyFifths: number = 0, spellings: string[] = []): MusicXMLPitch | null {
+    const isValidMidi = Number.isInteger(midi) && midi >= 0 && midi <= 127;
+    const spelling = isValidMidi ? spellings.find((pc) => Tonal.Note.chroma(pc) === midi % 12) : undefined;
+    const noteName = spelling
+        ? spellMidi(midi, spelling)
+        : keyFifths > 0 && isValidMidi
+        ? Tonal.Note.fromMidiSharps(midi)
+        : midiToNoteName(midi); // Converts MIDI to a scientific pitch name like "C#4"
     if (!noteName) {
         console.warn(`[WARN] midiToMusicXMLPitch: Could not get note name for MIDI: ${midi}`);
         return null;
@@ -45,6 +57,13 @@ export function midiToMusicXMLPitch(midi: number): MusicXMLPitch | null {
     }
 }
 
+/** Names a MIDI note with a pitch class of the same chroma, e.g., "B#3" for 60 and "Cb5" for 71. */
+function spellMidi(midi: number, pitchClass: string): string {
+    const octave = Math.floor(midi / 12) - 1;
+    const offset = (Tonal.Note.midi(`${pitchClass}${octave}`) ?? midi) - midi;
+    return `${pitchClass}${octave - Math.round(offset / 12)}`;
+}
+
 /**
  * Determines the MusicXML note type string (e.g., "quarter", "eighth") based on the
  * beat value of a time signature. This function assumes the duration being determined
@@ -74,7 +93,8 @@ export function getMusicXMLDurationType(beatValue: number): string {
  * Calculates the MusicXML note type (e.g., "quarter", "eighth") for a given duration in ticks,
  * relative to a specified number of divisions per quarter note.
  * For example, if `divisions` is 4 (meaning a quarter note has 4 ticks), then a `durationTicks`
- * of 4 would return "quarter", 8 would return "half", and 2 would return "eighth".
+ * of 4 would return "quarter", 8 would return "half", and 2 would return "eighth". Durations of
+ * two whole notes or more (e.g., in 4/2 or 3/1) return "breve".
  *
  * @param {number} durationTicks - The duration of the note/rest in MusicXML ticks/divisions.
  * @param {number} divisions - The number of divisions per quarter note, as defined in MusicXML attributes.
@@ -90,6 +110,7 @@ export function getNoteTypeFromDuration(durationTicks: number, divisions: number
      const ratioToQuarter = durationTicks / quarterNoteTicks; // How many quarter notes this duration represents
 
      // Determine type based on ratio to a quarter note
+     if (ratioToQuarter >= 8) return 'breve';       // 8 quarter notes = 1 breve (double whole note)
      if (ratioToQuarter >= 4) return 'whole';       // 4 quarter notes = 1 whole note
      if (ratioToQuarter >= 2) return 'half';        // 2 quarter notes = 1 half note
      if (ratioToQuarter >= 1) return 'quarter';     // 1 quarter note
@@ -104,6 +125,405 @@ export function getNoteTypeFromDuration(durationTicks: number, divisions: number
  }
 
 
+/** MusicXML note types and their length in quarter notes, longest first. */
+const NOTE_TYPE_QUARTERS: [string, number][] = [
+  ['breve', 8],
+  ['whole', 4],
+  ['half', 2],
+  ['quarter', 1],
+  ['eighth', 0.5],
+  ['16th', 0.25],
+  ['32nd', 0.125],
+];
+
+/**
+ * Returns the note type and number of dots that write a duration exactly as one note, e.g., a
+ * dotted quarter for 6 ticks at 4 divisions (3/8 of a whole note).
+ *
+ * @param {number} durationTicks - The duration in MusicXML divisions.
+ * @param {number} divisions - Divisions per quarter note.
+ * @param {number} [maxDots=2] - The most dots to use.
+ * @returns {{ noteType: string; dots: number } | null} The note type and dots, or `null` if no single
+ *          (dotted) note has this duration; such durations are written as tied notes
+ *          (see `splitIntoNotatedDurations`).
+ */
+export function getNotatedDuration(
+  durationTicks: number,
+  divisions: number,
+  maxDots: number = 2,
+): { noteType: string; dots: number } | null {
+  for (const [noteType, quarters] of NOTE_TYPE_QUARTERS) {
+    // Each dot adds half of the previous value: 1, 1.5, 1.75 times the plain note
+    for (let dots = 0; dots <= maxDots; dots++) {
+      const ticks = quarters * divisions * (2 - Math.pow(0.5, dots));
+      if (Math.abs(ticks - durationTicks) < 1e-9) return { noteType, dots };
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits a duration into the durations of notes that can be tied to write it, longest first
+ * (e.g., 5 eighths into a half and an eighth). Durations a single (dotted) note can write are
+ * returned whole.
+ *
+ * @param {number} durationTicks - The duration in MusicXML divisions.
+ * @param {number} divisions - Divisions per quarter note.
+ * @returns {number[]} Durations in divisions adding up to `durationTicks`. A remainder shorter
+ *          than a 32nd note is returned as is.
+ */
+export function splitIntoNotatedDurations(durationTicks: number, divisions: number): number[] {
+  if (getNotatedDuration(durationTicks, divisions)) return [durationTicks];
+  const parts: number[] = [];
+  let remaining = durationTicks;
+  while (remaining > 0) {
+    // The longest plain or dotted note (in whole divisions) that fits
+    let part = 0;
+    NOTE_TYPE_QUARTERS.forEach(([, quarters]) => {
+      [quarters * divisions, quarters * divisions * 1.5].forEach((ticks) => {
+        if (Number.isInteger(ticks) && ticks <= remaining && ticks > part) part = ticks;
+      });
+    });
+    if (part === 0) part = remaining;
+    parts.push(part);
+    remaining -= part;
+  }
+  return parts;
+}
+
+/**
+ * Returns the duration a note is written as: its own duration, or for a tuplet note the duration
+ * of the plain note it stands for (e.g., 6 ticks, an eighth at 12 divisions, for a triplet eighth
+ * of 4 ticks).
+ *
+ * @param {number} durationTicks - The sounding duration in MusicXML divisions.
+ * @param {Tuplet} [tuplet] - The tuplet of the note, if any.
+ * @returns {number} The written duration in divisions.
+ */
+export function getWrittenDurationTicks(durationTicks: number, tuplet?: Tuplet): number {
+  return tuplet ? (durationTicks * tuplet.actualNotes) / tuplet.normalNotes : durationTicks;
+}
+
+/**
+ * Finds the tuplet brackets among the notes and rests of one voice: consecutive notes with the
+ * same tuplet share a bracket, which closes once it spans `actualNotes` times the duration of its
+ * first note (e.g., after three triplet eighths, or a triplet quarter and a triplet eighth) or
+ * when the tuplet ends.
+ *
+ * @param {{ durationTicks: number; tuplet?: Tuplet }[]} notes - The notes and rests of the voice in order.
+ * @returns {{ start: boolean; stop: boolean }[]} For each note, whether a bracket starts and stops on it.
+ */
+export function getTupletBrackets(
+  notes: { durationTicks: number; tuplet?: Tuplet }[],
+): { start: boolean; stop: boolean }[] {
+  const brackets = notes.map(() => ({ start: false, stop: false }));
+  let open: { tuplet: Tuplet; remainingTicks: number } | null = null;
+  for (let i = 0; i < notes.length; i++) {
+    const { durationTicks, tuplet } = notes[i];
+    if (
+      open &&
+      (!tuplet ||
+        tuplet.actualNotes !== open.tuplet.actualNotes ||
+        tuplet.normalNotes !== open.tuplet.normalNotes)
+    ) {
+      brackets[i - 1].stop = true;
+      open = null;
+    }
+    if (!tuplet) continue;
+    if (!open) {
+      open = { tuplet, remainingTicks: durationTicks * tuplet.actualNotes };
+      brackets[i].start = true;
+    }
+    open.remainingTicks -= durationTicks;
+    if (open.remainingTicks < 1e-9) {
+      brackets[i].stop = true;
+      open = null;
+    }
+  }
+  if (open) brackets[notes.length - 1].stop = true;
+  return brackets;
+}
+
+/** Number of beams (flags) of each beamable note type. */
+const NOTE_TYPE_BEAMS: Record<string, number> = {
+  eighth: 1,
+  '16th': 2,
+  '32nd': 3,
+};
+
+/**
+ * Reads a time signature for writing: its `<beats>` text, which keeps the groups of an additive
+ * meter (e.g., "3+2+2"), its beat type, the beat groups it is written with, if any, and the
+ * length of a measure in divisions.
+ *
+ * @param {string} meter - The time signature (e.g., "6/8", "3+2+2/8").
+ * @param {number} divisions - Divisions per quarter note.
+ * @returns The parsed time signature, or `null` for a malformed meter.
+ */
+export function getTimeSignature(
+  meter: string,
+  divisions: number,
+): { beats: string; beatType: number; groups?: number[]; measureDurationTicks: number } | null {
+  const match = meter.match(/^(\d+(?:\+\d+)*)\/(\d+)$/);
+  if (!match) return null;
+  const groups = match[1].split('+').map((group) => parseInt(group, 10));
+  const beatType = parseInt(match[2], 10);
+  const numerator = groups.reduce((sum, group) => sum + group, 0);
+  return {
+    beats: match[1],
+    beatType,
+    ...(groups.length > 1 ? { groups } : {}),
+    measureDurationTicks: (numerator * divisions * 4) / beatType,
+  };
+}
+
+/**
+ * Returns the lengths of the beat groups of a measure, within which notes are beamed, following
+ * the meter's grouping plan (see `getGroupingPlan`): one group per beat in simple meters (4/4 ->
+ * 4 quarters), dotted quarters in compound meters (6/8 -> 3+3 eighths), the conducting groups
+ * of asymmetrical meters (7/8 -> 2+2+3 eighths) and the written groups of additive meters
+ * (3+2+2/8 -> 3+2+2 eighths).
+ *
+ * @param {string} meter - The time signature (e.g., "6/8").
+ * @param {number} divisions - Divisions per quarter note.
+ * @returns {number[]} The group lengths in divisions, or an empty array for a malformed meter.
+ */
+export function getBeamGroupTicks(meter: string, divisions: number): number[] {
+  const timeSignature = getTimeSignature(meter, divisions);
+  if (!timeSignature) return [];
+  const { beatType, groups, measureDurationTicks } = timeSignature;
+  const unitTicks = (divisions * 4) / beatType;
+  return getGroupingPlan(measureDurationTicks / unitTicks, beatType, groups).groups.map(
+    (units) => units * unitTicks,
+  );
+}
+
+/**
+ * Beams the notes of one voice of a measure. Consecutive eighths and shorter notes within the
+ * same beat group (see `getBeamGroupTicks`) are beamed together, with a secondary beam for each
+ * further flag (e.g., a second beam joining sixteenths); rests, longer notes and notes crossing
+ * a group boundary break the beams. A secondary beam of a single note is a hook, pointing into
+ * the group (e.g., the sixteenth after a dotted eighth gets a backward hook). Tuplet notes get the
+ * beams of their written type (e.g., one for triplet eighths).
+ *
+ * @param {{ startTicks: number; durationTicks: number; isRest: boolean; tuplet?: Tuplet }[]} notes - The
+ *        notes and rests of the voice in order, with their start in the measure, duration in divisions
+ *        and tuplet, if any.
+ * @param {number[]} groupTicks - The lengths of the measure's beat groups in divisions.
+ * @param {number} divisions - Divisions per quarter note.
+ * @returns {BeamValue[][]} For each note, the value of each of its beams, beam number 1 first;
+ *          an empty array for notes without beams.
+ */
+export function getBeams(
+  notes: { startTicks: number; durationTicks: number; isRest: boolean; tuplet?: Tuplet }[],
+  groupTicks: number[],
+  divisions: number,
+): BeamValue[][] {
+  const beamCounts = notes.map((note) => {
+    const notated = note.isRest
+      ? null
+      : getNotatedDuration(getWrittenDurationTicks(note.durationTicks, note.tuplet), divisions);
+    return notated ? (NOTE_TYPE_BEAMS[notated.noteType] ?? 0) : 0;
+  });
+  // Index of the beat group a note lies in, or -1 if it crosses a group boundary
+  const getGroupIndex = (note: { startTicks: number; durationTicks: number }) => {
+    let groupEnd = 0;
+    for (let i = 0; i < groupTicks.length; i++) {
+      groupEnd += groupTicks[i];
+      if (note.startTicks < groupEnd) return note.startTicks + note.durationTicks <= groupEnd ? i : -1;
+    }
+    return -1;
+  };
+
+  // Runs of consecutive beamable notes in the same group
+  const runs: number[][] = [];
+  let previousGroup = -1;
+  notes.forEach((note, i) => {
+    const group = beamCounts[i] > 0 ? getGroupIndex(note) : -1;
+    if (group !== -1 && group === previousGroup) runs[runs.length - 1].push(i);
+    else if (group !== -1) runs.push([i]);
+    previousGroup = group;
+  });
+
+  const beams: BeamValue[][] = notes.map(() => []);
+  runs
+    .filter((run) => run.length > 1)
+    .forEach((run) => {
+      const maxBeams = Math.max(...run.map((i) => beamCounts[i]));
+      for (let level = 1; level <= maxBeams; level++) {
+        run.forEach((noteIndex, j) => {
+          if (beamCounts[noteIndex] < level) return;
+          const joinsPrevious = j > 0 && beamCounts[run[j - 1]] >= level;
+          const joinsNext = j < run.length - 1 && beamCounts[run[j + 1]] >= level;
+          beams[noteIndex].push(
+            joinsPrevious && joinsNext
+              ? 'continue'
+              : joinsPrevious
+                ? 'end'
+                : joinsNext
+                  ? 'begin'
+                  : j === 0
+                    ? 'forward hook'
+                    : 'backward hook',
+          );
+        });
+      }
+    });
+  return beams;
+}
+
 // The function addNotesToStaffXML was removed as its logic is now part of
 // addMusicalEventsToXML in musicXmlWriter.ts.
-// The console.warn calls from addNotesToStaffXML should be reviewed in that context.
\ No newline at end of file
+// The console.warn calls from addNotesToStaffXML should be reviewed in that context.
+
+/** MusicXML chord kinds by the intervals of the chord above its root. */
+const CHORD_KINDS: Record<string, string> = {
+  '1P 3M 5P': 'major',
+  '1P 3m 5P': 'minor',
+  '1P 3m 5d': 'diminished',
+  '1P 3M 5A': 'augmented',
+  '1P 3M 5P 7m': 'dominant',
+  '1P 3M 5P 7M': 'major-seventh',
+  '1P 3m 5P 7m': 'minor-seventh',
+  '1P 3m 5d 7d': 'diminished-seventh',
+  '1P 3m 5d 7m': 'half-diminished',
+  '1P 3m 5P 7M': 'major-minor',
+  '1P 3M 5A 7m': 'augmented-seventh',
+  '1P 3M 5P 6M': 'major-sixth',
+  '1P 3m 5P 6M': 'minor-sixth',
+  '1P 4P 5P': 'suspended-fourth',
+  '1P 2M 5P': 'suspended-second',
+};
+/** MusicXML kinds of the chromatic predominants, which name their function rather than their intervals. */
+const FUNCTIONAL_CHORD_KINDS: Record<string, string> = {
+  N: 'Neapolitan',
+  bII: 'Neapolitan',
+  It: 'Italian',
+  Fr: 'French',
+  Ger: 'German',
+};
+
+/** The scales of a key: its scale in major, and its natural, harmonic and melodic scales in minor. */
+function getKeyScale(keyName: string): string[] {
+  const keyDetails = getKeyDetails(keyName);
+  return keyDetails.type === 'major'
+    ? keyDetails.scale
+    : [...keyDetails.natural.scale, ...keyDetails.harmonic.scale, ...keyDetails.melodic.scale];
+}
+
+/**
+ * Builds a Roman numeral with `getChordInfoFromRoman` and spells its pitch classes in its key.
+ * Chord notes are spelled from MIDI; the chord is respelled from the enharmonic root found in the
+ * key's scales (e.g., G#, not Ab, for vii°7 in A minor, and Cb, not B, for IV in Gb major). Returns `null` if it cannot be parsed.
+ */
+function spellChord(roman: string, keyName: string) {
+  let chordInfo;
+  try {
+    chordInfo = getChordInfoFromRoman(roman, keyName);
+  } catch {
+    return null;
+  }
+  const intervals = chordInfo.noteNames.map((name) => Tonal.Interval.distance(chordInfo.noteNames[0], name));
+  const keyScale = getKeyScale(getRomanNumeralKey(roman, keyName));
+  const midiRoot = Tonal.Note.pitchClass(chordInfo.noteNames[0]);
+  const enharmonicRoot = keyScale.find((name) => Tonal.Note.chroma(name) === Tonal.Note.chroma(midiRoot));
+  const root = !keyScale.includes(midiRoot) && enharmonicRoot ? enharmonicRoot : midiRoot;
+  const noteNames = intervals.map((interval) => Tonal.transpose(root, interval));
+  return { chordInfo, intervals, root, noteNames };
+}
+
+/**
+ * Returns the pitch classes to spell the notes sounding under a chord with (see
+ * `midiToMusicXMLPitch`), in order of preference: the notes of the chord spelled in its key, then
+ * the notes of the key's scales (e.g., E# in F# major and Cb in Gb major).
+ *
+ * @param {string} roman - The Roman numeral of the chord (e.g., "V7/V", "G:V7").
+ * @param {string} keyName - The key it is analysed in, unless it has a key prefix.
+ * @returns {string[]} The pitch classes, without duplicates.
+ */
+export function getSpellingPitchClasses(roman: string, keyName: string): string[] {
+  const chordNotes = spellChord(roman, keyName)?.noteNames ?? [];
+  let keyScale: string[] = [];
+  try {
+    keyScale = getKeyScale(getRomanNumeralKey(roman, keyName));
+  } catch {
+    // Keys that cannot be parsed leave the spelling to the key signature
+  }
+  return Array.from(new Set([...chordNotes, ...keyScale]));
+}
+
+/**
+ * Returns the chord symbol of a Roman numeral: its root, MusicXML kind and, for inversions, its
+ * bass, as built by `getChordInfoFromRoman`. The Neapolitan and the augmented sixths get their
+ * own kinds; chords without a MusicXML kind get "other" with a suffix to display.
+ *
+ * @param {string} roman - The Roman numeral (e.g., "V65", "ii°7", "G:V7", "Ger65").
+ * @param {string} keyName - The key it is analysed in, unless it has a key prefix.
+ * @returns {ChordSymbol | null} The chord symbol, or `null` if the Roman numeral cannot be parsed.
+ */
+export function getChordSymbol(roman: string, keyName: string): ChordSymbol | null {
+  const chord = spellChord(roman, keyName);
+  if (!chord) return null;
+  const { requiredBassPc } = chord.chordInfo;
+  const root = chord.root;
+  const toStep = (name: string) => {
+    const note = Tonal.Note.get(name);
+    return { step: note.letter, alter: note.alt };
+  };
+  const functionalMatch = roman.replace(/^[A-G][#b]*m?:/, '').match(/^(N|bII|It|Fr|Ger)(?![IV])/);
+  // The chord is built with its diatonic seventh, which only belongs to the symbol when the
+  // numeral's figure asks for one
+  const intervals = chord.intervals.slice(0, hasSeventhFigure(roman) ? undefined : 3);
+  const noteNames = chord.noteNames.slice(0, intervals.length);
+  const bassName =
+    requiredBassPc === null ? undefined : noteNames.find((name) => Tonal.Note.chroma(name) === requiredBassPc);
+  const bass = bassName && Tonal.Note.chroma(bassName) !== Tonal.Note.chroma(root) ? toStep(bassName) : undefined;
+  if (functionalMatch) return { root: toStep(root), kind: FUNCTIONAL_CHORD_KINDS[functionalMatch[1]], bass };
+
+  const kind = CHORD_KINDS[intervals.join(' ')];
+  if (kind) return { root: toStep(root), kind, bass };
+  const detected = Tonal.Chord.detect(noteNames)[0];
+  return {
+    root: toStep(root),
+    kind: 'other',
+    kindText: detected && detected.startsWith(root) ? detected.slice(root.length) : undefined,
+    bass,
+  };
+}
+
+/**
+ * Appends a `<harmony>` element with a chord symbol to a measure.
+ *
+ * @param {XMLBuilder} measureBuilder - The measure element.
+ * @param {ChordSymbol} symbol - The chord symbol (see `getChordSymbol`).
+ * @param {number} offsetTicks - Start of the chord from the current position, in divisions.
+ */
+export function addChordSymbolToXML(measureBuilder: XMLBuilder, symbol: ChordSymbol, offsetTicks: number): void {
+  const harmony = measureBuilder.ele('harmony');
+  const root = harmony.ele('root');
+  root.ele('root-step').txt(symbol.root.step).up();
+  if (symbol.root.alter !== 0) root.ele('root-alter').txt(`${symbol.root.alter}`).up();
+  const kind = harmony.ele('kind').txt(symbol.kind);
+  if (symbol.kindText !== undefined) kind.att('text', symbol.kindText);
+  if (symbol.bass) {
+    const bass = harmony.ele('bass');
+    bass.ele('bass-step').txt(symbol.bass.step).up();
+    if (symbol.bass.alter !== 0) bass.ele('bass-alter').txt(`${symbol.bass.alter}`).up();
+  }
+  if (offsetTicks > 0) harmony.ele('offset').txt(`${offsetTicks}`).up();
+}
+
+/**
+ * Appends a Roman numeral as analysis text (a `<words>` direction) below a staff.
+ *
+ * @param {XMLBuilder} measureBuilder - The measure element.
+ * @param {string} roman - The Roman numeral.
+ * @param {number} offsetTicks - Start of the chord from the current position, in divisions.
+ * @param {string} staff - The staff to write below (e.g., "2" for the bass staff).
+ */
+export function addRomanNumeralToXML(measureBuilder: XMLBuilder, roman: string, offsetTicks: number, staff: string): void {
+  const direction = measureBuilder.ele('direction').att('placement', 'below');
+  direction.ele('direction-type').ele('words').txt(roman).up().up();
+  if (offsetTicks > 0) direction.ele('offset').txt(`${offsetTicks}`).up();
+  direction.ele('staff').txt(staff).up();
+}
@@ -0,0 +1,388 @@
+// src/playback.ts
+import { GeneratedPieceData, GenerationStyle } from './types';
+import { GenerationError } from './errors';
+import { getMeasureStartTicks, getTimedNotes, TimedNote } from './timeline';
+import { DEFAULT_MIDI_TEMPO_BPM, getTrackName } from './midiWriter';
+
+/** How far ahead (seconds) notes are handed to the audio clock. */
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+/** How often (ms) the scheduler wakes up to queue the next notes. */
+const SCHEDULER_INTERVAL_MS = 25;
+/** Small delay before the first note so scheduling never lands in the past. */
+const START_DELAY_SECONDS = 0.05;
+const ATTACK_SECONDS = 0.01;
+const RELEASE_SECONDS = 0.08;
+
+export const MIN_PLAYBACK_TEMPO_BPM = 40;
+export const MAX_PLAYBACK_TEMPO_BPM = 200;
+
+/** A simple oscillator "instrument" used to sound one staff. */
+interface SynthVoice {
+  waveform: OscillatorType;
+  /** Peak gain of a single note. */
+  gain: number;
+}
+
+/**
+ * Built-in synth voices per staff, so the two staves stay distinguishable without samples.
+ * Staves beyond the second fall back to the last entry.
+ */
+const SYNTH_VOICES: Readonly<Record<GenerationStyle, SynthVoice[]>> = {
+  SATB: [
+    { waveform: 'triangle', gain: 0.16 },
+    { waveform: 'sine', gain: 0.22 },
+  ],
+  MelodyAccompaniment: [
+    { waveform: 'square', gain: 0.07 },
+    { waveform: 'triangle', gain: 0.14 },
+  ],
+};
+
+/** A part that can be muted or soloed (one per staff). */
+export interface PlaybackPart {
+  key: string;
+  name: string;
+}
+
+export interface PartPlaybackState {
+  muted: boolean;
+  solo: boolean;
+}
+
+export type PlaybackState = 'stopped' | 'playing' | 'paused';
+
+export interface PlaybackPosition {
+  /** 0-based measure index currently sounding. */
+  measureIndex: number;
+  /** Position in quarter notes from the start of the piece. */
+  beat: number;
+}
+
+export interface PlaybackEngineOptions {
+  tempoBpm?: number;
+  loop?: boolean;
+  /** Called when the sounding measure changes, and with `null` when playback stops. */
+  onPositionChange?: (position: PlaybackPosition | null) => void;
+  onStateChange?: (state: PlaybackState) => void;
+}
+
+/**
+ * Lists the playable parts of a piece: one per staff, named like the MIDI tracks.
+ *
+ * @param {GeneratedPieceData} data - The generated piece.
+ * @returns {PlaybackPart[]} Parts in staff order.
+ */
+export function getPlaybackParts(data: GeneratedPieceData): PlaybackPart[] {
+  const staves = Array.from(
+    new Set(
+      data.measures.flatMap((measure) =>
+        measure.events.map((event) => event.staffNumber),
+      ),
+    ),
+  ).sort((a, b) => Number(a) - Number(b));
+  return staves.map((staff) => ({
+    key: staff,
+    name: getTrackName(data.metadata.generationStyle, staff, '1'),
+  }));
+}
+
+/**
+ * Decides whether a part should sound given every part's mute/solo state:
+ * if any part is soloed only soloed parts sound, otherwise every unmuted part does.
+ *
+ * @param {string} partKey - The part to check.
+ * @param {Record<string, PartPlaybackState>} partStates - States keyed by part key; missing parts are neither muted nor soloed.
+ * @returns {boolean} True if the part is audible.
+ */
+export function isPartAudible(
+  partKey: string,
+  partStates: Record<string, PartPlaybackState>,
+): boolean {
+  const state = partStates[partKey];
+  const anySolo = Object.values(partStates).some((s) => s.solo);
+  if (anySolo) return !!state?.solo;
+  return !state?.muted;
+}
+
+/**
+ * Converts a MIDI note number to its frequency in Hz (A4 = 440 Hz).
+ */
+export function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+/**
+ * Plays `GeneratedPieceData` through the Web Audio API with built-in oscillator voices.
+ *
+ * Notes are scheduled a short time ahead on the audio clock from a timer, so tempo,
+ * mute/solo and loop changes take effect almost immediately. Positions are tracked in
+ * the piece's ticks relative to an anchor (`anchorTick` sounds at `anchorTime`).
+ * Must be started from a user gesture in browsers that block autoplay.
+ */
+export class PlaybackEngine {
+  private readonly notes: TimedNote[];
+  private readonly divisions: number;
+  /** Start of each measure in ticks (see `getMeasureStartTicks`). */
+  private readonly measureStarts: number[];
+  private readonly totalTicks: number;
+  private readonly synthVoices: SynthVoice[];
+  private readonly options: PlaybackEngineOptions;
+
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private state: PlaybackState = 'stopped';
+  private tempoBpm: number;
+  private loop: boolean;
+  private partStates: Record<string, PartPlaybackState> = {};
+
+  private anchorTick = 0;
+  private anchorTime = 0;
+  private nextNoteIndex = 0;
+  /** True between a loop wrap being scheduled and the new pass actually starting. */
+  private loopWrapPending = false;
+  private lastMeasureIndex: number | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private frameId: number | null = null;
+  private readonly activeNotes = new Set<{
+    partKey: string;
+    oscillator: OscillatorNode;
+    gain: GainNode;
+  }>();
+
+  constructor(data: GeneratedPieceData, options: PlaybackEngineOptions = {}) {
+    this.options = options;
+    this.notes = getTimedNotes(data);
+    this.divisions = data.metadata.divisions;
+    const measureStarts = getMeasureStartTicks(data);
+    this.measureStarts = measureStarts.slice(0, -1);
+    this.totalTicks = measureStarts[measureStarts.length - 1];
+    this.synthVoices = SYNTH_VOICES[data.metadata.generationStyle];
+    this.tempoBpm = options.tempoBpm ?? DEFAULT_MIDI_TEMPO_BPM;
+    this.loop = options.loop ?? false;
+  }
+
+  getState(): PlaybackState {
+    return this.state;
+  }
+
+  play(): void {
+    if (this.state === 'playing' || this.totalTicks <= 0) return;
+    if (!this.context) {
+      const AudioContextClass =
+        window.AudioContext ??
+        (window as unknown as { webkitAudioContext?: typeof AudioContext })
+          .webkitAudioContext;
+      if (!AudioContextClass) {
+        throw new GenerationError(
+          'Audio playback is not supported in this browser.',
+        );
+      }
+      this.context = new AudioContextClass();
+      this.master = this.context.createGain();
+      this.master.gain.value = 0.8;
+      this.master.connect(this.context.destination);
+    }
+    void this.context.resume();
+
+    this.anchorTime = this.context.currentTime + START_DELAY_SECONDS;
+    this.nextNoteIndex = this.findNoteIndex(this.anchorTick);
+    this.setState('playing');
+    this.schedule();
+    this.timerId = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+    this.trackPosition();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    this.anchorTick = this.getCurrentTick();
+    this.halt();
+    this.setState('paused');
+  }
+
+  stop(): void {
+    if (this.state === 'stopped') return;
+    this.halt();
+    this.anchorTick = 0;
+    this.lastMeasureIndex = null;
+    this.setState('stopped');
+    this.options.onPositionChange?.(null);
+  }
+
+  setTempo(tempoBpm: number): void {
+    if (!(tempoBpm > 0)) {
+      throw new GenerationError(`Tempo must be positive. Got ${tempoBpm}.`);
+    }
+    if (this.state === 'playing' && this.context) {
+      const now = this.context.currentTime;
+      if (this.loopWrapPending) {
+        // Next pass is already anchored; only rescale the time left before it starts
+        this.anchorTime =
+          now + Math.max(0, this.anchorTime - now) * (this.tempoBpm / tempoBpm);
+      } else {
+        // Re-anchor so the current position is kept at the new speed
+        this.anchorTick = this.getCurrentTick();
+        this.anchorTime = now;
+      }
+    }
+    this.tempoBpm = tempoBpm;
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  setPartStates(partStates: Record<string, PartPlaybackState>): void {
+    this.partStates = { ...partStates };
+    // Cut notes of parts that just became inaudible
+    this.activeNotes.forEach((note) => {
+      if (!isPartAudible(note.partKey, this.partStates)) {
+        this.releaseNote(note);
+      }
+    });
+  }
+
+  /** Stops playback and releases the audio context. */
+  dispose(): void {
+    this.stop();
+    this.halt();
+    void this.context?.close();
+    this.context = null;
+    this.master = null;
+  }
+
+  private setState(state: PlaybackState): void {
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+
+  private get secondsPerTick(): number {
+    return 60 / (this.tempoBpm * this.divisions);
+  }
+
+  private tickToTime(tick: number): number {
+    return this.anchorTime + (tick - this.anchorTick) * this.secondsPerTick;
+  }
+
+  private getCurrentTick(): number {
+    if (!this.context || this.state !== 'playing') return this.anchorTick;
+    const elapsed = this.context.currentTime - this.anchorTime;
+    const tick = this.anchorTick + Math.max(0, elapsed) / this.secondsPerTick;
+    // After a loop wrap the anchor lies ahead of the clock; report the tail of the previous pass
+    if (this.loopWrapPending) {
+      if (elapsed < 0) {
+        return Math.max(0, this.totalTicks + elapsed / this.secondsPerTick);
+      }
+      this.loopWrapPending = false;
+    }
+    return Math.min(tick, this.totalTicks);
+  }
+
+  private findNoteIndex(tick: number): number {
+    const index = this.notes.findIndex((note) => note.startTicks >= tick);
+    return index === -1 ? this.notes.length : index;
+  }
+
+  /** Queues every note that starts before the look-ahead horizon. */
+  private schedule(): void {
+    if (!this.context || this.state !== 'playing') return;
+    const horizon = this.context.currentTime + SCHEDULE_AHEAD_SECONDS;
+
+    while (this.nextNoteIndex < this.notes.length) {
+      const note = this.notes[this.nextNoteIndex];
+      const startTime = this.tickToTime(note.startTicks);
+      if (startTime >= horizon) return;
+      if (isPartAudible(note.staffNumber, this.partStates)) {
+        this.startNote(
+          note,
+          startTime,
+          note.durationTicks * this.secondsPerTick,
+        );
+      }
+      this.nextNoteIndex++;
+    }
+
+    const endTime = this.tickToTime(this.totalTicks);
+    if (endTime >= horizon) return;
+    if (this.loop) {
+      this.anchorTime = endTime;
+      this.anchorTick = 0;
+      this.nextNoteIndex = 0;
+      this.loopWrapPending = true;
+    } else if (this.context.currentTime >= endTime) {
+      this.stop();
+    }
+  }
+
+  private startNote(note: TimedNote, startTime: number, duration: number) {
+    if (!this.context || !this.master) return;
+    const staffIndex = Math.max(0, Number(note.staffNumber) - 1);
+    const voice =
+      this.synthVoices[Math.min(staffIndex, this.synthVoices.length - 1)];
+    const oscillator = this.context.createOscillator();
+    const gain = this.context.createGain();
+    oscillator.type = voice.waveform;
+    oscillator.frequency.value = midiToFrequency(note.midi);
+
+    const start = Math.max(startTime, this.context.currentTime);
+    const releaseStart = Math.max(
+      start + ATTACK_SECONDS,
+      start + duration - RELEASE_SECONDS,
+    );
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(voice.gain, start + ATTACK_SECONDS);
+    gain.gain.setValueAtTime(voice.gain, releaseStart);
+    gain.gain.linearRampToValueAtTime(0, releaseStart + RELEASE_SECONDS);
+    oscillator.connect(gain);
+    gain.connect(this.master);
+
+    const active = { partKey: note.staffNumber, oscillator, gain };
+    this.activeNotes.add(active);
+    oscillator.onended = () => {
+      gain.disconnect();
+      this.activeNotes.delete(active);
+    };
+    oscillator.start(start);
+    oscillator.stop(releaseStart + RELEASE_SECONDS);
+  }
+
+  private releaseNote(note: { oscillator: OscillatorNode; gain: GainNode }) {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    note.gain.gain.cancelScheduledValues(now);
+    note.gain.gain.setValueAtTime(note.gain.gain.value, now);
+    note.gain.gain.linearRampToValueAtTime(0, now + ATTACK_SECONDS);
+    try {
+      note.oscillator.stop(now + ATTACK_SECONDS);
+    } catch {
+      // Already stopped
+    }
+  }
+
+  /** Stops the scheduler, the position tracker and every sounding note. */
+  private halt(): void {
+    this.loopWrapPending = false;
+    if (this.timerId !== null) clearInterval(this.timerId);
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.timerId = null;
+    this.frameId = null;
+    this.activeNotes.forEach((note) => this.releaseNote(note));
+  }
+
+  /** Reports the sounding measure once per animation frame while playing. */
+  private trackPosition(): void {
+    if (this.state !== 'playing') return;
+    const tick = this.getCurrentTick();
+    const measureIndex = Math.max(
+      0,
+      this.measureStarts.filter((start) => start <= tick).length - 1,
+    );
+    if (measureIndex !== this.lastMeasureIndex) {
+      this.lastMeasureIndex = measureIndex;
+      this.options.onPositionChange?.({
+        measureIndex,
+        beat: tick / this.divisions,
+      });
+    }
+    this.frameId = requestAnimationFrame(() => this.trackPosition());
+  }
+}
@@ -1,12 +1,69 @@
 // src/progression.ts
 import * as Tonal from 'tonal';
-import { InvalidInputError, GenerationError } from './errors';
+import { getCadenceChords, resolveCadenceRequests } from './cadence';
+import { GenerationError, InvalidInputError } from './errors';
+import { getMeasureMeters, parseMeter } from './generationUtils';
+import { getKeyDetails, getRomanNumeralKey } from './theory/harmony';
+import { ChordProgressionOptions, ModulationTarget, ProgressionModel, RandomSource, TimedChord } from './types';
+
+/** Roman numerals of the diatonic triads (natural minor in minor keys), by scale degree. */
+const DIATONIC_TRIAD_ROMANS = {
+    major: ['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'],
+    minor: ['i', 'ii°', 'III', 'iv', 'v', 'VI', 'VII'],
+};
+/** Scale degrees whose triads may act as predominants in the new key of a modulation (ii, IV, vi). */
+const PIVOT_TARGET_DEGREES = [1, 3, 5];
+
+/**
+ * Returns the name of the key a progression in `keyName` modulates to, e.g. "G" for the
+ * dominant of C, "Em" for the dominant of Am, "Am" for the relative of C.
+ *
+ * @throws {InvalidInputError} If a user-chosen key is not a recognized key.
+ */
+export function getModulationKey(keyName: string, target: ModulationTarget): string {
+    const keyDetails = getKeyDetails(keyName);
+    const isMajor = keyDetails.type === 'major';
+    if (target === 'dominant') {
+        const dominant = Tonal.transpose(keyDetails.tonic, '5P');
+        return isMajor ? dominant : `${dominant}m`;
+    }
+    if (target === 'relative') return isMajor ? `${keyDetails.minorRelative}m` : keyDetails.relativeMajor;
+    getKeyDetails(target.key); // Throws InvalidInputError for unknown keys
+    return target.key;
+}
+
+/**
+ * Finds the chords that can pivot from one key to another: diatonic triads of the old key that are
+ * also ii, IV or vi (ii°, iv or VI in minor) of the new key. Returns their Roman numerals in the old key.
+ */
+function findPivotChords(oldKeyName: string, newKeyName: string): string[] {
+    const triadsOf = (keyDetails: Tonal.Key.MajorKey | Tonal.Key.MinorKey): readonly string[] =>
+        keyDetails.type === 'major' ? keyDetails.triads : keyDetails.natural.triads;
+    const oldKey = getKeyDetails(oldKeyName);
+    const oldTriads = triadsOf(oldKey);
+    const newTriads = triadsOf(getKeyDetails(newKeyName));
+    const oldRomans = DIATONIC_TRIAD_ROMANS[oldKey.type as 'major' | 'minor'];
+    return oldRomans.filter((_, degree) =>
+        PIVOT_TARGET_DEGREES.some((newDegree) => newTriads[newDegree] === oldTriads[degree]));
+}
 
 /**
  * Generates a diatonic chord progression based on common tonal harmony principles.
  * The progression starts and ends on the tonic. Intermediate chords are chosen based
  * on functional harmony tendencies (e.g., dominant to tonic, subdominant to dominant)
- * and a specified harmonic complexity level.
+ * and a specified harmonic complexity level. From complexity 7, applied chords such as
+ * "V/V" or "V7/vi" (and "vii°7/x" from complexity 9) are inserted before their targets, and
+ * from complexity 8 the Neapolitan sixth and augmented sixths may precede V. Chords may also
+ * be borrowed from the parallel key (modal mixture) with `options.mixtureProbability`.
+ * With `options.modulation` the second half of the progression moves to another key: a pivot chord
+ * common to both keys is followed by the new dominant, and the chords in the new key are prefixed
+ * with its name (e.g. ["I", "IV", "vi", "G:V7", "G:I", "G:IV", "G:V7", "G:I"] modulating from C to G).
+ * With `options.harmonicRhythm` the chords change more or less often than once per measure and are
+ * returned as `TimedChord` entries (e.g. [{ roman: "I", durationBeats: 2 }, { roman: "vi", durationBeats: 2 }, ...]).
+ * `options.model` (e.g. a Markov model of a style, see `getProgressionPreset`) replaces the built-in
+ * functional tendencies when choosing the chords between the opening tonic and the cadence.
+ * `options.cadences` writes the requested cadences (e.g. a half cadence ending the first phrase)
+ * over the chords ending on the given indices; the later chromatic passes leave them alone.
  *
  * @param {string} key - The key signature for the progression (e.g., "C", "Gm", "F#maj").
  *                       The function handles both major and minor keys.
@@ -15,9 +72,14 @@ import { InvalidInputError, GenerationError } from './errors';
  * @param {number} harmonicComplexity - A numerical value from 0 to 10 that influences the variety
  *                                      and complexity of chords used. Higher values allow for more
  *                                      secondary chords (like ii, iii, vi, vii°) and potentially 7ths.
- * @returns {string[]} An array of strings, where each string is a Roman numeral chord symbol
- *                     (e.g., ["I", "IV", "V7", "i"]). Returns an empty array if `numMeasures` is not positive.
- * @throws {InvalidInputError} If the provided `key` is not a valid or recognized key signature.
+ * @param {RandomSource} [rng=Math.random] - Random source for chord selection. Pass a seeded source
+ *                                           (see `createSeededRandom`) to reproduce a progression.
+ * @param {ChordProgressionOptions} [options={}] - Further controls, such as the probability of modal mixture,
+ *                                                a planned modulation or the harmonic rhythm.
+ * @returns {string[] | TimedChord[]} One Roman numeral chord symbol per measure (e.g., ["I", "IV", "V7", "i"]),
+ *                     or `TimedChord` entries filling `numMeasures` measures if `options.harmonicRhythm` is set.
+ *                     Returns an empty array if `numMeasures` is not positive.
+ * @throws {InvalidInputError} If the provided `key` (or `options.meter`) is not valid or recognized.
  * @throws {GenerationError} If an unexpected internal error occurs, such as the list of allowed
  *                           chords becoming empty.
  */
@@ -25,17 +87,118 @@ export function generateChordProgression(
     key: string,
     numMeasures: number,
     harmonicComplexity: number,
+    rng: RandomSource | undefined,
+    options: ChordProgressionOptions & { harmonicRhythm: number },
+): TimedChord[];
+export function generateChordProgression(
+    key: string,
+    numMeasures: number,
+    harmonicComplexity: number,
+    rng?: RandomSource,
+    options?: ChordProgressionOptions,
+): string[];
+export function generateChordProgression(
+    key: string,
+    numMeasures: number,
+    harmonicComplexity: number,
+    rng: RandomSource = Math.random,
+    options: ChordProgressionOptions = {},
+): string[] | TimedChord[] {
+    if (options.harmonicRhythm === undefined || numMeasures <= 0)
+        return generateRomanNumerals(key, numMeasures, harmonicComplexity, rng, options);
+    let measureBeats: number[];
+    try {
+        measureBeats = getMeasureMeters(options.meter ?? '4/4', numMeasures).map(meter => parseMeter(meter).beats);
+    } catch (e) {
+        throw new InvalidInputError(`generateChordProgression: ${(e as Error).message}`);
+    }
+    const durations = getHarmonicRhythmDurations(measureBeats, options.harmonicRhythm);
+    const barlineBeats = new Set(measureBeats.map((_, m) => measureBeats.slice(0, m).reduce((sum, beats) => sum + beats, 0)));
+    const startsMeasure = durations.map((_, i) => barlineBeats.has(durations.slice(0, i).reduce((sum, beats) => sum + beats, 0)));
+    const romans = generateRomanNumerals(key, durations.length, harmonicComplexity, rng, options, startsMeasure);
+    return romans.map((roman, i) => ({ roman, durationBeats: durations[i] }));
+}
+
+/**
+ * Splits measures of the given numbers of beats into chord durations (in beats) for a harmonic
+ * rhythm of `chordsPerMeasure`: from 1, each measure is split into that many chords (rounded, at
+ * most one per beat); below 1, each chord lasts `1 / chordsPerMeasure` measures (rounded), the last
+ * one before the cadence taking what is left. The final tonic always gets the last measure to itself.
+ */
+function getHarmonicRhythmDurations(measureBeats: number[], chordsPerMeasure: number): number[] {
+    const rate = Math.max(0.25, Math.min(4, chordsPerMeasure));
+    const numMeasures = measureBeats.length;
+    const durations: number[] = [];
+    if (rate >= 1) {
+        for (let m = 0; m < numMeasures - 1; m++) {
+            const beats = measureBeats[m];
+            const chordsInMeasure = Math.min(Math.round(rate), beats);
+            const boundaries = Array.from({ length: chordsInMeasure + 1 }, (_, j) => Math.round((j * beats) / chordsInMeasure));
+            for (let j = 0; j < chordsInMeasure; j++) durations.push(boundaries[j + 1] - boundaries[j]);
+        }
+    } else {
+        const measuresPerChord = Math.round(1 / rate);
+        for (let m = 0; m < numMeasures - 1; m += measuresPerChord)
+            durations.push(measureBeats.slice(m, Math.min(m + measuresPerChord, numMeasures - 1)).reduce((sum, beats) => sum + beats, 0));
+    }
+    durations.push(measureBeats[numMeasures - 1]);
+    return durations;
+}
+
+/**
+ * Picks the next chord among a progression model's suggestions, by weight, skipping those whose
+ * Roman numeral without figures is not allowed. Returns `undefined` if no suggestion is allowed.
+ */
+function chooseModelChord(
+    model: ProgressionModel, history: readonly string[], allowedChords: string[], rng: RandomSource): string | undefined {
+    const weights = model.getNextChordWeights(history);
+    if (!weights) return undefined;
+    const stripFigures = (roman: string) => roman.replace(/\d+$/, '');
+    const allowedNumerals = allowedChords.map(stripFigures);
+    const candidates = Object.keys(weights).filter(c => weights[c] > 0 && allowedNumerals.includes(stripFigures(c)));
+    const total = candidates.reduce((sum, c) => sum + weights[c], 0);
+    if (total <= 0) return undefined;
+    let remaining = rng() * total;
+    return candidates.find(c => (remaining -= weights[c]) < 0) ?? candidates[candidates.length - 1];
+}
+
+/**
+ * Returns the Roman numerals the generator chooses from at a harmonic complexity: the primary
+ * triads, ii and vi from 3, V7 in place of V from 4, iii and vii° from 6 and vii°7 in place of
+ * vii° from 8.
+ */
+export function getAllowedChords(isMajor: boolean, harmonicComplexity: number): string[] {
+    const primaryChords = isMajor ? ['I', 'IV', 'V'] : ['i', 'iv', 'V'];
+    const secondaryChords = isMajor ? ['vi', 'ii'] : ['VI', 'ii°'];
+    const complexChords = isMajor ? ['iii', 'vii°'] : ['III', 'vii°'];
+
+    let allowedChords = [...primaryChords];
+    if (harmonicComplexity >= 3) allowedChords.push(...secondaryChords);
+    if (harmonicComplexity >= 6) allowedChords.push(...complexChords);
+    if (harmonicComplexity >= 4) allowedChords = allowedChords.map(c => (c === 'V' ? 'V7' : c));
+    if (harmonicComplexity >= 8) allowedChords = allowedChords.map(c => (c === 'vii°' ? 'vii°7' : c));
+    return allowedChords;
+}
+
+/**
+ * Generates one Roman numeral per chord; see `generateChordProgression`. `startsMeasure` tells, with a
+ * harmonic rhythm, which chords start a measure: a modulation then starts on a barline, where the new
+ * key signature is written.
+ */
+function generateRomanNumerals(
+    key: string,
+    numMeasures: number,
+    harmonicComplexity: number,
+    rng: RandomSource,
+    options: ChordProgressionOptions,
+    startsMeasure?: boolean[],
 ): string[] {
      if (numMeasures <= 0) return [];
 
      // Clamp harmonicComplexity to ensure it's within the expected 0-10 range.
      harmonicComplexity = Math.max(0, Math.min(10, harmonicComplexity));
 
-     const keyDetails = Tonal.Key.majorKey(key) ?? Tonal.Key.minorKey(key);
-
-     if (!keyDetails || !keyDetails.tonic) { // Added !keyDetails.tonic for robustness
-         throw new InvalidInputError(`Invalid key signature provided for chord progression: "${key}".`);
-     }
+     const keyDetails = getKeyDetails(key); // Throws InvalidInputError for unknown keys
 
      const isMajor = keyDetails.type === 'major';
      // Define common Roman numerals
@@ -44,34 +207,10 @@ export function generateChordProgression(
      const dominant7Roman = 'V7';
      const subdominantRoman = isMajor ? 'IV' : 'iv';
      const supertonicRoman = isMajor ? 'ii' : 'ii°';
-     const mediantRoman = isMajor ? 'iii' : 'III'; // Using natural minor III for simplicity, could be III+ in harmonic
      const submediantRoman = isMajor ? 'vi' : 'VI';
      const leadingToneRoman = isMajor ? 'vii°' : 'vii°'; // Common vii° for both (from harmonic minor)
 
-     // Chord pools based on complexity
-     const primaryChords = [tonicRoman, subdominantRoman, dominantRoman];
-     const secondaryChords = [submediantRoman, supertonicRoman];
-     const complexChords = [mediantRoman, leadingToneRoman];
-
-     let allowedChords = [...primaryChords];
-     if (harmonicComplexity >= 3) allowedChords.push(...secondaryChords);
-     if (harmonicComplexity >= 6) allowedChords.push(...complexChords);
-
-    // Add V7 based on complexity
-    if (harmonicComplexity >= 4) {
-         if (allowedChords.includes(dominantRoman)) {
-             allowedChords = allowedChords.map(c => c === dominantRoman ? dominant7Roman : c);
-         } else if (!allowedChords.includes(dominant7Roman)) {
-             allowedChords.push(dominant7Roman);
-         }
-     }
-     // Add vii°7 based on complexity
-     if (harmonicComplexity >= 8 && allowedChords.includes(leadingToneRoman)) {
-         allowedChords = allowedChords.map(c => c === leadingToneRoman ? 'vii°7' : c);
-     }
-
-     allowedChords = Array.from(new Set(allowedChords));
-     if (allowedChords.length === 0) allowedChords = [tonicRoman];
+     const allowedChords = getAllowedChords(isMajor, harmonicComplexity);
 
      let progression: string[] = [tonicRoman];
      let prevChord = tonicRoman;
@@ -83,6 +222,10 @@ export function generateChordProgression(
          let attempts = 0;
 
         do {
+            if (options.model) {
+                nextChord = chooseModelChord(options.model, progression, allowedChords, rng);
+                if (nextChord !== undefined) break;
+            }
             let candidates = [...allowedChords];
              if (candidates.length > 1) { // Avoid repeats if possible
                  candidates = candidates.filter(c => c !== prevChord);
@@ -106,12 +249,12 @@ export function generateChordProgression(
              if (targetedCandidates.length > 0) {
                  // Bias towards preferred targets
                  const useTargetProb = 0.6 + harmonicComplexity * 0.03;
-                 if (Math.random() < useTargetProb) {
+                 if (rng() < useTargetProb) {
                      finalCandidates = targetedCandidates;
                  } else {
                      // Allow non-targeted occasionally
                       const nonTargeted = candidates.filter(c => !preferredTargets.includes(c));
-                      if (nonTargeted.length > 0 && Math.random() < 0.3) {
+                      if (nonTargeted.length > 0 && rng() < 0.3) {
                           finalCandidates = nonTargeted;
                       }
                  }
@@ -121,7 +264,7 @@ export function generateChordProgression(
              if (finalCandidates.length === 0) finalCandidates = candidates.length > 0 ? candidates : [prevChord];
 
 
-             nextChord = finalCandidates[Math.floor(Math.random() * finalCandidates.length)];
+             nextChord = finalCandidates[Math.floor(rng() * finalCandidates.length)];
              attempts++;
          } while (attempts < MAX_ATTEMPTS_PER_CHORD && nextChord === undefined);
 
@@ -129,7 +272,7 @@ export function generateChordProgression(
             // This indicates a potential issue in the selection logic if no chord could be chosen after MAX_ATTEMPTS.
             // It's not necessarily a critical error that should stop all generation, but a warning is good.
             console.warn(`[WARN] generateChordProgression: Could not determine next chord after ${MAX_ATTEMPTS_PER_CHORD} attempts for measure ${i + 1} in key "${key}". Choosing random allowed chord.`);
-            nextChord = allowedChords[Math.floor(Math.random() * allowedChords.length)];
+            nextChord = allowedChords[Math.floor(rng() * allowedChords.length)];
             if(!nextChord) { // Should be impossible if allowedChords has tonicRoman
                 throw new GenerationError(`generateChordProgression: Allowed chords list became empty unexpectedly for key "${key}" at measure ${i+1}.`);
             }
@@ -161,6 +304,97 @@ export function generateChordProgression(
          progression[0] = tonicRoman;
      }
 
+     // --- Modulation ---
+     // The new key takes over the second half: pivot chord, new V7, then a progression in the new key.
+     // Chords in the new key carry its name as a prefix, so the passes below leave them alone.
+     let pivotIndex = -1;
+     if (options.modulation) {
+         const newKey = getModulationKey(key, options.modulation);
+         let modulationPivotIndex = numMeasures - Math.max(3, Math.ceil(numMeasures / 2)) - 2;
+         // The new key's V7 starts a measure
+         while (startsMeasure && modulationPivotIndex >= 1 && !startsMeasure[modulationPivotIndex + 1]) modulationPivotIndex--;
+         if (modulationPivotIndex < 1) {
+             console.warn(`[WARN] generateChordProgression: ${numMeasures} measures are too few to modulate from "${key}" to "${newKey}" (at least 6 are needed). Staying in "${key}".`);
+         } else {
+             pivotIndex = modulationPivotIndex;
+             const newKeyLength = numMeasures - pivotIndex - 2;
+             const pivotChords = findPivotChords(key, newKey);
+             if (pivotChords.length > 0) {
+                 progression[pivotIndex] = pivotChords[Math.floor(rng() * pivotChords.length)];
+             } else {
+                 console.info(`[INFO] generateChordProgression: "${key}" and "${newKey}" share no pivot chord; modulating directly.`);
+             }
+             const newKeyProgression = generateRomanNumerals(
+                 newKey, newKeyLength, harmonicComplexity, rng, { ...options, modulation: undefined, cadences: undefined });
+             progression.splice(pivotIndex + 1, numMeasures - pivotIndex - 1,
+                 `${newKey}:V7`, ...newKeyProgression.map((roman) => `${newKey}:${roman}`));
+         }
+     }
+
+     // --- Requested Cadences ---
+     // Each cadence replaces the chord it ends on and the one before it, in the key of that chord.
+     const cadenceIndices = new Set<number>();
+     resolveCadenceRequests(options.cadences, numMeasures).forEach((type, index) => {
+         if (index < 1) {
+             console.warn(`[WARN] generateChordProgression: A ${type} cadence cannot end on the first chord. Ignoring it.`);
+             return;
+         }
+         const cadenceKey = getRomanNumeralKey(progression[index], key);
+         const chords = getCadenceChords(type, getKeyDetails(cadenceKey).type === 'major', harmonicComplexity >= 4);
+         const prefix = cadenceKey === key ? '' : `${cadenceKey}:`;
+         progression[index - 1] = prefix + chords[0];
+         progression[index] = prefix + chords[1];
+         cadenceIndices.add(index - 1).add(index);
+     });
+
+     // --- Applied Chords ---
+     // From complexity 7, an intermediate chord may become the applied dominant of the chord
+     // after it (e.g. "V7/V" before "V"), resolving straight into its tonicized target.
+     if (harmonicComplexity >= 7) {
+         const tonicizableTargets: Record<string, string> = isMajor
+             ? { ii: 'ii', iii: 'iii', IV: 'IV', V: 'V', V7: 'V', vi: 'vi' }
+             : { III: 'III', iv: 'iv', V: 'V', V7: 'V', VI: 'VI' };
+         const appliedRomans = harmonicComplexity >= 9 ? ['V', 'V7', 'vii°7'] : ['V', 'V7'];
+         const appliedChordProb = 0.15 + (harmonicComplexity - 7) * 0.1;
+         for (let i = 1; i < numMeasures - 2; i++) {
+             const target = tonicizableTargets[progression[i + 1]];
+             if (!target || cadenceIndices.has(i) || rng() >= appliedChordProb) continue;
+             progression[i] = `${appliedRomans[Math.floor(rng() * appliedRomans.length)]}/${target}`;
+             i++; // Keep the target in place so the applied chord resolves to it
+         }
+     }
+
+     // --- Chromatic Predominants ---
+     // From complexity 8, a chord before V may become a Neapolitan sixth or an augmented sixth.
+     if (harmonicComplexity >= 8) {
+         const chromaticPredominants = ['N6', 'It+6', 'Fr43', 'Ger65'];
+         const chromaticPredominantProb = 0.2 + (harmonicComplexity - 8) * 0.1;
+         for (let i = 1; i < numMeasures - 1; i++) {
+             const beforeDominant = [dominantRoman, dominant7Roman].includes(progression[i + 1]);
+             // Leave applied chords and their targets alone
+             const isAppliedOrTarget = progression[i].includes('/') || progression[i - 1].includes('/');
+             if (!beforeDominant || isAppliedOrTarget || cadenceIndices.has(i) || rng() >= chromaticPredominantProb) continue;
+             progression[i] = chromaticPredominants[Math.floor(rng() * chromaticPredominants.length)];
+             i++; // Keep the dominant it leads to
+         }
+     }
+
+     // --- Modal Mixture ---
+     // Borrow from the parallel minor in major keys, or end a minor-key progression on a Picardy third.
+     const mixtureProbability = Math.max(0, Math.min(1, options.mixtureProbability ?? 0));
+     if (mixtureProbability > 0) {
+         if (isMajor) {
+             const borrowedChords: Record<string, string> = { IV: 'iv', ii: 'ii°', iii: 'bIII', vi: 'bVI', 'vii°': 'bVII' };
+             for (let i = 1; i < numMeasures - 1; i++) {
+                 const borrowed = borrowedChords[progression[i]];
+                 // Leave targets of applied chords, the pivot chord of a modulation and cadences alone
+                 if (borrowed && !progression[i - 1].includes('/') && i !== pivotIndex && !cadenceIndices.has(i) && rng() < mixtureProbability) progression[i] = borrowed;
+             }
+         } else if (numMeasures > 1 && pivotIndex < 0 && progression[numMeasures - 1] === tonicRoman && rng() < mixtureProbability) {
+             progression[numMeasures - 1] = 'I';
+         }
+     }
+
     console.info(`[INFO] Generated Progression (${key}, complexity ${harmonicComplexity}): ${progression.join(' | ')}`);
     return progression;
 }
\ No newline at end of file
@@ -0,0 +1,215 @@
+// src/progressionPattern.ts
+import { InvalidInputError } from './errors';
+import { getAllowedChords } from './progression';
+import { getChordInfoFromRoman, getKeyDetails } from './theory/harmony';
+import {
+  ChordProgressionOptions,
+  HarmonicFunction,
+  ProgressionSlot,
+  RandomSource,
+} from './types';
+
+/** Function of each diatonic Roman numeral, by its upper-case numeral. */
+const NUMERAL_FUNCTIONS: Record<string, HarmonicFunction> = {
+  I: 'T',
+  II: 'S',
+  III: 'T',
+  IV: 'S',
+  V: 'D',
+  VI: 'T',
+  VII: 'D',
+};
+/** Functions a chord of each function usually moves to, preferred when filling slots. */
+const PREFERRED_NEXT_FUNCTIONS: Record<HarmonicFunction, HarmonicFunction[]> = {
+  T: ['S', 'D'],
+  S: ['D'],
+  D: ['T'],
+};
+
+/**
+ * Returns the harmonic function of a Roman numeral in its key: I, iii and vi (III and VI in
+ * minor) are tonic, ii and IV and the chromatic predominants (N6, augmented sixths) are
+ * predominant, and V and vii° are dominant, whatever their figures. Returns `null` for chords
+ * without a function in the key, such as applied, borrowed or key-prefixed chords.
+ */
+export function getHarmonicFunction(roman: string): HarmonicFunction | null {
+  if (/^(?:N|bII)6?$/.test(roman) || /^(It|Fr|Ger)/.test(roman)) return 'S';
+  if (roman.includes('/') || roman.includes(':')) return null;
+  const numeralMatch = roman.match(/^([iv]+|[IV]+)/);
+  return numeralMatch
+    ? (NUMERAL_FUNCTIONS[numeralMatch[1].toUpperCase()] ?? null)
+    : null;
+}
+
+/**
+ * Parses a progression pattern such as "I ? ? V | ? ? V7 I": one chord per whitespace-separated
+ * slot, each a Roman numeral that must be used as written, "?" for any chord or "T", "S" or "D"
+ * for any tonic, predominant or dominant chord. Bar lines ("|") only group the slots for
+ * readability.
+ *
+ * @param {string} pattern - The pattern.
+ * @returns {ProgressionSlot[]} One slot per chord.
+ * @throws {InvalidInputError} If the pattern has no slots.
+ */
+export function parseProgressionPattern(pattern: string): ProgressionSlot[] {
+  const tokens = pattern.split(/[\s|]+/).filter((token) => token !== '');
+  if (tokens.length === 0)
+    throw new InvalidInputError(
+      'parseProgressionPattern: The pattern has no chords.',
+    );
+  return tokens.map((token): ProgressionSlot => {
+    if (token === '?') return { kind: 'any' };
+    if (token === 'T' || token === 'S' || token === 'D')
+      return { kind: 'function', function: token };
+    return { kind: 'fixed', roman: token };
+  });
+}
+
+/** Writes a slot the way it appears in a pattern. */
+function formatSlot(slot: ProgressionSlot): string {
+  if (slot.kind === 'fixed') return slot.roman;
+  return slot.kind === 'function' ? slot.function : '?';
+}
+
+/**
+ * Fills the open slots of a progression pattern with chords allowed at the harmonic complexity
+ * (see `generateChordProgression`) so that every move into or out of a filled slot is
+ * functionally valid: a dominant never moves to a predominant. Moves between two fixed chords are
+ * kept as written. Within those rules, filled chords favour the usual T-S-D-T order, a tonic
+ * opening and leading into the next fixed chord, and avoid repeating the previous chord.
+ *
+ * @param {string | ProgressionSlot[]} pattern - The pattern (see `parseProgressionPattern`) or its slots.
+ * @param {string} key - The key (e.g., "C", "Am").
+ * @param {number} harmonicComplexity - Harmonic complexity 0-10, deciding the chords of open slots.
+ * @param {RandomSource} [rng=Math.random] - Random source for the filled chords.
+ * @param {Pick<ChordProgressionOptions, 'model'>} [options={}] - A progression model weighting the
+ *        filled chords in place of the built-in preferences.
+ * @returns {string[]} One Roman numeral per slot.
+ * @throws {InvalidInputError} If the pattern or key is not valid, a fixed chord is not a Roman
+ *         numeral, or no chord can fill a slot without breaking the functional rules.
+ */
+export function solveProgressionPattern(
+  pattern: string | ProgressionSlot[],
+  key: string,
+  harmonicComplexity: number,
+  rng: RandomSource = Math.random,
+  options: Pick<ChordProgressionOptions, 'model'> = {},
+): string[] {
+  const slots =
+    typeof pattern === 'string' ? parseProgressionPattern(pattern) : pattern;
+  if (slots.length === 0)
+    throw new InvalidInputError(
+      'solveProgressionPattern: The pattern has no chords.',
+    );
+  const isMajor = getKeyDetails(key).type === 'major'; // Throws InvalidInputError for unknown keys
+  const allowedChords = getAllowedChords(
+    isMajor,
+    Math.max(0, Math.min(10, harmonicComplexity)),
+  );
+
+  const candidates = slots.map((slot, i) => {
+    if (slot.kind === 'any') return allowedChords;
+    if (slot.kind === 'function')
+      return allowedChords.filter(
+        (chord) => getHarmonicFunction(chord) === slot.function,
+      );
+    try {
+      getChordInfoFromRoman(slot.roman, key);
+    } catch {
+      throw new InvalidInputError(
+        `solveProgressionPattern: Slot ${i + 1} ("${slot.roman}") is not a Roman numeral in ${key}.`,
+      );
+    }
+    return [slot.roman];
+  });
+  const canMove = (i: number, from: string, to: string) =>
+    (slots[i].kind === 'fixed' && slots[i + 1].kind === 'fixed') ||
+    getHarmonicFunction(from) !== 'D' ||
+    getHarmonicFunction(to) !== 'S';
+
+  // Keep only the chords of each slot from which the rest of the pattern can still be filled
+  const feasible: string[][] = [];
+  feasible[slots.length - 1] = candidates[slots.length - 1];
+  for (let i = slots.length - 2; i >= 0; i--) {
+    feasible[i] = candidates[i].filter((chord) =>
+      feasible[i + 1].some((next) => canMove(i, chord, next)),
+    );
+    if (feasible[i].length === 0)
+      throw new InvalidInputError(
+        `solveProgressionPattern: No chord for slot ${i + 1} ("${formatSlot(slots[i])}") can move to slot ${i + 2} ("${formatSlot(slots[i + 1])}") in ${key}; a dominant cannot move to a predominant.`,
+      );
+  }
+
+  const progression: string[] = [];
+  slots.forEach((slot, i) => {
+    if (slot.kind === 'fixed') {
+      progression.push(slot.roman);
+      return;
+    }
+    const previous = i > 0 ? progression[i - 1] : null;
+    const choices = feasible[i].filter(
+      (chord) => previous === null || canMove(i - 1, previous, chord),
+    );
+    const nextSlot = slots[i + 1];
+    const weights = getFillWeights(
+      choices,
+      progression,
+      nextSlot?.kind === 'fixed' ? nextSlot.roman : null,
+      options,
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let remaining = rng() * total;
+    const index = weights.findIndex((weight) => (remaining -= weight) < 0);
+    progression.push(choices[index < 0 ? choices.length - 1 : index]);
+  });
+  return progression;
+}
+
+/**
+ * Weights of the chords that may fill a slot: the model's weights for the history (matching
+ * chords by numeral, ignoring figures) when it suggests any of them, otherwise the built-in
+ * preferences.
+ */
+function getFillWeights(
+  chords: string[],
+  history: string[],
+  nextFixedChord: string | null,
+  options: Pick<ChordProgressionOptions, 'model'>,
+): number[] {
+  const stripFigures = (roman: string) => roman.replace(/\d+$/, '');
+  const modelWeights = options.model?.getNextChordWeights(history);
+  if (modelWeights) {
+    const weights = chords.map((chord) =>
+      Object.keys(modelWeights)
+        .filter((c) => stripFigures(c) === stripFigures(chord))
+        .reduce((sum, c) => sum + Math.max(0, modelWeights[c]), 0),
+    );
+    if (weights.some((weight) => weight > 0)) return weights;
+  }
+
+  const previous = history.length > 0 ? history[history.length - 1] : null;
+  const previousFunction = previous ? getHarmonicFunction(previous) : null;
+  const nextFunction = nextFixedChord
+    ? getHarmonicFunction(nextFixedChord)
+    : null;
+  return chords.map((chord) => {
+    const chordFunction = getHarmonicFunction(chord);
+    let weight = 1;
+    if (
+      previous === null
+        ? chordFunction === 'T'
+        : previousFunction &&
+          chordFunction &&
+          PREFERRED_NEXT_FUNCTIONS[previousFunction].includes(chordFunction)
+    )
+      weight *= 3;
+    if (
+      nextFunction &&
+      chordFunction &&
+      PREFERRED_NEXT_FUNCTIONS[chordFunction].includes(nextFunction)
+    )
+      weight *= 3;
+    if (chord === previous) weight *= 0.2;
+    return weight;
+  });
+}
@@ -0,0 +1,66 @@
+// src/random.ts
+import { RandomSource } from './types';
+
+/**
+ * The largest seed value (exclusive) produced by {@link generateSeed}.
+ * Seeds are treated as unsigned 32-bit integers internally.
+ */
+const SEED_SPACE = 0x100000000;
+
+/**
+ * Creates a deterministic pseudo-random number generator (Mulberry32) from a numeric seed.
+ * The returned function behaves like `Math.random`: each call yields a float in [0, 1).
+ * Two generators created from the same seed produce the same sequence, which allows a
+ * generated piece to be reproduced exactly.
+ *
+ * @param {number} seed - Any finite number. Non-integer values are truncated and the
+ *                        result is reduced to an unsigned 32-bit integer.
+ * @returns {RandomSource} A seeded random source.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = normalizeSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / SEED_SPACE;
+  };
+}
+
+/**
+ * Produces a fresh seed from `Math.random`. Used when the caller does not supply one,
+ * so that every generated piece still records a seed it can be regenerated from.
+ *
+ * @returns {number} An unsigned 32-bit integer seed.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * SEED_SPACE);
+}
+
+/**
+ * Reduces an arbitrary number to the unsigned 32-bit integer form used as PRNG state.
+ *
+ * @param {number} seed - The seed to normalize.
+ * @returns {number} The normalized seed.
+ */
+export function normalizeSeed(seed: number): number {
+  if (!Number.isFinite(seed)) return 0;
+  return Math.trunc(seed) >>> 0;
+}
+
+/**
+ * Returns the seed to use for a generation run together with a random source built from it.
+ * If no seed is given a new one is generated.
+ *
+ * @param {number} [seed] - Optional caller-provided seed.
+ * @returns {{ seed: number; rng: RandomSource }} The effective seed and its random source.
+ */
+export function resolveRandomSource(seed?: number): {
+  seed: number;
+  rng: RandomSource;
+} {
+  const effectiveSeed =
+    seed === undefined || seed === null ? generateSeed() : normalizeSeed(seed);
+  return { seed: effectiveSeed, rng: createSeededRandom(effectiveSeed) };
+}
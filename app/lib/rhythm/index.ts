@@ -1,12 +1,14 @@
 // Unified rhythm utilities combining simple factor pattern and note-value generation.
 import Fraction from 'fraction.js';
 import { InvalidInputError, GenerationError } from '../errors';
-import { TimingInfo } from '../types';
+import { RandomSource, TimingInfo, Tuplet } from '../types';
 
-// Returns fractional beat factors for a measure based on complexity (lightweight pattern)
+// Returns fractional beat factors for a measure based on complexity (lightweight pattern).
+// Additive meters (timing.beatGroups, e.g. 3+2+2/8) get one note per beat group or one per beat.
 export function generateBeatFactorPattern(
   timing: TimingInfo,
   complexity = 3,
+  rng: RandomSource = Math.random,
 ): number[] {
   // Clamp complexity to the valid range of 1-10 to ensure meaningful subdivisionChance values.
   const clampedComplexity = Math.max(1, Math.min(10, complexity));
@@ -17,13 +19,21 @@ export function generateBeatFactorPattern(
     0.05,
     Math.min(0.95, clampedComplexity / 10),
   );
-  const beatPatterns: [number, number[]][] = [
-    [1 - subdivisionChance, [1]],
-    [subdivisionChance, [0.5, 0.5]],
-  ];
-  for (let b = 0; b < meterBeats && acc < measureDurationTicks; b++) {
+  const groups = timing.beatGroups ?? Array(meterBeats).fill(1);
+  for (let g = 0; g < groups.length && acc < measureDurationTicks; g++) {
+    const groupBeats = groups[g];
+    const beatPatterns: [number, number[]][] =
+      groupBeats === 1
+        ? [
+            [1 - subdivisionChance, [1]],
+            [subdivisionChance, [0.5, 0.5]],
+          ]
+        : [
+            [1 - subdivisionChance, [groupBeats]],
+            [subdivisionChance, Array(groupBeats).fill(1)],
+          ];
     const remaining = measureDurationTicks - acc;
-    const maxThisBeat = Math.min(beatDurationTicks, remaining);
+    const maxThisBeat = Math.min(groupBeats * beatDurationTicks, remaining);
     const applicable = beatPatterns.filter(
       (p) =>
         p[1].reduce((s, f) => s + f, 0) * beatDurationTicks <=
@@ -34,7 +44,7 @@ export function generateBeatFactorPattern(
       : [maxThisBeat / beatDurationTicks];
     if (applicable.length) {
       const total = applicable.reduce((s, p) => s + p[0], 0);
-      let roll = Math.random() * total;
+      let roll = rng() * total;
       for (const p of applicable) {
         roll -= p[0];
         if (roll <= 0) {
@@ -55,6 +65,7 @@ type NoteValuesMap = Record<number, Fraction>;
 export function generateNoteValueSequence(
   meter: string,
   complexity: number,
+  rng: RandomSource = Math.random,
 ): number[] {
   if (complexity < 1 || complexity > 10 || !Number.isInteger(complexity)) {
     throw new InvalidInputError(
@@ -129,14 +140,14 @@ export function generateNoteValueSequence(
 
     // If no items have a positive weight, fall back to random unweighted selection from all possible notes.
     if (weightedItems.length === 0) {
-      return possible[Math.floor(Math.random() * possible.length)];
+      return possible[Math.floor(rng() * possible.length)];
     }
 
     const totalWeight = weightedItems.reduce(
       (sum, item) => sum + item.weight,
       0,
     );
-    let roll = Math.random() * totalWeight;
+    let roll = rng() * totalWeight;
 
     for (const item of weightedItems) {
       roll -= item.weight;
@@ -182,30 +193,85 @@ export function factorsToDurations(
 //  - Support a wide range of simple, compound, and asymmetrical meters.
 // References (principles distilled from):
 //  https://musictheory.pugetsound.edu/mt21c/CommonRhythmicNotationErrors.html
-// Denominator whitelist for meter parsing. Values 2,4,8 currently have supported
-// numerator sets (see ALLOWED_NUMS_BY_DENOM). Entries 1,16,32 are intentional
-// placeholders for future extension (e.g., whole-note, 1/16, or 1/32 based
-// meters) and presently map to an empty numerator array, causing any meter
-// using them to be rejected as "unsupported or uncommon". Adjust ALLOWED_NUMS_BY_DENOM
-// to activate them in the future.
+// Denominator whitelist for meter parsing. Values 1,2,4,8,16 have supported
+// numerator sets (see ALLOWED_NUMS_BY_DENOM); whole-, half- and sixteenth-note meters
+// are written like the x/4 or x/8 meter with the same beats (see getNoteValueScale).
+// Entry 32 is a placeholder for future extension and maps to an empty numerator
+// array, causing any meter using it to be rejected as "unsupported or uncommon".
 const ALLOWED_DENOMS = [1, 2, 4, 8, 16, 32] as const;
 type AllowedDenom = (typeof ALLOWED_DENOMS)[number];
 
 // Exported for tests and reuse: allowed numerators by denominator.
 // Denominators without supported numerators are mapped to an empty array (invalid in current engine).
 export const ALLOWED_NUMS_BY_DENOM: Record<AllowedDenom, number[]> = {
-  1: [],
-  2: [2],
+  1: [3],
+  2: [2, 3, 4],
   4: [2, 3, 4, 5, 7],
   8: [3, 5, 6, 7, 9, 12],
-  16: [],
+  16: [3, 6, 9, 12],
   32: [],
 };
 
+// Additive meters (e.g. 3+2+2/8) are accepted over these denominators with groups of these sizes.
+const ADDITIVE_DENOMS = [4, 8];
+const ADDITIVE_GROUP_SIZES = [2, 3];
+
+/**
+ * Factor turning the note values of an x/4 or x/8 meter into those of the meter with the same
+ * beats over `denominator`: 1/2 for half-note beats (2/2 and 3/2 are written like 2/4 and 3/4
+ * with every note twice as long), 1/4 for whole-note beats (3/1 like 3/4) and 2 for
+ * sixteenth-note beats (6/16 like 6/8 with every note half as long). 1 for meters over 4 and 8.
+ */
+function getNoteValueScale(denominator: number): number {
+  if (denominator < 4) return denominator / 4;
+  if (denominator > 8) return denominator / 8;
+  return 1;
+}
+
 // Represents a musical event; negative number for rest denominator, positive for note.
+// Tuplet notes use the denominator of their sounding length (see getTuplet): 12 for triplet
+// eighths, 24 for triplet sixteenths, 20 for quintuplet sixteenths and 16/3 for duplet eighths.
 type RhythmicEvent = number;
 
-interface GroupingPlan {
+/** Length of a rhythmic event as a fraction of a whole note (exact for tuplets such as 16/3). */
+function getEventDuration(event: RhythmicEvent): Fraction {
+  return new Fraction(1).div(Math.abs(event));
+}
+
+/** `true` if `n` is (within rounding) a whole power of two. */
+function isPowerOfTwo(n: number): boolean {
+  const rounded = Math.round(n);
+  return (
+    Math.abs(n - rounded) < 1e-9 &&
+    rounded > 0 &&
+    (rounded & (rounded - 1)) === 0
+  );
+}
+
+/**
+ * Returns the tuplet a rhythmic event belongs to, from the factor its denominator has beyond a
+ * power of two: triplets (3 in the time of 2) for multiples of 3 such as 12 (triplet eighths),
+ * quintuplets (5 in the time of 4) for multiples of 5 such as 20 (quintuplet sixteenths) and
+ * duplets (2 in the time of 3) for thirds such as 16/3 (duplet eighths in compound meters, each
+ * lasting a dotted eighth). Generated rhythms have no dotted notes, so these values are always
+ * tuplets there.
+ *
+ * @param event A (possibly signed) rhythmic event of `generateRhythm`.
+ * @returns The tuplet ratio, or `null` for plain note values.
+ */
+export function getTuplet(event: RhythmicEvent): Tuplet | null {
+  const denominator = Math.abs(event);
+  if (isPowerOfTwo(denominator)) return null;
+  if (isPowerOfTwo((denominator * 2) / 3))
+    return { actualNotes: 3, normalNotes: 2 };
+  if (isPowerOfTwo((denominator * 4) / 5))
+    return { actualNotes: 5, normalNotes: 4 };
+  if (isPowerOfTwo((denominator * 3) / 2))
+    return { actualNotes: 2, normalNotes: 3 };
+  return null;
+}
+
+export interface GroupingPlan {
   // Each number is expressed in base units of 1/denominator (e.g. for 4/4 with den=4, a quarter = 1, for 6/8 with den=8, an eighth =1).
   groups: number[];
   baseUnit: Fraction; // 1 / meterDenominator
@@ -215,14 +281,16 @@ interface GroupingPlan {
 /**
  * Generates a low-complexity rhythm for simple meters (complexity 1-4) at the measure level.
  * Used in generateRhythm
- * No rests are produced in this path. Throws GenerationError on unfillable remainders
- * or post-sum mismatch.
+ * No rests are produced in this path. Up to complexity 3 off-beat notes end by the next beat;
+ * at complexity 4 they may cross it (syncopation, written with ties where needed).
+ * Throws GenerationError on unfillable remainders or post-sum mismatch.
  */
 export function generateLowComplexityRhythm(
   num: number,
   den: number,
   complexity: number,
   meter: string,
+  rng: RandomSource = Math.random,
 ): RhythmicEvent[] {
   const target = new Fraction(num, den); // total measure length
   const events: RhythmicEvent[] = [];
@@ -284,7 +352,7 @@ export function generateLowComplexityRhythm(
     // Collect viable denominators
     let viable = allowed.filter((d) => {
       if (!fitsWholeNote(d, position, remaining)) return false;
-      if (complexity <= 4 && !isOnBeatBoundary) {
+      if (complexity <= 3 && !isOnBeatBoundary) {
         // Event length in base units (1/den units)
         const eventUnits = new Fraction(den, d);
         // Off-beat events must end before or exactly at next boundary
@@ -295,7 +363,8 @@ export function generateLowComplexityRhythm(
     if (!viable.length) {
       // Robust fallback: iterate allowed from shortest duration to longest and pick one that fits the remaining duration.
       // We relax the off-beat boundary rule here to guarantee progress and avoid deadlocks.
-      const sorted = [...allowed].sort((a, b) => b - a); // e.g., [8,4,2,1]
+      // The meter's base unit comes last, for remainders shorter than any allowed value (e.g., an eighth in 3/8).
+      const sorted = [...allowed, den].sort((a, b) => b - a); // e.g., [8,8,4,2,1]
       const candidate = sorted.find(
         (d) => new Fraction(1, d).compare(remaining) <= 0,
       );
@@ -336,7 +405,7 @@ export function generateLowComplexityRhythm(
       return { d, w };
     });
     const total = weighted.reduce((s, x) => s + x.w, 0);
-    let roll = Math.random() * total;
+    let roll = rng() * total;
     let chosen = weighted[0].d;
     for (const entry of weighted) {
       roll -= entry.w;
@@ -362,10 +431,62 @@ export function generateLowComplexityRhythm(
   return events; // (No rests for low complexities per requirement.)
 }
 
+/**
+ * Merges the off-beat last note of a beat group with an equal note opening the next group into
+ * one note across the beat, e.g., [8, 8, 8, 8] in 2/4 into [8, 4, 8]. Each such pair is merged
+ * with the given probability; rests, tuplet notes and on-beat notes are left alone.
+ */
+function addSyncopations(
+  events: RhythmicEvent[],
+  groups: number[],
+  baseUnit: Fraction,
+  probability: number,
+  rng: RandomSource,
+): RhythmicEvent[] {
+  const boundaries: Fraction[] = [];
+  groups.reduce((end, units) => {
+    const next = end.add(baseUnit.mul(units));
+    boundaries.push(next);
+    return next;
+  }, new Fraction(0));
+  const isBoundary = (position: Fraction) =>
+    position.equals(0) || boundaries.some((b) => b.equals(position));
+
+  const result: RhythmicEvent[] = [];
+  let position = new Fraction(0);
+  for (let i = 0; i < events.length; i++) {
+    const d = events[i];
+    const start = position;
+    position = position.add(getEventDuration(d));
+    if (
+      d > 0 &&
+      d % 2 === 0 &&
+      getTuplet(d) === null &&
+      events[i + 1] === d &&
+      !isBoundary(start) &&
+      isBoundary(position) &&
+      rng() < probability
+    ) {
+      result.push(d / 2);
+      position = position.add(new Fraction(1, d));
+      i++;
+      continue;
+    }
+    result.push(d);
+  }
+  return result;
+}
+
 // --- Rhythmic Cell Library ---
 // A library of common, natural-sounding rhythmic patterns for different beat types.
 // Each cell is an array of denominators that fills a single beat.
 // E.g., for a simple beat (quarter note), a cell could be [4] or [8, 8].
+// Cells are written for quarter (simple) and dotted-quarter (compound) beats; meters over
+// 1, 2 and 16 use them with every value scaled (see getNoteValueScale), e.g., [4, 4] for
+// [8, 8] in 3/2 or [16, 16, 16] for [8, 8, 8] in 6/16.
+// From complexity 8 (simple beats) and 4 (compound beats) cells may hold tuplets (see getTuplet),
+// e.g., triplet eighths [12, 12, 12] in a quarter or duplet eighths [16 / 3, 16 / 3] in a dotted quarter.
+// A tuplet in a cell starts with its longest value so that its bracket spans the whole beat.
 const RHYTHMIC_CELLS: Record<
   'simple' | 'compound',
   Record<number, RhythmicEvent[][][]>
@@ -397,21 +518,28 @@ const RHYTHMIC_CELLS: Record<
       [[-4]],
       [[16, 16, 8]],
       [[16, 8, 16]],
-    ], // Syncopation and rests
+      [[12, 12, 12]],
+    ], // Syncopation, rests and triplets
     9: [
       [[16, 16, 16, 16]],
       [[8, 16, 16]],
       [[16, 16, 8]],
       [[-8, 16, 16]],
       [[16, 8, 16]],
-    ], // Higher complexity
+      [[12, 12, 12]],
+      [[8, 24, 24, 24]],
+    ], // Higher complexity, triplet sixteenths
     10: [
-      // Level 10 currently mirrors level 9; can be extended with more syncopated or rest-heavy patterns later.
+      // Level 9 plus triplets starting with a rest and quintuplets
       [[16, 16, 16, 16]],
       [[8, 16, 16]],
       [[16, 16, 8]],
       [[-8, 16, 16]],
       [[16, 8, 16]],
+      [[12, 12, 12]],
+      [[-12, 12, 12]],
+      [[8, 24, 24, 24]],
+      [[20, 20, 20, 20, 20]],
     ],
   },
   compound: {
@@ -430,12 +558,63 @@ const RHYTHMIC_CELLS: Record<
       [[8, 16, 16, 16, 16]],
       [[16, 16, 8, 16, 16]],
       [[-8, 8, 8]],
-    ],
+      [[16 / 3, 16 / 3]],
+    ], // + Duplets
     5: [
       [[16, 16, 16, 16, 16, 16]],
       [[8, 16, 16, 16, 16]],
       [[16, 16, 16, 16, 8]],
       [[16, 16, 8, 16, 16]],
+      [[16 / 3, 16 / 3]],
+    ],
+    6: [
+      [[8, 8, 8]],
+      [[16, 16, 16, 16, 16, 16]],
+      [[8, 16, 16, 16, 16]],
+      [[16, 16, 16, 16, 8]],
+      [[-8, 8, 8]],
+      [[8, -8, 8]],
+      [[16 / 3, 16 / 3]],
+    ], // + Rests within the beat
+    7: [
+      [[16, 16, 16, 16, 16, 16]],
+      [[8, 16, 16, 16, 16]],
+      [[16, 16, 8, 16, 16]],
+      [[8, 8, 16, 16]],
+      [[16, 8, 16, 8]],
+      [[-8, 16, 16, 8]],
+      [[16 / 3, 16 / 3]],
+    ], // + Syncopation
+    8: [
+      [[16, 16, 16, 16, 16, 16]],
+      [[8, 16, 16, 16, 16]],
+      [[16, 16, 16, 16, 8]],
+      [[16, 8, 16, 8]],
+      [[-16, 16, 16, 16, 8]],
+      [[16 / 3, 16 / 3]],
+      [[-16 / 3, 16 / 3]],
+    ], // + Duplets starting with a rest
+    9: [
+      [[16, 16, 16, 16, 16, 16]],
+      [[8, 16, 16, 16, 16]],
+      [[16, 16, 8, 16, 16]],
+      [[16, 8, 16, 8]],
+      [[-16, 16, 16, 16, 16, 16]],
+      [[16 / 3, 16 / 3]],
+      [[16 / 3, 32 / 3, 32 / 3]],
+    ], // + Duplet sixteenths
+    10: [
+      // Level 9 plus syncopated sixteenths and duplets starting with a rest
+      [[16, 16, 16, 16, 16, 16]],
+      [[8, 16, 16, 16, 16]],
+      [[16, 16, 8, 16, 16]],
+      [[16, 8, 16, 8]],
+      [[16, 8, 8, 16]],
+      [[-16, 16, 16, 16, 16, 16]],
+      [[16 / 3, 16 / 3]],
+      [[-16 / 3, 16 / 3]],
+      [[16 / 3, 32 / 3, 32 / 3]],
+      [[-16 / 3, 32 / 3, 32 / 3]],
     ],
   },
 };
@@ -445,34 +624,50 @@ const RHYTHMIC_CELLS: Record<
  * classifies the beat type (simple vs compound) used later for rhythmic cell selection.
  *
  * Grouping rules:
- *  - Compound meters with an 8 denominator and numerator 6,9,12 are grouped into equal
- *    dotted-quarter units (arrays of 3 underlying eighth units).
+ *  - Compound meters with an 8 or 16 denominator and numerator 6,9,12 are grouped into equal
+ *    dotted-quarter (dotted-eighth) units (arrays of 3 underlying eighth or sixteenth units).
  *  - Asymmetrical / additive meters (5/4, 7/4, 5/8, 7/8) are mapped to common conducting
  *    patterns (e.g. 5/4 -> 3+2, 7/8 -> 2+2+3). These are treated as simple beat groups.
  *  - All other supported simple meters produce one group per notated beat (quarter in x/4,
- *    half in 2/2) by setting groupSize = 1 (each base unit = 1/denominator fraction).
+ *    half in x/2, whole in 3/1) by setting groupSize = 1 (each base unit = 1/denominator
+ *    fraction). 3/8 and 3/16 form a single group of three units.
+ *  - Meters written with additive beats (e.g. "3+2+2/8") keep the groups they are written with.
  *
  * The returned `groups` array lists how many base units belong to each higher-level beat group.
  * For example:
  *  - 4/4 -> baseUnit = 1/4, groups = [1,1,1,1]
  *  - 6/8 -> baseUnit = 1/8, groups = [3,3]
+ *  - 6/16 -> baseUnit = 1/16, groups = [3,3]
+ *  - 3/2 -> baseUnit = 1/2, groups = [1,1,1]
  *  - 7/8 -> baseUnit = 1/8, groups = [2,2,3]
  *  - 5/4 -> baseUnit = 1/4, groups = [3,2]
+ *  - 3+2+2/8 -> baseUnit = 1/8, groups = [3,2,2]
  *
  * @param numerator The top number of the time signature.
  * @param denominator The bottom number of the time signature.
+ * @param additiveGroups The written beat groups of an additive meter, if any.
  * @returns An object containing:
  *  - groups: number[] of group lengths in base units
  *  - baseUnit: Fraction representing the underlying smallest written unit (1/denominator)
  *  - beatType: 'simple' | 'compound' classification used for rhythmic cell selection.
+ *
+ * Also used by the MusicXML writers to beam notes by beat group (see `getBeamGroupTicks`).
  */
-function getGroupingPlan(numerator: number, denominator: number): GroupingPlan {
+export function getGroupingPlan(
+  numerator: number,
+  denominator: number,
+  additiveGroups?: number[],
+): GroupingPlan {
   const baseUnit = new Fraction(1, denominator); // Base unit is 1/denominator (e.g. quarter note in 4/4, eighth in 6/8)
+  if (additiveGroups && additiveGroups.length > 1)
+    return { groups: additiveGroups.slice(), baseUnit, beatType: 'simple' };
   const beatType =
-    [6, 9, 12].includes(numerator) && denominator === 8 ? 'compound' : 'simple'; // Determine compound or simple meter
+    [6, 9, 12].includes(numerator) && (denominator === 8 || denominator === 16)
+      ? 'compound'
+      : 'simple'; // Determine compound or simple meter
 
   // Irregular / compound heuristics
-  if (denominator === 8) {
+  if (denominator === 8 || denominator === 16) {
     if (numerator === 6) return { groups: [3, 3], baseUnit, beatType };
     if (numerator === 9) return { groups: [3, 3, 3], baseUnit, beatType };
     if (numerator === 12) return { groups: [3, 3, 3, 3], baseUnit, beatType };
@@ -489,7 +684,7 @@ function getGroupingPlan(numerator: number, denominator: number): GroupingPlan {
       return { groups: [3, 2, 2], baseUnit, beatType: 'simple' };
   }
   // Simple meters: each beat is its own group.
-  // For 2/2, each beat is a half note (group size 1, base unit 1/2).
+  // For x/2, each beat is a half note (group size 1, base unit 1/2); for 3/1, a whole note.
   // For x/4, each beat is a quarter note (group size 1, base unit 1/4).
   const groupSize = 1;
   return {
@@ -509,25 +704,33 @@ function getGroupingPlan(numerator: number, denominator: number): GroupingPlan {
  *    rhythmic value generation.
  *  - Only a curated list of numerators per denominator is accepted to limit
  *    generation to commonly used simple / compound / additive meters supported
- *    by the current rhythm engine (e.g. 5/4, 7/8 are allowed; 13/8 is rejected).
+ *    by the current rhythm engine (e.g. 5/4, 7/8, 3/2, 6/16 are allowed; 13/8
+ *    and 5/2 are rejected).
+ *  - Additive numerators (e.g. '3+2+2/8') are accepted with a 4 or 8 denominator
+ *    when every group holds 2 or 3 base units (see ADDITIVE_GROUP_SIZES).
  *
  * On failure an InvalidInputError is thrown describing the issue.
- * On success returns the numeric numerator & denominator.
+ * On success returns the numeric numerator & denominator, and the groups of an
+ * additive numerator.
  *
- * @param meter Time signature string (e.g. '3/4').
- * @returns Parsed { num, den } object.
+ * @param meter Time signature string (e.g. '3/4', '3+2+2/8').
+ * @returns Parsed { num, den, groups? } object.
  * @throws InvalidInputError if malformed or unsupported.
  */
-function validateMeter(meter: string): { num: number; den: number } {
+function validateMeter(meter: string): {
+  num: number;
+  den: number;
+  groups?: number[];
+} {
   const parts = meter.split('/');
   if (parts.length !== 2)
     throw new InvalidInputError(`Invalid meter '${meter}'.`);
-  const num = parseInt(parts[0], 10);
+  const groups = parts[0].split('+').map((group) => parseInt(group, 10));
+  const num = groups.reduce((sum, group) => sum + group, 0);
   const den = parseInt(parts[1], 10);
   if (
-    !Number.isInteger(num) ||
+    groups.some((group) => !Number.isInteger(group) || group <= 0) ||
     !Number.isInteger(den) ||
-    num <= 0 ||
     den <= 0
   ) {
     throw new InvalidInputError(`Invalid meter numbers in '${meter}'.`);
@@ -535,6 +738,17 @@ function validateMeter(meter: string): { num: number; den: number } {
   if (!ALLOWED_DENOMS.includes(den as AllowedDenom)) {
     throw new InvalidInputError(`Unsupported denominator in '${meter}'.`);
   }
+  if (groups.length > 1) {
+    if (
+      !ADDITIVE_DENOMS.includes(den) ||
+      groups.some((group) => !ADDITIVE_GROUP_SIZES.includes(group))
+    ) {
+      throw new InvalidInputError(
+        `Unsupported additive meter '${meter}'. Groups must hold ${ADDITIVE_GROUP_SIZES.join(' or ')} beats over ${ADDITIVE_DENOMS.join(' or ')}.`,
+      );
+    }
+    return { num, den, groups };
+  }
   const allowedNums = ALLOWED_NUMS_BY_DENOM[den as AllowedDenom] ?? [];
   if (!allowedNums.includes(num)) {
     throw new InvalidInputError(`Unsupported or uncommon meter '${meter}'.`);
@@ -543,7 +757,11 @@ function validateMeter(meter: string): { num: number; den: number } {
 }
 
 // Pick one element by weight
-function weightedPick<T>(items: T[], weights: number[]): T {
+function weightedPick<T>(
+  items: T[],
+  weights: number[],
+  rng: RandomSource = Math.random,
+): T {
   // Validate inputs
   if (!Array.isArray(items) || !Array.isArray(weights)) {
     throw new TypeError('weightedPick expects arrays for items and weights');
@@ -571,7 +789,7 @@ function weightedPick<T>(items: T[], weights: number[]): T {
   if (total <= 0) {
     throw new RangeError('weightedPick requires at least one positive weight');
   }
-  let roll = Math.random() * total;
+  let roll = rng() * total;
   for (let i = 0; i < items.length; i++) {
     roll -= weights[i];
     if (roll <= 0) return items[i];
@@ -600,20 +818,33 @@ function weightedPick<T>(items: T[], weights: number[]): T {
  *  - Complexity 2: Uses the same note set as level 1 but favors quarters. No rests.
  *  - Complexity 3: Introduces eighth notes. No rests.
  *  - Complexity 4: Increases the frequency of eighth notes. No rests.
- *  - For levels 1-4, it prevents syncopation by ensuring off-beat notes do not cross beat boundaries.
+ *  - For levels 1-3, it prevents syncopation by ensuring off-beat notes do not cross beat boundaries;
+ *    level 4 lets them cross (e.g., eighth, quarter, eighth), which the MusicXML writers tie where needed.
  *
  * High-complexity behavior (or any compound meter):
  *  - For complexity 5+, or for any compound meter, rhythm is generated by assembling pre-defined rhythmic "cells".
  *  - This allows for more complex and syncopated patterns, including rests.
+ *  - From complexity 6 in simple meters, an off-beat note ending a beat may be merged with an equal
+ *    note starting the next beat into one syncopated note across the beat (more often at higher complexity).
+ *  - Tuplets: triplets from complexity 8 and quintuplets at 10 in simple meters, duplets from
+ *    complexity 4 in compound meters.
+ *
+ * Whole-, half- and sixteenth-note meters (3/1, 3/2, 4/2, 3/16, 6/16, ...) get the rhythm of the
+ * x/4 or x/8 meter with the same beats, with every note value scaled to the written beat
+ * (e.g., [2, 4, 4] in 3/2 where 3/4 has [4, 8, 8]); 0.5 stands for a breve.
  *
  * Representation:
  *  Each element in the returned array is a denominator (power-of-two) or its
  *  negative for rests. Example for 4/4: [4, 8, 8, -4] => quarter, two eighths,
- *  quarter rest.
+ *  quarter rest. Tuplet notes use the denominator of their sounding length
+ *  (e.g., [12, 12, 12] for triplet eighths); see {@link getTuplet}.
  *
  * Supported meters:
- *  A curated set validated by {@link validateMeter}: common x/4, 2/2, compound x/8
- *  (6/8, 9/8, 12/8) and additive 5/4, 7/4, 5/8, 7/8.
+ *  A curated set validated by {@link validateMeter}: common x/4, 2/2, 3/2, 4/2, 3/1,
+ *  compound x/8 and x/16 (6/8, 9/8, 12/8, 6/16), 3/8, 3/16, asymmetrical 5/4, 7/4, 5/8,
+ *  7/8 and additive signatures such as
+ *  3+2+2/8, whose cells follow the written groups. For a piece whose meter changes,
+ *  call it with each measure's meter.
  *
  * Errors:
  *  - InvalidInputError: if complexity is not an integer in [1,10] or meter is unsupported.
@@ -623,6 +854,7 @@ function weightedPick<T>(items: T[], weights: number[]): T {
  * @param meter Time signature string (e.g. "4/4", "6/8", "7/8"). Must pass
  *              validateMeter().
  * @param complexity Integer 1–10 controlling density & syncopation.
+ * @param rng Random source; pass a seeded source for reproducible rhythms.
  * @returns RhythmicEvent[] array of (possibly signed) denominators summing to one measure.
  *
  * @example
@@ -634,14 +866,24 @@ function weightedPick<T>(items: T[], weights: number[]): T {
 export function generateRhythm(
   meter: string,
   complexity: number,
+  rng: RandomSource = Math.random,
 ): RhythmicEvent[] {
   if (!Number.isInteger(complexity) || complexity < 1 || complexity > 10) {
     throw new InvalidInputError(
       `Complexity must be integer 1-10. Got ${complexity}`,
     );
   }
-  const { num, den } = validateMeter(meter);
-  const { groups, baseUnit, beatType } = getGroupingPlan(num, den);
+  const { num, den, groups: additiveGroups } = validateMeter(meter);
+  const scale = getNoteValueScale(den);
+  if (scale !== 1)
+    return generateRhythm(`${num}/${den / scale}`, complexity, rng).map(
+      (event) => event * scale,
+    );
+  const { groups, baseUnit, beatType } = getGroupingPlan(
+    num,
+    den,
+    additiveGroups,
+  );
   const result: RhythmicEvent[] = [];
 
   // -----------------------------------------------------------------------
@@ -650,11 +892,11 @@ export function generateRhythm(
   // complexity 2 => same set but favor quarters; complexity 3 => introduce a
   // small amount of eighth notes. We generate at measure level here instead of
   // beat-group cells to allow half & whole notes that span multiple beats.
-  // Additional for complexity 3: disallow off-beat durations that cross the
-  // next beat boundary (prevents syncopation that would require ties).
+  // Up to complexity 3, off-beat durations may not cross the next beat boundary
+  // (no syncopation); complexity 4 allows it, tied by the writers where needed.
   // -----------------------------------------------------------------------
   if (beatType === 'simple' && complexity <= 4) {
-    return generateLowComplexityRhythm(num, den, complexity, meter);
+    return generateLowComplexityRhythm(num, den, complexity, meter, rng);
   }
 
   const complexityLevel = Math.ceil(complexity);
@@ -668,10 +910,7 @@ export function generateRhythm(
     const validCells = cellSet.filter((cell) => {
       const cellDuration = cell
         .flat()
-        .reduce(
-          (sum, val) => sum.add(new Fraction(1, Math.abs(val))),
-          new Fraction(0),
-        );
+        .reduce((sum, val) => sum.add(getEventDuration(val)), new Fraction(0));
       return cellDuration.equals(groupDuration);
     });
 
@@ -748,13 +987,18 @@ export function generateRhythm(
       return weight;
     });
 
-    const chosenCell = weightedPick(validCells, weights);
+    const chosenCell = weightedPick(validCells, weights, rng);
     result.push(...chosenCell.flat());
   }
 
+  const syncopated =
+    beatType === 'simple' && complexity >= 6
+      ? addSyncopations(result, groups, baseUnit, (complexity - 5) * 0.1, rng)
+      : result;
+
   // Final validation
-  const sum = result.reduce(
-    (acc, d) => acc.add(new Fraction(1, Math.abs(d))),
+  const sum = syncopated.reduce(
+    (acc, d) => acc.add(getEventDuration(d)),
     new Fraction(0),
   );
   const target = new Fraction(num, den);
@@ -765,5 +1009,5 @@ export function generateRhythm(
       )} got ${sum.toFraction(true)}.`,
     );
   }
-  return result;
+  return syncopated;
 }
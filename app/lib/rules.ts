@@ -1,15 +1,28 @@
 // src/rules.ts
+import * as Tonal from 'tonal';
 import {
     PreviousNotesSATB,
     PreviousNotesMelodyAccompaniment,
     PreviousNotes,
     GenerationStyle, // Import GenerationStyle for use in checkVoiceLeadingRules
+    VoiceLeadingReport,
+    VoiceLeadingRuleId,
+    VoiceLeadingViolation,
+    ViolationSeverity,
+    VoiceLeadingContext,
+    KeyDetails,
 } from './types';
 import {
     VOICE_SPACING_LIMIT_SATB,
     MELODY_ACCOMPANIMENT_SPACING_LIMIT,
 } from './constants';
-import { midiToNoteName } from './theory/harmony';
+import { midiToNoteName, getLeadingTonePc } from './theory/harmony';
+
+/** Position of a checked event: 1-indexed measure and beat. */
+interface ViolationLocation {
+    measure: number;
+    beat: number;
+}
 
 /**
  * Checks for parallel perfect fifths and octaves between two voices moving from a previous
@@ -22,9 +35,10 @@ import { midiToNoteName } from './theory/harmony';
  * @param {number | null} voice1Curr - The MIDI note of the first voice in the current chord/event.
  * @param {number | null} voice2Prev - The MIDI note of the second voice in the previous chord/event.
  * @param {number | null} voice2Curr - The MIDI note of the second voice in the current chord/event.
- * @param {string} part1Name - The name of the first voice/part (e.g., "Soprano", "Melody").
- * @param {string} part2Name - The name of the second voice/part (e.g., "Alto", "Bass(Acc)").
- * @param {string} loc - A location string (e.g., "M1:B1") for logging where the potential parallel occurred.
+ * @param {string} part1Name - The name of the first voice/part (e.g., "soprano", "melody").
+ * @param {string} part2Name - The name of the second voice/part (e.g., "alto", "accompaniment").
+ * @param {ViolationLocation} loc - Where the motion arrives (1-indexed measure and beat).
+ * @returns {VoiceLeadingViolation | null} The parallel found, or `null` if there is none.
  */
 function checkParallels(
     voice1Prev: number | null,
@@ -33,23 +47,22 @@ function checkParallels(
     voice2Curr: number | null,
     part1Name: string,
     part2Name: string,
-    loc: string,
-): void {
+    loc: ViolationLocation,
+): VoiceLeadingViolation | null {
     // Ensure all notes are present to check for parallels
     if ([voice1Prev, voice1Curr, voice2Prev, voice2Curr].some(n => n === null)) {
-        return;
+        return null;
     }
 
     // Non-null assertion operator (!) is safe here due to the check above.
-    const v1p = voice1Prev!; 
+    const v1p = voice1Prev!;
     const v1c = voice1Curr!;
     const v2p = voice2Prev!;
     const v2c = voice2Curr!;
 
     // Skip if notes are identical (no motion)
-    if (v1p === v1c && v2p === v2c) return;
+    if (v1p === v1c && v2p === v2c) return null;
 
-    // Check for similar motion (optional, but common rule)
     // Determine direction of movement for each voice.
     const v1Direction = Math.sign(v1c - v1p);
     const v2Direction = Math.sign(v2c - v2p);
@@ -58,124 +71,385 @@ function checkParallels(
     // If either voice is static (direction 0) or they move in contrary/oblique motion,
     // it's not considered parallel motion for P5s/P8s in the traditional sense.
     if (v1Direction === 0 || v2Direction === 0 || v1Direction !== v2Direction) {
-        return;
+        return null;
     }
 
     // Calculate the interval in semitones for previous and current notes.
     const intervalPrevSemi = Math.abs(v1p - v2p);
     const intervalCurrSemi = Math.abs(v1c - v2c);
+    if (intervalPrevSemi !== intervalCurrSemi) return null;
 
-    // Check if the interval remained the same and is a perfect 5th or octave.
-    if (intervalPrevSemi === intervalCurrSemi) {
-        const isPerfectFifth = intervalPrevSemi % 12 === 7; // 7 semitones = P5
-        const isPerfectOctaveOrUnison = intervalPrevSemi % 12 === 0; // 0 semitones = P1/P8/P15...
+    const isPerfectFifth = intervalPrevSemi % 12 === 7; // 7 semitones = P5
+    // intervalPrevSemi > 0 excludes parallel unisons.
+    const isPerfectOctave = intervalPrevSemi % 12 === 0 && intervalPrevSemi > 0;
+    if (!isPerfectFifth && !isPerfectOctave) return null;
 
-        if (isPerfectFifth) {
-            console.warn(
-                `[WARN] VOICE LEADING: Parallel 5th between ${part1Name} and ${part2Name} at ${loc}. ` +
-                `Prev: ${midiToNoteName(v1p)} (${v1p})-${midiToNoteName(v2p)} (${v2p}), ` +
-                `Curr: ${midiToNoteName(v1c)} (${v1c})-${midiToNoteName(v2c)} (${v2c}).`
-            );
-        } else if (isPerfectOctaveOrUnison && intervalPrevSemi > 0) { // intervalPrevSemi > 0 excludes parallel unisons if not desired.
-            console.warn(
-                `[WARN] VOICE LEADING: Parallel Octave between ${part1Name} and ${part2Name} at ${loc}. ` +
-                `Prev: ${midiToNoteName(v1p)} (${v1p})-${midiToNoteName(v2p)} (${v2p}), ` +
-                `Curr: ${midiToNoteName(v1c)} (${v1c})-${midiToNoteName(v2c)} (${v2c}).`
+    const label = isPerfectFifth ? 'Parallel 5th' : 'Parallel octave';
+    return {
+        ruleId: isPerfectFifth ? 'parallel-fifths' : 'parallel-octaves',
+        severity: 'error',
+        measure: loc.measure,
+        beat: loc.beat,
+        voices: [part1Name, part2Name],
+        pitches: [v1c, v2c],
+        previousPitches: [v1p, v2p],
+        message:
+            `${label} between ${part1Name} and ${part2Name}: ` +
+            `${midiToNoteName(v1p)}-${midiToNoteName(v2p)} to ${midiToNoteName(v1c)}-${midiToNoteName(v2c)}.`,
+    };
+}
+
+/**
+ * Builds a violation for a rule that concerns the current sonority only (crossing, spacing).
+ */
+function createViolation(
+    ruleId: VoiceLeadingRuleId,
+    severity: ViolationSeverity,
+    loc: ViolationLocation,
+    voices: string[],
+    pitches: number[],
+    message: string,
+): VoiceLeadingViolation {
+    return { ruleId, severity, measure: loc.measure, beat: loc.beat, voices, pitches, message };
+}
+
+/**
+ * Lowest `dissonanceStrictness` at which each rule is checked. Melody+Accompaniment
+ * style applies spacing from 5 and melody/bass parallels from 8; SATB tenor/bass
+ * spacing is checked from 6.
+ */
+export const VOICE_LEADING_RULE_MIN_STRICTNESS: Readonly<Record<VoiceLeadingRuleId, number>> = {
+    'voice-crossing': 2,
+    'leap-over-octave': 3,
+    spacing: 4,
+    'voice-overlap': 5,
+    'augmented-interval': 5,
+    'doubled-leading-tone': 5,
+    'unresolved-leading-tone': 6,
+    'unresolved-seventh': 6,
+    'parallel-fifths': 7,
+    'parallel-octaves': 7,
+    'unrecovered-leap': 7,
+    'hidden-fifths': 8,
+    'hidden-octaves': 8,
+};
+
+/** Leaps larger than this many semitones (a perfect fourth) should be recovered. */
+const RECOVERABLE_LEAP_SEMITONES = 5;
+
+/**
+ * Checks for direct (hidden) fifths and octaves: the outer voices moving in similar motion
+ * into a perfect fifth or octave with a leap in the upper voice.
+ *
+ * @returns {VoiceLeadingViolation | null} The violation found, or `null` if there is none.
+ */
+function checkHiddenPerfectInterval(
+    upperPrev: number | null,
+    upperCurr: number,
+    lowerPrev: number | null,
+    lowerCurr: number,
+    upperName: string,
+    lowerName: string,
+    loc: ViolationLocation,
+): VoiceLeadingViolation | null {
+    if (upperPrev === null || lowerPrev === null) return null;
+    const upperMotion = upperCurr - upperPrev;
+    const lowerMotion = lowerCurr - lowerPrev;
+    if (upperMotion === 0 || Math.sign(upperMotion) !== Math.sign(lowerMotion)) return null;
+    if (Math.abs(upperMotion) <= 2) return null; // Approached by step in the upper voice
+
+    const intervalCurr = upperCurr - lowerCurr;
+    const intervalPrev = upperPrev - lowerPrev;
+    if (intervalCurr <= 0 || intervalPrev % 12 === intervalCurr % 12) return null; // Parallels are checked separately
+    const isFifth = intervalCurr % 12 === 7;
+    if (!isFifth && intervalCurr % 12 !== 0) return null;
+
+    return {
+        ruleId: isFifth ? 'hidden-fifths' : 'hidden-octaves',
+        severity: 'warning',
+        measure: loc.measure,
+        beat: loc.beat,
+        voices: [upperName, lowerName],
+        pitches: [upperCurr, lowerCurr],
+        previousPitches: [upperPrev, lowerPrev],
+        message:
+            `Hidden ${isFifth ? '5th' : 'octave'} between ${upperName} and ${lowerName}: ` +
+            `${upperName} leaps into a perfect ${isFifth ? 'fifth' : 'octave'} in similar motion.`,
+    };
+}
+
+/**
+ * Checks one voice's melodic motion: leaps larger than an octave, augmented intervals
+ * (tritones, and the augmented second between scale degrees 6 and raised 7 in minor)
+ * and, when `beforePrev` is known, leaps that are not recovered by step in the opposite direction.
+ */
+function checkMelodicMotion(
+    voice: string,
+    prev: number | null,
+    curr: number,
+    beforePrev: number | null,
+    keyDetails: KeyDetails | undefined,
+    checkRecovery: boolean,
+    isActive: (ruleId: VoiceLeadingRuleId) => boolean,
+    loc: ViolationLocation,
+): VoiceLeadingViolation[] {
+    const violations: VoiceLeadingViolation[] = [];
+    if (prev === null || prev === curr) return violations;
+    const motion = curr - prev;
+    const interval = Math.abs(motion);
+    const motionText = `${midiToNoteName(prev)} to ${midiToNoteName(curr)}`;
+    const addMotion = (ruleId: VoiceLeadingRuleId, severity: ViolationSeverity, message: string) =>
+        violations.push({ ...createViolation(ruleId, severity, loc, [voice], [curr], message), previousPitches: [prev] });
+
+    if (isActive('leap-over-octave') && interval > 12) {
+        addMotion('leap-over-octave', 'error', `${voice} leaps more than an octave (${motionText}).`);
+    }
+
+    if (isActive('augmented-interval')) {
+        const tonicPc = keyDetails ? Tonal.Note.chroma(keyDetails.tonic) : undefined;
+        const isAugmentedSecond =
+            interval === 3 &&
+            keyDetails?.type === 'minor' &&
+            tonicPc !== undefined &&
+            [prev, curr].every((n) => [(tonicPc + 8) % 12, (tonicPc + 11) % 12].includes(n % 12)) &&
+            prev % 12 !== curr % 12;
+        if (interval % 12 === 6) {
+            addMotion('augmented-interval', 'error', `${voice} moves by a tritone (${motionText}).`);
+        } else if (isAugmentedSecond) {
+            addMotion('augmented-interval', 'error', `${voice} moves by an augmented second (${motionText}).`);
+        }
+    }
+
+    if (checkRecovery && isActive('unrecovered-leap') && beforePrev !== null) {
+        const leap = prev - beforePrev;
+        const recovered = Math.sign(motion) === -Math.sign(leap) && interval <= 2;
+        if (Math.abs(leap) > RECOVERABLE_LEAP_SEMITONES && !recovered) {
+            addMotion(
+                'unrecovered-leap',
+                'warning',
+                `${voice} leap ${midiToNoteName(beforePrev)}-${midiToNoteName(prev)} is not followed by a step in the opposite direction.`,
             );
         }
     }
-    // TODO: Could potentially add checks for hidden/direct octaves/fifths if more advanced rules are needed.
+    return violations;
 }
 
+/**
+ * Checks that tendency tones resolve when the harmony changes: the leading tone rises by
+ * a half step (outer voices only) and the chordal seventh of the previous chord falls by step.
+ */
+function checkTendencyTones(
+    voice: string,
+    prev: number | null,
+    curr: number,
+    leadingTonePc: number | null,
+    seventhPc: number | undefined,
+    isOuterVoice: boolean,
+    isActive: (ruleId: VoiceLeadingRuleId) => boolean,
+    loc: ViolationLocation,
+): VoiceLeadingViolation[] {
+    const violations: VoiceLeadingViolation[] = [];
+    if (prev === null || prev === curr) return violations;
+    if (isOuterVoice && isActive('unresolved-leading-tone') && prev % 12 === leadingTonePc && curr !== prev + 1) {
+        violations.push({
+            ...createViolation('unresolved-leading-tone', 'warning', loc, [voice], [curr], `Leading tone ${midiToNoteName(prev)} in the ${voice} does not rise to the tonic.`),
+            previousPitches: [prev],
+        });
+    }
+    if (isActive('unresolved-seventh') && seventhPc !== undefined && prev % 12 === seventhPc && !(prev - curr >= 1 && prev - curr <= 2)) {
+        violations.push({
+            ...createViolation('unresolved-seventh', 'error', loc, [voice], [curr], `Chordal seventh ${midiToNoteName(prev)} in the ${voice} does not resolve down by step.`),
+            previousPitches: [prev],
+        });
+    }
+    return violations;
+}
 
 /**
  * Checks various voice leading rules based on the specified generation style (SATB or MelodyAccompaniment).
- * This includes checks for voice crossing, spacing between voices, and parallel motion (fifths and octaves).
- * Warnings are logged to the console if rule violations are detected. The strictness of these checks
- * can be controlled by the `strictness` parameter.
+ * This includes checks for voice crossing and overlap, spacing between voices, parallel and hidden
+ * fifths and octaves, melodic leaps and augmented intervals, tendency-tone resolution and doubled
+ * leading tones. Each rule applies from the strictness given in `VOICE_LEADING_RULE_MIN_STRICTNESS`
+ * and can be switched off individually through `context.enabledRules`.
  *
  * @param {PreviousNotes} currentNotes - An object containing the MIDI notes of all voices/parts for the current musical event.
  * @param {PreviousNotes | null} previousNotes - An object containing the MIDI notes from the immediately preceding event.
- *                                            If `null` (e.g., for the very first event), parallel motion checks are skipped.
+ *                                            If `null` (e.g., for the very first event), all checks are skipped.
  * @param {GenerationStyle} style - The musical style being generated ('SATB' or 'MelodyAccompaniment'),
  *                                  which determines which set of rules to apply.
- * @param {number} measureIndex - The 0-based index of the current measure, used for logging.
- * @param {number} beatIndex - The 0-based index of the current beat or event within the measure, used for logging.
+ * @param {number} measureIndex - The 0-based index of the current measure.
+ * @param {number} beat - The 1-indexed beat within the measure at which the current event starts (may be fractional).
  * @param {number} strictness - A value from 0 to 10 indicating the strictness of rule enforcement.
  *                              Higher values enable more checks or more stringent limits.
  *                              If `strictness` is 1 or less, most checks are skipped.
+ * @param {VoiceLeadingContext} [context={}] - Key, chord and history information needed by some rules,
+ *                                            and per-rule switches. Rules lacking their context are skipped.
+ * @returns {VoiceLeadingViolation[]} The violations found at this event (empty if none).
  */
 export function checkVoiceLeadingRules(
     currentNotes: PreviousNotes,
     previousNotes: PreviousNotes | null,
     style: GenerationStyle,
     measureIndex: number,
-    beatIndex: number,
+    beat: number,
     strictness: number,
-): void {
+    context: VoiceLeadingContext = {},
+): VoiceLeadingViolation[] {
+    const violations: VoiceLeadingViolation[] = [];
     // Skip all checks if strictness is very low or if there's no previous context.
     if (strictness <= 1 || previousNotes === null) {
-        return;
+        return violations;
     }
 
-    const loc = `M${measureIndex + 1}:B${beatIndex + 1}`; // Location string for log messages
+    const loc: ViolationLocation = { measure: measureIndex + 1, beat };
+    const { keyDetails, previousChordPcs, previousChordHasSeventh, previousChordLeadingTonePc, chordPcs, notesBeforePrevious, enabledRules } = context;
+    const isActive = (ruleId: VoiceLeadingRuleId, minStrictness = VOICE_LEADING_RULE_MIN_STRICTNESS[ruleId]) =>
+        strictness >= minStrictness && enabledRules?.[ruleId] !== false;
+    const addIfActive = (violation: VoiceLeadingViolation | null, minStrictness?: number) => {
+        if (violation && isActive(violation.ruleId, minStrictness)) violations.push(violation);
+    };
+
+    const leadingTonePc = keyDetails ? getLeadingTonePc(keyDetails) : null;
+    // Tendency tones only need to resolve once the harmony moves on
+    const chordChanged = !!previousChordPcs && (!chordPcs || previousChordPcs.join() !== chordPcs.join());
+    const seventhPc = chordChanged && previousChordHasSeventh ? previousChordPcs?.[3] : undefined;
+    // Only a chord of dominant function (V, vii°, applied dominants) leads its leading tone to a tonic
+    const resolutionLeadingTonePc = chordChanged ? previousChordLeadingTonePc ?? null : null;
+    const countLeadingTones = (notes: number[]) => notes.filter((n) => n % 12 === leadingTonePc).length;
 
     if (style === 'SATB') {
         const current = currentNotes as PreviousNotesSATB;
         const prev = previousNotes as PreviousNotesSATB; // Safe now due to null check above
+        const beforePrev = (notesBeforePrevious ?? null) as PreviousNotesSATB | null;
         const { soprano, alto, tenor, bass } = current;
         const { soprano: pSop, alto: pAlt, tenor: pTen, bass: pBas } = prev;
 
-        if (soprano === null || alto === null || tenor === null || bass === null) return;
+        if (soprano === null || alto === null || tenor === null || bass === null) return violations;
 
         // Voice Crossing
-        if (alto > soprano) console.warn(`[WARN] SATB Crossing: A>S at ${loc}`);
-        if (tenor > alto) console.warn(`[WARN] SATB Crossing: T>A at ${loc}`);
-        if (bass > tenor) console.warn(`[WARN] SATB Crossing: B>T at ${loc}`);
+        if (isActive('voice-crossing')) {
+            if (alto > soprano) violations.push(createViolation('voice-crossing', 'error', loc, ['alto', 'soprano'], [alto, soprano], 'Alto above soprano.'));
+            if (tenor > alto) violations.push(createViolation('voice-crossing', 'error', loc, ['tenor', 'alto'], [tenor, alto], 'Tenor above alto.'));
+            if (bass > tenor) violations.push(createViolation('voice-crossing', 'error', loc, ['bass', 'tenor'], [bass, tenor], 'Bass above tenor.'));
+        }
+
+        // Voice Overlap: a voice moves past where its neighbour just was
+        if (isActive('voice-overlap')) {
+            const pairs: [string, number, number | null, string, number, number | null][] = [
+                ['soprano', soprano, pSop, 'alto', alto, pAlt],
+                ['alto', alto, pAlt, 'tenor', tenor, pTen],
+                ['tenor', tenor, pTen, 'bass', bass, pBas],
+            ];
+            pairs.forEach(([upperName, upper, pUpper, lowerName, lower, pLower]) => {
+                if ((pUpper !== null && lower > pUpper) || (pLower !== null && upper < pLower)) {
+                    violations.push(createViolation('voice-overlap', 'warning', loc, [upperName, lowerName], [upper, lower], `${upperName} and ${lowerName} overlap with the previous chord.`));
+                }
+            });
+        }
 
         // Voice Spacing
-        if (strictness >= 4) {
-            if (soprano - alto > VOICE_SPACING_LIMIT_SATB.soprano_alto) console.warn(`[WARN] SATB Spacing > P8 S/A at ${loc}`);
-            if (alto - tenor > VOICE_SPACING_LIMIT_SATB.alto_tenor) console.warn(`[WARN] SATB Spacing > P8 A/T at ${loc}`);
+        if (isActive('spacing')) {
+            if (soprano - alto > VOICE_SPACING_LIMIT_SATB.soprano_alto) violations.push(createViolation('spacing', 'warning', loc, ['soprano', 'alto'], [soprano, alto], 'Soprano and alto more than an octave apart.'));
+            if (alto - tenor > VOICE_SPACING_LIMIT_SATB.alto_tenor) violations.push(createViolation('spacing', 'warning', loc, ['alto', 'tenor'], [alto, tenor], 'Alto and tenor more than an octave apart.'));
         }
-        if (strictness >= 6) {
-             if (tenor - bass > VOICE_SPACING_LIMIT_SATB.tenor_bass) console.warn(`[WARN] SATB Spacing > P12 T/B at ${loc}`);
+        if (isActive('spacing', 6)) {
+             if (tenor - bass > VOICE_SPACING_LIMIT_SATB.tenor_bass) violations.push(createViolation('spacing', 'warning', loc, ['tenor', 'bass'], [tenor, bass], 'Tenor and bass more than a twelfth apart.'));
         }
 
-        // Parallel Motion Checks
-        if (strictness >= 7) {
-            checkParallels(pSop, soprano, pAlt, alto, 'S', 'A', loc);
-            checkParallels(pSop, soprano, pTen, tenor, 'S', 'T', loc);
-            checkParallels(pSop, soprano, pBas, bass, 'S', 'B', loc);
-            checkParallels(pAlt, alto, pTen, tenor, 'A', 'T', loc);
-            checkParallels(pAlt, alto, pBas, bass, 'A', 'B', loc);
-            checkParallels(pTen, tenor, pBas, bass, 'T', 'B', loc);
+        // Doubled leading tone
+        if (isActive('doubled-leading-tone') && countLeadingTones([soprano, alto, tenor, bass]) > 1) {
+            violations.push(createViolation('doubled-leading-tone', 'error', loc, ['soprano', 'alto', 'tenor', 'bass'], [soprano, alto, tenor, bass], 'Leading tone doubled.'));
         }
+
+        // Parallel Motion Checks
+        addIfActive(checkParallels(pSop, soprano, pAlt, alto, 'soprano', 'alto', loc));
+        addIfActive(checkParallels(pSop, soprano, pTen, tenor, 'soprano', 'tenor', loc));
+        addIfActive(checkParallels(pSop, soprano, pBas, bass, 'soprano', 'bass', loc));
+        addIfActive(checkParallels(pAlt, alto, pTen, tenor, 'alto', 'tenor', loc));
+        addIfActive(checkParallels(pAlt, alto, pBas, bass, 'alto', 'bass', loc));
+        addIfActive(checkParallels(pTen, tenor, pBas, bass, 'tenor', 'bass', loc));
+
+        // Hidden fifths/octaves between the outer voices
+        addIfActive(checkHiddenPerfectInterval(pSop, soprano, pBas, bass, 'soprano', 'bass', loc));
+
+        // Melodic motion and tendency tones in each voice
+        const voices: [string, number, number | null][] = [
+            ['soprano', soprano, pSop],
+            ['alto', alto, pAlt],
+            ['tenor', tenor, pTen],
+            ['bass', bass, pBas],
+        ];
+        voices.forEach(([name, curr, prevNote]) => {
+            const beforePrevNote = beforePrev ? beforePrev[name as keyof PreviousNotesSATB] : null;
+            violations.push(
+                ...checkMelodicMotion(name, prevNote, curr, beforePrevNote, keyDetails, name !== 'bass', isActive, loc),
+                ...checkTendencyTones(name, prevNote, curr, resolutionLeadingTonePc, seventhPc, name === 'soprano' || name === 'bass', isActive, loc),
+            );
+        });
     } else { // MelodyAccompaniment Style
         const current = currentNotes as PreviousNotesMelodyAccompaniment;
         const prev = previousNotes as PreviousNotesMelodyAccompaniment;
+        const beforePrev = (notesBeforePrevious ?? null) as PreviousNotesMelodyAccompaniment | null;
         const { melody, accompaniment } = current;
         const { melody: pMel, accompaniment: pAcc } = prev;
 
-        if (melody === null || accompaniment.some(n => n === null)) return;
+        if (melody === null || accompaniment.some(n => n === null)) return violations;
 
         const highestAccomp = accompaniment[accompaniment.length - 1]!; // Already checked for nulls
         const lowestAccomp = accompaniment[0]!;
+        const pHighestAccomp = pAcc[pAcc.length - 1] ?? null;
+        const pLowestAccomp = pAcc[0] ?? null;
 
         // Voice Crossing (Melody vs Accompaniment)
-        if (highestAccomp >= melody) console.warn(`[WARN] Melody/Acc Crossing: High Accomp >= Melody at ${loc}`);
+        if (isActive('voice-crossing') && highestAccomp >= melody) violations.push(createViolation('voice-crossing', 'error', loc, ['accompaniment', 'melody'], [highestAccomp, melody], 'Highest accompaniment note at or above the melody.'));
+
+        // Voice Overlap (Melody vs Accompaniment)
+        if (isActive('voice-overlap') && ((pMel !== null && highestAccomp > pMel) || (pHighestAccomp !== null && melody < pHighestAccomp))) {
+            violations.push(createViolation('voice-overlap', 'warning', loc, ['melody', 'accompaniment'], [melody, highestAccomp], 'Melody and accompaniment overlap with the previous chord.'));
+        }
 
         // Spacing (Melody vs Accompaniment)
-        if (strictness >= 5) {
+        if (isActive('spacing', 5)) {
             if (melody - highestAccomp > MELODY_ACCOMPANIMENT_SPACING_LIMIT) {
-                console.warn(`[WARN] Melody/Acc Spacing > ${MELODY_ACCOMPANIMENT_SPACING_LIMIT} semitones at ${loc}`);
+                violations.push(createViolation('spacing', 'warning', loc, ['melody', 'accompaniment'], [melody, highestAccomp], `Melody more than ${MELODY_ACCOMPANIMENT_SPACING_LIMIT} semitones above the accompaniment.`));
             }
         }
 
-        // Parallel motion between melody and bass (lowest accompaniment)
-        if (strictness >= 8) {
-            const pLowestAccomp = pAcc[0];
-            checkParallels(pMel, melody, pLowestAccomp, lowestAccomp, 'Melody', 'Bass(Acc)', loc);
+        // Doubled leading tone
+        const allNotes = [melody, ...accompaniment] as number[];
+        if (isActive('doubled-leading-tone') && countLeadingTones(allNotes) > 1) {
+            violations.push(createViolation('doubled-leading-tone', 'error', loc, ['melody', 'accompaniment'], [melody, highestAccomp], 'Leading tone doubled.'));
         }
+
+        // Parallel and hidden motion between melody and bass (lowest accompaniment)
+        addIfActive(checkParallels(pMel, melody, pLowestAccomp, lowestAccomp, 'melody', 'bass', loc), 8);
+        addIfActive(checkHiddenPerfectInterval(pMel, melody, pLowestAccomp, lowestAccomp, 'melody', 'bass', loc));
+
+        // Melodic motion and tendency tones in the melody
+        violations.push(
+            ...checkMelodicMotion('melody', pMel, melody, beforePrev?.melody ?? null, keyDetails, true, isActive, loc),
+            ...checkTendencyTones('melody', pMel, melody, resolutionLeadingTonePc, seventhPc, true, isActive, loc),
+        );
     }
-}
\ No newline at end of file
+    return violations;
+}
+
+/**
+ * Aggregates violations into a `VoiceLeadingReport` with per-rule and per-severity counts.
+ *
+ * @param {VoiceLeadingViolation[]} violations - Violations in piece order.
+ * @param {number[]} [unresolvedMeasures=[]] - 1-indexed measures where enforced voice leading found no compliant voicing.
+ * @returns {VoiceLeadingReport} The report.
+ */
+export function createVoiceLeadingReport(
+    violations: VoiceLeadingViolation[],
+    unresolvedMeasures: number[] = [],
+): VoiceLeadingReport {
+    const countsByRule: VoiceLeadingReport['countsByRule'] = {};
+    const countsBySeverity: VoiceLeadingReport['countsBySeverity'] = { error: 0, warning: 0 };
+    violations.forEach((violation) => {
+        countsByRule[violation.ruleId] = (countsByRule[violation.ruleId] ?? 0) + 1;
+        countsBySeverity[violation.severity]++;
+    });
+    return { violations, countsByRule, countsBySeverity, unresolvedMeasures };
+}
@@ -8,6 +8,22 @@ import { MusicTheoryError, InvalidInputError } from '../errors';
 const ROMAN_MAP: Record<string, number> = { I: 0, II: 1, III: 2, IV: 3, V: 4, VI: 5, VII: 6 };
 const MAJOR_KEY_DEFAULT_SEVENTHS: Record<number, string> = { 0: 'maj7', 1: 'm7', 2: 'm7', 3: 'maj7', 4: '7', 5: 'm7', 6: 'm7b5' };
 const MINOR_KEY_DEFAULT_SEVENTHS: Record<number, string> = { 0: 'm7', 1: 'm7b5', 2: 'maj7', 3: 'm7', 4: '7', 5: 'maj7', 6: 'dim7' };
+/** An applied chord such as "V7/V": a Roman numeral (with figures) over the Roman numeral of the tonicized degree. */
+const APPLIED_CHORD_REGEX = /^(.+)\/([ivIV]+)$/;
+/** Borrowed chords of major keys (from the parallel minor) and the Picardy third "I" of minor keys, with figures. */
+const MODAL_MIXTURE_REGEX = /^(bIII|bVI|bVII|iv|ii[°øo]|I)(?:64|65|43|42|6|7|2)?$/;
+/** A Roman numeral analysed in another key after a modulation, e.g. "G:V7" or "Em:iv6". */
+const KEY_PREFIX_REGEX = /^([A-G][#b]*m?):(.+)$/;
+/** The Neapolitan sixth ("N6", "bII6", or root position "N", "bII"). */
+const NEAPOLITAN_REGEX = /^(?:N|bII)(6)?$/;
+/** Italian, French and German augmented sixths ("It+6", "It6", "Fr+6", "Fr43", "Ger+6", "Ger65"). */
+const AUGMENTED_SIXTH_REGEX = /^(It|Fr|Ger)(?:\+6|6|43|65)$/;
+/** Intervals of each augmented sixth chord above its bass, the lowered sixth degree. */
+const AUGMENTED_SIXTH_INTERVALS: Record<string, string[]> = {
+  It: ['1P', '3M', '6A'],
+  Fr: ['1P', '3M', '4A', '6A'],
+  Ger: ['1P', '3M', '5P', '6A'],
+};
 
 function parseRomanNumeral(romanWithInversion: string): { baseRoman: string; bassInterval: string | null } {
   const figuredBassMatch = romanWithInversion.match(/^(.*?)(?:(64|65|43|42|6|7|2))(?![a-zA-Z#b])$/);
@@ -46,8 +62,16 @@ function parseRomanNumeral(romanWithInversion: string): { baseRoman: string; bas
   return { baseRoman, bassInterval };
 }
 
-function getKeyDetails(keyName: string) {
-  let keyDetails: any = Tonal.Key.majorKey(keyName);
+/**
+ * Returns the Tonal key for a key name such as "C", "F#" (major) or "Am", "Ebm" (minor).
+ *
+ * @param {string} keyName - The key name.
+ * @returns {any} The Tonal major or minor key.
+ * @throws {InvalidInputError} If the key name is not recognized.
+ */
+export function getKeyDetails(keyName: string) {
+  const minorKeyMatch = keyName.match(/^([A-Ga-g][#b]*)m$/);
+  let keyDetails: any = minorKeyMatch ? Tonal.Key.minorKey(minorKeyMatch[1]) : Tonal.Key.majorKey(keyName);
   if (!keyDetails || !keyDetails.tonic) keyDetails = Tonal.Key.minorKey(keyName);
   if (!keyDetails || !keyDetails.tonic)
     throw new InvalidInputError(`getKeyDetails: Could not get valid key details for key "${keyName}".`);
@@ -87,7 +111,9 @@ function applyChordModifications(currentChordSymbol: string, baseRomanInput: str
     else if (['min','m'].includes(requestedQualitySymbol)) qualityToApply = 'm';
     else if (['dim','o'].includes(requestedQualitySymbol)) qualityToApply = 'dim';
     else if (['aug','+'].includes(requestedQualitySymbol)) qualityToApply = 'aug';
-    if (qualityToApply) {
+    // A diatonic seventh chord that already has the quality keeps its seventh (G#o7 for "viio7" in A minor)
+    const qualityNames: Record<string, string> = { M: 'Major', m: 'Minor', dim: 'Diminished', aug: 'Augmented' };
+    if (qualityToApply && currentChordDetails.quality !== qualityNames[qualityToApply]) {
       const potentialNewSymbol = tonic + qualityToApply;
       const checkChord = Tonal.Chord.get(potentialNewSymbol);
       if (!checkChord.empty) finalChordSymbol = checkChord.symbol;
@@ -95,7 +121,7 @@ function applyChordModifications(currentChordSymbol: string, baseRomanInput: str
   }
   const requestedSeventh = baseRomanInput.includes('7');
   const requestedHalfDim = baseRomanInput.includes('ø') || baseRomanInput.includes('hd');
-  const requestedFullDim = baseRomanInput.includes('°') || (baseRomanInput.toLowerCase().includes('dim') && requestedSeventh);
+  const requestedFullDim = baseRomanInput.includes('°') || (/(dim|o)7$/i.test(baseRomanInput) && requestedSeventh);
   if (requestedSeventh) {
     const triadDetails = Tonal.Chord.get(finalChordSymbol);
     if (triadDetails.empty || !triadDetails.tonic)
@@ -130,17 +156,19 @@ function getChordNotesAndBass(finalChordSymbol: string, bassInterval: string | n
   let rootOctaveGuess = 3;
   if (['F','G','A','B'].includes(chordTonicNote.letter)) rootOctaveGuess = 2;
   if (keyType === 'minor' && (keyTonic.startsWith('A') || keyTonic.startsWith('B'))) rootOctaveGuess = 2;
-  let rootMidi = Tonal.Note.midi(finalChord.tonic + rootOctaveGuess);
+  let rootOctave = rootOctaveGuess;
+  let rootMidi = Tonal.Note.midi(finalChord.tonic + rootOctave);
   if (rootMidi !== null && rootMidi < 36) {
     const higherMidi = Tonal.Note.midi(finalChord.tonic + (rootOctaveGuess + 1));
-    if (higherMidi) rootMidi = higherMidi;
+    if (higherMidi) { rootMidi = higherMidi; rootOctave = rootOctaveGuess + 1; }
   }
   if (rootMidi !== null && rootMidi > 72) {
     const lowerMidi = Tonal.Note.midi(finalChord.tonic + (rootOctaveGuess - 1));
-    if (lowerMidi && lowerMidi >= 36) rootMidi = lowerMidi;
+    if (lowerMidi && lowerMidi >= 36) { rootMidi = lowerMidi; rootOctave = rootOctaveGuess - 1; }
   }
   if (rootMidi === null) throw new MusicTheoryError(`getChordNotesAndBass: Could not determine root MIDI for "${finalChordSymbol}".`);
-  const rootNoteNameWithOctave = Tonal.Note.fromMidi(rootMidi)!;
+  // Keep the chord's own spelling of its root (F# in vii°7/V, G# in vii°7 of A minor)
+  const rootNoteNameWithOctave = finalChord.tonic + rootOctave;
   const chordNotesMidi: number[] = [];
   const noteNames: string[] = [];
   finalChord.intervals.forEach((interval) => {
@@ -154,14 +182,140 @@ function getChordNotesAndBass(finalChordSymbol: string, bassInterval: string | n
   const sortedNoteNames = sortedIndices.map(i=>noteNames[i]);
   let requiredBassPc: number | null = null;
   if (bassInterval && !['1','1P','P1'].includes(bassInterval)) {
-    const bassNoteName = Tonal.transpose(rootNoteNameWithOctave, bassInterval);
+    // A bare figure ("3", "5", "7") names a chord member, whatever the quality of its interval
+    const chordMemberInterval = /^\d+$/.test(bassInterval)
+      ? finalChord.intervals.find((interval) => Tonal.Interval.get(interval).num === Number(bassInterval))
+      : undefined;
+    const bassNoteName = Tonal.transpose(rootNoteNameWithOctave, chordMemberInterval ?? bassInterval);
     const bassNoteDetails = Tonal.Note.get(bassNoteName);
-    if (bassNoteDetails && typeof bassNoteDetails.chroma === 'number') requiredBassPc = bassNoteDetails.chroma;
+    if (bassNoteDetails && Number.isFinite(bassNoteDetails.chroma)) requiredBassPc = bassNoteDetails.chroma;
   }
   return { notes: sortedMidiNotes, noteNames: sortedNoteNames, requiredBassPc };
 }
 
-export function getChordInfoFromRoman(fullRomanWithInversion: string, keyNameInput: string) {
+/**
+ * Builds an applied (secondary) chord such as "V7/V", "vii°7/ii" or "V65/IV": the chord before
+ * the slash is taken in the key of the target degree (major or minor after the target triad),
+ * so "V/V" in C is D major and "V65/IV" in C is C7 over E.
+ */
+function getAppliedChordInfo(appliedRoman: string, targetRoman: string, keyNameInput: string) {
+  const keyDetails = getKeyDetails(keyNameInput);
+  const targetRomanUpper = targetRoman.toUpperCase();
+  const targetIndex = ROMAN_MAP[targetRomanUpper];
+  if (targetIndex === undefined)
+    throw new MusicTheoryError(`getAppliedChordInfo: Unknown target Roman numeral "${targetRoman}" in "${appliedRoman}/${targetRoman}".`);
+  const targetChord = Tonal.Chord.get(getInitialDiatonicChordSymbol(targetRomanUpper, targetIndex, keyDetails, keyNameInput) ?? '');
+  if (targetChord.empty || !targetChord.tonic || (targetChord.quality !== 'Major' && targetChord.quality !== 'Minor'))
+    throw new MusicTheoryError(`getAppliedChordInfo: "${targetRoman}" in key "${keyNameInput}" is not a major or minor chord and cannot be tonicized.`);
+  const tonicizedKey: Tonal.Key.MajorKey | Tonal.Key.MinorKey = targetChord.quality === 'Major' ? Tonal.Key.majorKey(targetChord.tonic) : Tonal.Key.minorKey(targetChord.tonic);
+  const { chordSymbol, bassInterval } = getChordSymbolInKey(appliedRoman, tonicizedKey);
+  return getChordNotesAndBass(chordSymbol, bassInterval, keyDetails.type, keyDetails.tonic);
+}
+
+/**
+ * Builds a chord borrowed from the parallel key: iv, bVI, bVII, bIII and ii° (or iiø7) in a major key
+ * from its parallel minor, and the Picardy third "I" in a minor key from its parallel major.
+ * Returns `null` for other numerals, including these numerals where they are already diatonic.
+ */
+function getBorrowedChordInfo(roman: string, keyNameInput: string): ChordInfo | null {
+  const mixtureMatch = roman.match(MODAL_MIXTURE_REGEX);
+  if (!mixtureMatch) return null;
+  const keyDetails = getKeyDetails(keyNameInput);
+  const isPicardyThird = mixtureMatch[1] === 'I';
+  if (isPicardyThird !== (keyDetails.type === 'minor')) return null;
+  const parallelKey: Tonal.Key.MajorKey | Tonal.Key.MinorKey = isPicardyThird ? Tonal.Key.majorKey(keyDetails.tonic) : Tonal.Key.minorKey(keyDetails.tonic);
+  const { chordSymbol, bassInterval } = getChordSymbolInKey(roman.replace(/^b/, ''), parallelKey);
+  return getChordNotesAndBass(chordSymbol, bassInterval, keyDetails.type, keyDetails.tonic);
+}
+
+/**
+ * Builds the chord symbol of a Roman numeral in a Tonal key: a triad unless a seventh-chord figure
+ * is given (7, 65, 43, 42/2). In minor keys, V and vii come from harmonic minor while v and VII
+ * come from natural minor.
+ */
+function getChordSymbolInKey(romanWithInversion: string, key: Tonal.Key.MajorKey | Tonal.Key.MinorKey): { chordSymbol: string; bassInterval: string | null } {
+  const { baseRoman, bassInterval } = parseRomanNumeral(romanWithInversion);
+  const romanMatch = baseRoman.match(/([ivxlcIVXLC]+)/i);
+  const scaleDegreeIndex = romanMatch ? ROMAN_MAP[romanMatch[1].toUpperCase()] : undefined;
+  if (!romanMatch || scaleDegreeIndex === undefined)
+    throw new MusicTheoryError(`getChordSymbolInKey: Unknown Roman numeral "${romanWithInversion}" in key "${key.tonic}".`);
+  const hasSeventh = hasSeventhFigure(romanWithInversion);
+  const useHarmonicMinor = key.type === 'minor' && (romanMatch[1] === 'V' || romanMatch[1] === 'vii');
+  const triads: readonly string[] = key.type === 'major' ? key.triads : useHarmonicMinor ? key.harmonic.triads : key.natural.triads;
+  const chordSymbol = applyChordModifications(triads[scaleDegreeIndex], hasSeventh ? `${baseRoman}7` : baseRoman, key, scaleDegreeIndex);
+  return { chordSymbol, bassInterval };
+}
+
+/**
+ * Builds the chromatic predominants: the Neapolitan (a major triad on the lowered second degree,
+ * usually in first inversion, doubling its bass) and the Italian, French and German augmented sixths
+ * (over the lowered sixth degree in the bass, doubling the tonic). Returns `null` for other numerals.
+ */
+function getChromaticPredominantInfo(roman: string, keyNameInput: string): ChordInfo | null {
+  const neapolitanMatch = roman.match(NEAPOLITAN_REGEX);
+  const augmentedSixthMatch = roman.match(AUGMENTED_SIXTH_REGEX);
+  if (!neapolitanMatch && !augmentedSixthMatch) return null;
+  const keyDetails = getKeyDetails(keyNameInput);
+  const keyType = keyDetails.type as 'major' | 'minor';
+  if (neapolitanMatch) {
+    const neapolitanRoot = Tonal.transpose(keyDetails.tonic, '2m');
+    const chordInfo = getChordNotesAndBass(`${neapolitanRoot}M`, neapolitanMatch[1] ? '3' : '1', keyType, keyDetails.tonic);
+    const [rootPc, thirdPc, fifthPc] = chordInfo.notes.map((midi) => midi % 12);
+    return { ...chordInfo, doublingPcs: [thirdPc, fifthPc, rootPc] };
+  }
+  const bassNote = Tonal.Note.get(Tonal.transpose(keyDetails.tonic, '6m'));
+  const octave = ['F','G','A','B'].includes(bassNote.letter) ? 2 : 3;
+  const noteNames = AUGMENTED_SIXTH_INTERVALS[augmentedSixthMatch![1]].map((interval) => Tonal.transpose(bassNote.name + octave, interval));
+  const notes = noteNames.map((name) => Tonal.Note.midi(name));
+  if (notes.some((midi) => midi === null))
+    throw new MusicTheoryError(`getChromaticPredominantInfo: Could not build "${roman}" in key "${keyNameInput}".`);
+  const tonicPc = Tonal.Note.chroma(keyDetails.tonic);
+  return { notes: notes as number[], noteNames, requiredBassPc: bassNote.chroma, doublingPcs: [tonicPc] };
+}
+
+/**
+ * Returns the key a Roman numeral is analysed in: the key of its prefix (e.g., "G" for "G:V7",
+ * written after a modulation) or `defaultKey` if it has none.
+ */
+export function getRomanNumeralKey(romanWithKey: string, defaultKey: string): string {
+  const keyPrefixMatch = romanWithKey.match(KEY_PREFIX_REGEX);
+  return keyPrefixMatch ? keyPrefixMatch[1] : defaultKey;
+}
+
+/**
+ * Returns whether a Roman numeral names a seventh chord by its figure (7, 65, 43, 42 or 2), e.g.,
+ * "V65", "G:ii7" or "V7/V", but not "V6", "vii°" or "V/V". Applied chords are read before the slash.
+ */
+export function hasSeventhFigure(roman: string): boolean {
+  return /(7|65|43|42|2)$/.test(roman.split('/')[0]);
+}
+
+/**
+ * Returns the pitch class of the leading tone resolved by a chord of dominant function, given its root:
+ * the third of V or the root of vii, whether diatonic, key-prefixed or applied (e.g., "V7", "G:vii°7",
+ * "V65/ii"). Returns `null` for other numerals, including v and VII of natural minor.
+ */
+export function getDominantLeadingTonePc(roman: string, rootPc: number): number | null {
+  const numeral = roman.replace(KEY_PREFIX_REGEX, '$2').split('/')[0];
+  if (/^V(?!I)/.test(numeral)) return (rootPc + 4) % 12;
+  if (/^vii(?!i)/.test(numeral)) return rootPc;
+  return null;
+}
+
+/** Returns whether a Roman numeral (optionally key-prefixed) is an Italian, French or German augmented sixth. */
+export function isAugmentedSixth(roman: string): boolean {
+  return AUGMENTED_SIXTH_REGEX.test(roman.replace(KEY_PREFIX_REGEX, '$2'));
+}
+
+export function getChordInfoFromRoman(fullRomanWithInversion: string, keyNameInput: string): ChordInfo {
+  const keyPrefixMatch = fullRomanWithInversion.match(KEY_PREFIX_REGEX);
+  if (keyPrefixMatch) return getChordInfoFromRoman(keyPrefixMatch[2], keyPrefixMatch[1]);
+  const chromaticPredominant = getChromaticPredominantInfo(fullRomanWithInversion, keyNameInput);
+  if (chromaticPredominant) return chromaticPredominant;
+  const borrowedChord = getBorrowedChordInfo(fullRomanWithInversion, keyNameInput);
+  if (borrowedChord) return borrowedChord;
+  const appliedMatch = fullRomanWithInversion.match(APPLIED_CHORD_REGEX);
+  if (appliedMatch) return getAppliedChordInfo(appliedMatch[1], appliedMatch[2], keyNameInput);
   const { baseRoman, bassInterval } = parseRomanNumeral(fullRomanWithInversion);
   const keyDetails = getKeyDetails(keyNameInput);
   const keyType = keyDetails.type as 'major' | 'minor';
@@ -198,3 +352,16 @@ export function midiToNoteName(midi: number | null): string | null {
   if (midi === null || !Number.isInteger(midi) || midi < 0 || midi > 127) return null;
   try { return Tonal.Note.fromMidi(midi); } catch { return null; }
 }
+
+/**
+ * Returns the leading-tone pitch class (a major seventh above the tonic) of a key.
+ *
+ * @param {Tonal.Key.Key} keyDetails - The key.
+ * @returns {number} Pitch class 0-11, or -1 if the tonic cannot be parsed.
+ */
+export function getLeadingTonePc(keyDetails: Tonal.Key.Key): number {
+  const tonicPc = Tonal.Note.chroma(keyDetails.tonic);
+  return tonicPc === undefined || Number.isNaN(tonicPc)
+    ? -1
+    : (tonicPc + 11) % 12;
+}
@@ -0,0 +1,134 @@
+// src/timeline.ts
+import { GeneratedPieceData } from './types';
+import { GenerationError } from './errors';
+
+/**
+ * A sounding note placed on the piece's timeline. Times are in the piece's own
+ * ticks (`metadata.divisions` per quarter note), counted from the start of measure 1.
+ */
+export interface TimedNote {
+  midi: number;
+  startTicks: number;
+  durationTicks: number;
+  staffNumber: string;
+  voiceNumber: string;
+  /** 0-based index of the measure the note starts in. */
+  measureIndex: number;
+}
+
+/**
+ * Returns the length of one measure in ticks for a meter such as "4/4", "6/8" or "3+2+2/8".
+ *
+ * @param {string} meter - The meter string.
+ * @param {number} divisions - Ticks per quarter note.
+ * @returns {number} Ticks per measure.
+ * @throws {GenerationError} If the meter cannot be parsed.
+ */
+export function getMeasureDurationTicks(
+  meter: string,
+  divisions: number,
+): number {
+  const meterMatch = meter.match(/^(\d+(?:\+\d+)*)\/(\d+)$/);
+  if (!meterMatch) {
+    throw new GenerationError('Invalid meter format in metadata: ' + meter);
+  }
+  const meterBeats = meterMatch[1]
+    .split('+')
+    .reduce((sum, beats) => sum + parseInt(beats, 10), 0);
+  const beatValue = parseInt(meterMatch[2], 10);
+  return meterBeats * divisions * (4 / beatValue);
+}
+
+/**
+ * Returns the start of each measure in ticks, followed by the end of the piece. Each measure
+ * lasts a measure of its own meter (`MeasureData.meter`, else `metadata.meter`).
+ *
+ * @param {GeneratedPieceData} data - The piece.
+ * @returns {number[]} One start per measure and the end of the last measure.
+ * @throws {GenerationError} If a meter is invalid.
+ */
+export function getMeasureStartTicks(data: GeneratedPieceData): number[] {
+  const { metadata, measures } = data;
+  const pieceMeasureTicks = getMeasureDurationTicks(
+    metadata.meter,
+    metadata.divisions,
+  );
+  const starts = [0];
+  measures.forEach((measure) =>
+    starts.push(
+      starts[starts.length - 1] +
+        (measure.meter
+          ? getMeasureDurationTicks(measure.meter, metadata.divisions)
+          : pieceMeasureTicks),
+    ),
+  );
+  return starts;
+}
+
+/**
+ * Flattens `GeneratedPieceData` into timed notes, shared by the MIDI writer and audio playback.
+ *
+ * Each measure starts where the previous one ends (see `getMeasureStartTicks`); within a
+ * measure the events of a staff/voice run sequentially, and events flagged `isChordElement`
+ * start together with the preceding event of the same voice. Rests advance time but produce no note, and a note
+ * tied from the previous note of its voice (`tieStop`) lengthens that note instead of sounding anew.
+ *
+ * @param {GeneratedPieceData} data - The generated piece.
+ * @returns {TimedNote[]} Notes sorted by start time (stable within the same start).
+ * @throws {GenerationError} If a meter is invalid.
+ */
+export function getTimedNotes(data: GeneratedPieceData): TimedNote[] {
+  const { measures } = data;
+  const measureStarts = getMeasureStartTicks(data);
+  const notes: TimedNote[] = [];
+  // Notes tied to the next note of their voice, by voice and pitch
+  const openTies = new Map<string, TimedNote>();
+
+  measures.forEach((measure, measureIndex) => {
+    const measureStart = measureStarts[measureIndex];
+    const cursors = new Map<string, { cursor: number; chordStart: number }>();
+    measure.events.forEach((event) => {
+      const key = `${event.staffNumber}-${event.voiceNumber}`;
+      const position = cursors.get(key) ?? {
+        cursor: measureStart,
+        chordStart: measureStart,
+      };
+      cursors.set(key, position);
+      const start = event.isChordElement
+        ? position.chordStart
+        : position.cursor;
+      if (!event.isChordElement) {
+        position.chordStart = position.cursor;
+        position.cursor += event.durationTicks;
+      }
+      if (
+        event.type !== 'note' ||
+        event.midi === null ||
+        event.midi === undefined
+      )
+        return;
+      if (event.durationTicks <= 0) return;
+      const tieKey = `${key}-${event.midi}`;
+      const tiedFrom = event.tieStop ? openTies.get(tieKey) : undefined;
+      openTies.delete(tieKey);
+      let note: TimedNote;
+      if (tiedFrom && tiedFrom.startTicks + tiedFrom.durationTicks === start) {
+        tiedFrom.durationTicks += event.durationTicks;
+        note = tiedFrom;
+      } else {
+        note = {
+          midi: event.midi,
+          startTicks: start,
+          durationTicks: event.durationTicks,
+          staffNumber: event.staffNumber,
+          voiceNumber: event.voiceNumber,
+          measureIndex,
+        };
+        notes.push(note);
+      }
+      if (event.tieStart) openTies.set(tieKey, note);
+    });
+  });
+
+  return notes.sort((a, b) => a.startTicks - b.startTicks);
+}
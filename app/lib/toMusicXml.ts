@@ -1,6 +1,28 @@
 // src/toMusicXml.ts
 import { create } from 'xmlbuilder2';
 import * as Tonal from 'tonal';
+import {
+  BeamValue,
+  GeneratedPieceData,
+  MeasureData,
+  MusicalEvent,
+  MusicXMLOptions,
+  Tuplet,
+} from './types';
+import {
+  addChordSymbolToXML,
+  addRomanNumeralToXML,
+  getBeamGroupTicks,
+  getBeams,
+  getChordSymbol,
+  getNotatedDuration,
+  getNoteTypeFromDuration,
+  getTimeSignature,
+  getTupletBrackets,
+  getWrittenDurationTicks,
+  splitIntoNotatedDurations,
+} from './musicxmlUtils';
+import { getMeasureMeters } from './generationUtils';
 
 /**
  * Represents a musical note with its pitch and rhythm.
@@ -11,10 +33,12 @@ interface NoteObject {
   note?: string;
   /**
    * A numerical representation of the note's rhythm/duration.
-   * The absolute value determines the note length:
-   *   1 = whole note, 2 = half note, 4 = quarter note, 8 = eighth note, 16 = sixteenth note.
+   * The absolute value determines the note length, 1 / |rhythm| of a whole note:
+   *   1 = whole note, 2 = half note, 4 = quarter note, 8 = eighth note, 16 = sixteenth note,
+   *   8/3 = dotted quarter note (3/8 of a whole note).
    * A negative value denotes a rest of the corresponding duration (e.g., -4 = quarter rest).
    * Only the sign indicates rest vs note; the magnitude alone maps to the duration/type.
+   * Durations no single (dotted) note can write, and notes crossing a barline, are written as tied notes.
    * Optional; undefined or null will skip the note/rest.
    *
    * @example
@@ -22,16 +46,13 @@ interface NoteObject {
    *   rhythm: -8  // eighth rest
    */
   rhythm?: number | null;
-}
-
-/**
- * Holds information about a specific rhythmic value in MusicXML context.
- */
-interface RhythmInfo {
-  /** The MusicXML note type string (e.g., "quarter", "half", "eighth"). */
-  type: string;
-  /** The duration of the note in MusicXML divisions (ticks). */
-  duration: number;
+  /** `true` if the note is tied to the next note (which should have the same pitch). */
+  tie?: boolean;
+  /**
+   * The tuplet the note or rest belongs to (see `getTuplet` in the rhythm module); `rhythm` is then
+   * its sounding length, e.g., 12 for a triplet eighth (3:2) or 16/3 for a duplet eighth (2:3).
+   */
+  tuplet?: Tuplet;
 }
 
 /**
@@ -92,14 +113,37 @@ function getNoteDetails(noteStr: string): PitchInfo {
 
 const RHYTHM_MAP_DIVISIONS: number = 4;
 
-const rhythmMap = new Map<number, RhythmInfo>([
-  [1, { type: 'whole', duration: RHYTHM_MAP_DIVISIONS * 4 }],
-  [2, { type: 'half', duration: RHYTHM_MAP_DIVISIONS * 2 }],
-  [4, { type: 'quarter', duration: RHYTHM_MAP_DIVISIONS * 1 }],
-  [8, { type: 'eighth', duration: RHYTHM_MAP_DIVISIONS / 2 }],
-  [16, { type: '16th', duration: RHYTHM_MAP_DIVISIONS / 4 }],
-  [32, { type: '32nd', duration: RHYTHM_MAP_DIVISIONS / 8 }],
-]);
+/**
+ * Returns the divisions per quarter note needed to write the notes in whole divisions: the
+ * smallest multiple of `baseDivisions` that does (e.g., three times as many for triplets).
+ */
+function getScoreDivisions(notes: NoteObject[], baseDivisions: number): number {
+  for (let factor = 1; factor <= 60; factor++) {
+    const divisions = baseDivisions * factor;
+    if (
+      notes.every((noteObj) => {
+        const ticks = getRhythmDurationTicks(noteObj.rhythm, divisions);
+        return ticks === null || Number.isInteger(ticks);
+      })
+    )
+      return divisions;
+  }
+  return baseDivisions;
+}
+
+/**
+ * Returns the duration of a `NoteObject` rhythm in divisions: 1 / |rhythm| of a whole note (e.g.,
+ * 4 for a quarter and 6 for a dotted quarter at 4 divisions). Returns `null` for missing or
+ * invalid rhythms.
+ */
+function getRhythmDurationTicks(
+  rhythm: number | null | undefined,
+  divisions: number,
+): number | null {
+  if (!rhythm || !Number.isFinite(rhythm)) return null;
+  // Rounded so that rhythms such as 8/3 give whole divisions
+  return Math.round(((divisions * 4) / Math.abs(rhythm)) * 1e6) / 1e6;
+}
 
 // Mapping of alteration values to MusicXML accidental text.
 const ALTER_TO_ACCIDENTAL: Readonly<Record<number, string>> = {
@@ -109,20 +153,67 @@ const ALTER_TO_ACCIDENTAL: Readonly<Record<number, string>> = {
   [-2]: 'flat-flat',
 };
 
-interface ScoreData {
+export interface ScoreData {
   /** Array of NoteObject representing the melody line. */
   melody: NoteObject[];
   /** Array of NoteObject representing the accompaniment. */
   accompaniment: NoteObject[];
 }
 
+/** The time signature of a measure, as written and in divisions. */
+interface MeasureTime {
+  meter: string;
+  /** The `<beats>` text (e.g., "3+2+2" for an additive meter). */
+  beats: string;
+  beatType: number;
+  measureDurationTicks: number;
+  /** Lengths of the beat groups within which notes are beamed (see `getBeamGroupTicks`). */
+  beamGroupTicks: number[];
+}
+
 interface PieceAttributes {
   divisions: number;
   keyFifths: number;
   keyMode: string;
-  timeBeats: number;
-  timeBeatType: number;
-  measureDurationTicks: number;
+  /** The time of each measure; the last one continues to the end of the piece. */
+  measureTimes: MeasureTime[];
+}
+
+/**
+ * Reads the time of each measure from a meter or a meter list such as "4/4 3/4" (see
+ * `getMeasureMeters`). Returns `null` if any of the meters cannot be read.
+ */
+function getMeasureTimes(
+  timeSignature: string,
+  divisions: number,
+): MeasureTime[] | null {
+  let meters: string[];
+  try {
+    meters = getMeasureMeters(timeSignature);
+  } catch {
+    return null;
+  }
+  const times: MeasureTime[] = [];
+  for (const meter of meters) {
+    const time = getTimeSignature(meter, divisions);
+    if (!time) return null;
+    times.push({
+      meter,
+      beats: time.beats,
+      beatType: time.beatType,
+      measureDurationTicks: time.measureDurationTicks,
+      beamGroupTicks: getBeamGroupTicks(meter, divisions),
+    });
+  }
+  return times;
+}
+
+/** The time of a measure by index; measures past the listed ones keep the last time. */
+function getMeasureTime(
+  measureTimes: MeasureTime[],
+  measureIndex: number,
+): MeasureTime {
+  return measureTimes[Math.min(measureIndex, measureTimes.length - 1)];
 }
 
 interface PartInfo {
@@ -132,52 +223,180 @@ interface PartInfo {
   clefLine: number;
 }
 
+/**
+ * Appends a note or rest of the given duration to a measure, with a dotted type when the duration
+ * is dotted, `<tie>`/`<tied>` elements when it is tied to the previous or next note, its
+ * `<beam>` elements and, for tuplet notes, `<time-modification>` and the `<tuplet>` bracket.
+ */
+function addNoteElement(
+  measureElement: any,
+  noteObj: NoteObject,
+  isRest: boolean,
+  durationTicks: number,
+  divisions: number,
+  tieStop: boolean,
+  tieStart: boolean,
+  beams: BeamValue[] = [],
+  tupletBracket: { start: boolean; stop: boolean } = {
+    start: false,
+    stop: false,
+  },
+) {
+  const noteElement = measureElement.ele('note');
+  let accidentalText: string | undefined;
+
+  if (isRest) {
+    noteElement.ele('rest').up();
+  } else if (noteObj.note) {
+    const pitchInfo = getNoteDetails(noteObj.note); // Use the new function name
+    // Since getNoteDetails now always returns a PitchInfo (even for rests/unparseable),
+    // we check if it's a "real" note by seeing if step is populated.
+    if (pitchInfo.step) {
+      const pitch = noteElement.ele('pitch');
+      pitch.ele('step').txt(pitchInfo.step).up();
+      if (pitchInfo.alter !== undefined && pitchInfo.alter !== 0) {
+        // Only add alter if not 0
+        pitch.ele('alter').txt(`${pitchInfo.alter}`).up();
+      }
+      pitch.ele('octave').txt(pitchInfo.octave).up();
+      pitch.up();
+      // Accidental display logic (not repeated on the continuation of a tied note)
+      if (pitchInfo.alter !== undefined && pitchInfo.alter !== 0 && !tieStop)
+        accidentalText = ALTER_TO_ACCIDENTAL[pitchInfo.alter];
+    } else {
+      noteElement.ele('rest').up();
+      tieStop = tieStart = false;
+      console.warn(
+        `Unparseable note string '${noteObj.note}', adding rest instead.`,
+      );
+    }
+  } else {
+    noteElement.ele('rest').up();
+    tieStop = tieStart = false;
+  }
+
+  // The remaining elements follow the order the MusicXML schema requires
+  noteElement.ele('duration').txt(`${durationTicks}`).up();
+  if (tieStop) noteElement.ele('tie', { type: 'stop' }).up();
+  if (tieStart) noteElement.ele('tie', { type: 'start' }).up();
+  noteElement.ele('voice').txt('1').up();
+  // Emit <type> (and <dot/> for dotted durations) for both notes and rests
+  const notated = getNotatedDuration(
+    getWrittenDurationTicks(durationTicks, noteObj.tuplet),
+    divisions,
+  );
+  noteElement
+    .ele('type')
+    .txt(notated?.noteType ?? getNoteTypeFromDuration(durationTicks, divisions))
+    .up();
+  for (let dot = 0; dot < (notated?.dots ?? 0); dot++)
+    noteElement.ele('dot').up();
+  if (accidentalText) noteElement.ele('accidental').txt(accidentalText).up();
+  if (noteObj.tuplet) {
+    const timeModification = noteElement.ele('time-modification');
+    timeModification
+      .ele('actual-notes')
+      .txt(`${noteObj.tuplet.actualNotes}`)
+      .up();
+    timeModification
+      .ele('normal-notes')
+      .txt(`${noteObj.tuplet.normalNotes}`)
+      .up();
+    timeModification.up();
+  }
+  noteElement.ele('staff').txt('1').up();
+  beams.forEach((beam, i) =>
+    noteElement
+      .ele('beam', { number: `${i + 1}` })
+      .txt(beam)
+      .up(),
+  );
+  if (tieStop || tieStart || tupletBracket.start || tupletBracket.stop) {
+    const notations = noteElement.ele('notations');
+    if (tieStop) notations.ele('tied', { type: 'stop' }).up();
+    if (tieStart) notations.ele('tied', { type: 'start' }).up();
+    if (tupletBracket.start) notations.ele('tuplet', { type: 'start' }).up();
+    if (tupletBracket.stop) notations.ele('tuplet', { type: 'stop' }).up();
+    notations.up();
+  }
+  noteElement.up();
+}
+
+/** Appends the `<time>` element of a measure's time signature to its attributes. */
+function addTimeElement(attributes: any, time: MeasureTime) {
+  const timeElement = attributes.ele('time');
+  timeElement.ele('beats').txt(time.beats).up();
+  timeElement.ele('beat-type').txt(`${time.beatType}`).up();
+  timeElement.up();
+}
+
+/**
+ * Writes a part's notes measure by measure, each in its own meter, with a `<time>` element in the
+ * first measure and wherever the meter changes. A note that does not fit in the rest of its measure
+ * is split at the barline and tied into the next measure, durations no single (dotted) note can
+ * write are split into tied notes, and the last measure is filled with a rest. Each measure's
+ * notes are beamed by the meter's beat groups and its tuplet notes bracketed.
+ */
 // Using 'any' for builder chain type to avoid dependency on internal xmlbuilder2 typing variations.
 function buildPartMeasures(
   partBuilder: any,
   notes: NoteObject[],
   partInfo: PartInfo,
   pieceAttributes: PieceAttributes,
+  annotateMeasure?: (measureElement: any, measureIndex: number) => void,
 ) {
-  let currentMeasureTicks = 0;
+  const { divisions, measureTimes } = pieceAttributes;
   let measureNumber = 1;
-  let noteBuffer = [...notes];
+  const noteBuffer = [...notes];
+  // Duration of the first note in the buffer still to be written, once it has crossed a barline
+  let carriedTicks: number | null = null;
+  // Whether the next note continues a tied note
+  let tiedFromPrevious = false;
 
-  while (
-    noteBuffer.length > 0 ||
-    (measureNumber === 1 && currentMeasureTicks === 0) ||
-    (currentMeasureTicks > 0 &&
-      currentMeasureTicks < pieceAttributes.measureDurationTicks)
-  ) {
+  do {
     const measureElement = partBuilder.ele('measure', {
       number: `${measureNumber}`,
     });
+    const time = getMeasureTime(measureTimes, measureNumber - 1);
+    const { measureDurationTicks, beamGroupTicks } = time;
 
     if (measureNumber === 1) {
       const attributes = measureElement.ele('attributes');
-      attributes.ele('divisions').txt(`${pieceAttributes.divisions}`).up();
+      attributes.ele('divisions').txt(`${divisions}`).up();
       const key = attributes.ele('key');
       key.ele('fifths').txt(`${pieceAttributes.keyFifths}`).up();
       key.ele('mode').txt(pieceAttributes.keyMode).up();
       key.up();
-      const time = attributes.ele('time');
-      time.ele('beats').txt(`${pieceAttributes.timeBeats}`).up();
-      time.ele('beat-type').txt(`${pieceAttributes.timeBeatType}`).up();
-      time.up();
+      addTimeElement(attributes, time);
       attributes.ele('staves').txt('1').up();
       const clef = attributes.ele('clef');
       clef.ele('sign').txt(partInfo.clefSign).up();
       clef.ele('line').txt(`${partInfo.clefLine}`).up();
       clef.up();
       attributes.up();
+    } else if (
+      time.meter !== getMeasureTime(measureTimes, measureNumber - 2).meter
+    ) {
+      const attributes = measureElement.ele('attributes');
+      addTimeElement(attributes, time);
+      attributes.up();
     }
-
-    let measureFilledInLoop = false;
+    annotateMeasure?.(measureElement, measureNumber - 1);
+
+    let currentMeasureTicks = 0;
+    // The measure's notes, written once all are known so that they can be beamed
+    const measureNotes: {
+      noteObj: NoteObject;
+      isRest: boolean;
+      startTicks: number;
+      durationTicks: number;
+      tieStop: boolean;
+      tieStart: boolean;
+    }[] = [];
     while (
-      currentMeasureTicks < pieceAttributes.measureDurationTicks &&
+      currentMeasureTicks < measureDurationTicks &&
       noteBuffer.length > 0
     ) {
-      measureFilledInLoop = true;
       const noteObj = noteBuffer[0];
 
       if (!noteObj.rhythm) {
@@ -185,119 +404,291 @@ function buildPartMeasures(
           `Skipping note object with no rhythm: ${JSON.stringify(noteObj)}`,
         );
         noteBuffer.shift();
+        tiedFromPrevious = false;
         continue;
       }
       // Support negative rhythm values to denote rests; map to absolute for duration/type
-      const rhythmDen = Math.abs(noteObj.rhythm);
-      const rhythmInfo = rhythmMap.get(rhythmDen);
-      if (!rhythmInfo) {
+      const noteTicks: number | null =
+        carriedTicks ?? getRhythmDurationTicks(noteObj.rhythm, divisions);
+      if (noteTicks === null || noteTicks <= 0) {
         console.warn(
           `Skipping note with unrecognized rhythm: ${noteObj.rhythm}`,
         );
         noteBuffer.shift();
+        tiedFromPrevious = false;
         continue;
       }
 
-      if (
-        currentMeasureTicks + rhythmInfo.duration >
-        pieceAttributes.measureDurationTicks
-      ) {
-        break;
-      }
-
-      noteBuffer.shift();
-
-      const noteElement = measureElement.ele('note');
       const isRest =
         (typeof noteObj.rhythm === 'number' && noteObj.rhythm < 0) ||
         noteObj.note?.toLowerCase() === 'rest';
-
-      if (isRest) {
-        noteElement.ele('rest').up();
-      } else if (noteObj.note) {
-        const pitchInfo = getNoteDetails(noteObj.note); // Use the new function name
-        // Since getNoteDetails now always returns a PitchInfo (even for rests/unparseable),
-        // we check if it's a "real" note by seeing if step is populated.
-        if (pitchInfo.step) {
-          const pitch = noteElement.ele('pitch');
-          pitch.ele('step').txt(pitchInfo.step).up();
-          if (pitchInfo.alter !== undefined && pitchInfo.alter !== 0) {
-            // Only add alter if not 0
-            pitch.ele('alter').txt(`${pitchInfo.alter}`).up();
-          }
-          pitch.ele('octave').txt(pitchInfo.octave).up();
-          pitch.up();
-          // Accidental display logic
-          if (pitchInfo.alter !== undefined && pitchInfo.alter !== 0) {
-            const accidentalText = ALTER_TO_ACCIDENTAL[pitchInfo.alter];
-            if (accidentalText)
-              noteElement.ele('accidental').txt(accidentalText).up();
-          }
-        } else {
-          noteElement.ele('rest').up();
-          console.warn(
-            `Unparseable note string '${noteObj.note}', adding rest instead.`,
-          );
-        }
+      const measureTicks = Math.min(
+        noteTicks,
+        measureDurationTicks - currentMeasureTicks,
+      );
+      const crossesBarline = measureTicks < noteTicks;
+      const tiedToNext =
+        crossesBarline || (!!noteObj.tie && noteBuffer.length > 1);
+      const parts = noteObj.tuplet
+        ? [measureTicks]
+        : splitIntoNotatedDurations(measureTicks, divisions);
+      let partStartTicks = currentMeasureTicks;
+      parts.forEach((partTicks, partIndex) => {
+        measureNotes.push({
+          noteObj,
+          isRest,
+          startTicks: partStartTicks,
+          durationTicks: partTicks,
+          tieStop: !isRest && (partIndex > 0 || tiedFromPrevious),
+          tieStart: !isRest && (partIndex < parts.length - 1 || tiedToNext),
+        });
+        partStartTicks += partTicks;
+      });
+      currentMeasureTicks += measureTicks;
+
+      if (crossesBarline) {
+        carriedTicks = noteTicks - measureTicks;
       } else {
-        noteElement.ele('rest').up();
+        noteBuffer.shift();
+        carriedTicks = null;
       }
-
-      noteElement.ele('duration').txt(`${rhythmInfo.duration}`).up();
-      // Emit <type> for both notes and rests based on absolute rhythm value
-      noteElement.ele('type').txt(rhythmInfo.type).up();
-      noteElement.ele('voice').txt('1').up();
-      noteElement.ele('staff').txt('1').up();
-      noteElement.up();
-
-      currentMeasureTicks += rhythmInfo.duration;
+      tiedFromPrevious = !isRest && tiedToNext;
     }
 
-    if (currentMeasureTicks < pieceAttributes.measureDurationTicks) {
-      const remainingTicks =
-        pieceAttributes.measureDurationTicks - currentMeasureTicks;
-      if (remainingTicks > 0) {
-        const restElement = measureElement.ele('note');
-        restElement.ele('rest').up();
-        restElement.ele('duration').txt(`${remainingTicks}`).up();
-        restElement.ele('voice').txt('1').up();
-        restElement.ele('staff').txt('1').up();
-        restElement.up();
-        currentMeasureTicks += remainingTicks;
-        measureFilledInLoop = true;
-      }
+    const notes = measureNotes.map(
+      ({ noteObj, isRest, startTicks, durationTicks }) => ({
+        startTicks,
+        durationTicks,
+        isRest: isRest || !noteObj.note,
+        tuplet: noteObj.tuplet,
+      }),
+    );
+    const beams = getBeams(notes, beamGroupTicks, divisions);
+    const tupletBrackets = getTupletBrackets(notes);
+    measureNotes.forEach((note, i) =>
+      addNoteElement(
+        measureElement,
+        note.noteObj,
+        note.isRest,
+        note.durationTicks,
+        divisions,
+        note.tieStop,
+        note.tieStart,
+        beams[i],
+        tupletBrackets[i],
+      ),
+    );
+
+    const remainingTicks = measureDurationTicks - currentMeasureTicks;
+    if (remainingTicks > 0) {
+      const restElement = measureElement.ele('note');
+      restElement.ele('rest').up();
+      restElement.ele('duration').txt(`${remainingTicks}`).up();
+      restElement.ele('voice').txt('1').up();
+      restElement.ele('staff').txt('1').up();
+      restElement.up();
     }
 
     measureElement.up();
-
-    if (currentMeasureTicks >= pieceAttributes.measureDurationTicks) {
-      currentMeasureTicks = 0;
-      measureNumber++;
-    } else if (
-      noteBuffer.length === 0 &&
-      !measureFilledInLoop &&
-      measureNumber > 1
-    ) {
-      break;
-    }
+    measureNumber++;
 
     if (measureNumber > 1000) {
       console.error('Measure count exceeded 1000. Aborting.');
       break;
     }
-    if (noteBuffer.length === 0 && currentMeasureTicks === 0) {
-      break;
+  } while (noteBuffer.length > 0);
+}
+
+/**
+ * Divisions per quarter note used when converting `ScoreData` into `GeneratedPieceData`
+ * (multiplied for tuplets, see `getScoreDivisions`). Twice the MusicXML writer's divisions so that
+ * 32nd notes map to whole ticks.
+ */
+const PIECE_DATA_DIVISIONS: number = RHYTHM_MAP_DIVISIONS * 2;
+
+/**
+ * Converts one `NoteObject` line into `MusicalEvent`s grouped by the measure they sound in.
+ * Notes that cannot be parsed become rests so the timeline is preserved; notes crossing a
+ * barline are split there and tied, as are notes tied to the next note (`NoteObject.tie`).
+ */
+function noteObjectsToMeasureEvents(
+  notes: NoteObject[],
+  staffNumber: string,
+  voiceNumber: string,
+  measureTimes: MeasureTime[],
+  divisions: number,
+): Map<number, MusicalEvent[]> {
+  const byMeasure = new Map<number, MusicalEvent[]>();
+  let tick = 0;
+  // The measure `tick` lies in and where it ends
+  let measureIndex = 0;
+  let measureEnd = getMeasureTime(measureTimes, 0).measureDurationTicks;
+  let tiedFromPrevious = false;
+  notes.forEach((noteObj, noteIndex) => {
+    const durationTicks = getRhythmDurationTicks(noteObj.rhythm, divisions);
+    if (!noteObj.rhythm || durationTicks === null) return;
+    const midi =
+      noteObj.rhythm > 0 &&
+      noteObj.note &&
+      noteObj.note.toLowerCase() !== 'rest'
+        ? Tonal.Note.midi(noteObj.note)
+        : null;
+    const isNote = midi !== null;
+    let remaining = durationTicks;
+    while (remaining > 0) {
+      const partTicks = Math.min(remaining, measureEnd - tick);
+      remaining -= partTicks;
+      const tiedToNext =
+        remaining > 0 || (!!noteObj.tie && noteIndex < notes.length - 1);
+      if (!byMeasure.has(measureIndex)) byMeasure.set(measureIndex, []);
+      byMeasure.get(measureIndex)!.push({
+        type: isNote ? 'note' : 'rest',
+        midi,
+        durationTicks: partTicks,
+        staffNumber,
+        voiceNumber,
+        noteType:
+          getNotatedDuration(
+            getWrittenDurationTicks(partTicks, noteObj.tuplet),
+            divisions,
+          )?.noteType ?? getNoteTypeFromDuration(partTicks, divisions),
+        ...(isNote && tiedFromPrevious ? { tieStop: true } : {}),
+        ...(isNote && tiedToNext ? { tieStart: true } : {}),
+        ...(noteObj.tuplet ? { tuplet: noteObj.tuplet } : {}),
+      });
+      tiedFromPrevious = isNote && tiedToNext;
+      tick += partTicks;
+      if (tick >= measureEnd) {
+        measureIndex++;
+        measureEnd += getMeasureTime(
+          measureTimes,
+          measureIndex,
+        ).measureDurationTicks;
+      }
     }
+  });
+  return byMeasure;
+}
+
+/**
+ * Converts melody/accompaniment `ScoreData` (as produced by `generateMA`) into the
+ * `GeneratedPieceData` structure used by the other exporters (e.g. `createMidiFile`).
+ * The melody is placed on staff 1 / voice 1 and the accompaniment on staff 2 / voice 2.
+ *
+ * @param {ScoreData} scoreData - Melody and accompaniment note lists.
+ * @param {string} keySignature - Key signature (e.g. "C", "Gm").
+ * @param {string} timeSignature - Meter string (e.g. "4/4"), or one meter per measure (e.g.
+ *        "4/4 3/4"), the last continuing to the end (see `getMeasureMeters`).
+ * @param {object} [options] - Optional title, seed, encoding date (none is recorded if omitted) and
+ *        chord progression (one Roman numeral per measure).
+ * @returns {GeneratedPieceData} The equivalent piece data.
+ */
+export function scoreDataToPieceData(
+  scoreData: ScoreData,
+  keySignature: string,
+  timeSignature: string,
+  options: {
+    title?: string;
+    seed?: number;
+    encodingDate?: string;
+    progression?: string[];
+  } = {},
+): GeneratedPieceData {
+  const divisions = getScoreDivisions(
+    [...scoreData.melody, ...scoreData.accompaniment],
+    PIECE_DATA_DIVISIONS,
+  );
+  const measureTimes =
+    getMeasureTimes(timeSignature, divisions) ??
+    getMeasureTimes('4/4', divisions)!;
+
+  const melodyByMeasure = noteObjectsToMeasureEvents(
+    scoreData.melody,
+    '1',
+    '1',
+    measureTimes,
+    divisions,
+  );
+  const accompanimentByMeasure = noteObjectsToMeasureEvents(
+    scoreData.accompaniment,
+    '2',
+    '2',
+    measureTimes,
+    divisions,
+  );
+  const numMeasures = Math.max(
+    0,
+    ...Array.from(melodyByMeasure.keys()).map((i) => i + 1),
+    ...Array.from(accompanimentByMeasure.keys()).map((i) => i + 1),
+  );
+
+  const measures: MeasureData[] = [];
+  for (let i = 0; i < numMeasures; i++) {
+    measures.push({
+      measureNumber: i + 1,
+      romanNumeral: options.progression?.[i] ?? '',
+      meter: getMeasureTime(measureTimes, i).meter,
+      events: [
+        ...(melodyByMeasure.get(i) ?? []),
+        ...(accompanimentByMeasure.get(i) ?? []),
+      ],
+    });
   }
+
+  return {
+    metadata: {
+      title: options.title ?? 'Generated Score',
+      software: 'AI Music Generation Tool',
+      encodingDate: options.encodingDate,
+      partName: 'Melody + Accompaniment',
+      keySignature,
+      meter: measureTimes[0].meter,
+      numMeasures,
+      generationStyle: 'MelodyAccompaniment',
+      divisions,
+      seed: options.seed,
+    },
+    measures,
+  };
 }
 
+/**
+ * Writes melody/accompaniment `ScoreData` as MusicXML with a Melody and an Accompaniment part.
+ * Given the chord progression (one Roman numeral per measure), each measure gets a chord symbol
+ * above the melody and, if requested, its Roman numeral below the accompaniment.
+ *
+ * @param {ScoreData} scoreData - Melody and accompaniment note lists.
+ * @param {string} keySignature - Key signature (e.g. "C", "Gm").
+ * @param {string} timeSignature - Meter string (e.g. "4/4"), or one meter per measure (e.g.
+ *        "4/4 3/4"), the last continuing to the end (see `getMeasureMeters`).
+ * @param {string} [title='Generated Score'] - Work title.
+ * @param {number} [seed] - Generation seed, recorded in the identification.
+ * @param {MusicXMLOptions & { progression?: string[]; encodingDate?: string }} [options={}] - The
+ *        chord progression and whether to write chord symbols (default) and Roman numerals for it,
+ *        and the encoding date to record (none if omitted, so that the output is reproducible).
+ * @returns {string} The MusicXML document.
+ */
 export function scoreToMusicXML(
   scoreData: ScoreData,
   keySignature: string,
   timeSignature: string,
   title: string = 'Generated Score',
+  seed?: number,
+  options: MusicXMLOptions & {
+    progression?: string[];
+    encodingDate?: string;
+  } = {},
 ): string {
-  const divisions = RHYTHM_MAP_DIVISIONS;
+  const {
+    progression = [],
+    chordSymbols = true,
+    romanNumerals = false,
+    encodingDate,
+  } = options;
+  const divisions = getScoreDivisions(
+    [...scoreData.melody, ...scoreData.accompaniment],
+    RHYTHM_MAP_DIVISIONS,
+  );
 
   const keyDetails =
     Tonal.Key.majorKey(keySignature) ?? Tonal.Key.minorKey(keySignature);
@@ -316,27 +707,19 @@ export function scoreToMusicXML(
     );
   }
 
-  const timeSigMatch = timeSignature.match(/^(\d+)\/(\d+)$/);
-  let timeBeats = 4;
-  let timeBeatType = 4;
-  if (timeSigMatch) {
-    timeBeats = parseInt(timeSigMatch[1], 10);
-    timeBeatType = parseInt(timeSigMatch[2], 10);
-  } else {
+  let measureTimes = getMeasureTimes(timeSignature, divisions);
+  if (!measureTimes) {
     console.warn(
       `Invalid time signature format "${timeSignature}". Defaulting to 4/4.`,
     );
+    measureTimes = getMeasureTimes('4/4', divisions)!;
   }
-  const ticksPerBeat = divisions * (4 / timeBeatType);
-  const measureDurationTicks = timeBeats * ticksPerBeat;
 
   const pieceAttributes: PieceAttributes = {
     divisions,
     keyFifths,
     keyMode,
-    timeBeats,
-    timeBeatType,
-    measureDurationTicks,
+    measureTimes,
   };
 
   const root = create({ version: '1.0', encoding: 'UTF-8', standalone: false }) // Added standalone: false
@@ -349,10 +732,15 @@ export function scoreToMusicXML(
   root.ele('work').ele('work-title').txt(title).up().up();
   const identification = root.ele('identification');
   identification.ele('software').txt('AI Music Generation Tool').up();
-  identification
-    .ele('encoding-date')
-    .txt(new Date().toISOString().split('T')[0])
-    .up();
+  if (encodingDate) identification.ele('encoding-date').txt(encodingDate).up();
+  if (seed !== undefined) {
+    identification
+      .ele('miscellaneous')
+      .ele('miscellaneous-field', { name: 'seed' })
+      .txt(`${seed}`)
+      .up()
+      .up();
+  }
   identification.up();
 
   const partList = root.ele('part-list');
@@ -382,6 +770,12 @@ export function scoreToMusicXML(
     scoreData.melody,
     melodyPartInfo,
     pieceAttributes,
+    (measureElement, measureIndex) => {
+      const roman = progression[measureIndex];
+      const symbol =
+        chordSymbols && roman ? getChordSymbol(roman, keySignature) : null;
+      if (symbol) addChordSymbolToXML(measureElement, symbol, 0);
+    },
   );
   melodyPartBuilder.up();
 
@@ -397,6 +791,11 @@ export function scoreToMusicXML(
     scoreData.accompaniment,
     accompanimentPartInfo,
     pieceAttributes,
+    (measureElement, measureIndex) => {
+      const roman = progression[measureIndex];
+      if (romanNumerals && roman)
+        addRomanNumeralToXML(measureElement, roman, 0, '1');
+    },
   );
   accompanimentPartBuilder.up();
 
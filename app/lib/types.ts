@@ -16,6 +16,35 @@ export interface MusicXMLPitch {
   octave: number;
 }
 
+/** A chord symbol as written in a MusicXML `<harmony>` element (see `getChordSymbol`). */
+export interface ChordSymbol {
+  /** The root (the lowered sixth degree for augmented sixths). */
+  root: { step: string; alter: number };
+  /** MusicXML chord kind (e.g., "major", "dominant", "half-diminished", "German"). */
+  kind: string;
+  /** Suffix to display for chords of kind "other" (e.g., "maj7#5"). */
+  kindText?: string;
+  /** The bass note of an inversion; absent in root position. */
+  bass?: { step: string; alter: number };
+}
+
+/** A tuplet ratio: `actualNotes` notes in the time of `normalNotes` (e.g., 3 in the time of 2 for triplets). */
+export interface Tuplet {
+  actualNotes: number;
+  normalNotes: number;
+}
+
+/** The value of a MusicXML `<beam>` element: how a note's beam joins its neighbours' (see `getBeams`). */
+export type BeamValue = 'begin' | 'continue' | 'end' | 'forward hook' | 'backward hook';
+
+/** What `createMusicXMLString` and `scoreToMusicXML` write besides the notes. */
+export interface MusicXMLOptions {
+  /** Write a chord symbol (`<harmony>`) at every chord change. Defaults to `true`. */
+  chordSymbols?: boolean;
+  /** Write the Roman numeral of every chord change as text below the bass staff. Defaults to `false`. */
+  romanNumerals?: boolean;
+}
+
 /**
  * Defines the available styles for music generation.
  * - `SATB`: Traditional four-part harmony (Soprano, Alto, Tenor, Bass).
@@ -58,8 +87,228 @@ export interface GenerationSettings {
   rhythmicComplexity?: number; // Controls rhythm complexity; used by generateBeatFactorPattern in generationEngine and generateNoteValueSequence in rhythm module
   // Optional legacy alias (kept to avoid breaking tests referencing voiceLeadingStrictness).
   voiceLeadingStrictness?: number;
+  /**
+   * Seed for the pseudo-random number generator used by every generation stage.
+   * The same seed and inputs always produce the same piece. If omitted, a seed is
+   * generated and recorded in the piece metadata so the result can be reproduced.
+   */
+  seed?: number;
+  /** Encoding date (YYYY-MM-DD) to record in the piece. None is recorded if omitted. */
+  encodingDate?: string;
+  /**
+   * When `true`, candidate voicings that violate the active voice-leading rules are rejected
+   * and the generator backtracks within each measure to find compliant ones.
+   * Defaults to `true` when `dissonanceStrictness` is at least `ENFORCE_VOICE_LEADING_MIN_STRICTNESS`.
+   */
+  enforceVoiceLeading?: boolean;
+  /**
+   * Maximum number of candidate voicings checked per measure when voice leading is enforced.
+   * Defaults to `DEFAULT_VOICE_LEADING_SEARCH_BUDGET`.
+   */
+  voiceLeadingSearchBudget?: number;
+  /**
+   * Algorithm used to voice SATB chords.
+   * - `'greedy'` (default): picks bass, soprano, then inner voices event by event.
+   * - `'viterbi'`: enumerates all legal voicings of every chord and searches the whole
+   *   progression for the sequence with the lowest cost of motion, parallels, doublings and leaps.
+   */
+  satbVoicer?: SATBVoicer;
+  /**
+   * Turns individual voice-leading rules on or off (e.g., `{ 'hidden-fifths': false }`).
+   * Rules not listed are on, subject to the `dissonanceStrictness` level at which they apply.
+   */
+  voiceLeadingRules?: Partial<Record<VoiceLeadingRuleId, boolean>>;
+  /**
+   * Probability (0-1) of borrowing chords from the parallel key when generating a progression
+   * (see `ChordProgressionOptions.mixtureProbability`). Defaults to 0.
+   */
+  mixtureProbability?: number;
+  /** Planned modulation when generating a progression (see `ChordProgressionOptions.modulation`). */
+  modulation?: ModulationTarget;
+  /** Chord changes per measure when generating a progression (see `ChordProgressionOptions.harmonicRhythm`). */
+  harmonicRhythm?: number;
+  /**
+   * Cadences requested at phrase endings (see `ChordProgressionOptions.cadences`). The SATB voicer
+   * puts the soprano on the tonic when a perfect authentic cadence arrives, and off it for an
+   * imperfect one.
+   */
+  cadences?: CadenceRequest[];
+  /** Phrases of the piece (see `generateForm`), marked in the measures and the MusicXML output. */
+  phrases?: Phrase[];
+  /**
+   * Measures that restate an earlier measure: a measure with the same chords as its source gets
+   * the same rhythm and notes (see `FormPlan.measureRepeats`).
+   */
+  measureRepeats?: MeasureRepeat[];
+  /**
+   * Measures of an earlier result to keep, matched by `measureNumber` (e.g., measures locked
+   * before regenerating the others). A locked measure keeps its rhythm and notes as long as it
+   * still has the same chords; otherwise it is generated anew. The Viterbi voicer, and enforced
+   * voice leading in the measure before, lead the regenerated measures into a locked one.
+   */
+  lockedMeasures?: MeasureData[];
+}
+
+/** Available SATB voicing algorithms (see `GenerationSettings.satbVoicer`). */
+export type SATBVoicer = 'greedy' | 'viterbi';
+
+/**
+ * A model of which chord follows which, used by `generateChordProgression` in place of its
+ * built-in functional tendencies (see `createMarkovModel`).
+ */
+export interface ProgressionModel {
+  /**
+   * Relative weights of the chords that may follow `history` (the chords so far, most recent
+   * last), or `null` if the model has nothing to suggest.
+   */
+  getNextChordWeights(history: readonly string[]): Record<string, number> | null;
+}
+
+/**
+ * Transition counts of a first- or second-order Markov chain over Roman numerals, as stored in
+ * JSON (see `scripts/build-progression-models.js`).
+ */
+export interface MarkovTable {
+  /** Display name of the style (e.g., "Bach chorale"). */
+  name?: string;
+  /** Number of previous chords the transitions depend on. */
+  order: 1 | 2;
+  /**
+   * Weights of the next chord by context: the previous chord, or for order 2 also the previous two
+   * chords joined by a space (e.g., "ii V7"). First-order contexts are the fallback when a
+   * second-order context was never seen.
+   */
+  transitions: Record<string, Record<string, number>>;
+}
+
+/** Style presets of progression models (see `getProgressionPreset`). */
+export type ProgressionPreset = 'bachChorale' | 'pop' | 'jazz';
+
+/** Optional controls for `generateChordProgression`. */
+export interface ChordProgressionOptions {
+  /**
+   * Probability (0-1) that a chord with a borrowed counterpart is replaced by it: iv, ii°, bIII,
+   * bVI and bVII from the parallel minor in major keys, and a Picardy third ("I") ending minor keys.
+   * Defaults to 0 (no modal mixture).
+   */
+  mixtureProbability?: number;
+  /**
+   * Key the progression modulates to in its second half, through a pivot chord common to both keys.
+   * Chords in the new key are prefixed with it (e.g., "G:V7"). Defaults to no modulation.
+   */
+  modulation?: ModulationTarget;
+  /**
+   * Average number of chord changes per measure, from 0.25 (a chord every four measures) to 4
+   * (e.g., 2 for two chords per measure, 0.5 for a chord every two measures). When set, the
+   * progression is returned as `TimedChord` entries; the final tonic always lasts a full measure.
+   */
+  harmonicRhythm?: number;
+  /**
+   * Meter, or meter list (see `generateMusicalData`), whose beats measure `TimedChord.durationBeats`
+   * when `harmonicRhythm` is set. Defaults to "4/4".
+   */
+  meter?: string;
+  /**
+   * Cadences to write at phrase endings. A request for the last chord replaces the default
+   * final cadence (V-I, or V7-I from complexity 4).
+   */
+  cadences?: CadenceRequest[];
+  /**
+   * Chooses the chords between the opening tonic and the cadence. Suggestions whose Roman numeral
+   * (ignoring figures such as "7" or "6") is not allowed at the harmonic complexity are skipped;
+   * without any allowed suggestion the built-in tendencies choose.
+   */
+  model?: ProgressionModel;
+}
+
+/**
+ * Cadence types: perfect and imperfect authentic (V-I with or without the tonic in the soprano
+ * over root-position chords), half (ending on V), plagal (IV-I), deceptive (V-vi) and the
+ * Phrygian half cadence (iv6-V).
+ */
+export type CadenceType = 'PAC' | 'IAC' | 'half' | 'plagal' | 'deceptive' | 'phrygianHalf';
+
+/** A cadence requested at a phrase ending. */
+export interface CadenceRequest {
+  /** Index of the chord the cadence ends on; negative values count from the end (-1 is the last chord). */
+  chordIndex: number;
+  type: CadenceType;
+}
+
+/**
+ * Forms built by `generateForm`: a period (antecedent ending on a half cadence, consequent
+ * restating its opening and closing with a PAC), a sentence (presentation repeating a basic idea,
+ * then a continuation to a PAC) or a 32-bar-style AABA song form.
+ */
+export type FormType = 'period' | 'sentence' | 'AABA';
+
+/** A phrase (or phrase section) of a form. */
+export interface Phrase {
+  /** Label written as a rehearsal mark at the start of the phrase (e.g., "Antecedent", "A", "B"). */
+  label: string;
+  /** First measure of the phrase (0-based). */
+  startMeasure: number;
+  numMeasures: number;
+  /** The cadence ending the phrase, if it ends with one. */
+  cadence?: CadenceType;
+}
+
+/** A measure (0-based) that restates an earlier one. */
+export interface MeasureRepeat {
+  measure: number;
+  sourceMeasure: number;
+}
+
+/** The phrases and chords of a form, ready for `generateMusicalData` (see `generateForm`). */
+export interface FormPlan {
+  form: FormType;
+  phrases: Phrase[];
+  /** One Roman numeral per measure. */
+  progression: string[];
+  /** The cadence ending each phrase, for `GenerationSettings.cadences`. */
+  cadences: CadenceRequest[];
+  /** Measures whose material repeats an earlier phrase, for `GenerationSettings.measureRepeats`. */
+  measureRepeats: MeasureRepeat[];
 }
 
+/** Harmonic functions: tonic (T), predominant (S, for subdominant) and dominant (D). */
+export type HarmonicFunction = 'T' | 'S' | 'D';
+
+/** One chord of a progression pattern (see `parseProgressionPattern`). */
+export type ProgressionSlot =
+  | { kind: 'fixed'; roman: string }
+  | { kind: 'function'; function: HarmonicFunction }
+  | { kind: 'any' };
+
+/** A chord of a progression together with how long it lasts. */
+export interface TimedChord {
+  /** The Roman numeral chord symbol (e.g., "V7", "G:ii6"). */
+  roman: string;
+  /**
+   * Duration in beats of the meter (e.g., quarter notes in 4/4, eighth notes in 6/8). Across a
+   * meter change, the beats in each measure are those of its meter.
+   */
+  durationBeats: number;
+}
+
+/**
+ * An entry of a chord progression: a Roman numeral lasting one measure, or a `TimedChord`
+ * that may last a fraction of a measure or continue across barlines.
+ */
+export type ChordProgressionEntry = string | TimedChord;
+
+/**
+ * Target of a planned modulation: the dominant key, the relative major/minor,
+ * or any other key by name (e.g., `{ key: 'Eb' }`, `{ key: 'F#m' }`).
+ */
+export type ModulationTarget = 'dominant' | 'relative' | { key: string };
+
+/**
+ * A source of uniformly distributed random numbers in [0, 1), with the same contract as `Math.random`.
+ * Generation functions accept one so that a single seeded generator can be threaded through the pipeline.
+ */
+export type RandomSource = () => number;
+
 /**
  * Stores the last played MIDI note for each voice in an SATB arrangement.
  * Used to maintain context for voice leading and smoothness.
@@ -128,6 +377,16 @@ export interface MusicalEvent {
    * `true` for the second and subsequent notes of a chord played simultaneously in the same voice.
    */
   isChordElement?: boolean;
+  /** `true` if the note is tied to the next note of its voice (same pitch), e.g., across a barline. */
+  tieStart?: boolean;
+  /** `true` if the note continues the previous, tied note of its voice instead of sounding anew. */
+  tieStop?: boolean;
+  /**
+   * The tuplet the note or rest belongs to, e.g., 3:2 for a triplet eighth lasting a third of a
+   * quarter; `noteType` is then its written type ("eighth"). Consecutive events of a voice with the
+   * same tuplet are bracketed together (see `getTupletBrackets`).
+   */
+  tuplet?: Tuplet;
 }
 
 /**
@@ -138,10 +397,46 @@ export interface MeasureData {
   measureNumber: number;
   /** The Roman numeral chord symbol associated with this measure (e.g., "V7", "ii", "I64"). */
   romanNumeral: string;
+  /**
+   * The key this measure is in (e.g., "G" after a modulation from C). Differs from
+   * `metadata.keySignature` only after a modulation; absent in data from older generators.
+   * It is the key of the measure's first chord: key signatures only change at barlines, so a
+   * modulation that starts mid-measure shows its new signature from the next measure on
+   * (`generateChordProgression` starts its modulations on a barline).
+   */
+  keySignature?: string;
+  /**
+   * The meter of this measure (e.g., "3/4" or "3+2+2/8"). Differs from `metadata.meter` only in
+   * pieces whose meter changes; absent in data from older generators.
+   */
+  meter?: string;
+  /**
+   * The chords sounding in this measure in order, including one continuing from the previous
+   * measure. `romanNumeral` is the first of them.
+   */
+  chords?: MeasureChord[];
+  /** The cadence ending in this measure, if any, and the tick at which its final chord arrives. */
+  cadence?: { type: CadenceType; tick: number };
+  /** Label of the phrase beginning in this measure, if any. */
+  phraseLabel?: string;
+  /** `true` if a phrase ends with this measure (written as a double barline). */
+  phraseEnd?: boolean;
   /** An array of `MusicalEvent` objects that occur in this measure, in chronological order. */
   events: MusicalEvent[];
 }
 
+/** A chord within a measure (see `MeasureData.chords`). */
+export interface MeasureChord {
+  /** The Roman numeral chord symbol. */
+  romanNumeral: string;
+  /** Start of the chord in ticks from the beginning of the measure. */
+  startTick: number;
+  /** Length of the chord within this measure in ticks. */
+  durationTicks: number;
+  /** `true` if the chord started in an earlier measure and is sustained across the barline. */
+  continued: boolean;
+}
+
 /**
  * Represents the complete generated musical piece, including metadata and all measure data.
  * This is the primary intermediate structure before MusicXML conversion.
@@ -153,13 +448,20 @@ export interface GeneratedPieceData {
     title: string;
     /** The name of the software used for generation. */
     software: string;
-    /** The date of encoding/generation in YYYY-MM-DD format. */
-    encodingDate: string;
+    /**
+     * The date of encoding/generation in YYYY-MM-DD format, if one was given (see
+     * `GenerationSettings.encodingDate`). Left out by default so that the same seed and inputs
+     * give identical output.
+     */
+    encodingDate?: string;
     /** The name of the musical part (e.g., "Choral SATB", "Piano"). */
     partName: string;
     /** The key signature of the piece (e.g., "C", "Gm", "F#maj"). */
     keySignature: string;
-    /** The time signature of the piece (e.g., "4/4", "3/4"). */
+    /**
+     * The time signature of the piece (e.g., "4/4", "3/4"), or of its first measure if it changes
+     * (see `MeasureData.meter`).
+     */
     meter: string;
     /** The total number of measures in the piece. */
     numMeasures: number;
@@ -167,9 +469,103 @@ export interface GeneratedPieceData {
     generationStyle: GenerationStyle;
     /** The number of MusicXML divisions per quarter note. */
     divisions: number;
+    /** The random seed the piece was generated from. Reusing it reproduces the piece. */
+    seed?: number;
   };
   /** An array of `MeasureData` objects, each representing a measure in the piece. */
   measures: MeasureData[];
+  /** Voice-leading problems found while generating. Absent when the piece was not rule-checked. */
+  voiceLeadingReport?: VoiceLeadingReport;
+}
+
+/**
+ * Identifiers of the voice-leading rules checked by `checkVoiceLeadingRules`.
+ */
+export type VoiceLeadingRuleId =
+  | 'voice-crossing'
+  | 'spacing'
+  | 'parallel-fifths'
+  | 'parallel-octaves'
+  | 'hidden-fifths'
+  | 'hidden-octaves'
+  | 'unresolved-leading-tone'
+  | 'unresolved-seventh'
+  | 'augmented-interval'
+  | 'leap-over-octave'
+  | 'unrecovered-leap'
+  | 'voice-overlap'
+  | 'doubled-leading-tone';
+
+/**
+ * Extra context for `checkVoiceLeadingRules`. Rules that need a piece of context
+ * (e.g., the key for leading-tone checks) are skipped when it is not provided.
+ */
+export interface VoiceLeadingContext {
+  /** The key, used for leading-tone and augmented-second checks. */
+  keyDetails?: KeyDetails;
+  /**
+   * Pitch classes (root first) of the chord at the previous and at the current event.
+   * Tendency tones (leading tone, chordal seventh) are only checked when these differ.
+   */
+  previousChordPcs?: number[] | null;
+  chordPcs?: number[] | null;
+  /** Whether the previous chord's numeral asks for a seventh; its chordal seventh is then checked. */
+  previousChordHasSeventh?: boolean;
+  /**
+   * The leading tone the previous chord resolves if it has dominant function (the third of V, the root
+   * of vii°, also for applied chords). Leading-tone resolution is only checked after such chords.
+   */
+  previousChordLeadingTonePc?: number | null;
+  /** Notes of the event before the previous one, used to check leap recovery. */
+  notesBeforePrevious?: PreviousNotes | null;
+  /** Per-rule switches; a rule set to `false` is never reported. Rules default to on. */
+  enabledRules?: Partial<Record<VoiceLeadingRuleId, boolean>>;
+}
+
+/**
+ * How serious a voice-leading violation is.
+ * - `error`: breaks a core part-writing rule (crossing, parallel perfect intervals).
+ * - `warning`: stylistically weak but acceptable (e.g., wide spacing).
+ */
+export type ViolationSeverity = 'error' | 'warning';
+
+/**
+ * A single voice-leading rule violation found at one musical event.
+ */
+export interface VoiceLeadingViolation {
+  /** The rule that was broken. */
+  ruleId: VoiceLeadingRuleId;
+  /** How serious the violation is. */
+  severity: ViolationSeverity;
+  /** The 1-indexed measure number. */
+  measure: number;
+  /** The 1-indexed beat within the measure where the event starts (may be fractional). */
+  beat: number;
+  /** The voices involved (e.g., ["soprano", "alto"] or ["melody", "accompaniment"]). */
+  voices: string[];
+  /** The MIDI pitches of `voices` at the event, in the same order. */
+  pitches: number[];
+  /** For motion rules (parallels), the MIDI pitches of `voices` at the previous event. */
+  previousPitches?: number[];
+  /** A human-readable description of the problem. */
+  message: string;
+}
+
+/**
+ * All voice-leading violations of a piece, with totals for display.
+ */
+export interface VoiceLeadingReport {
+  /** Violations in the order they occur in the piece. */
+  violations: VoiceLeadingViolation[];
+  /** Number of violations per rule. */
+  countsByRule: Partial<Record<VoiceLeadingRuleId, number>>;
+  /** Number of violations per severity. */
+  countsBySeverity: Record<ViolationSeverity, number>;
+  /**
+   * 1-indexed measures for which enforced voice leading found no compliant voicing
+   * (empty when voice leading was not enforced).
+   */
+  unresolvedMeasures: number[];
 }
 
 /**
@@ -195,6 +591,8 @@ export interface TimingInfo {
   measureDurationTicks: number;
   /** The default MusicXML note type string (e.g., "quarter") for a single beat in the current meter. */
   defaultNoteType: string;
+  /** The beats of each beat group of an additive meter (e.g., [3, 2, 2] for "3+2+2/8"). */
+  beatGroups?: number[];
 }
 
 /**
@@ -227,6 +625,12 @@ export interface ChordInfo {
   noteNames: string[];
   /** The pitch class (0-11) of the required bass note based on inversion (e.g., "V6/4" implies the 5th is in the bass). `null` for root position. */
   requiredBassPc: number | null;
+  /**
+   * Pitch classes that may be doubled, in order of preference, for chords whose conventional doubling
+   * differs from the usual root/fifth/third preference (e.g., the bass of N6, the tonic of It+6).
+   * Undefined for ordinary chords.
+   */
+  doublingPcs?: number[];
 }
 
 /**
@@ -1,4 +1,4 @@
-import { WeightedChoice } from './types';
+import { RandomSource, WeightedChoice } from './types';
 
 /**
  * Performs a weighted random choice from a list of items.
@@ -6,9 +6,13 @@ import { WeightedChoice } from './types';
  *
  * @template T The type of the items to choose from.
  * @param {WeightedChoice<T>[]} choices - An array of objects, each containing an 'item' and its 'weight'.
+ * @param {RandomSource} [rng=Math.random] - Random source used for the draw; pass a seeded source for reproducible output.
  * @returns {T | null} The chosen item, or null if the input array is empty or contains no valid choices.
  */
-export const weightedRandomChoice = <T>(choices: WeightedChoice<T>[]): T | null => {
+export const weightedRandomChoice = <T>(
+  choices: WeightedChoice<T>[],
+  rng: RandomSource = Math.random,
+): T | null => {
   if (!choices || choices.length === 0) {
     return null; // No choices provided
   }
@@ -52,7 +56,7 @@ export const weightedRandomChoice = <T>(choices: WeightedChoice<T>[]): T | null
     if (totalWeight === 0) return null; // Should not happen if choices had length > 0
   }
 
-  let randomWeight = Math.random() * totalWeight;
+  let randomWeight = rng() * totalWeight;
 
   for (let i = 0; i < population.length; i++) {
     // Check if the random number falls within the range of the current item's weight
@@ -0,0 +1,97 @@
+// src/voiceLeadingSearch.ts
+import { PreviousNotes, VoiceLeadingViolation } from './types';
+
+/**
+ * Lazily yields candidate voicings for one event, best (default) candidate first.
+ * Returns `null` once the candidates are exhausted.
+ */
+export type VoicingCandidateSource = () => PreviousNotes | null;
+
+/** Outcome of `searchCompliantVoicings`. */
+export interface VoicingSearchResult {
+  /** One voicing per event. */
+  voicings: PreviousNotes[];
+  /** `true` if every event was voiced without any violation of the active rules. */
+  compliant: boolean;
+  /** Number of candidate voicings that were checked against the rules. */
+  candidatesEvaluated: number;
+}
+
+/**
+ * Chooses one voicing per event so that no event violates the active voice-leading rules,
+ * backtracking to earlier events when a later event has no compliant candidate.
+ *
+ * The search is depth-first and tries candidates in the order their source yields them,
+ * so when the default voicings already comply the result equals greedy generation.
+ * If no compliant sequence is found within `budget` checked candidates, the longest
+ * compliant prefix found is completed with each remaining event's default candidate.
+ *
+ * @param {number} eventCount - Number of events to voice.
+ * @param {PreviousNotes} initialPrevious - Notes sounding before the first event.
+ * @param {(eventIndex: number, previous: PreviousNotes) => VoicingCandidateSource} getCandidates -
+ *        Creates the candidate source for an event, given the voicing of the event before it.
+ * @param {(eventIndex: number, current: PreviousNotes, previous: PreviousNotes, beforePrevious: PreviousNotes | null) => VoiceLeadingViolation[]} checkEvent -
+ *        Returns the active-rule violations of moving from `previous` to `current`
+ *        (`beforePrevious` is the voicing before `previous`, if any).
+ * @param {number} budget - Maximum number of candidates to check before giving up.
+ * @param {PreviousNotes | null} [initialBeforePrevious=null] - Notes sounding before `initialPrevious`, if any.
+ * @returns {VoicingSearchResult} The chosen voicings and whether they are compliant.
+ */
+export function searchCompliantVoicings(
+  eventCount: number,
+  initialPrevious: PreviousNotes,
+  getCandidates: (
+    eventIndex: number,
+    previous: PreviousNotes,
+  ) => VoicingCandidateSource,
+  checkEvent: (
+    eventIndex: number,
+    current: PreviousNotes,
+    previous: PreviousNotes,
+    beforePrevious: PreviousNotes | null,
+  ) => VoiceLeadingViolation[],
+  budget: number,
+  initialBeforePrevious: PreviousNotes | null = null,
+): VoicingSearchResult {
+  const path: PreviousNotes[] = [];
+  let deepest: PreviousNotes[] = [];
+  let candidatesEvaluated = 0;
+
+  const visit = (
+    eventIndex: number,
+    previous: PreviousNotes,
+    beforePrevious: PreviousNotes | null,
+  ): boolean => {
+    if (eventIndex === eventCount) return true;
+    const nextCandidate = getCandidates(eventIndex, previous);
+    let candidate = nextCandidate();
+    while (candidate !== null && candidatesEvaluated < budget) {
+      candidatesEvaluated++;
+      if (
+        checkEvent(eventIndex, candidate, previous, beforePrevious).length === 0
+      ) {
+        path.push(candidate);
+        if (path.length > deepest.length) deepest = path.slice();
+        if (visit(eventIndex + 1, candidate, previous)) return true;
+        path.pop();
+      }
+      candidate = nextCandidate();
+    }
+    return false;
+  };
+
+  if (visit(0, initialPrevious, initialBeforePrevious)) {
+    return { voicings: path, compliant: true, candidatesEvaluated };
+  }
+
+  // Fall back to the best partial result, finishing it with default voicings
+  const voicings = deepest.slice();
+  let previous =
+    voicings.length > 0 ? voicings[voicings.length - 1] : initialPrevious;
+  for (let i = voicings.length; i < eventCount; i++) {
+    const fallback = getCandidates(i, previous)() ?? previous;
+    voicings.push(fallback);
+    previous = fallback;
+  }
+  return { voicings, compliant: false, candidatesEvaluated };
+}
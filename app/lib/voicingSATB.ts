@@ -120,6 +120,8 @@ export function assignBassNoteSATB(
  * @param {number} smoothness - A preference (0-10) for smooth voice leading for Alto and Tenor.
  * @param {Tonal.Key.Key} keyDetails - An object containing details about the current musical key (tonic, type, scale),
  *                                     used primarily for identifying the leading tone to avoid doubling it.
+ * @param {number[]} [doublingPcs] - Pitch classes that may be doubled, in order of preference, replacing the default
+ *                                   root/fifth/third priorities (e.g., the bass of N6 or the tonic of an augmented sixth).
  * @returns {{ tenorNoteMidi: number | null; altoNoteMidi: number | null }} An object containing the chosen MIDI notes
  *          for the Tenor and Alto voices. Either can be `null` if no suitable note is found.
  */
@@ -132,6 +134,7 @@ export function assignInnerVoicesSATB(
   bassNoteMidi: number | null,
   smoothness: number,
   keyDetails: Tonal.Key.Key, // Used for identifying leading tone etc.
+  doublingPcs?: number[],
 ): { tenorNoteMidi: number | null; altoNoteMidi: number | null } {
   if (sopranoNoteMidi === null || bassNoteMidi === null) {
     // console.warn('SATB: Cannot assign inner voices without valid soprano and bass notes.');
@@ -174,25 +177,30 @@ export function assignInnerVoicesSATB(
   // Decide which pitch classes to double if needed
   if (neededPcs.length < voicesToFill) {
     const numDoublingsNeeded = voicesToFill - neededPcs.length;
-    // Doubling Priorities: Root > 5th > 3rd. Avoid doubling LT.
     const potentialDoubles: number[] = [];
-    if (chordRootPc !== leadingTonePc) potentialDoubles.push(chordRootPc);
-    if (fifthPc !== undefined && fifthPc !== leadingTonePc)
-      potentialDoubles.push(fifthPc);
-    if (thirdPc !== undefined && thirdPc !== leadingTonePc)
-      potentialDoubles.push(thirdPc);
-
-    // Add available chord tones already present in S/B if needed and allowed
-    if (
-      bassNoteMidi % 12 !== leadingTonePc &&
-      !potentialDoubles.includes(bassNoteMidi % 12)
-    )
-      potentialDoubles.push(bassNoteMidi % 12);
-    if (
-      sopranoNoteMidi % 12 !== leadingTonePc &&
-      !potentialDoubles.includes(sopranoNoteMidi % 12)
-    )
-      potentialDoubles.push(sopranoNoteMidi % 12);
+    if (doublingPcs) {
+      // Chromatic chords with a conventional doubling (N6, augmented sixths)
+      potentialDoubles.push(...doublingPcs.filter((pc) => chordPcs.includes(pc)));
+    } else {
+      // Doubling Priorities: Root > 5th > 3rd. Avoid doubling LT.
+      if (chordRootPc !== leadingTonePc) potentialDoubles.push(chordRootPc);
+      if (fifthPc !== undefined && fifthPc !== leadingTonePc)
+        potentialDoubles.push(fifthPc);
+      if (thirdPc !== undefined && thirdPc !== leadingTonePc)
+        potentialDoubles.push(thirdPc);
+
+      // Add available chord tones already present in S/B if needed and allowed
+      if (
+        bassNoteMidi % 12 !== leadingTonePc &&
+        !potentialDoubles.includes(bassNoteMidi % 12)
+      )
+        potentialDoubles.push(bassNoteMidi % 12);
+      if (
+        sopranoNoteMidi % 12 !== leadingTonePc &&
+        !potentialDoubles.includes(sopranoNoteMidi % 12)
+      )
+        potentialDoubles.push(sopranoNoteMidi % 12);
+    }
 
     for (const pc of potentialDoubles) {
       if (pcsToDouble.length < numDoublingsNeeded) {
@@ -0,0 +1,334 @@
+// src/voicingSATBViterbi.ts
+import { VOICE_RANGES, VOICE_SPACING_LIMIT_SATB } from './constants';
+import { KeyDetails, PreviousNotesSATB } from './types';
+import { getLeadingTonePc } from './theory/harmony';
+
+/** A complete four-part voicing (MIDI notes). */
+export interface SATBVoicing {
+  soprano: number;
+  alto: number;
+  tenor: number;
+  bass: number;
+}
+
+/** The harmony of one event to be voiced. */
+export interface SATBChordSpec {
+  /** Pitch classes of the chord in root position (root first). */
+  chordPcs: number[];
+  /** Pitch class required in the bass by the inversion, or `null` for the root. */
+  requiredBassPc: number | null;
+  /** If set, only these pitch classes may be doubled (e.g., the tonic of an augmented sixth). */
+  doublingPcs?: number[];
+  /** Leading tone of the key the chord is in, if it differs from the piece's key (after a modulation). */
+  leadingTonePc?: number;
+  /**
+   * If set, the soprano should sit on one of these pitch classes (e.g., the tonic at a perfect
+   * authentic cadence). Ignored if no legal voicing puts it there.
+   */
+  sopranoPcs?: number[];
+  /**
+   * If set, the chord keeps this voicing (e.g., in a measure locked by the user) and the chords
+   * around it are voiced to lead into and out of it.
+   */
+  voicing?: SATBVoicing;
+}
+
+/**
+ * Weights of the cost terms minimized by `findOptimalSATBVoicings`.
+ * - `motion`: per semitone moved by each voice between events.
+ * - `leap`: per semitone beyond a third (a fifth in the bass) in a single voice.
+ * - `parallels`: per pair of voices moving in parallel fifths or octaves.
+ * - `doubling`: per departure from the preferred doubling (omitted fifth, doubled third).
+ * - `register`: per semitone each voice sits away from the middle of its range.
+ */
+export interface SATBVoicingCostWeights {
+  motion: number;
+  leap: number;
+  parallels: number;
+  doubling: number;
+  register: number;
+}
+
+export const DEFAULT_SATB_VOICING_COST_WEIGHTS: Readonly<SATBVoicingCostWeights> =
+  {
+    motion: 1,
+    leap: 3,
+    parallels: 100,
+    doubling: 4,
+    register: 0.1,
+  };
+
+const VOICE_ORDER = ['soprano', 'alto', 'tenor', 'bass'] as const;
+
+/** Returns the notes of a voice range whose pitch class is one of `pcs`, ascending. */
+function notesInRange(
+  [minMidi, maxMidi]: readonly [number, number],
+  pcs: number[],
+) {
+  const notes: number[] = [];
+  for (let midi = minMidi; midi <= maxMidi; midi++) {
+    if (pcs.includes(midi % 12)) notes.push(midi);
+  }
+  return notes;
+}
+
+/** Pitch class `semitones` above `rootPc` if it is a chord tone, otherwise `undefined`. */
+function findChordTone(
+  chordPcs: number[],
+  rootPc: number,
+  semitones: number[],
+) {
+  return chordPcs.find((pc) => semitones.includes((pc - rootPc + 12) % 12));
+}
+
+/**
+ * Enumerates every legal SATB voicing of a chord: each voice within `VOICE_RANGES`, no
+ * crossing or unisons, adjacent spacing within `VOICE_SPACING_LIMIT_SATB`, the required
+ * bass pitch class, root and third present, and neither the leading tone nor the chordal
+ * seventh doubled. Chords with `doublingPcs` must be complete and double only those pitch
+ * classes. If the required bass pitch class is unavailable the root is used.
+ *
+ * @param {SATBChordSpec} chord - The chord to voice.
+ * @param {number} leadingTonePc - Pitch class of the key's leading tone (-1 for none).
+ * @returns {SATBVoicing[]} All legal voicings (empty if there are none).
+ */
+export function enumerateSATBVoicings(
+  chord: SATBChordSpec,
+  leadingTonePc: number,
+): SATBVoicing[] {
+  const { chordPcs } = chord;
+  const rootPc = chordPcs[0];
+  const thirdPc = findChordTone(chordPcs, rootPc, [3, 4]);
+  const seventhPc = findChordTone(chordPcs, rootPc, [9, 10, 11]);
+
+  let bassNotes = notesInRange(VOICE_RANGES.bass, [
+    chord.requiredBassPc ?? rootPc,
+  ]);
+  if (bassNotes.length === 0)
+    bassNotes = notesInRange(VOICE_RANGES.bass, [rootPc]);
+  const tenorNotes = notesInRange(VOICE_RANGES.tenor, chordPcs);
+  const altoNotes = notesInRange(VOICE_RANGES.alto, chordPcs);
+  const sopranoNotes = notesInRange(VOICE_RANGES.soprano, chordPcs);
+
+  const voicings: SATBVoicing[] = [];
+  bassNotes.forEach((bass) =>
+    tenorNotes.forEach((tenor) => {
+      if (tenor <= bass || tenor - bass > VOICE_SPACING_LIMIT_SATB.tenor_bass)
+        return;
+      altoNotes.forEach((alto) => {
+        if (alto <= tenor || alto - tenor > VOICE_SPACING_LIMIT_SATB.alto_tenor)
+          return;
+        sopranoNotes.forEach((soprano) => {
+          if (
+            soprano <= alto ||
+            soprano - alto > VOICE_SPACING_LIMIT_SATB.soprano_alto
+          )
+            return;
+          const pcs = [soprano, alto, tenor, bass].map((n) => n % 12);
+          const count = (pc: number | undefined) =>
+            pcs.filter((p) => p === pc).length;
+          if (count(rootPc) === 0) return;
+          if (thirdPc !== undefined && count(thirdPc) === 0) return;
+          if (count(leadingTonePc) > 1 || count(seventhPc) > 1) return;
+          if (
+            chord.doublingPcs &&
+            chordPcs.some(
+              (pc) =>
+                count(pc) === 0 ||
+                (count(pc) > 1 && !chord.doublingPcs!.includes(pc)),
+            )
+          )
+            return;
+          voicings.push({ soprano, alto, tenor, bass });
+        });
+      });
+    }),
+  );
+  return voicings;
+}
+
+/**
+ * Cost of a voicing on its own: doubling preferences and register.
+ *
+ * @param {SATBVoicing} voicing - The voicing.
+ * @param {SATBChordSpec} chord - The chord it voices.
+ * @param {SATBVoicingCostWeights} [weights=DEFAULT_SATB_VOICING_COST_WEIGHTS] - Cost weights.
+ * @returns {number} The cost (lower is better).
+ */
+export function getSATBVoicingCost(
+  voicing: SATBVoicing,
+  chord: SATBChordSpec,
+  weights: SATBVoicingCostWeights = DEFAULT_SATB_VOICING_COST_WEIGHTS,
+): number {
+  const rootPc = chord.chordPcs[0];
+  const thirdPc = findChordTone(chord.chordPcs, rootPc, [3, 4]);
+  const fifthPc = findChordTone(chord.chordPcs, rootPc, [6, 7, 8]);
+  const pcs = VOICE_ORDER.map((voice) => voicing[voice] % 12);
+  const count = (pc: number | undefined) => pcs.filter((p) => p === pc).length;
+
+  let doublingPenalty = 0;
+  if (fifthPc !== undefined && count(fifthPc) === 0) doublingPenalty++;
+  if (count(thirdPc) > 1) doublingPenalty++;
+  const registerDistance = VOICE_ORDER.reduce((sum, voice) => {
+    const [minMidi, maxMidi] = VOICE_RANGES[voice];
+    return sum + Math.abs(voicing[voice] - (minMidi + maxMidi) / 2);
+  }, 0);
+  return (
+    doublingPenalty * weights.doubling + registerDistance * weights.register
+  );
+}
+
+/**
+ * Cost of moving from one voicing to the next: voice motion, leaps and parallel
+ * perfect fifths/octaves between any pair of voices.
+ *
+ * @param {SATBVoicing} previous - The earlier voicing.
+ * @param {SATBVoicing} current - The later voicing.
+ * @param {SATBVoicingCostWeights} [weights=DEFAULT_SATB_VOICING_COST_WEIGHTS] - Cost weights.
+ * @returns {number} The cost (lower is better).
+ */
+export function getSATBTransitionCost(
+  previous: SATBVoicing,
+  current: SATBVoicing,
+  weights: SATBVoicingCostWeights = DEFAULT_SATB_VOICING_COST_WEIGHTS,
+): number {
+  let cost = 0;
+  VOICE_ORDER.forEach((voice) => {
+    const interval = Math.abs(current[voice] - previous[voice]);
+    const leapThreshold = voice === 'bass' ? 7 : 4;
+    cost += interval * weights.motion;
+    if (interval > leapThreshold)
+      cost += (interval - leapThreshold) * weights.leap;
+  });
+  for (let upper = 0; upper < VOICE_ORDER.length; upper++) {
+    for (let lower = upper + 1; lower < VOICE_ORDER.length; lower++) {
+      const u = VOICE_ORDER[upper];
+      const l = VOICE_ORDER[lower];
+      const upperMotion = current[u] - previous[u];
+      const lowerMotion = current[l] - previous[l];
+      if (
+        upperMotion === 0 ||
+        Math.sign(upperMotion) !== Math.sign(lowerMotion)
+      )
+        continue;
+      const previousInterval = (previous[u] - previous[l]) % 12;
+      const currentInterval = (current[u] - current[l]) % 12;
+      if (
+        previousInterval === currentInterval &&
+        (currentInterval === 0 || currentInterval === 7)
+      )
+        cost += weights.parallels;
+    }
+  }
+  return cost;
+}
+
+/**
+ * Voices a whole sequence of chords at once with a Viterbi (dynamic-programming) search
+ * over the legal voicings of each chord, minimizing the summed voicing and transition costs.
+ * Unlike the greedy per-event voicer this can accept a slightly worse voicing now to avoid
+ * being forced into parallels or large leaps several chords later.
+ *
+ * @param {SATBChordSpec[]} chords - The chords of consecutive events.
+ * @param {KeyDetails} keyDetails - The key (used to avoid doubling the leading tone), unless a chord
+ *        gives its own `leadingTonePc`.
+ * @param {PreviousNotesSATB | null} [previousNotes=null] - Notes sounding before the first chord, if any.
+ * @param {SATBVoicingCostWeights} [weights=DEFAULT_SATB_VOICING_COST_WEIGHTS] - Cost weights.
+ * @returns {PreviousNotesSATB[]} One voicing per chord. A chord without legal voicings gets
+ *          all-`null` notes and restarts the search from the following chord.
+ */
+export function findOptimalSATBVoicings(
+  chords: SATBChordSpec[],
+  keyDetails: KeyDetails,
+  previousNotes: PreviousNotesSATB | null = null,
+  weights: SATBVoicingCostWeights = DEFAULT_SATB_VOICING_COST_WEIGHTS,
+): PreviousNotesSATB[] {
+  const leadingTonePc = getLeadingTonePc(keyDetails);
+  const result: PreviousNotesSATB[] = [];
+  const previousVoicing =
+    previousNotes && VOICE_ORDER.every((voice) => previousNotes[voice] !== null)
+      ? (previousNotes as SATBVoicing)
+      : null;
+
+  // Runs of chords with at least one legal voicing are solved independently
+  let runStart = 0;
+  let runPrevious = previousVoicing;
+  const candidatesPerChord = chords.map((chord) => {
+    if (chord.voicing) return [chord.voicing];
+    const voicings = enumerateSATBVoicings(
+      chord,
+      chord.leadingTonePc ?? leadingTonePc,
+    );
+    const { sopranoPcs } = chord;
+    const withSoprano = sopranoPcs
+      ? voicings.filter((v) => sopranoPcs.includes(v.soprano % 12))
+      : [];
+    return withSoprano.length > 0 ? withSoprano : voicings;
+  });
+  for (let i = 0; i <= chords.length; i++) {
+    if (i < chords.length && candidatesPerChord[i].length > 0) continue;
+    if (i > runStart) {
+      result.push(
+        ...solveRun(
+          chords.slice(runStart, i),
+          candidatesPerChord.slice(runStart, i),
+          runPrevious,
+          weights,
+        ),
+      );
+    }
+    if (i < chords.length) {
+      console.warn(
+        `[WARN] SATB Viterbi: No legal voicing for chord ${i + 1}; leaving it unvoiced.`,
+      );
+      result.push({ soprano: null, alto: null, tenor: null, bass: null });
+    }
+    runStart = i + 1;
+    runPrevious = null;
+  }
+  return result;
+}
+
+/** Viterbi search over one run of chords that all have legal voicings. */
+function solveRun(
+  chords: SATBChordSpec[],
+  candidatesPerChord: SATBVoicing[][],
+  previous: SATBVoicing | null,
+  weights: SATBVoicingCostWeights,
+): SATBVoicing[] {
+  let costs = candidatesPerChord[0].map(
+    (voicing) =>
+      getSATBVoicingCost(voicing, chords[0], weights) +
+      (previous ? getSATBTransitionCost(previous, voicing, weights) : 0),
+  );
+  const backPointers: number[][] = [];
+
+  for (let i = 1; i < chords.length; i++) {
+    const previousCandidates = candidatesPerChord[i - 1];
+    const pointers: number[] = [];
+    const nextCosts = candidatesPerChord[i].map((voicing) => {
+      let bestCost = Infinity;
+      let bestIndex = 0;
+      previousCandidates.forEach((previousVoicing, j) => {
+        const cost =
+          costs[j] + getSATBTransitionCost(previousVoicing, voicing, weights);
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestIndex = j;
+        }
+      });
+      pointers.push(bestIndex);
+      return bestCost + getSATBVoicingCost(voicing, chords[i], weights);
+    });
+    backPointers.push(pointers);
+    costs = nextCosts;
+  }
+
+  let index = costs.indexOf(Math.min(...costs));
+  const path: SATBVoicing[] = [candidatesPerChord[chords.length - 1][index]];
+  for (let i = chords.length - 1; i > 0; i--) {
+    index = backPointers[i - 1][index];
+    path.unshift(candidatesPerChord[i - 1][index]);
+  }
+  return path;
+}
@@ -2,7 +2,7 @@
 import * as Tonal from 'tonal';
 import { VOICE_RANGES } from './constants';
 import { midiToNoteName } from './theory/harmony'; // Used for logging, can be removed if logs are stripped
-import { MelodicState, GenerationStyle } from './types';
+import { MelodicState, GenerationStyle, RandomSource } from './types';
 
 /**
  * Selects the "best" MIDI note from a list of allowed notes based on several criteria:
@@ -146,6 +146,7 @@ export function findClosestNote(
  *                                      MelodyAccompaniment style to determine diatonic notes.
  * @param {MelodicState} [melodicState] - Optional. The current melodic state (last direction and streak),
  *                                        used to guide melody generation in MelodyAccompaniment style.
+ * @param {RandomSource} [rng=Math.random] - Random source for the stochastic choices in MelodyAccompaniment style.
  * @returns {number | null} The chosen MIDI note number, or `null` if no suitable note can be found.
  */
 export function assignSopranoOrMelodyNote(
@@ -155,6 +156,7 @@ export function assignSopranoOrMelodyNote(
   style: GenerationStyle,
   keySignature: string = 'C',
   melodicState?: MelodicState,
+  rng: RandomSource = Math.random,
 ): number | null {
   if (style === 'SATB') {
     const [minRange, maxRange] = VOICE_RANGES.soprano; // Use soprano range for SATB
@@ -230,7 +232,7 @@ export function assignSopranoOrMelodyNote(
       } else {
         preferredRange = Array.from(
           { length: maxInitialStep },
-          (_, i) => previousNote + (Math.random() < 0.5 ? i + 1 : -(i + 1)),
+          (_, i) => previousNote + (rng() < 0.5 ? i + 1 : -(i + 1)),
         );
       }
     }
@@ -285,7 +287,7 @@ export function assignSopranoOrMelodyNote(
     }
 
     // Only add chromatic notes with extremely low probability
-    if (Math.random() < 0.05) {
+    if (rng() < 0.05) {
       // 5% chance to even consider chromatic notes
       for (const note of preferredRange) {
         if (
@@ -302,10 +304,7 @@ export function assignSopranoOrMelodyNote(
 
     // Strong oscillation prevention
     const oscillationPenalty = Math.max(0.2, streak * 0.3);
-    if (
-      availableNotes.includes(previousNote) &&
-      Math.random() < oscillationPenalty
-    ) {
+    if (availableNotes.includes(previousNote) && rng() < oscillationPenalty) {
       availableNotes = availableNotes.filter((n) => n !== previousNote);
     }
   } else {
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, Repeat, Square } from 'lucide-react';
+import { Button } from './shadcn/components/ui/button';
+import { Label } from './shadcn/components/ui/label';
+import { Slider } from './shadcn/components/slider';
+import { GeneratedPieceData } from '@/app/lib/types';
+import { DEFAULT_MIDI_TEMPO_BPM } from '@/app/lib/midiWriter';
+import {
+  getPlaybackParts,
+  MAX_PLAYBACK_TEMPO_BPM,
+  MIN_PLAYBACK_TEMPO_BPM,
+  PartPlaybackState,
+  PlaybackEngine,
+  PlaybackState,
+} from '@/app/lib/playback';
+
+/**
+ * Transport controls for listening to a generated piece in the browser:
+ * play/pause/stop, loop, tempo and per-part mute/solo. Reports the sounding
+ * measure through `onMeasureChange` so the preview and progression can follow it.
+ */
+export default function PlaybackControls({
+  pieceData,
+  onMeasureChange,
+}: {
+  pieceData: GeneratedPieceData;
+  onMeasureChange?: (measureIndex: number | null) => void;
+}) {
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  // Keep the latest callback without recreating the engine when it changes
+  const onMeasureChangeRef = useRef(onMeasureChange);
+  onMeasureChangeRef.current = onMeasureChange;
+
+  const parts = useMemo(() => getPlaybackParts(pieceData), [pieceData]);
+  const [playbackState, setPlaybackState] = useState<PlaybackState>('stopped');
+  const [tempo, setTempo] = useState<number>(DEFAULT_MIDI_TEMPO_BPM);
+  const [loop, setLoop] = useState<boolean>(false);
+  const [partStates, setPartStates] = useState<
+    Record<string, PartPlaybackState>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+
+  // A new engine per piece; the old one is stopped and its audio context closed
+  useEffect(() => {
+    const engine = new PlaybackEngine(pieceData, {
+      onStateChange: setPlaybackState,
+      onPositionChange: (position) =>
+        onMeasureChangeRef.current?.(position ? position.measureIndex : null),
+    });
+    engineRef.current = engine;
+    setPlaybackState('stopped');
+    setError(null);
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, [pieceData]);
+
+  // Push control values into the current engine (also right after it is created)
+  useEffect(() => {
+    engineRef.current?.setTempo(tempo);
+  }, [tempo, pieceData]);
+  useEffect(() => {
+    engineRef.current?.setLoop(loop);
+  }, [loop, pieceData]);
+  useEffect(() => {
+    engineRef.current?.setPartStates(partStates);
+  }, [partStates, pieceData]);
+
+  const handlePlayPause = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (playbackState === 'playing') {
+      engine.pause();
+      return;
+    }
+    try {
+      engine.play();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Playback failed.');
+    }
+  };
+
+  const togglePartState = (key: string, field: keyof PartPlaybackState) =>
+    setPartStates((current) => {
+      const state = current[key] ?? { muted: false, solo: false };
+      return { ...current, [key]: { ...state, [field]: !state[field] } };
+    });
+
+  return (
+    <div className="space-y-3 rounded border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          size="icon"
+          onClick={handlePlayPause}
+          aria-label={playbackState === 'playing' ? 'Pause' : 'Play'}
+        >
+          {playbackState === 'playing' ? <Pause /> : <Play />}
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={() => engineRef.current?.stop()}
+          disabled={playbackState === 'stopped'}
+          aria-label="Stop"
+        >
+          <Square />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant={loop ? 'secondary' : 'outline'}
+          onClick={() => setLoop(!loop)}
+          aria-label="Loop"
+          aria-pressed={loop}
+        >
+          <Repeat />
+        </Button>
+        <div className="ml-2 min-w-40 flex-1 space-y-1">
+          <Label htmlFor="tempo-slider">Tempo ({tempo} BPM)</Label>
+          <Slider
+            id="tempo-slider"
+            min={MIN_PLAYBACK_TEMPO_BPM}
+            max={MAX_PLAYBACK_TEMPO_BPM}
+            step={1}
+            value={[tempo]}
+            onValueChange={(value) => setTempo(value[0])}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {parts.map((part) => {
+          const state = partStates[part.key] ?? { muted: false, solo: false };
+          return (
+            <div key={part.key} className="flex items-center gap-1 text-sm">
+              <span className="mr-1">{part.name}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant={state.muted ? 'secondary' : 'outline'}
+                onClick={() => togglePartState(part.key, 'muted')}
+                aria-pressed={state.muted}
+              >
+                M
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={state.solo ? 'secondary' : 'outline'}
+                onClick={() => togglePartState(part.key, 'solo')}
+                aria-pressed={state.solo}
+              >
+                S
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
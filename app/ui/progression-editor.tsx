@@ -0,0 +1,137 @@
+'use client';
+
+import { Lock, LockOpen } from 'lucide-react';
+import { getChordInfoFromRoman } from '@/app/lib/theory/harmony';
+
+/** A chord of the generated progression and where it starts. */
+export type ProgressionChip = {
+  roman: string;
+  measureIndex: number;
+  beat: number;
+};
+
+/** `true` if `roman` is a Roman numeral the generator can voice in `keySignature`. */
+export const isValidChord = (roman: string, keySignature: string) => {
+  try {
+    getChordInfoFromRoman(roman, keySignature);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The generated progression as editable chord chips grouped by measure. Each measure can be
+ * locked (to keep its notes when the others are regenerated) and clicking its number selects it
+ * (e.g., to highlight it in the score preview). Chords that cannot be parsed are outlined in red.
+ */
+export default function ProgressionEditor({
+  chips,
+  numMeasures,
+  keySignature,
+  lockedMeasures,
+  highlightedMeasure,
+  getCadenceLabel,
+  readOnly = false,
+  onChangeChord,
+  onToggleLock,
+  onSelectMeasure,
+}: {
+  chips: ProgressionChip[];
+  numMeasures: number;
+  keySignature: string;
+  lockedMeasures: number[];
+  highlightedMeasure: number | null;
+  /** Label of the cadence ending on a chip, if any. */
+  getCadenceLabel?: (chip: ProgressionChip) => string | undefined;
+  /** Shows the chords without inputs or locks (for styles that cannot regenerate measures). */
+  readOnly?: boolean;
+  onChangeChord?: (chipIndex: number, roman: string) => void;
+  onToggleLock?: (measureIndex: number) => void;
+  onSelectMeasure?: (measureIndex: number) => void;
+}) {
+  const measures = Array.from({ length: numMeasures }, (_, measureIndex) =>
+    chips
+      .map((chip, chipIndex) => ({ chip, chipIndex }))
+      .filter(({ chip }) => chip.measureIndex === measureIndex),
+  );
+
+  return (
+    <div className="bg-muted flex flex-wrap gap-2 rounded p-2 font-mono text-sm">
+      {measures.map((measureChips, measureIndex) => {
+        const locked = lockedMeasures.includes(measureIndex);
+        return (
+          <div
+            key={measureIndex}
+            className={`flex items-center gap-1 rounded border px-1 ${
+              highlightedMeasure === measureIndex
+                ? 'border-amber-400 bg-amber-300'
+                : locked
+                  ? 'border-foreground/40'
+                  : 'border-transparent'
+            }`}
+          >
+            <button
+              type="button"
+              title={`Measure ${measureIndex + 1}`}
+              className="text-muted-foreground text-xs hover:underline"
+              onClick={() => onSelectMeasure?.(measureIndex)}
+            >
+              {measureIndex + 1}
+            </button>
+            {measureChips.length === 0 && (
+              <span className="text-muted-foreground" title="Chord continues">
+                –
+              </span>
+            )}
+            {measureChips.map(({ chip, chipIndex }) => {
+              const cadenceLabel = getCadenceLabel?.(chip);
+              const valid = isValidChord(chip.roman, keySignature);
+              return (
+                <span key={chipIndex} className="flex items-center">
+                  {readOnly ? (
+                    <span className="px-1">{chip.roman}</span>
+                  ) : (
+                    <input
+                      aria-label={`Chord ${chipIndex + 1} (measure ${measureIndex + 1})`}
+                      aria-invalid={!valid}
+                      title={valid ? undefined : 'Unknown chord'}
+                      size={Math.max(2, chip.roman.length)}
+                      className={`bg-background rounded border px-1 ${
+                        valid ? 'border-transparent' : 'border-destructive'
+                      }`}
+                      value={chip.roman}
+                      onChange={(e) =>
+                        onChangeChord?.(chipIndex, e.target.value.trim())
+                      }
+                    />
+                  )}
+                  {cadenceLabel && (
+                    <span className="text-muted-foreground ml-1 text-xs">
+                      {cadenceLabel}
+                    </span>
+                  )}
+                </span>
+              );
+            })}
+            {!readOnly && (
+              <button
+                type="button"
+                aria-pressed={locked}
+                title={locked ? 'Unlock measure' : 'Lock measure'}
+                className={locked ? '' : 'text-muted-foreground'}
+                onClick={() => onToggleLock?.(measureIndex)}
+              >
+                {locked ? (
+                  <Lock className="h-3 w-3" />
+                ) : (
+                  <LockOpen className="h-3 w-3" />
+                )}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { OpenSheetMusicDisplay } from 'opensheetmusicdisplay';
+import { Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from './shadcn/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from './shadcn/components/alert';
+
+export type ScoreLayout = 'page' | 'continuous';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 2;
+const ZOOM_STEP = 0.1;
+
+/** OSMD page format ids for each layout ("Endless" draws one continuous system strip). */
+const PAGE_FORMATS: Record<ScoreLayout, string> = {
+  page: 'A4_P',
+  continuous: 'Endless',
+};
+
+/**
+ * Renders MusicXML in the browser with OpenSheetMusicDisplay.
+ * `highlightedMeasure` (0-based) is marked with OSMD's measure cursor so the
+ * score can be tied to the generated progression list.
+ */
+export default function ScorePreview({
+  musicXml,
+  highlightedMeasure = null,
+}: {
+  musicXml: string;
+  highlightedMeasure?: number | null;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const osmdRef = useRef<OpenSheetMusicDisplay | null>(null);
+  const [zoom, setZoom] = useState<number>(1);
+  const [layout, setLayout] = useState<ScoreLayout>('page');
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>(
+    'loading',
+  );
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Bumped after each successful load / render so dependent effects re-run
+  const [loadCount, setLoadCount] = useState<number>(0);
+  const [renderCount, setRenderCount] = useState<number>(0);
+
+  // Load the MusicXML whenever it changes (OSMD is imported lazily as it needs the DOM)
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    setErrorMessage(null);
+
+    const load = async () => {
+      try {
+        if (!osmdRef.current) {
+          const { OpenSheetMusicDisplay } = await import(
+            'opensheetmusicdisplay'
+          );
+          if (cancelled || !containerRef.current) return;
+          osmdRef.current = new OpenSheetMusicDisplay(containerRef.current, {
+            autoResize: true,
+            backend: 'svg',
+            drawTitle: true,
+            cursorsOptions: [
+              { type: 3, color: '#f59e0b', alpha: 0.3, follow: true },
+            ],
+          });
+        }
+        await osmdRef.current.load(musicXml);
+        if (cancelled) return;
+        setLoadCount((count) => count + 1);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Score preview failed to load MusicXML:', err);
+        osmdRef.current?.clear();
+        setErrorMessage(
+          err instanceof Error
+            ? err.message
+            : 'Unknown error parsing MusicXML.',
+        );
+        setStatus('error');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [musicXml]);
+
+  // Render (again) after loading and whenever zoom or layout change
+  useEffect(() => {
+    const osmd = osmdRef.current;
+    if (loadCount === 0 || !osmd || !osmd.IsReadyToRender()) return;
+    try {
+      osmd.Zoom = zoom;
+      osmd.setPageFormat(PAGE_FORMATS[layout]);
+      osmd.render();
+      setStatus('ready');
+      setRenderCount((count) => count + 1);
+    } catch (err) {
+      console.error('Score preview failed to render:', err);
+      setErrorMessage(
+        err instanceof Error ? err.message : 'Unknown error rendering score.',
+      );
+      setStatus('error');
+    }
+  }, [loadCount, zoom, layout]);
+
+  // Move the measure cursor to the highlighted measure
+  useEffect(() => {
+    const osmd = osmdRef.current;
+    if (renderCount === 0 || !osmd || status !== 'ready') return;
+    const cursor = osmd.cursor;
+    if (!cursor) return;
+    if (highlightedMeasure === null || highlightedMeasure < 0) {
+      cursor.hide();
+      return;
+    }
+    cursor.reset();
+    while (
+      !cursor.Iterator.EndReached &&
+      cursor.Iterator.CurrentMeasureIndex < highlightedMeasure
+    ) {
+      cursor.next();
+    }
+    cursor.show();
+  }, [renderCount, highlightedMeasure, status]);
+
+  // Release the rendered SVG on unmount
+  useEffect(() => {
+    return () => {
+      osmdRef.current?.clear();
+      osmdRef.current = null;
+    };
+  }, []);
+
+  const changeZoom = (delta: number) =>
+    setZoom((current) =>
+      Math.min(
+        MAX_ZOOM,
+        Math.max(MIN_ZOOM, Math.round((current + delta) * 10) / 10),
+      ),
+    );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => changeZoom(-ZOOM_STEP)}
+          disabled={zoom <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          <ZoomOut />
+        </Button>
+        <span className="w-12 text-center font-mono text-sm">
+          {Math.round(zoom * 100)}%
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => changeZoom(ZOOM_STEP)}
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          <ZoomIn />
+        </Button>
+        <div className="ml-auto flex gap-1">
+          {(['page', 'continuous'] as const).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={layout === option ? 'secondary' : 'outline'}
+              onClick={() => setLayout(option)}
+            >
+              {option === 'page' ? 'Page' : 'Continuous'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {status === 'error' && (
+        <Alert variant="destructive">
+          <AlertTitle>Preview unavailable</AlertTitle>
+          <AlertDescription>
+            The generated MusicXML could not be displayed
+            {errorMessage ? `: ${errorMessage}` : '.'} You can still download
+            the file and open it in another program.
+          </AlertDescription>
+        </Alert>
+      )}
+      {status === 'loading' && (
+        <div className="text-muted-foreground flex items-center text-sm">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Rendering score...
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        className={`overflow-auto rounded border bg-white ${
+          status === 'error' ? 'hidden' : ''
+        } ${layout === 'continuous' ? 'max-h-96' : 'max-h-[32rem]'}`}
+      />
+    </div>
+  );
+}
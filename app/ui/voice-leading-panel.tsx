@@ -0,0 +1,136 @@
+'use client';
+
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from './shadcn/components/ui/accordion';
+import { Badge } from './shadcn/components/ui/badge';
+import { midiToNoteName } from '@/app/lib/theory/harmony';
+import { VoiceLeadingReport, VoiceLeadingRuleId } from '@/app/lib/types';
+
+const RULE_LABELS: Record<VoiceLeadingRuleId, string> = {
+  'voice-crossing': 'Voice crossing',
+  spacing: 'Spacing',
+  'parallel-fifths': 'Parallel fifths',
+  'parallel-octaves': 'Parallel octaves',
+  'hidden-fifths': 'Hidden fifths',
+  'hidden-octaves': 'Hidden octaves',
+  'unresolved-leading-tone': 'Unresolved leading tone',
+  'unresolved-seventh': 'Unresolved seventh',
+  'augmented-interval': 'Augmented interval',
+  'leap-over-octave': 'Leap over an octave',
+  'unrecovered-leap': 'Unrecovered leap',
+  'voice-overlap': 'Voice overlap',
+  'doubled-leading-tone': 'Doubled leading tone',
+};
+
+/** Formats a beat number such as 1, 2.5 for display. */
+const formatBeat = (beat: number) => String(Math.round(beat * 100) / 100);
+
+/**
+ * Collapsible list of the voice-leading violations found while generating a piece.
+ * Clicking an issue selects its measure (e.g., to highlight it in the score preview).
+ */
+export default function VoiceLeadingPanel({
+  report,
+  onSelectMeasure,
+}: {
+  report: VoiceLeadingReport;
+  onSelectMeasure?: (measureIndex: number) => void;
+}) {
+  const total = report.violations.length;
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="voice-leading">
+        <AccordionTrigger>
+          <span className="flex items-center gap-2">
+            Voice-leading issues ({total})
+            {report.countsBySeverity.error > 0 && (
+              <Badge variant="destructive">
+                {report.countsBySeverity.error} errors
+              </Badge>
+            )}
+            {report.countsBySeverity.warning > 0 && (
+              <Badge variant="secondary">
+                {report.countsBySeverity.warning} warnings
+              </Badge>
+            )}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent className="space-y-3">
+          {report.unresolvedMeasures.length > 0 && (
+            <p className="text-destructive text-sm">
+              No compliant voicing found for measure
+              {report.unresolvedMeasures.length > 1 ? 's' : ''}{' '}
+              {report.unresolvedMeasures.map((measure, index) => (
+                <span key={measure}>
+                  {index > 0 && ', '}
+                  <button
+                    type="button"
+                    className="font-mono underline"
+                    onClick={() => onSelectMeasure?.(measure - 1)}
+                  >
+                    M{measure}
+                  </button>
+                </span>
+              ))}
+              .
+            </p>
+          )}
+          {total === 0 ? (
+            <p className="text-muted-foreground">
+              No voice-leading issues found.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {(
+                  Object.entries(report.countsByRule) as [
+                    VoiceLeadingRuleId,
+                    number,
+                  ][]
+                ).map(([ruleId, count]) => (
+                  <Badge key={ruleId} variant="outline">
+                    {RULE_LABELS[ruleId] ?? ruleId}: {count}
+                  </Badge>
+                ))}
+              </div>
+              <ul className="max-h-64 space-y-1 overflow-y-auto">
+                {report.violations.map((violation, index) => (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      className="hover:bg-muted w-full rounded px-2 py-1 text-left"
+                      onClick={() => onSelectMeasure?.(violation.measure - 1)}
+                    >
+                      <span
+                        className={`font-mono ${
+                          violation.severity === 'error'
+                            ? 'text-destructive'
+                            : 'text-muted-foreground'
+                        }`}
+                      >
+                        M{violation.measure} B{formatBeat(violation.beat)}
+                      </span>{' '}
+                      <span className="font-medium">
+                        {RULE_LABELS[violation.ruleId] ?? violation.ruleId}
+                      </span>{' '}
+                      ({violation.voices.join('/')}:{' '}
+                      {violation.pitches
+                        .map((midi) => midiToNoteName(midi))
+                        .join('-')}
+                      ) — {violation.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
@@ -0,0 +1,94 @@
+// Builds the Markov transition tables of the progression style presets (see `MarkovTable` in
+// app/lib/types.ts) from folders of Roman-numeral text files. Each line of a text file is one
+// progression, with chords separated by spaces, commas or barlines ("|"); "#" starts a comment.
+//
+// Usage: node scripts/build-progression-models.js [corpusDir] [outputDir] [--order=1|2]
+// Every subfolder of corpusDir (default scripts/progression-corpus) becomes <subfolder>.json in
+// outputDir (default app/lib/progressionModels); "bach-chorale" is named "Bach chorale".
+const fs = require('fs');
+const path = require('path');
+
+function readProgressions(folder) {
+  return fs
+    .readdirSync(folder)
+    .filter((file) => file.endsWith('.txt'))
+    .sort()
+    .flatMap((file) =>
+      fs
+        .readFileSync(path.join(folder, file), 'utf8')
+        .split('\n')
+        .map((line) =>
+          line
+            .replace(/#.*/, '')
+            .split(/[\s,|]+/)
+            .filter(Boolean),
+        )
+        .filter((chords) => chords.length > 1),
+    );
+}
+
+function buildTable(name, progressions, order) {
+  const counts = {};
+  const count = (context, chord) => {
+    counts[context] = counts[context] || {};
+    counts[context][chord] = (counts[context][chord] || 0) + 1;
+  };
+  progressions.forEach((chords) => {
+    for (let i = 1; i < chords.length; i++) {
+      count(chords[i - 1], chords[i]);
+      if (order === 2 && i >= 2)
+        count(`${chords[i - 2]} ${chords[i - 1]}`, chords[i]);
+    }
+  });
+  // Sorted keys keep the output stable between runs
+  const sorted = (object) =>
+    Object.keys(object)
+      .sort()
+      .reduce((result, key) => ({ ...result, [key]: object[key] }), {});
+  const transitions = sorted(counts);
+  Object.keys(transitions).forEach((context) => {
+    transitions[context] = sorted(transitions[context]);
+  });
+  return { name, order, transitions };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const orderArg = args.find((arg) => arg.startsWith('--order='));
+  const order = orderArg ? Number(orderArg.slice('--order='.length)) : 2;
+  if (order !== 1 && order !== 2)
+    throw new Error(`Order must be 1 or 2 (got ${orderArg}).`);
+  const [
+    corpusDir = 'scripts/progression-corpus',
+    outputDir = 'app/lib/progressionModels',
+  ] = args.filter((arg) => !arg.startsWith('--'));
+
+  const styles = fs
+    .readdirSync(corpusDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  if (styles.length === 0)
+    throw new Error(`No style folders found in ${corpusDir}.`);
+  fs.mkdirSync(outputDir, { recursive: true });
+  styles.forEach((style) => {
+    const progressions = readProgressions(path.join(corpusDir, style));
+    if (progressions.length === 0)
+      throw new Error(`No progressions found for "${style}".`);
+    const name =
+      style.charAt(0).toUpperCase() + style.slice(1).replace(/-/g, ' ');
+    const table = buildTable(name, progressions, order);
+    const outputFile = path.join(outputDir, `${style}.json`);
+    fs.writeFileSync(outputFile, `${JSON.stringify(table, null, 2)}\n`);
+    console.log(
+      `Built ${outputFile} from ${progressions.length} progressions (${Object.keys(table.transitions).length} contexts)`,
+    );
+  });
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}